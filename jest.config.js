@@ -1,6 +1,10 @@
 /** @type {import('jest').Config} */
 const config = {
-  projects: ['<rootDir>/design-system', '<rootDir>/packages/keystatic'],
+  projects: [
+    '<rootDir>/design-system',
+    '<rootDir>/packages/collab-server',
+    '<rootDir>/packages/keystatic',
+  ],
   collectCoverageFrom: [
     '**/packages/**/*.{ts,tsx}',
     '!**/dist/**',
@@ -0,0 +1,12 @@
+/** @type {import('@jest/types').Config.InitialOptions} */
+const config = {
+  displayName: 'collab-server',
+  testEnvironment: 'node',
+  clearMocks: true,
+  transform: {
+    '^.+\\.[tj]sx?$': ['babel-jest', { rootMode: 'upward' }],
+  },
+  extensionsToTreatAsEsm: ['.ts'],
+};
+
+export default config;
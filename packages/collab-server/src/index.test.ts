@@ -0,0 +1,276 @@
+import { afterEach, expect, test } from '@jest/globals';
+import { AddressInfo } from 'node:net';
+import { Server } from 'node:http';
+import { WebSocket } from 'ws';
+import * as Y from 'yjs';
+import * as syncProtocol from 'y-protocols/sync';
+import * as authProtocol from 'y-protocols/auth';
+import * as encoding from 'lib0/encoding';
+import * as decoding from 'lib0/decoding';
+import { createCollabServer } from '.';
+
+const messageSync = 0;
+const messageAuth = 2;
+const messageQueryAwareness = 3;
+const messageAwareness = 1;
+const messageSubDocSync = 4;
+const messageChunkStart = 5;
+
+const authMessageToken = 0;
+const authMessageAuthenticated = 2;
+
+let servers: Server[] = [];
+
+afterEach(async () => {
+  await Promise.all(
+    servers.map(server => new Promise(resolve => server.close(resolve)))
+  );
+  servers = [];
+});
+
+async function startServer(
+  options: Parameters<typeof createCollabServer>[0] = {}
+) {
+  const server = createCollabServer(options);
+  servers.push(server);
+  await new Promise<void>(resolve => server.listen(0, resolve));
+  return (server.address() as AddressInfo).port;
+}
+
+function encode(write: (encoder: encoding.Encoder) => void) {
+  const encoder = encoding.createEncoder();
+  write(encoder);
+  return encoding.toUint8Array(encoder);
+}
+
+async function connect(port: number, room = '/room') {
+  const ws = new WebSocket(`ws://localhost:${port}${room}`);
+  const received: Uint8Array[] = [];
+  let onReceived = () => {};
+  ws.on('message', data => {
+    received.push(new Uint8Array(data as Buffer));
+    onReceived();
+  });
+  const closed = new Promise<void>(resolve => ws.on('close', () => resolve()));
+  await new Promise<void>((resolve, reject) => {
+    ws.on('open', resolve);
+    ws.on('error', reject);
+  });
+  return {
+    closed,
+    send(message: Uint8Array) {
+      ws.send(message);
+    },
+    close() {
+      ws.close();
+      return closed;
+    },
+    /** Resolves with a decoder after the type of the next message of a type */
+    async receive(messageType: number): Promise<decoding.Decoder> {
+      while (true) {
+        for (const [i, message] of received.entries()) {
+          const decoder = decoding.createDecoder(message);
+          if (decoding.readVarUint(decoder) === messageType) {
+            received.splice(i, 1);
+            return decoder;
+          }
+        }
+        await new Promise<void>(resolve => {
+          onReceived = resolve;
+        });
+      }
+    },
+  };
+}
+
+type Client = Awaited<ReturnType<typeof connect>>;
+
+function sendToken(client: Client, token: string) {
+  client.send(
+    encode(encoder => {
+      encoding.writeVarUint(encoder, messageAuth);
+      encoding.writeVarUint(encoder, authMessageToken);
+      encoding.writeVarString(encoder, token);
+    })
+  );
+}
+
+async function authenticatedClient(port: number, room?: string) {
+  const client = await connect(port, room);
+  sendToken(client, '');
+  const decoder = await client.receive(messageAuth);
+  expect(decoding.readVarUint(decoder)).toBe(authMessageAuthenticated);
+  return client;
+}
+
+// messages from a connection are handled in order so once the server has
+// replied to this, the messages sent before it have been handled
+async function flush(client: Client) {
+  client.send(
+    encode(encoder => encoding.writeVarUint(encoder, messageQueryAwareness))
+  );
+  await client.receive(messageAwareness);
+}
+
+test('a connection with an allowed token joins the room', async () => {
+  const tokens: string[] = [];
+  const port = await startServer({
+    authenticate: token => {
+      tokens.push(token);
+      return token === 'allowed';
+    },
+  });
+  const client = await connect(port);
+  sendToken(client, 'allowed');
+  const authDecoder = await client.receive(messageAuth);
+  expect(decoding.readVarUint(authDecoder)).toBe(authMessageAuthenticated);
+  const syncDecoder = await client.receive(messageSync);
+  expect(decoding.readVarUint(syncDecoder)).toBe(
+    syncProtocol.messageYjsSyncStep1
+  );
+  expect(tokens).toEqual(['allowed']);
+  await client.close();
+});
+
+test('a connection with a token that is not allowed is closed', async () => {
+  const port = await startServer({ authenticate: () => false });
+  const client = await connect(port);
+  sendToken(client, 'not-allowed');
+  const decoder = await client.receive(messageAuth);
+  expect(decoding.readVarUint(decoder)).toBe(
+    authProtocol.messagePermissionDenied
+  );
+  expect(decoding.readVarString(decoder)).toBe('Unauthorized');
+  await client.closed;
+});
+
+test('a connection that sends other messages before its token is closed', async () => {
+  const port = await startServer();
+  const client = await connect(port);
+  client.send(
+    encode(encoder => {
+      encoding.writeVarUint(encoder, messageSync);
+      syncProtocol.writeSyncStep1(encoder, new Y.Doc());
+    })
+  );
+  await client.closed;
+});
+
+test('a connection that starts a chunked message before its token is closed', async () => {
+  const port = await startServer();
+  const client = await connect(port);
+  client.send(
+    encode(encoder => {
+      encoding.writeVarUint(encoder, messageChunkStart);
+      encoding.writeVarUint(encoder, 2);
+    })
+  );
+  await client.closed;
+});
+
+test('malformed messages close the connection without stopping the server', async () => {
+  const port = await startServer();
+  const unauthenticated = await connect(port);
+  unauthenticated.send(new Uint8Array([messageAuth]));
+  await unauthenticated.closed;
+
+  const empty = await authenticatedClient(port);
+  empty.send(new Uint8Array());
+  await empty.closed;
+
+  const truncated = await authenticatedClient(port);
+  truncated.send(new Uint8Array([messageSubDocSync, 10]));
+  await truncated.closed;
+
+  const client = await authenticatedClient(port);
+  await flush(client);
+  await client.close();
+});
+
+test('subdocs are synced between connections', async () => {
+  const port = await startServer();
+  const doc = new Y.Doc();
+  const subdoc = new Y.Doc();
+  doc.getMap<Y.Doc>('data').set('entry', subdoc);
+  subdoc.getText('content').insert(0, 'Some content');
+
+  const first = await authenticatedClient(port);
+  first.send(
+    encode(encoder => {
+      encoding.writeVarUint(encoder, messageSync);
+      syncProtocol.writeUpdate(encoder, Y.encodeStateAsUpdate(doc));
+    })
+  );
+  // the server asks for the subdoc when it learns about it
+  const requestDecoder = await first.receive(messageSubDocSync);
+  expect(decoding.readVarString(requestDecoder)).toBe(subdoc.guid);
+  first.send(
+    encode(encoder => {
+      encoding.writeVarUint(encoder, messageSubDocSync);
+      encoding.writeVarString(encoder, subdoc.guid);
+      syncProtocol.writeUpdate(encoder, Y.encodeStateAsUpdate(subdoc));
+    })
+  );
+  await flush(first);
+
+  const second = await authenticatedClient(port);
+  const otherSubdoc = new Y.Doc({ guid: subdoc.guid });
+  second.send(
+    encode(encoder => {
+      encoding.writeVarUint(encoder, messageSubDocSync);
+      encoding.writeVarString(encoder, subdoc.guid);
+      syncProtocol.writeSyncStep1(encoder, otherSubdoc);
+    })
+  );
+  const decoder = await second.receive(messageSubDocSync);
+  expect(decoding.readVarString(decoder)).toBe(subdoc.guid);
+  expect(
+    syncProtocol.readSyncMessage(
+      decoder,
+      encoding.createEncoder(),
+      otherSubdoc,
+      null
+    )
+  ).toBe(syncProtocol.messageYjsSyncStep2);
+  expect(otherSubdoc.getText('content').toString()).toBe('Some content');
+
+  await first.close();
+  await second.close();
+});
+
+test('rooms are dropped once every connection has left', async () => {
+  const port = await startServer();
+  const doc = new Y.Doc();
+  doc.getText('content').insert(0, 'Some content');
+
+  const first = await authenticatedClient(port);
+  first.send(
+    encode(encoder => {
+      encoding.writeVarUint(encoder, messageSync);
+      syncProtocol.writeUpdate(encoder, Y.encodeStateAsUpdate(doc));
+    })
+  );
+  await flush(first);
+  await first.close();
+
+  const second = await authenticatedClient(port);
+  const otherDoc = new Y.Doc();
+  second.send(
+    encode(encoder => {
+      encoding.writeVarUint(encoder, messageSync);
+      syncProtocol.writeSyncStep1(encoder, otherDoc);
+    })
+  );
+  // the server sends its own sync step 1 when joining, the reply to the
+  // client's sync step 1 is after it
+  await second.receive(messageSync);
+  const decoder = await second.receive(messageSync);
+  syncProtocol.readSyncMessage(
+    decoder,
+    encoding.createEncoder(),
+    otherDoc,
+    null
+  );
+  expect(otherDoc.getText('content').toString()).toBe('');
+  await second.close();
+});
@@ -0,0 +1,367 @@
+import { IncomingMessage, Server, createServer } from 'node:http';
+import { WebSocket, WebSocketServer } from 'ws';
+import * as Y from 'yjs';
+import * as syncProtocol from 'y-protocols/sync';
+import * as authProtocol from 'y-protocols/auth';
+import * as awarenessProtocol from 'y-protocols/awareness';
+import * as encoding from 'lib0/encoding';
+import * as decoding from 'lib0/decoding';
+
+const messageSync = 0;
+const messageAwareness = 1;
+const messageAuth = 2;
+const messageQueryAwareness = 3;
+const messageSubDocSync = 4;
+const messageChunkStart = 5;
+
+const authMessageToken = 0;
+const authMessageAuthenticated = 2;
+
+export type CollabServerOptions = {
+  /**
+   * Checks the access token of a user, which is the GitHub access token of the
+   * user when using GitHub storage and an empty string when using local
+   * storage. Every connection is allowed when this isn't provided.
+   */
+  authenticate?: (
+    token: string,
+    request: IncomingMessage
+  ) => boolean | Promise<boolean>;
+  /**
+   * An existing server to handle WebSocket connections on, a new server is
+   * created when this isn't provided
+   */
+  server?: Server;
+};
+
+type Room = {
+  doc: Y.Doc;
+  awareness: awarenessProtocol.Awareness;
+  subdocs: Map<string, Y.Doc>;
+  /** The connections and the awareness client ids that they control */
+  connections: Map<WebSocket, Set<number>>;
+};
+
+function send(ws: WebSocket, message: Uint8Array) {
+  if (ws.readyState === WebSocket.OPEN) {
+    ws.send(message);
+  }
+}
+
+function broadcast(room: Room, message: Uint8Array, except?: unknown) {
+  for (const ws of room.connections.keys()) {
+    if (ws !== except) send(ws, message);
+  }
+}
+
+function createRoom(): Room {
+  const doc = new Y.Doc({ gc: true });
+  const awareness = new awarenessProtocol.Awareness(doc);
+  awareness.setLocalState(null);
+  const room: Room = {
+    doc,
+    awareness,
+    subdocs: new Map(),
+    connections: new Map(),
+  };
+  doc.on('update', (update: Uint8Array, origin: unknown) => {
+    const encoder = encoding.createEncoder();
+    encoding.writeVarUint(encoder, messageSync);
+    syncProtocol.writeUpdate(encoder, update);
+    broadcast(room, encoding.toUint8Array(encoder), origin);
+  });
+  doc.on('subdocs', ({ added }: { added: Set<Y.Doc> }) => {
+    for (const subdoc of added) {
+      room.subdocs.set(subdoc.guid, subdoc);
+      subdoc.on('update', (update: Uint8Array, origin: unknown) => {
+        const encoder = encoding.createEncoder();
+        encoding.writeVarUint(encoder, messageSubDocSync);
+        encoding.writeVarString(encoder, subdoc.guid);
+        syncProtocol.writeUpdate(encoder, update);
+        broadcast(room, encoding.toUint8Array(encoder), origin);
+      });
+      // ask clients for what they have of the subdoc, this is needed when
+      // clients sync a subdoc before the server knows about it, like after
+      // the server is restarted
+      const encoder = encoding.createEncoder();
+      encoding.writeVarUint(encoder, messageSubDocSync);
+      encoding.writeVarString(encoder, subdoc.guid);
+      syncProtocol.writeSyncStep1(encoder, subdoc);
+      broadcast(room, encoding.toUint8Array(encoder));
+    }
+  });
+  awareness.on(
+    'update',
+    (
+      {
+        added,
+        updated,
+        removed,
+      }: { added: number[]; updated: number[]; removed: number[] },
+      origin: unknown
+    ) => {
+      const controlled = room.connections.get(origin as WebSocket);
+      if (controlled) {
+        for (const clientID of [...added, ...updated]) {
+          controlled.add(clientID);
+        }
+        for (const clientID of removed) {
+          controlled.delete(clientID);
+        }
+      }
+      const encoder = encoding.createEncoder();
+      encoding.writeVarUint(encoder, messageAwareness);
+      encoding.writeVarUint8Array(
+        encoder,
+        awarenessProtocol.encodeAwarenessUpdate(awareness, [
+          ...added,
+          ...updated,
+          ...removed,
+        ])
+      );
+      broadcast(room, encoding.toUint8Array(encoder));
+    }
+  );
+  return room;
+}
+
+function encodeAwarenessStates(room: Room) {
+  const encoder = encoding.createEncoder();
+  encoding.writeVarUint(encoder, messageAwareness);
+  encoding.writeVarUint8Array(
+    encoder,
+    awarenessProtocol.encodeAwarenessUpdate(room.awareness, [
+      ...room.awareness.getStates().keys(),
+    ])
+  );
+  return encoding.toUint8Array(encoder);
+}
+
+function handleMessage(room: Room, ws: WebSocket, message: Uint8Array) {
+  const decoder = decoding.createDecoder(message);
+  const messageType = decoding.readVarUint(decoder);
+  switch (messageType) {
+    case messageSync: {
+      const encoder = encoding.createEncoder();
+      encoding.writeVarUint(encoder, messageSync);
+      const syncMessageType = syncProtocol.readSyncMessage(
+        decoder,
+        encoder,
+        room.doc,
+        ws
+      );
+      if (syncMessageType === syncProtocol.messageYjsSyncStep1) {
+        send(ws, encoding.toUint8Array(encoder));
+      }
+      return;
+    }
+    case messageSubDocSync: {
+      const guid = decoding.readVarString(decoder);
+      const subdoc = room.subdocs.get(guid);
+      // the server asks for the subdoc when it learns about it
+      if (!subdoc) return;
+      const encoder = encoding.createEncoder();
+      encoding.writeVarUint(encoder, messageSubDocSync);
+      encoding.writeVarString(encoder, guid);
+      const syncMessageType = syncProtocol.readSyncMessage(
+        decoder,
+        encoder,
+        subdoc,
+        ws
+      );
+      if (syncMessageType === syncProtocol.messageYjsSyncStep1) {
+        send(ws, encoding.toUint8Array(encoder));
+        // ask for the changes the client has that the server doesn't, like
+        // changes made while offline or before the server was restarted
+        const step1Encoder = encoding.createEncoder();
+        encoding.writeVarUint(step1Encoder, messageSubDocSync);
+        encoding.writeVarString(step1Encoder, guid);
+        syncProtocol.writeSyncStep1(step1Encoder, subdoc);
+        send(ws, encoding.toUint8Array(step1Encoder));
+      }
+      return;
+    }
+    case messageAwareness: {
+      awarenessProtocol.applyAwarenessUpdate(
+        room.awareness,
+        decoding.readVarUint8Array(decoder),
+        ws
+      );
+      return;
+    }
+    case messageQueryAwareness: {
+      send(ws, encodeAwarenessStates(room));
+      return;
+    }
+  }
+}
+
+function joinRoom(room: Room, ws: WebSocket) {
+  room.connections.set(ws, new Set());
+  const encoder = encoding.createEncoder();
+  encoding.writeVarUint(encoder, messageAuth);
+  encoding.writeVarUint(encoder, authMessageAuthenticated);
+  send(ws, encoding.toUint8Array(encoder));
+
+  const syncEncoder = encoding.createEncoder();
+  encoding.writeVarUint(syncEncoder, messageSync);
+  syncProtocol.writeSyncStep1(syncEncoder, room.doc);
+  send(ws, encoding.toUint8Array(syncEncoder));
+
+  if (room.awareness.getStates().size) {
+    send(ws, encodeAwarenessStates(room));
+  }
+}
+
+function leaveRoom(room: Room, ws: WebSocket) {
+  const controlled = room.connections.get(ws);
+  if (!controlled) return;
+  room.connections.delete(ws);
+  awarenessProtocol.removeAwarenessStates(
+    room.awareness,
+    [...controlled],
+    null
+  );
+}
+
+function concatChunks(chunks: Uint8Array[]) {
+  const message = new Uint8Array(
+    chunks.reduce((length, chunk) => length + chunk.byteLength, 0)
+  );
+  let offset = 0;
+  for (const chunk of chunks) {
+    message.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return message;
+}
+
+/**
+ * Creates a server for real-time collaboration in Keystatic. Each path is a
+ * separate room, the documents of a room are kept in memory until the last
+ * connection to it closes.
+ */
+export function createCollabServer(options: CollabServerOptions = {}) {
+  const server =
+    options.server ??
+    createServer((req, res) => {
+      res.writeHead(200, { 'Content-Type': 'text/plain' });
+      res.end('Keystatic collaboration server');
+    });
+  const rooms = new Map<string, Room>();
+  const wss = new WebSocketServer({ server });
+
+  wss.on('connection', (ws, request) => {
+    const roomName = new URL(request.url ?? '/', 'http://localhost').pathname;
+    // the room is only joined once the connection is authenticated so that
+    // unauthenticated connections can't keep a room alive
+    let room: Room | null = null;
+    let authState: 'unauthenticated' | 'authenticating' | 'authenticated' =
+      'unauthenticated';
+
+    const authenticate = async (token: string) => {
+      let isAllowed = false;
+      try {
+        isAllowed = (await options.authenticate?.(token, request)) ?? true;
+      } catch (err) {
+        console.error(err);
+      }
+      if (!isAllowed) {
+        const encoder = encoding.createEncoder();
+        encoding.writeVarUint(encoder, messageAuth);
+        authProtocol.writePermissionDenied(encoder, 'Unauthorized');
+        send(ws, encoding.toUint8Array(encoder));
+        ws.close();
+        return;
+      }
+      if (ws.readyState !== WebSocket.OPEN) return;
+      authState = 'authenticated';
+      room = rooms.get(roomName) ?? null;
+      if (!room) {
+        room = createRoom();
+        rooms.set(roomName, room);
+      }
+      joinRoom(room, ws);
+    };
+
+    // messages larger than 1MB are sent by the client as a message with the
+    // number of chunks followed by the chunks
+    let chunks: { remaining: number; received: Uint8Array[] } | null = null;
+
+    const onMessage = (message: Uint8Array) => {
+      if (room && authState === 'authenticated') {
+        if (chunks) {
+          chunks.received.push(message);
+          chunks.remaining--;
+          if (chunks.remaining === 0) {
+            const { received } = chunks;
+            chunks = null;
+            handleMessage(room, ws, concatChunks(received));
+          }
+          return;
+        }
+        const decoder = decoding.createDecoder(message);
+        if (decoding.readVarUint(decoder) === messageChunkStart) {
+          const remaining = decoding.readVarUint(decoder);
+          if (remaining === 0) throw new Error('Empty chunked message');
+          chunks = { remaining, received: [] };
+          return;
+        }
+        handleMessage(room, ws, message);
+        return;
+      }
+      // clients wait for the authenticated message before sending anything
+      // other than their token
+      const decoder = decoding.createDecoder(message);
+      if (
+        authState !== 'unauthenticated' ||
+        decoding.readVarUint(decoder) !== messageAuth ||
+        decoding.readVarUint(decoder) !== authMessageToken
+      ) {
+        ws.close();
+        return;
+      }
+      authState = 'authenticating';
+      const token = decoding.readVarString(decoder);
+      authenticate(token).catch(err => {
+        console.error(err);
+        ws.close();
+      });
+    };
+
+    ws.on('message', data => {
+      try {
+        onMessage(new Uint8Array(data as Buffer));
+      } catch {
+        // malformed messages make the decoders throw
+        ws.close();
+      }
+    });
+    ws.on('close', () => {
+      if (!room) return;
+      leaveRoom(room, ws);
+      if (!room.connections.size && rooms.get(roomName) === room) {
+        rooms.delete(roomName);
+        room.doc.destroy();
+      }
+    });
+  });
+
+  return server;
+}
+
+/**
+ * Allows users that can push to a GitHub repository to collaborate, for use
+ * with GitHub storage.
+ */
+export function githubAuthentication(options: { repo: `${string}/${string}` }) {
+  return async (token: string) => {
+    if (!token) return false;
+    const res = await fetch(`https://api.github.com/repos/${options.repo}`, {
+      headers: { Authorization: `Bearer ${token}` },
+    });
+    if (!res.ok) return false;
+    const repo: { permissions?: { push?: boolean } } = await res.json();
+    return !!repo.permissions?.push;
+  };
+}
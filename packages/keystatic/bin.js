@@ -0,0 +1,4 @@
+#!/usr/bin/env node
+import { run } from '@keystatic/core/cli';
+
+run(process.argv.slice(2));
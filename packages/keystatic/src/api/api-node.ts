@@ -10,6 +10,14 @@ import {
 import { readToDirEntries, getAllowedDirectories } from './read-local';
 import { blobSha } from '../app/trees';
 import { randomBytes } from 'node:crypto';
+import {
+  EntryChangeEvent,
+  HooksConfig,
+  getEntryChangeEvents,
+  hasHooks,
+  runAfterHooks,
+  runBeforeSaveHooks,
+} from './hooks';
 
 // this should be trivially dead code eliminated
 // it's just to ensure the types are exactly the same between this and local-noop.ts
@@ -87,7 +95,8 @@ ${slugEnvVarName ? `${slugEnvVarName}=${ghAppDataResult.data.slug}\n` : ''}`;
 
 export function localModeApiHandler(
   config: Config,
-  localBaseDirectory: string | undefined
+  localBaseDirectory: string | undefined,
+  hooks: HooksConfig
 ) {
   const baseDirectory = path.resolve(localBaseDirectory ?? process.cwd());
   return async (
@@ -102,7 +111,7 @@ export function localModeApiHandler(
       return blob(req, config, params, baseDirectory);
     }
     if (req.method === 'POST' && joined === 'update') {
-      return update(req, config, baseDirectory);
+      return update(req, config, baseDirectory, hooks);
     }
     return { status: 404, body: 'Not Found' };
   };
@@ -168,7 +177,8 @@ async function blob(
 async function update(
   req: KeystaticRequest,
   config: Config,
-  baseDirectory: string
+  baseDirectory: string,
+  hooks: HooksConfig
 ): Promise<KeystaticResponse> {
   if (
     req.headers.get('no-cors') !== '1' ||
@@ -194,6 +204,32 @@ async function update(
   if (!updates.success) {
     return { status: 400, body: 'Bad data' };
   }
+  let events: EntryChangeEvent[];
+  try {
+    events = hasHooks(hooks)
+      ? await getEntryChangeEvents(
+          config,
+          {
+            additions: updates.data.additions,
+            deletions: updates.data.deletions.map(deletion => deletion.path),
+          },
+          async filepath => {
+            try {
+              return await fs.readFile(path.join(baseDirectory, filepath));
+            } catch (err) {
+              if ((err as any).code === 'ENOENT') return null;
+              throw err;
+            }
+          }
+        )
+      : [];
+    await runBeforeSaveHooks(hooks, events);
+  } catch (err) {
+    return {
+      status: 400,
+      body: err instanceof Error ? err.message : String(err),
+    };
+  }
   for (const addition of updates.data.additions) {
     await fs.mkdir(path.dirname(path.join(baseDirectory, addition.path)), {
       recursive: true,
@@ -206,6 +242,7 @@ async function update(
   for (const deletion of updates.data.deletions) {
     await fs.rm(path.join(baseDirectory, deletion.path), { force: true });
   }
+  await runAfterHooks(hooks, events);
   return {
     status: 200,
     headers: { 'content-type': 'application/json' },
@@ -1,7 +1,19 @@
 import cookie from 'cookie';
+import { Kind, parse } from 'graphql';
 import * as Iron from 'iron-webcrypto';
+import { toUint8Array } from 'js-base64';
 import z from 'zod';
 import { Config } from '..';
+import { Identity, validateChanges } from '../app/permissions';
+import {
+  EntryChangeEvent,
+  HooksConfig,
+  LifecycleHooks,
+  getEntryChangeEvents,
+  hasHooks,
+  runAfterHooks,
+  runBeforeSaveHooks,
+} from './hooks';
 import {
   KeystaticResponse,
   KeystaticRequest,
@@ -11,6 +23,8 @@ import { handleGitHubAppCreation, localModeApiHandler } from '#api-handler';
 import { webcrypto } from '#webcrypto';
 import { bytesToHex } from '../hex';
 
+export type { EntryChangeEvent, LifecycleHooks } from './hooks';
+
 export type APIRouteConfig = {
   /** @default process.env.KEYSTATIC_GITHUB_CLIENT_ID */
   clientId?: string;
@@ -20,6 +34,14 @@ export type APIRouteConfig = {
   secret?: string;
   localBaseDirectory?: string;
   config: Config<any, any>;
+  /** Called when entries are changed through the API route */
+  hooks?: LifecycleHooks;
+  /**
+   * URLs that are sent a POST request when entries are saved or deleted
+   * through the API route. The requests are signed with `secret`, the
+   * `X-Keystatic-Signature` header is `sha256=` and the hex HMAC of the body.
+   */
+  webhooks?: string[];
 };
 
 type InnerAPIRouteConfig = {
@@ -27,6 +49,7 @@ type InnerAPIRouteConfig = {
   clientSecret: string;
   secret: string;
   config: Config;
+  hooks: HooksConfig;
 };
 
 const keystaticRouteRegex =
@@ -61,6 +84,16 @@ export function makeGenericAPIRouteHandler(
       _config.secret ?? tryOrUndefined(() => process.env.KEYSTATIC_SECRET),
     config: _config.config,
   };
+  const hooks: HooksConfig = {
+    hooks: _config.hooks,
+    webhooks: _config.webhooks,
+    secret: _config2.secret,
+  };
+  if (hooks.webhooks?.length && !hooks.secret) {
+    throw new Error(
+      'Webhooks in the Keystatic API route need a secret to sign requests, it can be provided via the KEYSTATIC_SECRET env var'
+    );
+  }
 
   const getParams = (req: KeystaticRequest) => {
     let url;
@@ -85,7 +118,8 @@ export function makeGenericAPIRouteHandler(
   if (_config2.config.storage.kind === 'local') {
     const handler = localModeApiHandler(
       _config2.config,
-      _config.localBaseDirectory
+      _config.localBaseDirectory,
+      hooks
     );
     return (req: KeystaticRequest) => {
       const params = getParams(req);
@@ -136,6 +170,7 @@ export function makeGenericAPIRouteHandler(
     clientSecret: _config2.clientSecret,
     secret: _config2.secret,
     config: _config2.config,
+    hooks,
   };
 
   return async function keystaticAPIRoute(
@@ -155,6 +190,12 @@ export function makeGenericAPIRouteHandler(
     if (joined === 'github/repo-not-found') {
       return githubRepoNotFound(req, config);
     }
+    if (joined === 'github/identity') {
+      return githubIdentity(req, config);
+    }
+    if (joined === 'github/commit') {
+      return githubCommit(req, config);
+    }
     if (joined === 'github/logout') {
       const cookies = cookie.parse(req.headers.get('cookie') ?? '');
       const access_token = cookies['keystatic-gh-access-token'];
@@ -396,6 +437,238 @@ async function githubLogin(
   ]);
 }
 
+const userResultType = z.object({ login: z.string() });
+
+const teamsResultType = z.array(
+  z.object({ slug: z.string(), organization: z.object({ login: z.string() }) })
+);
+
+function getAccessToken(req: KeystaticRequest) {
+  const cookies = cookie.parse(req.headers.get('cookie') ?? '');
+  return cookies['keystatic-gh-access-token'] as string | undefined;
+}
+
+async function getGitHubIdentity(
+  accessToken: string,
+  config: InnerAPIRouteConfig
+): Promise<Identity | undefined> {
+  const headers = {
+    Authorization: `Bearer ${accessToken}`,
+    Accept: 'application/vnd.github+json',
+  };
+  const userRes = await fetch('https://api.github.com/user', { headers });
+  if (!userRes.ok) return;
+  const user = userResultType.safeParse(await userRes.json());
+  if (!user.success) return;
+  const hasTeams = Object.values(config.config.permissions?.roles ?? {}).some(
+    role => role.teams?.length
+  );
+  if (!hasTeams) {
+    return { login: user.data.login, teams: [] };
+  }
+  // this needs the GitHub app to have read access to organization members
+  const teamsRes = await fetch(
+    'https://api.github.com/user/teams?per_page=100',
+    { headers }
+  );
+  if (!teamsRes.ok) return;
+  const teams = teamsResultType.safeParse(await teamsRes.json());
+  if (!teams.success) return;
+  return {
+    login: user.data.login,
+    teams: teams.data.map(team => `${team.organization.login}/${team.slug}`),
+  };
+}
+
+async function githubIdentity(
+  req: KeystaticRequest,
+  config: InnerAPIRouteConfig
+): Promise<KeystaticResponse> {
+  if (!config.config.permissions) {
+    return { status: 404, body: 'Not Found' };
+  }
+  const accessToken = getAccessToken(req);
+  const identity = accessToken
+    ? await getGitHubIdentity(accessToken, config)
+    : undefined;
+  if (!identity) {
+    return { status: 401, body: 'Unauthorized' };
+  }
+  return {
+    status: 200,
+    headers: [['Content-Type', 'application/json']],
+    body: JSON.stringify(identity),
+  };
+}
+
+const commitRequestType = z.object({
+  query: z.string(),
+  variables: z.object({
+    input: z.object({
+      branch: z.object({
+        repositoryNameWithOwner: z.string(),
+        branchName: z.string(),
+      }),
+      expectedHeadOid: z.string(),
+      fileChanges: z.object({
+        additions: z
+          .array(z.object({ path: z.string(), contents: z.string() }))
+          .default([]),
+        deletions: z.array(z.object({ path: z.string() })).default([]),
+      }),
+    }),
+  }),
+});
+
+function isCreateCommitMutation(query: string) {
+  let document;
+  try {
+    document = parse(query);
+  } catch {
+    return false;
+  }
+  const [operation, ...otherDefinitions] = document.definitions;
+  if (
+    otherDefinitions.length ||
+    operation.kind !== Kind.OPERATION_DEFINITION ||
+    operation.operation !== 'mutation'
+  ) {
+    return false;
+  }
+  const fields = operation.selectionSet.selections.filter(
+    selection =>
+      selection.kind !== Kind.FIELD || selection.name.value !== '__typename'
+  );
+  const [field] = fields;
+  return (
+    fields.length === 1 &&
+    field.kind === Kind.FIELD &&
+    field.name.value === 'createCommitOnBranch' &&
+    field.arguments?.length === 1 &&
+    field.arguments[0].value.kind === Kind.VARIABLE &&
+    field.arguments[0].value.name.value === 'input'
+  );
+}
+
+function forbidden(message: string): KeystaticResponse {
+  return {
+    status: 403,
+    headers: [['Content-Type', 'application/json']],
+    body: JSON.stringify({ errors: [{ type: 'FORBIDDEN', message }] }),
+  };
+}
+
+/**
+ * Commits are made through this route rather than directly with the GitHub
+ * API so that changes are validated first and lifecycle hooks can be run.
+ *
+ * A GET request responds with whether that's needed so that the Admin UI can
+ * commit directly with the GitHub API when it isn't.
+ */
+async function githubCommit(
+  req: KeystaticRequest,
+  config: InnerAPIRouteConfig
+): Promise<KeystaticResponse> {
+  if (req.method === 'GET') {
+    return config.config.permissions || hasHooks(config.hooks)
+      ? { status: 204, body: null }
+      : { status: 404, body: 'Not Found' };
+  }
+  if (req.method !== 'POST') {
+    return { status: 405, body: 'Method Not Allowed' };
+  }
+  const accessToken = getAccessToken(req);
+  const identity = accessToken
+    ? await getGitHubIdentity(accessToken, config)
+    : undefined;
+  if (!identity) {
+    return { status: 401, body: 'Unauthorized' };
+  }
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return { status: 400, body: 'Bad Request' };
+  }
+  const parsed = commitRequestType.safeParse(body);
+  if (!parsed.success || !isCreateCommitMutation(parsed.data.query)) {
+    return { status: 400, body: 'Bad Request' };
+  }
+  const { branch, expectedHeadOid, fileChanges } = parsed.data.variables.input;
+  const changes = {
+    additions: fileChanges.additions.map(addition => ({
+      path: addition.path,
+      contents: toUint8Array(addition.contents),
+    })),
+    deletions: fileChanges.deletions.map(deletion => deletion.path),
+  };
+  const readFile = async (path: string) => {
+    const res = await fetch(
+      `https://api.github.com/repos/${
+        branch.repositoryNameWithOwner
+      }/contents/${path
+        .split('/')
+        .map(encodeURIComponent)
+        .join('/')}?ref=${expectedHeadOid}`,
+      {
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+          Accept: 'application/vnd.github.raw',
+        },
+      }
+    );
+    if (res.status === 404) return null;
+    if (!res.ok) {
+      throw new Error(`Failed to read ${path} (${res.status})`);
+    }
+    return new Uint8Array(await res.arrayBuffer());
+  };
+  const error = await validateChanges(
+    config.config,
+    identity,
+    changes,
+    readFile
+  );
+  if (error) {
+    return forbidden(error);
+  }
+  let events: EntryChangeEvent[];
+  try {
+    events = hasHooks(config.hooks)
+      ? await getEntryChangeEvents(config.config, changes, readFile)
+      : [];
+    await runBeforeSaveHooks(config.hooks, events);
+  } catch (err) {
+    return forbidden(err instanceof Error ? err.message : String(err));
+  }
+  const res = await fetch('https://api.github.com/graphql', {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  });
+  const resBody = await res.text();
+  let resData;
+  try {
+    resData = JSON.parse(resBody);
+  } catch {
+    return {
+      status: 502,
+      body: 'An unexpected response was received from GitHub',
+    };
+  }
+  if (events.length && res.ok && resData.data?.createCommitOnBranch) {
+    await runAfterHooks(config.hooks, events);
+  }
+  return {
+    status: res.status,
+    headers: [['Content-Type', 'application/json']],
+    body: resBody,
+  };
+}
+
 async function createdGithubApp(
   req: KeystaticRequest,
   slugEnvVarName: string | undefined
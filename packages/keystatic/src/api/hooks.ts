@@ -0,0 +1,276 @@
+import { webcrypto } from '#webcrypto';
+import { Config, Glob } from '../config';
+import { ComponentSchema, fields } from '../form/api';
+import { getPathOwner } from '../app/path-owner';
+import {
+  FormatInfo,
+  getPathPrefix,
+  getSlugGlobForCollection,
+} from '../app/path-utils';
+import { loadDataFile } from '../app/required-files';
+import { migrateEntryData } from '../app/migrations';
+import { parseProps } from '../form/parse-props';
+import { getValueAtPropPath } from '../form/props-value';
+import { ReadonlyPropPath } from '../form/fields/document/DocumentEditor/component-blocks/utils';
+import { formatFormDataError } from '../form/error-formatting';
+import { bytesToHex } from '../hex';
+
+/**
+ * A change to a collection entry or singleton. `oldValue` is `null` when the
+ * entry is created or its stored data is invalid and `newValue` is `null` when
+ * it's deleted. The values are
+ * parsed with the schema of the entry like the reader does, except that
+ * content fields are their content as a string.
+ */
+export type EntryChangeEvent = (
+  | { kind: 'collection'; collection: string; slug: string }
+  | { kind: 'singleton'; singleton: string }
+) & {
+  oldValue: Record<string, unknown> | null;
+  newValue: Record<string, unknown> | null;
+};
+
+export type LifecycleHooks = {
+  /**
+   * Called before an entry is created or updated, throwing an error stops the
+   * changes from being saved and shows the message of the error
+   */
+  beforeSave?: (event: EntryChangeEvent) => void | Promise<void>;
+  /** Called after an entry is created or updated */
+  afterSave?: (event: EntryChangeEvent) => void | Promise<void>;
+  /** Called after an entry is deleted */
+  afterDelete?: (event: EntryChangeEvent) => void | Promise<void>;
+};
+
+export type HooksConfig = {
+  hooks: LifecycleHooks | undefined;
+  webhooks: string[] | undefined;
+  /** Used to sign the requests to webhooks */
+  secret: string | undefined;
+};
+
+export function hasHooks(config: HooksConfig) {
+  return !!(
+    config.hooks?.beforeSave ||
+    config.hooks?.afterSave ||
+    config.hooks?.afterDelete ||
+    config.webhooks?.length
+  );
+}
+
+const textDecoder = new TextDecoder();
+
+async function parseEntry(
+  schema: Record<string, ComponentSchema>,
+  contents: Uint8Array,
+  format: FormatInfo,
+  slugField: { field: string; slug: string; glob: Glob } | undefined,
+  readEntryFile: (filename: string) => Promise<Uint8Array | null>
+): Promise<Record<string, unknown>> {
+  const { loaded, extraFakeFile } = loadDataFile(contents, format);
+  const contentFields: { path: ReadonlyPropPath; filename: string }[] = [];
+  const value = parseProps(
+    fields.object(schema),
+    migrateEntryData(loaded, format.migrations).data,
+    [],
+    [],
+    (schema, value, path, pathWithArrayFieldSlugs) => {
+      if (schema.formKind === 'asset') {
+        return schema.reader.parse(value);
+      }
+      if (schema.formKind === 'content') {
+        contentFields.push({
+          path,
+          filename: pathWithArrayFieldSlugs.join('/') + schema.contentExtension,
+        });
+        return null;
+      }
+      if (slugField && path.length === 1 && path[0] === slugField.field) {
+        if (schema.formKind !== 'slug') {
+          throw new Error(`Slug field ${slugField.field} is not a slug field`);
+        }
+        return schema.reader.parseWithSlug(value, slugField);
+      }
+      return schema.reader.parse(value);
+    },
+    true
+  );
+  for (const { path, filename } of contentFields) {
+    const content =
+      filename === extraFakeFile?.path
+        ? extraFakeFile.contents
+        : await readEntryFile(filename);
+    const parentValue = getValueAtPropPath(value, path.slice(0, -1)) as any;
+    parentValue[path[path.length - 1]] =
+      content === null ? null : textDecoder.decode(content);
+  }
+  return value;
+}
+
+/**
+ * Gets the entries that are created, updated or deleted by changes to files.
+ * Paths are relative to the root of the repository, `readFile` reads files
+ * as they are before the changes.
+ */
+export async function getEntryChangeEvents(
+  config: Config,
+  changes: {
+    additions: { path: string; contents: Uint8Array }[];
+    deletions: string[];
+  },
+  readFile: (path: string) => Promise<Uint8Array | null>
+): Promise<EntryChangeEvent[]> {
+  const pathPrefix = getPathPrefix(config.storage) ?? '';
+  const additions = new Map(
+    changes.additions.map(addition => [addition.path, addition.contents])
+  );
+  const events: EntryChangeEvent[] = [];
+  const seen = new Set<string>();
+  for (const repoPath of [...additions.keys(), ...changes.deletions]) {
+    if (!repoPath.startsWith(pathPrefix)) continue;
+    const owner = getPathOwner(config, repoPath.slice(pathPrefix.length));
+    const location = owner?.location;
+    if (!owner || !location) continue;
+    // changes to any of the files of an entry, like the file of a document
+    // field, are a change to the entry
+    const dataFilepath = pathPrefix + location.dataFilepath;
+    if (seen.has(dataFilepath)) continue;
+    seen.add(dataFilepath);
+    const previous = await readFile(dataFilepath);
+    const isDeleted = changes.deletions.includes(dataFilepath);
+    const updated = isDeleted ? null : additions.get(dataFilepath) ?? previous;
+    if (previous === null && updated === null) continue;
+    const { entry } = owner;
+    const entryConfig =
+      entry.kind === 'collection'
+        ? config.collections![entry.collection]
+        : config.singletons![entry.singleton];
+    const slugField =
+      entry.kind === 'collection'
+        ? {
+            field: config.collections![entry.collection].slugField,
+            slug: location.slug!,
+            glob: getSlugGlobForCollection(config, entry.collection),
+          }
+        : undefined;
+    const parse = async (
+      contents: Uint8Array,
+      readEntryFile: (path: string) => Promise<Uint8Array | null>
+    ) => {
+      try {
+        return await parseEntry(
+          entryConfig.schema,
+          contents,
+          location.format,
+          slugField,
+          filename =>
+            readEntryFile(`${pathPrefix}${location.basePath}/${filename}`)
+        );
+      } catch (err) {
+        throw new Error(
+          `Invalid data for ${dataFilepath}:\n${formatFormDataError(err)}`
+        );
+      }
+    };
+    events.push({
+      ...(entry.kind === 'collection'
+        ? {
+            kind: 'collection',
+            collection: entry.collection,
+            slug: location.slug!,
+          }
+        : { kind: 'singleton', singleton: entry.singleton }),
+      // an entry that's already invalid shouldn't stop the fix from being saved
+      oldValue: previous && (await parse(previous, readFile).catch(() => null)),
+      newValue:
+        updated &&
+        (await parse(updated, async path =>
+          additions.has(path)
+            ? additions.get(path)!
+            : changes.deletions.includes(path)
+            ? null
+            : readFile(path)
+        )),
+    });
+  }
+  return events;
+}
+
+export async function runBeforeSaveHooks(
+  config: HooksConfig,
+  events: EntryChangeEvent[]
+) {
+  for (const event of events) {
+    if (event.newValue !== null) {
+      await config.hooks?.beforeSave?.(event);
+    }
+  }
+}
+
+async function sign(secret: string, body: string) {
+  const textEncoder = new TextEncoder();
+  const key = await webcrypto.subtle.importKey(
+    'raw',
+    textEncoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await webcrypto.subtle.sign(
+    'HMAC',
+    key,
+    textEncoder.encode(body)
+  );
+  return bytesToHex(new Uint8Array(signature));
+}
+
+async function sendWebhook(
+  url: string,
+  secret: string,
+  event: EntryChangeEvent
+) {
+  const type = event.newValue === null ? 'delete' : 'save';
+  const body = JSON.stringify({ type, ...event });
+  const res = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'X-Keystatic-Event': type,
+      'X-Keystatic-Signature': `sha256=${await sign(secret, body)}`,
+    },
+    body,
+  });
+  if (!res.ok) {
+    throw new Error(`Webhook ${url} responded with ${res.status}`);
+  }
+}
+
+/**
+ * Runs the hooks and sends the webhooks for changes that have been saved.
+ * The changes can't be undone at this point so errors are logged rather than
+ * thrown.
+ */
+export async function runAfterHooks(
+  config: HooksConfig,
+  events: EntryChangeEvent[]
+) {
+  const results = await Promise.allSettled(
+    events.flatMap(event => [
+      (async () => {
+        if (event.newValue === null) {
+          await config.hooks?.afterDelete?.(event);
+        } else {
+          await config.hooks?.afterSave?.(event);
+        }
+      })(),
+      ...(config.webhooks ?? []).map(url =>
+        sendWebhook(url, config.secret!, event)
+      ),
+    ])
+  );
+  for (const result of results) {
+    if (result.status === 'rejected') {
+      console.error(result.reason);
+    }
+  }
+}
@@ -117,7 +117,12 @@ export function getAllowedDirectories(config: Config) {
         fields.object(collectionConfig.schema),
         getCollectionPath(config, collection),
         undefined,
-        { data: 'yaml', contentField: undefined, dataLocation: 'index' }
+        {
+          data: 'yaml',
+          contentField: undefined,
+          dataLocation: 'index',
+          migrations: [],
+        }
       )
     );
     if (collectionConfig.template) {
@@ -9,6 +9,8 @@ import React, {
   useState,
 } from 'react';
 
+import { ActionBarContainer } from '@keystar/ui/action-bar';
+import { Badge } from '@keystar/ui/badge';
 import { ActionButton, Button } from '@keystar/ui/button';
 import { Icon } from '@keystar/ui/icon';
 import { alertCircleIcon } from '@keystar/ui/icon/icons/alertCircleIcon';
@@ -18,7 +20,11 @@ import { searchXIcon } from '@keystar/ui/icon/icons/searchXIcon';
 import { diffIcon } from '@keystar/ui/icon/icons/diffIcon';
 import { plusSquareIcon } from '@keystar/ui/icon/icons/plusSquareIcon';
 import { dotSquareIcon } from '@keystar/ui/icon/icons/dotSquareIcon';
+import { messageSquareIcon } from '@keystar/ui/icon/icons/messageSquareIcon';
+import { Image } from '@keystar/ui/image';
+import { Flex } from '@keystar/ui/layout';
 import { TextLink } from '@keystar/ui/link';
+import { Item, Picker } from '@keystar/ui/picker';
 import { ProgressCircle } from '@keystar/ui/progress';
 import { SearchField } from '@keystar/ui/search-field';
 import {
@@ -36,12 +42,26 @@ import {
   Row,
   SortDescriptor,
 } from '@keystar/ui/table';
+import { Selection } from '@react-types/shared';
 import { Heading, Text } from '@keystar/ui/typography';
 
-import { Config } from '../config';
+import { Collection, Config } from '../config';
+import { CollectionBulkActions } from './bulk-actions-ui';
+import { ComponentSchema } from '../form/api';
+import { useObjectURL } from '../form/fields/image/ui';
+import {
+  CollectionFilter,
+  FilterValues,
+  getCollectionFilters,
+  matchesFilters,
+  parseFilterValues,
+  serializeFilterValues,
+} from './collection-filters';
+import { CollectionFilterBar, useEntryNames } from './collection-filters-ui';
 import { sortBy } from './collection-sort';
 import l10nMessages from './l10n/index.json';
 import { useRouter } from './router';
+import { useConfig } from './shell/context';
 import { EmptyState } from './shell/empty-state';
 import {
   useTree,
@@ -62,9 +82,22 @@ import {
 } from './utils';
 import { notFound } from './not-found';
 import { fetchBlob } from './useItemData';
+import {
+  getCommentsFilepath,
+  getUnresolvedThreadCount,
+  parseCommentsFile,
+} from './comments';
 import { loadDataFile } from './required-files';
+import { migrateEntryData } from './migrations';
+import { getConfigForLocale, getDefaultLocale } from './localization';
+import { PublishingState, getPublishingState } from './publishing';
+import { PublishingBadge } from './publishing-ui';
 import { parseProps } from '../form/parse-props';
 import { useData } from './useData';
+import { useDebouncedValue } from './useDebouncedValue';
+import { isImageFilename } from './media';
+import { hasAccess } from './permissions';
+import { useEntryAccess } from './permissions-ui';
 
 type CollectionPageProps = {
   collection: string;
@@ -78,6 +111,25 @@ export function CollectionPage(props: CollectionPageProps) {
   const collectionConfig = config.collections?.[collection];
   if (!collectionConfig) notFound();
   const [searchTerm, setSearchTerm] = useState('');
+  const [publishingFilter, setPublishingFilter] =
+    useState<PublishingFilter>('all');
+  const router = useRouter();
+  const filters = useMemo(
+    () => getCollectionFilters(collectionConfig),
+    [collectionConfig]
+  );
+  // filters are kept in the URL so filtered lists can be shared and are
+  // restored when going back from an entry
+  const filterValues = useMemo(
+    () => parseFilterValues(filters, router.searchParams),
+    [filters, router.searchParams]
+  );
+  const relatedCollections = useMemo(
+    () => getRelatedCollections(collectionConfig),
+    [collectionConfig]
+  );
+  const entryNames = useEntryNames(relatedCollections);
+  const entryAccess = useEntryAccess({ kind: 'collection', collection });
 
   let debouncedSearchTerm = useDebouncedValue(searchTerm, 300);
 
@@ -85,22 +137,57 @@ export function CollectionPage(props: CollectionPageProps) {
     <PageRoot containerWidth={containerWidth}>
       <CollectionPageHeader
         collectionLabel={collectionConfig.label}
-        createHref={`${props.basePath}/collection/${encodeURIComponent(
-          props.collection
-        )}/create`}
+        createHref={
+          hasAccess(entryAccess.access, 'edit')
+            ? `${props.basePath}/collection/${encodeURIComponent(
+                props.collection
+              )}/create`
+            : undefined
+        }
         searchTerm={searchTerm}
         onSearchTermChange={setSearchTerm}
+        publishingFilter={
+          collectionConfig.publishing ? publishingFilter : undefined
+        }
+        onPublishingFilterChange={setPublishingFilter}
+      />
+      {filters.length > 0 && (
+        <CollectionFilterBar
+          filters={filters}
+          values={filterValues}
+          onChange={values => {
+            const search = serializeFilterValues(
+              filters,
+              values,
+              router.searchParams
+            ).toString();
+            router.replace(
+              `${router.href.split('?')[0]}${search ? `?${search}` : ''}`
+            );
+          }}
+          entryNames={entryNames}
+        />
+      )}
+      <CollectionPageContent
+        searchTerm={debouncedSearchTerm}
+        publishingFilter={publishingFilter}
+        filters={filters}
+        filterValues={filterValues}
+        entryNames={entryNames}
+        {...props}
       />
-      <CollectionPageContent searchTerm={debouncedSearchTerm} {...props} />
     </PageRoot>
   );
 }
 
 function CollectionPageHeader(props: {
-  createHref: string;
+  /** `undefined` when the user can't create entries */
+  createHref: string | undefined;
   collectionLabel: string;
   searchTerm: string;
   onSearchTermChange: (value: string) => void;
+  publishingFilter?: PublishingFilter;
+  onPublishingFilterChange: (value: PublishingFilter) => void;
 }) {
   const { collectionLabel, createHref } = props;
   const stringFormatter = useLocalizedStringFormatter(l10nMessages);
@@ -165,6 +252,22 @@ function CollectionPageHeader(props: {
           width="scale.2400"
         />
       </div>
+      {props.publishingFilter && (
+        <Picker
+          aria-label={stringFormatter.format('filterByStatus')}
+          items={publishingFilters.map(key => ({
+            key,
+            label: stringFormatter.format(key === 'all' ? 'allStatuses' : key),
+          }))}
+          selectedKey={props.publishingFilter}
+          onSelectionChange={key => {
+            props.onPublishingFilterChange(key as PublishingFilter);
+          }}
+          width="scale.1700"
+        >
+          {item => <Item key={item.key}>{item.label}</Item>}
+        </Picker>
+      )}
       <ActionButton
         aria-label="show search"
         isHidden={searchVisible || { above: 'mobile' }}
@@ -186,19 +289,56 @@ function CollectionPageHeader(props: {
       >
         <Icon src={searchIcon} />
       </ActionButton>
-      <Button
-        marginStart="auto"
-        prominence="high"
-        href={createHref}
-        isHidden={searchVisible ? { below: 'tablet' } : undefined}
-      >
-        {stringFormatter.format('add')}
-      </Button>
+      {createHref && (
+        <Button
+          marginStart="auto"
+          prominence="high"
+          href={createHref}
+          isHidden={searchVisible ? { below: 'tablet' } : undefined}
+        >
+          {stringFormatter.format('add')}
+        </Button>
+      )}
     </PageHeader>
   );
 }
 
-type CollectionPageContentProps = CollectionPageProps & { searchTerm: string };
+type PublishingFilter = PublishingState | 'all';
+
+const publishingFilters = [
+  'all',
+  'draft',
+  'scheduled',
+  'published',
+] as const satisfies readonly PublishingFilter[];
+
+/**
+ * The collections that the relationship fields of a collection that are
+ * filters or columns refer to, so their entries can be shown by name.
+ */
+function getRelatedCollections(
+  collection: Collection<Record<string, ComponentSchema>, string>
+) {
+  const collections = new Set<string>();
+  for (const field of [
+    ...(collection.columns ?? []),
+    ...(collection.filters ?? []),
+  ]) {
+    const schema = collection.schema[field];
+    if (schema && 'collection' in schema) {
+      collections.add(schema.collection as string);
+    }
+  }
+  return [...collections];
+}
+
+type CollectionPageContentProps = CollectionPageProps & {
+  searchTerm: string;
+  publishingFilter: PublishingFilter;
+  filters: CollectionFilter[];
+  filterValues: FilterValues;
+  entryNames: Map<string, Map<string, string>>;
+};
 function CollectionPageContent(props: CollectionPageContentProps) {
   const trees = useTree();
 
@@ -263,6 +403,9 @@ function CollectionPageContent(props: CollectionPageContentProps) {
 
 const SLUG = '@@slug';
 const STATUS = '@@status';
+const PUBLISHING = '@@publishing';
+const TRANSLATIONS = '@@translations';
+const COMMENTS = '@@comments';
 
 function CollectionTable(
   props: CollectionPageContentProps & {
@@ -272,8 +415,9 @@ function CollectionTable(
     };
   }
 ) {
-  let { searchTerm } = props;
+  let { searchTerm, publishingFilter, filters, filterValues } = props;
 
+  const stringFormatter = useLocalizedStringFormatter(l10nMessages);
   let { currentBranch, defaultBranch } = useBranchInfo();
   let isLocalMode = isLocalConfig(props.config);
   let router = useRouter();
@@ -281,6 +425,7 @@ function CollectionTable(
     column: SLUG,
     direction: 'ascending',
   });
+  let [selectedKeys, setSelectedKeys] = useState<Selection>(() => new Set());
   let hideStatusColumn = isLocalMode || currentBranch === defaultBranch;
 
   const branchInfo = useBranchInfo();
@@ -314,9 +459,36 @@ function CollectionTable(
     });
   }, [props.collection, props.config, props.trees]);
 
+  // the locales other than the default locale that each entry hasn't been
+  // translated into yet
+  const missingTranslations = useMemo(() => {
+    if (!collection.localization) return undefined;
+    const defaultLocale = getDefaultLocale(collection.localization);
+    const translatedSlugs = collection.localization.locales
+      .filter(locale => locale !== defaultLocale)
+      .map(locale => {
+        const slugs = getEntriesInCollectionWithTreeKey(
+          getConfigForLocale(props.config, locale),
+          props.collection,
+          props.trees.current.tree
+        ).map(x => x.slug);
+        return [locale, new Set(slugs)] as const;
+      });
+    return (slug: string) =>
+      translatedSlugs
+        .filter(([, slugs]) => !slugs.has(slug))
+        .map(([locale]) => locale);
+  }, [collection.localization, props.collection, props.config, props.trees]);
+
   const mainFiles = useData(
     useCallback(async () => {
-      if (!collection.columns?.length) return undefined;
+      if (
+        !collection.columns?.length &&
+        !collection.publishing &&
+        !filters.length
+      ) {
+        return undefined;
+      }
       const formatInfo = getCollectionFormat(props.config, props.collection);
       const entries = await Promise.all(
         entriesWithStatus.map(async entry => {
@@ -347,12 +519,27 @@ function CollectionTable(
           const { loaded } = loadDataFile(dataFile, formatInfo);
           const validated = parseProps(
             rootSchema,
-            loaded,
+            migrateEntryData(loaded, formatInfo.migrations).data,
             [],
             [],
             (schema, value, path) => {
               if (schema.formKind === 'asset') {
-                return schema.reader.parse(value);
+                // the path of the file in the repo, so images can be shown
+                // as thumbnails
+                const filename = schema.filename(value, {
+                  suggestedFilenamePrefix: path.join('/'),
+                  slug,
+                });
+                if (filename === undefined) return null;
+                return `${
+                  schema.directory
+                    ? `${schema.directory}/${slug}`
+                    : getCollectionItemPath(
+                        props.config,
+                        props.collection,
+                        slug
+                      )
+                }/${filename}`;
               }
               if (schema.formKind === 'content') {
                 return;
@@ -383,11 +570,54 @@ function CollectionTable(
       branchInfo.mainRepo,
       collection,
       entriesWithStatus,
+      filters.length,
+      isRepoPrivate,
+      props.collection,
+      props.config,
+    ])
+  );
+
+  const unresolvedComments = useData(
+    useCallback(async () => {
+      if (!collection.comments) return undefined;
+      const counts = await Promise.all(
+        entriesWithStatus.map(async entry => {
+          const path = getCommentsFilepath(
+            getCollectionItemPath(props.config, props.collection, entry.name)
+          );
+          const sha = props.trees.current.entries.get(path)?.sha;
+          if (!sha) return [entry.name, 0] as const;
+          const contents = await fetchBlob(
+            props.config,
+            sha,
+            path,
+            baseCommit,
+            isRepoPrivate,
+            { owner: branchInfo.mainOwner, name: branchInfo.mainRepo }
+          );
+          return [
+            entry.name,
+            getUnresolvedThreadCount(parseCommentsFile(contents)),
+          ] as const;
+        })
+      );
+      return new Map(counts);
+    }, [
+      baseCommit,
+      branchInfo.mainOwner,
+      branchInfo.mainRepo,
+      collection.comments,
+      entriesWithStatus,
       isRepoPrivate,
       props.collection,
       props.config,
+      props.trees,
     ])
   );
+  const getUnresolvedCommentCount = (slug: string) =>
+    unresolvedComments.kind === 'loaded'
+      ? unresolvedComments.data?.get(slug)
+      : undefined;
 
   const entriesWithData = useMemo((): {
     name: string;
@@ -407,11 +637,26 @@ function CollectionTable(
     });
   }, [entriesWithStatus, mainFiles]);
 
+  const hasFilterValues = Object.keys(filterValues).length > 0;
   const filteredItems = useMemo(() => {
-    return entriesWithData.filter(item =>
-      item.name.toLowerCase().includes(searchTerm.toLowerCase())
+    return entriesWithData.filter(
+      item =>
+        item.name.toLowerCase().includes(searchTerm.toLowerCase()) &&
+        (!collection.publishing ||
+          publishingFilter === 'all' ||
+          (item.data && getPublishingState(item.data) === publishingFilter)) &&
+        (!hasFilterValues ||
+          (item.data && matchesFilters(filters, filterValues, item.data)))
     );
-  }, [entriesWithData, searchTerm]);
+  }, [
+    collection.publishing,
+    entriesWithData,
+    filterValues,
+    filters,
+    hasFilterValues,
+    publishingFilter,
+    searchTerm,
+  ]);
   const sortedItems = useMemo(() => {
     return [...filteredItems].sort((a, b) => {
       const readCol = (
@@ -424,9 +669,22 @@ function CollectionTable(
         if (sortDescriptor.column === STATUS) {
           return row.status;
         }
+        if (sortDescriptor.column === PUBLISHING) {
+          return other ? getPublishingState(other) : row.name;
+        }
+        if (sortDescriptor.column === TRANSLATIONS) {
+          return missingTranslations?.(row.name).length ?? 0;
+        }
+        if (sortDescriptor.column === COMMENTS) {
+          return comments?.get(row.name) ?? 0;
+        }
         return other?.[sortDescriptor.column!] ?? row.name;
       };
       const other = mainFiles.kind === 'loaded' ? mainFiles.data : undefined;
+      const comments =
+        unresolvedComments.kind === 'loaded'
+          ? unresolvedComments.data
+          : undefined;
       return sortBy(
         sortDescriptor.direction!,
         readCol(a, other?.get(a.name)),
@@ -437,11 +695,24 @@ function CollectionTable(
     collection,
     filteredItems,
     mainFiles,
+    missingTranslations,
     sortDescriptor.column,
     sortDescriptor.direction,
+    unresolvedComments,
   ]);
 
   const columns = useMemo(() => {
+    const entryStateColumns = [
+      ...(collection.publishing
+        ? [{ name: 'Publishing', key: PUBLISHING, width: 160 }]
+        : []),
+      ...(collection.localization
+        ? [{ name: 'Missing translations', key: TRANSLATIONS, width: 200 }]
+        : []),
+      ...(collection.comments
+        ? [{ name: 'Comments', key: COMMENTS, width: 120 }]
+        : []),
+    ];
     if (collection.columns?.length) {
       return [
         ...(hideStatusColumn
@@ -451,6 +722,7 @@ function CollectionTable(
           name: 'Slug',
           key: SLUG,
         },
+        ...entryStateColumns,
         ...collection.columns.map(column => {
           const schema = collection.schema[column];
           return {
@@ -461,114 +733,278 @@ function CollectionTable(
       ];
     }
     return hideStatusColumn
-      ? [{ name: 'Name', key: SLUG }]
+      ? [{ name: 'Name', key: SLUG }, ...entryStateColumns]
       : [
           { name: 'Status', key: STATUS, minWidth: 32, width: 32 },
           { name: 'Name', key: SLUG },
+          ...entryStateColumns,
         ];
   }, [collection, hideStatusColumn]);
 
-  return (
-    <TableView
-      aria-labelledby="page-title"
-      selectionMode="none"
-      onSortChange={setSortDescriptor}
-      sortDescriptor={sortDescriptor}
-      density="spacious"
-      overflowMode="truncate"
-      prominence="low"
-      onRowAction={key => {
-        router.push(getItemPath(props.basePath, props.collection, key));
-      }}
-      renderEmptyState={() => (
-        <EmptyState
-          icon={searchXIcon}
-          title="No results"
-          message={`No items matching "${searchTerm}" were found.`}
-        />
-      )}
-      flex
-      marginTop={{ tablet: 'large' }}
-      marginBottom={{ mobile: 'regular', tablet: 'xlarge' }}
-      UNSAFE_className={css({
-        marginInline: tokenSchema.size.space.regular,
-        [breakpointQueries.above.mobile]: {
-          marginInline: `calc(${tokenSchema.size.space.xlarge} - ${tokenSchema.size.space.medium})`,
-        },
-        [breakpointQueries.above.tablet]: {
-          marginInline: `calc(${tokenSchema.size.space.xxlarge} - ${tokenSchema.size.space.medium})`,
-        },
+  // entries that are selected and then filtered out aren't acted on
+  const selectedSlugs = useMemo(
+    () =>
+      sortedItems
+        .map(item => item.name)
+        .filter(slug => selectedKeys === 'all' || selectedKeys.has(slug)),
+    [selectedKeys, sortedItems]
+  );
 
-        '[role=rowheader]': {
-          cursor: 'pointer',
-        },
-      })}
-    >
-      <TableHeader columns={columns}>
-        {({ name, key, ...options }) =>
-          key === STATUS ? (
-            <Column key={key} isRowHeader allowsSorting {...options}>
-              <Icon aria-label="Status" src={diffIcon} />
-            </Column>
-          ) : (
-            <Column key={key} isRowHeader allowsSorting {...options}>
-              {name}
-            </Column>
-          )
+  const entryAccess = useEntryAccess({
+    kind: 'collection',
+    collection: props.collection,
+  });
+
+  return (
+    <ActionBarContainer flex minHeight={0}>
+      <TableView
+        aria-labelledby="page-title"
+        // every bulk action needs edit access
+        selectionMode={
+          hasAccess(entryAccess.access, 'edit') ? 'multiple' : 'none'
         }
-      </TableHeader>
-      <TableBody items={sortedItems}>
-        {item => {
-          const statusCell = (
-            <Cell key={STATUS + item.name} textValue={item.status}>
-              {item.status === 'Added' ? (
-                <Icon color="positive" src={plusSquareIcon} />
-              ) : item.status === 'Changed' ? (
-                <Icon color="accent" src={dotSquareIcon} />
-              ) : null}
-            </Cell>
-          );
-          const nameCell = (
-            <Cell key={SLUG + item.name} textValue={item.name as string}>
-              <Text weight="medium">{item.name as string}</Text>
-            </Cell>
-          );
-          if (collection.columns?.length) {
-            return (
+        selectedKeys={selectedKeys}
+        onSelectionChange={setSelectedKeys}
+        onSortChange={setSortDescriptor}
+        sortDescriptor={sortDescriptor}
+        density="spacious"
+        overflowMode="truncate"
+        prominence="low"
+        onRowAction={key => {
+          router.push(getItemPath(props.basePath, props.collection, key));
+        }}
+        renderEmptyState={() => (
+          <EmptyState
+            icon={searchXIcon}
+            title="No results"
+            message={
+              searchTerm
+                ? `No items matching "${searchTerm}" were found.`
+                : 'No items match the filters.'
+            }
+          />
+        )}
+        flex
+        marginTop={{ tablet: 'large' }}
+        marginBottom={{ mobile: 'regular', tablet: 'xlarge' }}
+        UNSAFE_className={css({
+          marginInline: tokenSchema.size.space.regular,
+          [breakpointQueries.above.mobile]: {
+            marginInline: `calc(${tokenSchema.size.space.xlarge} - ${tokenSchema.size.space.medium})`,
+          },
+          [breakpointQueries.above.tablet]: {
+            marginInline: `calc(${tokenSchema.size.space.xxlarge} - ${tokenSchema.size.space.medium})`,
+          },
+
+          '[role=rowheader]': {
+            cursor: 'pointer',
+          },
+        })}
+      >
+        <TableHeader columns={columns}>
+          {({ name, key, ...options }) =>
+            key === STATUS ? (
+              <Column key={key} isRowHeader allowsSorting {...options}>
+                <Icon aria-label="Status" src={diffIcon} />
+              </Column>
+            ) : (
+              <Column key={key} isRowHeader allowsSorting {...options}>
+                {name}
+              </Column>
+            )
+          }
+        </TableHeader>
+        <TableBody items={sortedItems}>
+          {item => {
+            const statusCell = (
+              <Cell key={STATUS + item.name} textValue={item.status}>
+                {item.status === 'Added' ? (
+                  <Icon color="positive" src={plusSquareIcon} />
+                ) : item.status === 'Changed' ? (
+                  <Icon color="accent" src={dotSquareIcon} />
+                ) : null}
+              </Cell>
+            );
+            const nameCell = (
+              <Cell key={SLUG + item.name} textValue={item.name as string}>
+                <Text weight="medium">{item.name as string}</Text>
+              </Cell>
+            );
+            const publishingState = item.data && getPublishingState(item.data);
+            const missingLocales = missingTranslations?.(item.name);
+            const commentCount = getUnresolvedCommentCount(item.name);
+            const entryStateCells = [
+              ...(collection.publishing
+                ? [
+                    <Cell
+                      key={PUBLISHING + item.name}
+                      textValue={
+                        publishingState &&
+                        stringFormatter.format(publishingState)
+                      }
+                    >
+                      {publishingState && (
+                        <PublishingBadge state={publishingState} />
+                      )}
+                    </Cell>,
+                  ]
+                : []),
+              ...(missingLocales
+                ? [
+                    <Cell
+                      key={TRANSLATIONS + item.name}
+                      textValue={missingLocales.join(', ')}
+                    >
+                      <Flex gap="small" wrap>
+                        {missingLocales.map(locale => (
+                          <Badge key={locale} tone="caution">
+                            {locale}
+                          </Badge>
+                        ))}
+                      </Flex>
+                    </Cell>,
+                  ]
+                : []),
+              ...(collection.comments
+                ? [
+                    <Cell
+                      key={COMMENTS + item.name}
+                      textValue={
+                        commentCount ? `${commentCount} unresolved` : undefined
+                      }
+                    >
+                      {!!commentCount && (
+                        <Badge tone="accent">
+                          <Icon src={messageSquareIcon} />
+                          <Text>{commentCount}</Text>
+                        </Badge>
+                      )}
+                    </Cell>,
+                  ]
+                : []),
+            ];
+            if (collection.columns?.length) {
+              return (
+                <Row key={item.name}>
+                  {[
+                    ...(hideStatusColumn ? [] : [statusCell]),
+                    nameCell,
+                    ...entryStateCells,
+                    ...collection.columns.map(column => {
+                      const schema = collection.schema[column];
+                      let val: unknown = item.data?.[column];
+
+                      if (
+                        schema.kind === 'form' &&
+                        schema.formKind === 'asset' &&
+                        typeof val === 'string'
+                      ) {
+                        const filename = val.split('/').pop();
+                        const sha = props.trees.current.entries.get(val)?.sha;
+                        return (
+                          <Cell key={column + item.name} textValue={filename}>
+                            {isImageFilename(filename) && sha ? (
+                              <EntryImageThumbnail
+                                path={val}
+                                sha={sha}
+                                alt={filename!}
+                              />
+                            ) : (
+                              <Text weight="medium">{filename}</Text>
+                            )}
+                          </Cell>
+                        );
+                      }
+                      if ('collection' in schema && val != null) {
+                        // relationships are shown by the names of the entries
+                        const names = props.entryNames.get(
+                          schema.collection as string
+                        );
+                        val = (Array.isArray(val) ? val : [val])
+                          .map(slug => names?.get(slug) ?? slug)
+                          .join(', ');
+                      }
+
+                      if (val == null) {
+                        val = undefined;
+                      } else if (Array.isArray(val)) {
+                        val = val.join(', ');
+                      } else {
+                        val = val + '';
+                      }
+                      return (
+                        <Cell
+                          key={column + item.name}
+                          textValue={val as string | undefined}
+                        >
+                          <Text weight="medium">
+                            {val as string | undefined}
+                          </Text>
+                        </Cell>
+                      );
+                    }),
+                  ]}
+                </Row>
+              );
+            }
+            return hideStatusColumn ? (
+              <Row key={item.name}>{[nameCell, ...entryStateCells]}</Row>
+            ) : (
               <Row key={item.name}>
-                {[
-                  ...(hideStatusColumn ? [] : [statusCell]),
-                  nameCell,
-                  ...collection.columns.map(column => {
-                    let val;
-                    val = item.data?.[column];
-
-                    if (val == null) {
-                      val = undefined;
-                    } else {
-                      val = val + '';
-                    }
-                    return (
-                      <Cell key={column + item.name} textValue={val}>
-                        <Text weight="medium">{val}</Text>
-                      </Cell>
-                    );
-                  }),
-                ]}
+                {[statusCell, nameCell, ...entryStateCells]}
               </Row>
             );
-          }
-          return hideStatusColumn ? (
-            <Row key={item.name}>{nameCell}</Row>
-          ) : (
-            <Row key={item.name}>
-              {statusCell}
-              {nameCell}
-            </Row>
-          );
-        }}
-      </TableBody>
-    </TableView>
+          }}
+        </TableBody>
+      </TableView>
+      <CollectionBulkActions
+        config={props.config}
+        collection={props.collection}
+        selectedSlugs={selectedSlugs}
+        existingSlugs={entriesWithStatus.map(entry => entry.name)}
+        onClearSelection={() => setSelectedKeys(new Set())}
+      />
+    </ActionBarContainer>
+  );
+}
+
+function EntryImageThumbnail(props: {
+  path: string;
+  sha: string;
+  alt: string;
+}) {
+  const config = useConfig();
+  const baseCommit = useBaseCommit();
+  const isRepoPrivate = useIsRepoPrivate();
+  const { mainOwner, mainRepo } = useBranchInfo();
+  const contents = useData(
+    useCallback(
+      () =>
+        fetchBlob(config, props.sha, props.path, baseCommit, isRepoPrivate, {
+          owner: mainOwner,
+          name: mainRepo,
+        }),
+      [
+        baseCommit,
+        config,
+        isRepoPrivate,
+        mainOwner,
+        mainRepo,
+        props.path,
+        props.sha,
+      ]
+    )
+  );
+  const url = useObjectURL(contents.kind === 'loaded' ? contents.data : null);
+  if (!url) return null;
+  return (
+    <Image
+      src={url}
+      alt={props.alt}
+      aspectRatio="1"
+      height="element.regular"
+      borderRadius="small"
+    />
   );
 }
 
@@ -577,16 +1013,3 @@ function getItemPath(basePath: string, collection: string, key: Key): string {
     collection
   )}/item/${encodeURIComponent(key)}`;
 }
-export function useDebouncedValue<T>(value: T, delay = 300): T {
-  const [debouncedValue, setDebouncedValue] = useState<T>(value);
-
-  useEffect(() => {
-    const timer = setTimeout(() => setDebouncedValue(value), delay);
-
-    return () => {
-      clearTimeout(timer);
-    };
-  }, [value, delay]);
-
-  return debouncedValue;
-}
@@ -21,9 +21,17 @@ import { Icon } from '@keystar/ui/icon';
 import { copyPlusIcon } from '@keystar/ui/icon/icons/copyPlusIcon';
 import { externalLinkIcon } from '@keystar/ui/icon/icons/externalLinkIcon';
 import { githubIcon } from '@keystar/ui/icon/icons/githubIcon';
+import { calendarClockIcon } from '@keystar/ui/icon/icons/calendarClockIcon';
+import { eyeIcon } from '@keystar/ui/icon/icons/eyeIcon';
+import { eyeOffIcon } from '@keystar/ui/icon/icons/eyeOffIcon';
+import { fileClockIcon } from '@keystar/ui/icon/icons/fileClockIcon';
+import { fileDiffIcon } from '@keystar/ui/icon/icons/fileDiffIcon';
 import { historyIcon } from '@keystar/ui/icon/icons/historyIcon';
+import { languagesIcon } from '@keystar/ui/icon/icons/languagesIcon';
+import { messageSquareIcon } from '@keystar/ui/icon/icons/messageSquareIcon';
+import { monitorIcon } from '@keystar/ui/icon/icons/monitorIcon';
 import { trash2Icon } from '@keystar/ui/icon/icons/trash2Icon';
-import { Box, Flex } from '@keystar/ui/layout';
+import { Box, Flex, Grid } from '@keystar/ui/layout';
 import { Notice } from '@keystar/ui/notice';
 import { ProgressCircle } from '@keystar/ui/progress';
 import { Content } from '@keystar/ui/slots';
@@ -33,11 +41,22 @@ import {
   tokenSchema,
   useMediaQuery,
 } from '@keystar/ui/style';
+import {
+  SplitView,
+  SplitPanePrimary,
+  SplitPaneSecondary,
+} from '@keystar/ui/split-view';
 import { TextField } from '@keystar/ui/text-field';
 import { Heading, Text } from '@keystar/ui/typography';
 
-import { Config } from '../config';
-import { fields } from '../form/api';
+import { Access, Config, Localization } from '../config';
+import { PreviewEntry } from '../preview';
+import {
+  ComponentSchema,
+  ObjectField,
+  PreviewProps,
+  fields,
+} from '../form/api';
 import { createGetPreviewProps } from '../form/preview-props';
 import { clientSideValidateProp } from '../form/errors';
 import { useEventCallback } from '../form/fields/document/DocumentEditor/ui-utils';
@@ -48,11 +67,28 @@ import {
   prettyErrorForCreateBranchMutation,
   useCreateBranchMutation,
 } from './branch-selection';
+import {
+  CommentsPane,
+  CommentsProvider,
+  CommentsState,
+  useCommentsState,
+} from './comments-ui';
 import { FormForEntry, containerWidthForEntryLayout } from './entry-form';
+import { EntryHistoryDialog } from './entry-history';
 import { ForkRepoDialog } from './fork-repo';
 import l10nMessages from './l10n/index.json';
+import { LivePreview } from './live-preview';
+import { getConfigForLocale } from './localization';
+import {
+  LocalePicker,
+  TranslateFromPane,
+  getHrefForLocale,
+  useContentLocale,
+} from './localization-ui';
 import { notFound } from './not-found';
 import { getDataFileExtension, getPathPrefix } from './path-utils';
+import { hasAccess } from './permissions';
+import { useEntryAccess } from './permissions-ui';
 import { useRouter } from './router';
 import { HeaderBreadcrumbs } from './shell/HeaderBreadcrumbs';
 import { useYjs, useYjsIfAvailable } from './shell/collab';
@@ -67,13 +103,23 @@ import {
   showDraftRestoredToast,
 } from './persistence';
 import { PresenceAvatars } from './presence';
+import {
+  PUBLISHING_STATUS_FIELD,
+  PUBLISH_AT_FIELD,
+  PublishingState,
+  PublishingStatus,
+  getPublishingState,
+} from './publishing';
+import { PublishingBadge, ScheduleDialog } from './publishing-ui';
+import { ReviewChangesDialog } from './review-changes';
 import {
   serializeEntryToFiles,
   useDeleteItem,
   useUpsertItem,
 } from './updating';
 import { useHasChanged } from './useHasChanged';
-import { parseEntry, useItemData } from './useItemData';
+import { ParseEntryArgs, parseEntry } from './parse-entry';
+import { useItemData } from './useItemData';
 import {
   getBranchPrefix,
   getCollectionFormat,
@@ -88,6 +134,13 @@ import { useYJsValue } from './useYJsValue';
 type ItemPageProps = {
   collection: string;
   config: Config;
+  /** The locale of the translation being edited, `undefined` is the default */
+  locale: string | undefined;
+  /**
+   * The entry hasn't been translated into the locale so the state is the
+   * entry in the default locale and saving creates the translation
+   */
+  isNewTranslation?: boolean;
   initialFiles: string[];
   initialState: Record<string, unknown>;
   itemSlug: string;
@@ -106,12 +159,17 @@ const storedValSchema = z.object({
 function ItemPageInner(
   props: ItemPageProps & {
     onUpdate: (options?: { branch: string; sha: string }) => Promise<boolean>;
-    onReset: () => void;
+    /**
+     * Resets the state of the entry to its initial state or to the given
+     * state, like a version of the entry from its history
+     */
+    onReset: (state?: Record<string, unknown>) => void;
     updateResult: ReturnType<typeof useUpsertItem>[0];
     onResetUpdateItem: () => void;
     previewProps: ReturnType<ReturnType<typeof createGetPreviewProps>>;
     hasChanged: boolean;
     state: Record<string, unknown>;
+    comments: CommentsState | undefined;
   }
 ) {
   const {
@@ -133,6 +191,10 @@ function ItemPageInner(
   const formatInfo = getCollectionFormat(config, collection);
   const branchInfo = useBranchInfo();
   const [forceValidation, setForceValidation] = useState(false);
+  const [historyIsOpen, setHistoryOpen] = useState(false);
+  const [reviewIsOpen, setReviewOpen] = useState(false);
+  const [translateIsOpen, setTranslateOpen] = useState(false);
+  const [livePreviewIsOpen, setLivePreviewOpen] = useState(false);
   const previewHref = useMemo(() => {
     return collectionConfig.previewUrl
       ? collectionConfig
@@ -150,9 +212,14 @@ function ItemPageInner(
   };
 
   const slugInfo = useSlugFieldInfo(collection, itemSlug);
+  const entryAccess = useEntryAccess({ kind: 'collection', collection });
+  const canEdit = hasAccess(entryAccess.access, 'edit');
 
+  const { comments } = props;
   const [deleteResult, deleteItem, resetDeleteItem] = useDeleteItem({
-    initialFiles: props.initialFiles,
+    initialFiles: comments?.file
+      ? [...props.initialFiles, comments.file.path]
+      : props.initialFiles,
     storage: config.storage,
     basePath: currentBasePath,
   });
@@ -164,7 +231,8 @@ function ItemPageInner(
       )}/create?duplicate=${itemSlug}`
     );
   };
-  const isSavingDisabled = updateResult.kind === 'loading' || !props.hasChanged;
+  const isSavingDisabled =
+    updateResult.kind === 'loading' || !props.hasChanged || !canEdit;
 
   const onUpdate = useCallback(async () => {
     if (isSavingDisabled) return false;
@@ -176,9 +244,12 @@ function ItemPageInner(
     const hasUpdated = await parentOnUpdate();
     if (hasUpdated && slug !== itemSlug) {
       router.replace(
-        `${props.basePath}/collection/${encodeURIComponent(
-          collection
-        )}/item/${encodeURIComponent(slug)}`
+        getHrefForLocale(
+          `${props.basePath}/collection/${encodeURIComponent(
+            collection
+          )}/item/${encodeURIComponent(slug)}`,
+          props.locale
+        )
       );
     }
     return hasUpdated;
@@ -189,6 +260,7 @@ function ItemPageInner(
     itemSlug,
     parentOnUpdate,
     props.basePath,
+    props.locale,
     props.state,
     router,
     schema,
@@ -208,8 +280,100 @@ function ItemPageInner(
         }`
       : undefined;
 
+  const publishing = collectionConfig.publishing
+    ? {
+        state: getPublishingState(props.state),
+        publishAt: (props.state[PUBLISH_AT_FIELD] as string | null) ?? null,
+        onChange: (status: PublishingStatus, publishAt: string | null) => {
+          (
+            props.previewProps as PreviewProps<
+              ObjectField<Record<string, ComponentSchema>>
+            >
+          ).onChange({
+            [PUBLISHING_STATUS_FIELD]: status,
+            [PUBLISH_AT_FIELD]: publishAt,
+          });
+        },
+      }
+    : undefined;
+
+  const historyArgs = useMemo(
+    () => ({
+      config,
+      dirpath: getCollectionItemPath(config, collection, itemSlug),
+      format: getCollectionFormat(config, collection),
+      schema: collectionConfig.schema,
+      slug: { field: collectionConfig.slugField, slug: itemSlug },
+    }),
+    [collection, collectionConfig, config, itemSlug]
+  );
+
+  const getArgsForLocale = useCallback(
+    (locale: string): ParseEntryArgs => {
+      const localeConfig = getConfigForLocale(config, locale);
+      return {
+        config: localeConfig,
+        dirpath: getCollectionItemPath(localeConfig, collection, itemSlug),
+        format: getCollectionFormat(localeConfig, collection),
+        schema: collectionConfig.schema,
+        slug: { field: collectionConfig.slugField, slug: itemSlug },
+      };
+    },
+    [collection, collectionConfig, config, itemSlug]
+  );
+
+  const previewEntry = useMemo(
+    (): PreviewEntry => ({ kind: 'collection', collection, slug: itemSlug }),
+    [collection, itemSlug]
+  );
+
   const formID = 'item-edit-form';
 
+  const form = (
+    <Box
+      id={formID}
+      height="100%"
+      minHeight={0}
+      minWidth={0}
+      elementType="form"
+      onSubmit={(event: FormEvent) => {
+        if (event.target !== event.currentTarget) return;
+        event.preventDefault();
+        onUpdate();
+      }}
+    >
+      <FormForEntry
+        previewProps={props.previewProps as any}
+        forceValidation={forceValidation}
+        entryLayout={collectionConfig.entryLayout}
+        formatInfo={formatInfo}
+        slugField={slugInfo}
+        readOnlyFields={entryAccess.readOnlyFields}
+      />
+    </Box>
+  );
+  const formWithTranslation =
+    translateIsOpen && collectionConfig.localization ? (
+      <Grid columns="1fr 1fr" gap="xlarge" minHeight={0}>
+        {form}
+        <TranslateFromPane
+          localization={collectionConfig.localization}
+          locale={props.locale}
+          getArgsForLocale={getArgsForLocale}
+        />
+      </Grid>
+    ) : (
+      form
+    );
+  const formWithComments = comments?.isPaneOpen ? (
+    <Grid columns="2fr 1fr" gap="xlarge" minHeight={0}>
+      {formWithTranslation}
+      <CommentsPane />
+    </Grid>
+  ) : (
+    formWithTranslation
+  );
+
   // allow shortcuts "cmd+s" and "ctrl+s" to save
   useEffect(() => {
     const listener = (event: KeyboardEvent) => {
@@ -226,18 +390,48 @@ function ItemPageInner(
   }, [updateResult.kind, onUpdate]);
 
   return (
-    <>
+    <CommentsProvider value={comments}>
       <ItemPageShell
         headerActions={
           <HeaderActions
             formID={formID}
             isLoading={updateResult.kind === 'loading'}
             hasChanged={props.hasChanged}
+            access={entryAccess.access}
             onDelete={onDelete}
             onDuplicate={onDuplicate}
             onReset={props.onReset}
             viewHref={viewHref}
             previewHref={previewHref}
+            livePreview={
+              previewHref
+                ? {
+                    isOpen: livePreviewIsOpen,
+                    onToggle: () => setLivePreviewOpen(open => !open),
+                  }
+                : undefined
+            }
+            publishing={publishing}
+            onShowHistory={
+              config.storage.kind === 'local'
+                ? undefined
+                : () => setHistoryOpen(true)
+            }
+            onReviewChanges={() => setReviewOpen(true)}
+            localization={
+              collectionConfig.localization && {
+                config: collectionConfig.localization,
+                locale: props.locale,
+                onTranslate: () => setTranslateOpen(open => !open),
+              }
+            }
+            comments={
+              comments && {
+                isOpen: comments.isPaneOpen,
+                onToggle: () => comments.setPaneOpen(!comments.isPaneOpen),
+                isBlockingPublishing: comments.isBlockingPublishing,
+              }
+            }
           />
         }
         {...props}
@@ -248,26 +442,63 @@ function ItemPageInner(
         {deleteResult.kind === 'error' && (
           <Notice tone="critical">{deleteResult.error.message}</Notice>
         )}
-        <Box
-          id={formID}
-          height="100%"
-          minHeight={0}
-          minWidth={0}
-          elementType="form"
-          onSubmit={(event: FormEvent) => {
-            if (event.target !== event.currentTarget) return;
-            event.preventDefault();
-            onUpdate();
-          }}
-        >
-          <FormForEntry
-            previewProps={props.previewProps as any}
-            forceValidation={forceValidation}
-            entryLayout={collectionConfig.entryLayout}
-            formatInfo={formatInfo}
-            slugField={slugInfo}
-          />
-        </Box>
+        {!canEdit && (
+          <Notice tone="neutral">
+            You don’t have permission to edit entries in{' '}
+            {collectionConfig.label}.
+          </Notice>
+        )}
+        {props.isNewTranslation && (
+          <Notice tone="neutral">
+            This entry hasn’t been translated into this locale yet, it has been
+            filled in from the default locale. Saving it will create the
+            translation.
+          </Notice>
+        )}
+        {livePreviewIsOpen && previewHref ? (
+          <SplitView
+            autoSaveId="keystatic-live-preview-split-view"
+            defaultSize={480}
+            minSize={320}
+            maxSize={960}
+            flex
+          >
+            <SplitPaneSecondary>{formWithComments}</SplitPaneSecondary>
+            <SplitPanePrimary>
+              <LivePreview
+                url={previewHref}
+                entry={previewEntry}
+                schema={collectionConfig.schema}
+                state={props.state}
+                slugField={collectionConfig.slugField}
+                slug={itemSlug}
+              />
+            </SplitPanePrimary>
+          </SplitView>
+        ) : (
+          formWithComments
+        )}
+        <DialogContainer onDismiss={() => setHistoryOpen(false)}>
+          {historyIsOpen && (
+            <EntryHistoryDialog
+              args={historyArgs}
+              onRestore={state => props.onReset(state)}
+            />
+          )}
+        </DialogContainer>
+        <DialogContainer onDismiss={() => setReviewOpen(false)}>
+          {reviewIsOpen && (
+            <ReviewChangesDialog
+              collection={collection}
+              config={config}
+              itemSlug={itemSlug}
+              initialFiles={props.initialFiles}
+              initialState={props.initialState}
+              state={props.state}
+              onSave={onUpdate}
+            />
+          )}
+        </DialogContainer>
         <DialogContainer
           // ideally this would be a popover on desktop but using a DialogTrigger wouldn't work since
           // this doesn't open on click but after doing a network request and it failing and manually wiring about a popover and modal would be a pain
@@ -346,7 +577,7 @@ function ItemPageInner(
             )}
         </DialogContainer>
       </ItemPageShell>
-    </>
+    </CommentsProvider>
   );
 }
 
@@ -400,16 +631,22 @@ function LocalItemPage(
     [schema]
   )(state as Record<string, unknown>);
 
-  const hasChanged = useHasChanged({
-    initialState,
-    schema,
-    state,
-    slugField: collectionConfig.slugField,
-  });
+  const hasChanged =
+    useHasChanged({
+      initialState,
+      schema,
+      state,
+      slugField: collectionConfig.slugField,
+    }) || !!props.isNewTranslation;
 
   const slug = getSlugFromState(collectionConfig, state);
   const formatInfo = getCollectionFormat(config, collection);
   const futureBasePath = getCollectionItemPath(config, collection, slug);
+  const comments = useCommentsState({
+    config,
+    collection,
+    itemSlug: props.itemSlug,
+  });
   const [updateResult, _update, resetUpdateItem] = useUpsertItem({
     state,
     initialFiles,
@@ -419,10 +656,11 @@ function LocalItemPage(
     format: formatInfo,
     currentLocalTreeKey: localTreeKey,
     slug: { field: collectionConfig.slugField, value: slug },
+    commentsFile: comments?.file,
   });
 
   useEffect(() => {
-    const key = ['collection', collection, props.itemSlug] as const;
+    const key = getDraftKey(collection, props.itemSlug, props.locale);
     if (hasChanged) {
       const serialized = serializeEntryToFiles({
         basePath: futureBasePath,
@@ -451,14 +689,15 @@ function LocalItemPage(
     futureBasePath,
     localTreeKey,
     props.itemSlug,
+    props.locale,
     slug,
     state,
     hasChanged,
   ]);
   const update = useEventCallback(_update);
 
-  const onReset = () => {
-    setState({ state: initialState, localTreeKey });
+  const onReset = (state = initialState) => {
+    setState({ state, localTreeKey });
   };
   return (
     <ItemPageInner
@@ -470,6 +709,7 @@ function LocalItemPage(
       previewProps={previewProps}
       state={state}
       hasChanged={hasChanged}
+      comments={comments}
     />
   );
 }
@@ -502,6 +742,11 @@ function CollabItemPage(props: ItemPageProps & { map: Y.Map<any> }) {
   });
 
   const futureBasePath = getCollectionItemPath(config, collection, slug);
+  const comments = useCommentsState({
+    config,
+    collection,
+    itemSlug: props.itemSlug,
+  });
   const [updateResult, _update, resetUpdateItem] = useUpsertItem({
     state,
     initialFiles,
@@ -511,14 +756,15 @@ function CollabItemPage(props: ItemPageProps & { map: Y.Map<any> }) {
     format: formatInfo,
     currentLocalTreeKey: localTreeKey,
     slug: { field: collectionConfig.slugField, value: slug },
+    commentsFile: comments?.file,
   });
 
   const update = useEventCallback(_update);
 
-  const onReset = () => {
+  const onReset = (state = props.initialState) => {
     props.map.doc!.transact(() => {
       for (const [key, value] of Object.entries(collectionConfig.schema)) {
-        const val = getYjsValFromParsedValue(value, props.initialState[key]);
+        const val = getYjsValFromParsedValue(value, state[key]);
         props.map.set(key, val);
       }
     });
@@ -533,6 +779,7 @@ function CollabItemPage(props: ItemPageProps & { map: Y.Map<any> }) {
       previewProps={previewProps}
       state={state}
       hasChanged={hasChanged}
+      comments={comments}
     />
   );
 }
@@ -541,26 +788,59 @@ function HeaderActions(props: {
   formID: string;
   hasChanged: boolean;
   isLoading: boolean;
+  /** The access of the current user to the collection */
+  access: Access;
   onDelete: () => void;
   onDuplicate: () => void;
   onReset: () => void;
   previewHref?: string;
+  livePreview?: { isOpen: boolean; onToggle: () => void };
   viewHref?: string;
+  publishing?: {
+    state: PublishingState;
+    publishAt: string | null;
+    onChange: (status: PublishingStatus, publishAt: string | null) => void;
+  };
+  onShowHistory?: () => void;
+  onReviewChanges: () => void;
+  localization?: {
+    config: Localization;
+    locale: string | undefined;
+    onTranslate: () => void;
+  };
+  comments?: {
+    isOpen: boolean;
+    onToggle: () => void;
+    isBlockingPublishing: boolean;
+  };
 }) {
   let {
     formID,
     hasChanged,
     isLoading,
+    access,
     onDelete,
     onDuplicate,
     onReset,
     previewHref,
+    livePreview,
     viewHref,
+    publishing,
+    onShowHistory,
+    onReviewChanges,
+    localization,
+    comments,
   } = props;
   const isBelowDesktop = useMediaQuery(breakpointQueries.below.desktop);
   const stringFormatter = useLocalizedStringFormatter(l10nMessages);
   const [deleteAlertIsOpen, setDeleteAlertOpen] = useState(false);
   const [duplicateAlertIsOpen, setDuplicateAlertOpen] = useState(false);
+  const [scheduleDialogIsOpen, setScheduleDialogOpen] = useState(false);
+  const publishingState = publishing?.state;
+  const hasHistory = !!onShowHistory;
+  const hasLocalization = !!localization;
+  const isLivePreviewOpen = livePreview?.isOpen;
+  const isCommentsOpen = comments?.isOpen;
   const menuActions = useMemo(() => {
     type ActionType = {
       icon: ReactElement;
@@ -578,16 +858,78 @@ function HeaderActions(props: {
         icon: historyIcon,
       },
       {
+        key: 'review',
+        label: `${stringFormatter.format('reviewChanges')}…`,
+        icon: fileDiffIcon,
+      },
+    ];
+    if (hasAccess(access, 'publish')) {
+      items.push({
         key: 'delete',
         label: 'Delete entry…', // TODO: l10n
         icon: trash2Icon,
-      },
-      {
+      });
+    }
+    if (hasAccess(access, 'edit')) {
+      items.push({
         key: 'duplicate',
         label: 'Duplicate entry…', // TODO: l10n
         icon: copyPlusIcon,
-      },
-    ];
+      });
+    }
+    if (hasHistory) {
+      items.push({
+        key: 'history',
+        label: `${stringFormatter.format('history')}…`,
+        icon: fileClockIcon,
+      });
+    }
+    if (hasLocalization) {
+      items.push({
+        key: 'translate',
+        label: `${stringFormatter.format('translateFrom')}…`,
+        icon: languagesIcon,
+      });
+    }
+    if (isCommentsOpen !== undefined) {
+      items.push({
+        key: 'comments',
+        label: stringFormatter.format(
+          isCommentsOpen ? 'hideComments' : 'showComments'
+        ),
+        icon: messageSquareIcon,
+      });
+    }
+    if (publishingState && hasAccess(access, 'publish')) {
+      if (publishingState !== 'published') {
+        items.push({
+          key: 'publish',
+          label: stringFormatter.format('publishNow'),
+          icon: eyeIcon,
+        });
+      }
+      items.push({
+        key: 'schedule',
+        label: `${stringFormatter.format('schedule')}…`,
+        icon: calendarClockIcon,
+      });
+      if (publishingState !== 'draft') {
+        items.push({
+          key: 'unpublish',
+          label: stringFormatter.format('unpublish'),
+          icon: eyeOffIcon,
+        });
+      }
+    }
+    if (isLivePreviewOpen !== undefined) {
+      items.push({
+        key: 'live-preview',
+        label: stringFormatter.format(
+          isLivePreviewOpen ? 'hideLivePreview' : 'showLivePreview'
+        ),
+        icon: monitorIcon,
+      });
+    }
     if (previewHref) {
       items.push({
         key: 'preview',
@@ -610,7 +952,17 @@ function HeaderActions(props: {
     }
 
     return items;
-  }, [previewHref, viewHref]);
+  }, [
+    access,
+    hasHistory,
+    hasLocalization,
+    isCommentsOpen,
+    isLivePreviewOpen,
+    previewHref,
+    publishingState,
+    stringFormatter,
+    viewHref,
+  ]);
 
   const indicatorElement = (() => {
     if (isLoading) {
@@ -645,6 +997,18 @@ function HeaderActions(props: {
   return (
     <Flex alignItems="center" gap={{ mobile: 'small', tablet: 'regular' }}>
       <PresenceAvatars />
+      {localization && (
+        <LocalePicker
+          localization={localization.config}
+          locale={localization.locale}
+        />
+      )}
+      {publishing && (
+        <PublishingBadge
+          state={publishing.state}
+          isHidden={{ below: 'tablet' }}
+        />
+      )}
       {indicatorElement}
       <ActionGroup
         buttonLabelBehavior="hide"
@@ -653,12 +1017,19 @@ function HeaderActions(props: {
         density="compact"
         maxWidth={isBelowDesktop ? 'element.regular' : undefined} // force switch to action menu on small devices
         items={menuActions}
-        disabledKeys={hasChanged ? [] : ['reset']}
+        disabledKeys={[
+          ...(hasChanged ? [] : ['reset', 'review']),
+          // entries can't be published while they have unresolved comments
+          ...(comments?.isBlockingPublishing ? ['publish', 'schedule'] : []),
+        ]}
         onAction={key => {
           switch (key) {
             case 'reset':
               onReset();
               break;
+            case 'review':
+              onReviewChanges();
+              break;
             case 'delete':
               setDeleteAlertOpen(true);
               break;
@@ -669,6 +1040,27 @@ function HeaderActions(props: {
                 onDuplicate();
               }
               break;
+            case 'history':
+              onShowHistory?.();
+              break;
+            case 'translate':
+              localization?.onTranslate();
+              break;
+            case 'comments':
+              comments?.onToggle();
+              break;
+            case 'live-preview':
+              livePreview?.onToggle();
+              break;
+            case 'publish':
+              publishing?.onChange('published', null);
+              break;
+            case 'schedule':
+              setScheduleDialogOpen(true);
+              break;
+            case 'unpublish':
+              publishing?.onChange('draft', null);
+              break;
           }
         }}
       >
@@ -687,7 +1079,7 @@ function HeaderActions(props: {
       </ActionGroup>
       <Button
         form={formID}
-        isDisabled={isLoading}
+        isDisabled={isLoading || !hasAccess(access, 'edit')}
         prominence="high"
         type="submit"
       >
@@ -721,6 +1113,17 @@ function HeaderActions(props: {
           </AlertDialog>
         )}
       </DialogContainer>
+      <DialogContainer onDismiss={() => setScheduleDialogOpen(false)}>
+        {scheduleDialogIsOpen && publishing && (
+          <ScheduleDialog
+            publishAt={publishing.publishAt}
+            onDismiss={() => setScheduleDialogOpen(false)}
+            onSchedule={publishAt =>
+              publishing?.onChange('published', publishAt)
+            }
+          />
+        )}
+      </DialogContainer>
     </Flex>
   );
 }
@@ -817,7 +1220,39 @@ type ItemPageWrapperProps = {
   basePath: string;
 };
 
-function ItemPageWrapper(props: ItemPageWrapperProps) {
+function getDraftKey(
+  collection: string,
+  slug: string,
+  locale: string | undefined
+) {
+  return locale === undefined
+    ? (['collection', collection, slug] as const)
+    : (['collection', collection, slug, locale] as const);
+}
+
+/**
+ * Resolves the paths of a localized collection for the locale in the URL so
+ * that everything below reads and writes the translation in that locale.
+ */
+function LocalizedItemPage(props: ItemPageWrapperProps) {
+  const localization =
+    props.config.collections?.[props.collection]?.localization;
+  const locale = useContentLocale(localization);
+  return (
+    <ItemPageWrapper
+      key={locale}
+      {...props}
+      config={
+        localization ? getConfigForLocale(props.config, locale) : props.config
+      }
+      locale={locale}
+    />
+  );
+}
+
+function ItemPageWrapper(
+  props: ItemPageWrapperProps & { locale: string | undefined }
+) {
   const collectionConfig = props.config.collections?.[props.collection];
   if (!collectionConfig) notFound();
   const format = useMemo(
@@ -831,11 +1266,9 @@ function ItemPageWrapper(props: ItemPageWrapperProps) {
 
   const draftData = useData(
     useCallback(async () => {
-      const raw = await getDraft([
-        'collection',
-        props.collection,
-        props.itemSlug,
-      ]);
+      const raw = await getDraft(
+        getDraftKey(props.collection, props.itemSlug, props.locale)
+      );
       if (!raw) throw new Error('No draft found');
       const stored = storedValSchema.parse(raw);
       const parsed = parseEntry(
@@ -863,6 +1296,7 @@ function ItemPageWrapper(props: ItemPageWrapperProps) {
       props.collection,
       props.config,
       props.itemSlug,
+      props.locale,
     ])
   );
 
@@ -877,10 +1311,25 @@ function ItemPageWrapper(props: ItemPageWrapperProps) {
     format,
     slug: slugInfo,
   });
+  // translations that don't exist yet start from the entry in the default locale
+  const defaultLocaleConfig = getConfigForLocale(props.config, undefined);
+  const defaultLocaleItemData = useItemData({
+    config: defaultLocaleConfig,
+    dirpath: getCollectionItemPath(
+      defaultLocaleConfig,
+      props.collection,
+      props.itemSlug
+    ),
+    schema: collectionConfig.schema,
+    format,
+    slug: slugInfo,
+  });
 
   const branchInfo = useBranchInfo();
 
-  const key = `${branchInfo.currentBranch}/${props.collection}/item/${props.itemSlug}`;
+  const key = `${branchInfo.currentBranch}/${props.collection}/item/${
+    props.itemSlug
+  }${props.locale === undefined ? '' : `/${props.locale}`}`;
 
   const yjsInfo = useYjsIfAvailable();
 
@@ -972,7 +1421,48 @@ function ItemPageWrapper(props: ItemPageWrapperProps) {
     );
   }
 
+  const loadedDraft = draftData.kind === 'loaded' ? draftData.data : undefined;
   if (itemData.data === 'not-found') {
+    if (
+      props.locale !== undefined &&
+      defaultLocaleItemData.kind === 'loaded' &&
+      defaultLocaleItemData.data !== 'not-found'
+    ) {
+      return (
+        <LocalItemPage
+          collection={props.collection}
+          basePath={props.basePath}
+          config={props.config}
+          locale={props.locale}
+          isNewTranslation
+          itemSlug={props.itemSlug}
+          initialState={defaultLocaleItemData.data.initialState}
+          initialFiles={[]}
+          draft={loadedDraft}
+          localTreeKey={defaultLocaleItemData.data.localTreeKey}
+        />
+      );
+    }
+    if (
+      props.locale !== undefined &&
+      defaultLocaleItemData.kind === 'loading'
+    ) {
+      return (
+        <ItemPageShell {...props}>
+          <Flex
+            alignItems="center"
+            justifyContent="center"
+            minHeight="scale.3000"
+          >
+            <ProgressCircle
+              aria-label="Loading Item"
+              isIndeterminate
+              size="large"
+            />
+          </Flex>
+        </ItemPageShell>
+      );
+    }
     return (
       <ItemPageShell {...props}>
         <PageBody>
@@ -981,13 +1471,13 @@ function ItemPageWrapper(props: ItemPageWrapperProps) {
       </ItemPageShell>
     );
   }
-  const loadedDraft = draftData.kind === 'loaded' ? draftData.data : undefined;
   if (mapData.data) {
     return (
       <CollabItemPage
         collection={props.collection}
         basePath={props.basePath}
         config={props.config}
+        locale={props.locale}
         itemSlug={props.itemSlug}
         initialState={itemData.data.initialState}
         initialFiles={itemData.data.initialFiles}
@@ -1001,6 +1491,7 @@ function ItemPageWrapper(props: ItemPageWrapperProps) {
       collection={props.collection}
       basePath={props.basePath}
       config={props.config}
+      locale={props.locale}
       itemSlug={props.itemSlug}
       initialState={itemData.data.initialState}
       initialFiles={itemData.data.initialFiles}
@@ -1042,4 +1533,4 @@ const ItemPageShell = (
   );
 };
 
-export { ItemPageWrapper as ItemPage };
+export { LocalizedItemPage as ItemPage };
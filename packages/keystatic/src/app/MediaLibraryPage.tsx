@@ -0,0 +1,271 @@
+import { useMemo, useState } from 'react';
+
+import { Badge } from '@keystar/ui/badge';
+import { Button } from '@keystar/ui/button';
+import { AlertDialog, DialogContainer } from '@keystar/ui/dialog';
+import { Icon } from '@keystar/ui/icon';
+import { imageIcon } from '@keystar/ui/icon/icons/imageIcon';
+import { trash2Icon } from '@keystar/ui/icon/icons/trash2Icon';
+import { Box, Flex, VStack } from '@keystar/ui/layout';
+import { TextLink } from '@keystar/ui/link';
+import { Notice } from '@keystar/ui/notice';
+import { Item, Picker } from '@keystar/ui/picker';
+import { SearchField } from '@keystar/ui/search-field';
+import { Heading, Text } from '@keystar/ui/typography';
+
+import { Config } from '../config';
+import { useDebouncedValue } from './useDebouncedValue';
+import { ForkRepoDialog } from './fork-repo';
+import { MediaAsset, getMediaOwnerLabel, isImageFilename } from './media';
+import {
+  MediaAssetImage,
+  MediaAssetList,
+  getMediaAssetUsageLabel,
+  useMediaAssets,
+} from './media-picker';
+import { EmptyState } from './shell/empty-state';
+import { PageHeader, PageRoot } from './shell/page';
+import { useDeleteItem } from './updating';
+import { DataState } from './useData';
+import { getEntryHref, isGitHubConfig, pluralize } from './utils';
+
+type MediaFilter = 'all' | 'unused';
+
+const mediaFilterOptions: { key: MediaFilter; label: string }[] = [
+  { key: 'all', label: 'All files' },
+  { key: 'unused', label: 'Unused' },
+];
+
+export function MediaLibraryPage(props: { config: Config; basePath: string }) {
+  const { config } = props;
+  const allAssets = useMediaAssets();
+  const [searchTerm, setSearchTerm] = useState('');
+  const [filter, setFilter] = useState<MediaFilter>('all');
+  const debouncedSearchTerm = useDebouncedValue(searchTerm, 300);
+  const assets = useMemo(
+    (): DataState<MediaAsset[]> =>
+      allAssets.kind === 'loaded' && filter === 'unused'
+        ? {
+            kind: 'loaded',
+            data: allAssets.data.filter(asset => !asset.usedBy.length),
+          }
+        : allAssets,
+    [allAssets, filter]
+  );
+  const [selectedSha, setSelectedSha] = useState<string>();
+  const selectedAsset =
+    assets.kind === 'loaded'
+      ? assets.data.find(asset => asset.sha === selectedSha)
+      : undefined;
+
+  // files without an entry, copies of an asset that are still used by other
+  // entries are unreferenced too
+  const unusedFiles = useMemo(
+    () =>
+      allAssets.kind === 'loaded'
+        ? allAssets.data.flatMap(asset =>
+            asset.files.filter(file => !file.owner).map(file => file.path)
+          )
+        : [],
+    [allAssets]
+  );
+  const [filesToDelete, setFilesToDelete] = useState<string[]>([]);
+  const [deleteAlertIsOpen, setDeleteAlertOpen] = useState(false);
+  const confirmDelete = (files: string[]) => {
+    setFilesToDelete(files);
+    setDeleteAlertOpen(true);
+  };
+  const [deleteResult, deleteFiles, resetDeleteFiles] = useDeleteItem({
+    basePath: 'unused media',
+    initialFiles: filesToDelete,
+    storage: config.storage,
+  });
+  const onDelete = async () => {
+    if (await deleteFiles()) {
+      resetDeleteFiles();
+    }
+  };
+
+  return (
+    <PageRoot containerWidth="none">
+      <PageHeader>
+        <Heading
+          elementType="h1"
+          id="page-title"
+          size="small"
+          flex
+          minWidth={0}
+        >
+          Media library
+        </Heading>
+        <div role="search">
+          <SearchField
+            aria-label="Search"
+            onChange={setSearchTerm}
+            onClear={() => setSearchTerm('')}
+            placeholder="Search"
+            value={searchTerm}
+            width="scale.2400"
+          />
+        </div>
+        <Picker
+          aria-label="Filter by usage"
+          items={mediaFilterOptions}
+          selectedKey={filter}
+          onSelectionChange={key => setFilter(key as MediaFilter)}
+          width="scale.1700"
+        >
+          {item => <Item key={item.key}>{item.label}</Item>}
+        </Picker>
+        <Button
+          isDisabled={!unusedFiles.length || deleteResult.kind === 'loading'}
+          onPress={() => confirmDelete(unusedFiles)}
+        >
+          <Icon src={trash2Icon} />
+          <Text>Delete unused files</Text>
+        </Button>
+      </PageHeader>
+      {(assets.kind === 'error' || deleteResult.kind === 'error') && (
+        <Box paddingX="xxlarge" paddingTop="large">
+          <Notice tone="critical">
+            {assets.kind === 'error'
+              ? assets.error.message
+              : deleteResult.kind === 'error' && deleteResult.error.message}
+          </Notice>
+        </Box>
+      )}
+      <Flex
+        flex
+        gap="xlarge"
+        minHeight={0}
+        padding={{ mobile: 'medium', tablet: 'xlarge', desktop: 'xxlarge' }}
+      >
+        <Flex direction="column" width="scale.4600" flexShrink={0}>
+          <MediaAssetList
+            aria-label="Media"
+            assets={assets}
+            searchTerm={debouncedSearchTerm}
+            selectedAsset={selectedAsset}
+            onSelectionChange={asset => setSelectedSha(asset?.sha)}
+            renderEmptyState={() => (
+              <EmptyState
+                icon={imageIcon}
+                title="No files"
+                message={
+                  filter === 'unused'
+                    ? 'There are no unused files.'
+                    : 'Files uploaded to image and file fields will appear here.'
+                }
+              />
+            )}
+          />
+        </Flex>
+        <Box flex minWidth={0}>
+          {selectedAsset ? (
+            <MediaAssetDetails
+              asset={selectedAsset}
+              basePath={props.basePath}
+              config={config}
+              isDeleting={deleteResult.kind === 'loading'}
+              onDelete={confirmDelete}
+            />
+          ) : (
+            <Flex alignItems="center" justifyContent="center" height="100%">
+              <Text color="neutralSecondary">Select a file</Text>
+            </Flex>
+          )}
+        </Box>
+      </Flex>
+      <DialogContainer onDismiss={() => setDeleteAlertOpen(false)}>
+        {deleteAlertIsOpen && (
+          <AlertDialog
+            title="Delete unused files"
+            tone="critical"
+            cancelLabel="Cancel"
+            primaryActionLabel="Yes, delete"
+            autoFocusButton="cancel"
+            onPrimaryAction={onDelete}
+          >
+            {pluralize(filesToDelete.length, { singular: 'file' })} that{' '}
+            {filesToDelete.length === 1 ? "isn't" : "aren't"} used by any
+            entries will be deleted. This action cannot be undone.
+          </AlertDialog>
+        )}
+      </DialogContainer>
+      <DialogContainer onDismiss={resetDeleteFiles}>
+        {deleteResult.kind === 'needs-fork' && isGitHubConfig(config) && (
+          <ForkRepoDialog
+            onCreate={onDelete}
+            onDismiss={resetDeleteFiles}
+            config={config}
+          />
+        )}
+      </DialogContainer>
+    </PageRoot>
+  );
+}
+
+function MediaAssetDetails(props: {
+  asset: MediaAsset;
+  basePath: string;
+  config: Config;
+  isDeleting: boolean;
+  onDelete: (files: string[]) => void;
+}) {
+  const { asset, basePath, config } = props;
+  const unusedFiles = asset.files.filter(file => !file.owner);
+
+  return (
+    <VStack gap="xlarge" height="100%" minHeight={0} overflow="auto">
+      {isImageFilename(asset.filename) && (
+        <Box maxWidth="scale.5000">
+          <MediaAssetImage asset={asset} fit="contain" />
+        </Box>
+      )}
+      <VStack gap="regular">
+        <Heading size="small" elementType="h2">
+          {asset.filename}
+        </Heading>
+        <Text color="neutralSecondary">{getMediaAssetUsageLabel(asset)}</Text>
+      </VStack>
+      <VStack gap="medium" elementType="ul">
+        {asset.files.map(file => (
+          <Flex
+            key={file.path}
+            elementType="li"
+            alignItems="center"
+            gap="regular"
+            wrap
+          >
+            <Text weight="medium" UNSAFE_style={{ wordBreak: 'break-all' }}>
+              {file.path}
+            </Text>
+            {file.owner ? (
+              <TextLink href={getEntryHref(basePath, file.owner)}>
+                {getMediaOwnerLabel(config, file.owner)}
+              </TextLink>
+            ) : (
+              <Badge tone="caution">Unused</Badge>
+            )}
+          </Flex>
+        ))}
+      </VStack>
+      {unusedFiles.length > 0 && (
+        <div>
+          <Button
+            tone="critical"
+            isDisabled={props.isDeleting}
+            onPress={() => props.onDelete(unusedFiles.map(file => file.path))}
+          >
+            {unusedFiles.length === asset.files.length
+              ? 'Delete'
+              : `Delete ${pluralize(unusedFiles.length, {
+                  singular: 'unused copy',
+                  plural: 'unused copies',
+                })}`}
+          </Button>
+        </div>
+      )}
+    </VStack>
+  );
+}
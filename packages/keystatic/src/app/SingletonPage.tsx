@@ -1,3 +1,4 @@
+import { useLocalizedStringFormatter } from '@react-aria/i18n';
 import { useRouter } from './router';
 import {
   FormEvent,
@@ -11,7 +12,7 @@ import {
 import { Badge } from '@keystar/ui/badge';
 import { Button } from '@keystar/ui/button';
 import { DialogContainer } from '@keystar/ui/dialog';
-import { Flex } from '@keystar/ui/layout';
+import { Flex, Grid } from '@keystar/ui/layout';
 import { Notice } from '@keystar/ui/notice';
 import { ProgressCircle } from '@keystar/ui/progress';
 import { Heading, Text } from '@keystar/ui/typography';
@@ -36,11 +37,20 @@ import { CreateBranchDuringUpdateDialog } from './ItemPage';
 import { PageBody, PageHeader, PageRoot } from './shell/page';
 import { useBaseCommit, useBranchInfo } from './shell/data';
 import { useHasChanged } from './useHasChanged';
-import { parseEntry, useItemData } from './useItemData';
+import { ParseEntryArgs, parseEntry } from './parse-entry';
+import { getConfigForLocale } from './localization';
+import {
+  LocalePicker,
+  TranslateFromPane,
+  useContentLocale,
+} from './localization-ui';
+import { useItemData } from './useItemData';
 import { serializeEntryToFiles, useUpsertItem } from './updating';
 import { Icon } from '@keystar/ui/icon';
 import { ForkRepoDialog } from './fork-repo';
 import { FormForEntry, containerWidthForEntryLayout } from './entry-form';
+import { hasAccess } from './permissions';
+import { useEntryAccess } from './permissions-ui';
 import { notFound } from './not-found';
 import {
   delDraft,
@@ -55,16 +65,20 @@ import { useMediaQuery, breakpointQueries } from '@keystar/ui/style';
 import { githubIcon } from '@keystar/ui/icon/icons/githubIcon';
 import { externalLinkIcon } from '@keystar/ui/icon/icons/externalLinkIcon';
 import { historyIcon } from '@keystar/ui/icon/icons/historyIcon';
+import { languagesIcon } from '@keystar/ui/icon/icons/languagesIcon';
 import { getYjsValFromParsedValue } from '../form/props-value';
 import * as Y from 'yjs';
 import { useYjs, useYjsIfAvailable } from './shell/collab';
 import { createGetPreviewPropsFromY } from '../form/preview-props-yjs';
 import { useYJsValue } from './useYJsValue';
 import { PresenceAvatars } from './presence';
+import l10nMessages from './l10n/index.json';
 
 type SingletonPageProps = {
   singleton: string;
   config: Config;
+  /** The locale of the translation being edited, `undefined` is the default */
+  locale: string | undefined;
   initialState: Record<string, unknown> | null;
   initialFiles: string[];
   localTreeKey: string | undefined;
@@ -82,9 +96,11 @@ function SingletonPageInner(
   }
 ) {
   const isBelowDesktop = useMediaQuery(breakpointQueries.below.desktop);
+  const stringFormatter = useLocalizedStringFormatter(l10nMessages);
   const singletonConfig = props.config.singletons![props.singleton]!;
   const branchInfo = useBranchInfo();
   const [forceValidation, setForceValidation] = useState(false);
+  const [translateIsOpen, setTranslateOpen] = useState(false);
 
   const schema = useMemo(
     () => fields.object(singletonConfig.schema),
@@ -118,6 +134,7 @@ function SingletonPageInner(
         }`
       : undefined;
 
+  const hasLocalization = !!singletonConfig.localization;
   const menuActions = useMemo(() => {
     const actions: {
       key: string;
@@ -133,6 +150,13 @@ function SingletonPageInner(
         icon: historyIcon,
       },
     ];
+    if (hasLocalization) {
+      actions.push({
+        key: 'translate',
+        label: `${stringFormatter.format('translateFrom')}…`,
+        icon: languagesIcon,
+      });
+    }
     if (previewHref) {
       actions.push({
         key: 'preview',
@@ -154,16 +178,39 @@ function SingletonPageInner(
       });
     }
     return actions;
-  }, [previewHref, viewHref]);
+  }, [hasLocalization, previewHref, stringFormatter, viewHref]);
+
+  const { config, singleton } = props;
+  const getArgsForLocale = useCallback(
+    (locale: string): ParseEntryArgs => {
+      const localeConfig = getConfigForLocale(config, locale);
+      return {
+        config: localeConfig,
+        dirpath: getSingletonPath(localeConfig, singleton),
+        format: getSingletonFormat(localeConfig, singleton),
+        schema: singletonConfig.schema,
+        slug: undefined,
+      };
+    },
+    [config, singleton, singletonConfig.schema]
+  );
 
   const formID = 'singleton-form';
 
   const baseCommit = useBaseCommit();
 
   const isCreating = props.initialState === null;
+  const entryAccess = useEntryAccess({ kind: 'singleton', singleton });
+  const canEdit = hasAccess(entryAccess.access, 'edit');
 
   const onCreate = async () => {
-    if (props.updateResult.kind === 'loading' || !props.hasChanged) return;
+    if (
+      props.updateResult.kind === 'loading' ||
+      !props.hasChanged ||
+      !canEdit
+    ) {
+      return;
+    }
     if (!clientSideValidateProp(schema, props.state, undefined)) {
       setForceValidation(true);
       return;
@@ -171,6 +218,80 @@ function SingletonPageInner(
     await props.onUpdate();
   };
 
+  const form = (
+    <Flex
+      elementType="form"
+      id={formID}
+      onSubmit={(event: FormEvent) => {
+        if (event.target !== event.currentTarget) return;
+        event.preventDefault();
+        onCreate();
+      }}
+      direction="column"
+      gap="xxlarge"
+      height="100%"
+      minHeight={0}
+      minWidth={0}
+    >
+      {props.updateResult.kind === 'error' && (
+        <Notice tone="critical">{props.updateResult.error.message}</Notice>
+      )}
+      {!canEdit && (
+        <Notice tone="neutral">
+          You don’t have permission to edit {singletonConfig.label}.
+        </Notice>
+      )}
+      <FormForEntry
+        previewProps={props.previewProps as any}
+        forceValidation={forceValidation}
+        entryLayout={singletonConfig.entryLayout}
+        formatInfo={formatInfo}
+        slugField={undefined}
+        // fields can be filled in when the singleton is created
+        readOnlyFields={isCreating ? undefined : entryAccess.readOnlyFields}
+      />
+      <DialogContainer
+        // ideally this would be a popover on desktop but using a DialogTrigger wouldn't work since
+        // this doesn't open on click but after doing a network request and it failing and manually wiring about a popover and modal would be a pain
+        onDismiss={props.onResetUpdateItem}
+      >
+        {props.updateResult.kind === 'needs-new-branch' && (
+          <CreateBranchDuringUpdateDialog
+            branchOid={baseCommit}
+            onCreate={async newBranch => {
+              router.push(
+                `/keystatic/branch/${encodeURIComponent(
+                  newBranch
+                )}/singleton/${encodeURIComponent(props.singleton)}`
+              );
+              props.onUpdate({ branch: newBranch, sha: baseCommit });
+            }}
+            reason={props.updateResult.reason}
+            onDismiss={props.onResetUpdateItem}
+          />
+        )}
+      </DialogContainer>
+      <DialogContainer
+        // ideally this would be a popover on desktop but using a DialogTrigger
+        // wouldn't work since this doesn't open on click but after doing a
+        // network request and it failing and manually wiring about a popover
+        // and modal would be a pain
+        onDismiss={props.onResetUpdateItem}
+      >
+        {props.updateResult.kind === 'needs-fork' &&
+          isGitHubConfig(props.config) && (
+            <ForkRepoDialog
+              onCreate={async () => {
+                props.onUpdate();
+              }}
+              onDismiss={props.onResetUpdateItem}
+              config={props.config}
+            />
+          )}
+      </DialogContainer>
+    </Flex>
+  );
+
   return (
     <PageRoot containerWidth={containerWidthForEntryLayout(singletonConfig)}>
       <PageHeader>
@@ -190,6 +311,12 @@ function SingletonPageInner(
           )}
         </Flex>
         <PresenceAvatars />
+        {singletonConfig.localization && (
+          <LocalePicker
+            localization={singletonConfig.localization}
+            locale={props.locale}
+          />
+        )}
         <ActionGroup
           buttonLabelBehavior="hide"
           overflowMode="collapse"
@@ -203,6 +330,9 @@ function SingletonPageInner(
               case 'reset':
                 props.onReset();
                 break;
+              case 'translate':
+                setTranslateOpen(open => !open);
+                break;
             }
           }}
         >
@@ -221,77 +351,25 @@ function SingletonPageInner(
         </ActionGroup>
         <Button
           form={formID}
-          isDisabled={props.updateResult.kind === 'loading'}
+          isDisabled={props.updateResult.kind === 'loading' || !canEdit}
           prominence="high"
           type="submit"
         >
           {isCreating ? 'Create' : 'Save'}
         </Button>
       </PageHeader>
-      <Flex
-        elementType="form"
-        id={formID}
-        onSubmit={(event: FormEvent) => {
-          if (event.target !== event.currentTarget) return;
-          event.preventDefault();
-          onCreate();
-        }}
-        direction="column"
-        gap="xxlarge"
-        height="100%"
-        minHeight={0}
-        minWidth={0}
-      >
-        {props.updateResult.kind === 'error' && (
-          <Notice tone="critical">{props.updateResult.error.message}</Notice>
-        )}
-        <FormForEntry
-          previewProps={props.previewProps as any}
-          forceValidation={forceValidation}
-          entryLayout={singletonConfig.entryLayout}
-          formatInfo={formatInfo}
-          slugField={undefined}
-        />
-        <DialogContainer
-          // ideally this would be a popover on desktop but using a DialogTrigger wouldn't work since
-          // this doesn't open on click but after doing a network request and it failing and manually wiring about a popover and modal would be a pain
-          onDismiss={props.onResetUpdateItem}
-        >
-          {props.updateResult.kind === 'needs-new-branch' && (
-            <CreateBranchDuringUpdateDialog
-              branchOid={baseCommit}
-              onCreate={async newBranch => {
-                router.push(
-                  `/keystatic/branch/${encodeURIComponent(
-                    newBranch
-                  )}/singleton/${encodeURIComponent(props.singleton)}`
-                );
-                props.onUpdate({ branch: newBranch, sha: baseCommit });
-              }}
-              reason={props.updateResult.reason}
-              onDismiss={props.onResetUpdateItem}
-            />
-          )}
-        </DialogContainer>
-        <DialogContainer
-          // ideally this would be a popover on desktop but using a DialogTrigger
-          // wouldn't work since this doesn't open on click but after doing a
-          // network request and it failing and manually wiring about a popover
-          // and modal would be a pain
-          onDismiss={props.onResetUpdateItem}
-        >
-          {props.updateResult.kind === 'needs-fork' &&
-            isGitHubConfig(props.config) && (
-              <ForkRepoDialog
-                onCreate={async () => {
-                  props.onUpdate();
-                }}
-                onDismiss={props.onResetUpdateItem}
-                config={props.config}
-              />
-            )}
-        </DialogContainer>
-      </Flex>
+      {translateIsOpen && singletonConfig.localization ? (
+        <Grid columns="1fr 1fr" gap="xlarge" minHeight={0}>
+          {form}
+          <TranslateFromPane
+            localization={singletonConfig.localization}
+            locale={props.locale}
+            getArgsForLocale={getArgsForLocale}
+          />
+        </Grid>
+      ) : (
+        form
+      )}
     </PageRoot>
   );
 }
@@ -345,7 +423,7 @@ function LocalSingletonPage(
     isCreating;
 
   useEffect(() => {
-    const key = ['singleton', singleton] as const;
+    const key = getDraftKey(singleton, props.locale);
     if (hasChanged) {
       const serialized = serializeEntryToFiles({
         basePath: singletonPath,
@@ -371,6 +449,7 @@ function LocalSingletonPage(
     localTreeKey,
     state,
     hasChanged,
+    props.locale,
     singleton,
     singletonPath,
     singletonConfig,
@@ -495,7 +574,36 @@ const storedValSchema = z.object({
   files: z.map(z.string(), z.instanceof(Uint8Array)),
 });
 
-function SingletonPageWrapper(props: { singleton: string; config: Config }) {
+function getDraftKey(singleton: string, locale: string | undefined) {
+  return locale === undefined
+    ? (['singleton', singleton] as const)
+    : (['singleton', singleton, locale] as const);
+}
+
+/**
+ * Resolves the path of a localized singleton for the locale in the URL so
+ * that everything below reads and writes the translation in that locale.
+ */
+function LocalizedSingletonPage(props: { singleton: string; config: Config }) {
+  const localization = props.config.singletons?.[props.singleton]?.localization;
+  const locale = useContentLocale(localization);
+  return (
+    <SingletonPageWrapper
+      key={locale}
+      {...props}
+      config={
+        localization ? getConfigForLocale(props.config, locale) : props.config
+      }
+      locale={locale}
+    />
+  );
+}
+
+function SingletonPageWrapper(props: {
+  singleton: string;
+  config: Config;
+  locale: string | undefined;
+}) {
   const singletonConfig = props.config.singletons?.[props.singleton];
   if (!singletonConfig) notFound();
   const header = (
@@ -514,7 +622,7 @@ function SingletonPageWrapper(props: { singleton: string; config: Config }) {
 
   const draftData = useData(
     useCallback(async () => {
-      const raw = await getDraft(['singleton', props.singleton]);
+      const raw = await getDraft(getDraftKey(props.singleton, props.locale));
       if (!raw) throw new Error('No draft found');
       const stored = storedValSchema.parse(raw);
       const parsed = parseEntry(
@@ -532,7 +640,14 @@ function SingletonPageWrapper(props: { singleton: string; config: Config }) {
         savedAt: stored.savedAt,
         treeKey: stored.beforeTreeKey,
       };
-    }, [dirpath, format, props.config, props.singleton, singletonConfig.schema])
+    }, [
+      dirpath,
+      format,
+      props.config,
+      props.locale,
+      props.singleton,
+      singletonConfig.schema,
+    ])
   );
 
   const itemData = useItemData({
@@ -544,7 +659,9 @@ function SingletonPageWrapper(props: { singleton: string; config: Config }) {
   });
   const branchInfo = useBranchInfo();
 
-  const key = `${branchInfo.currentBranch}/${props.singleton}`;
+  const key = `${branchInfo.currentBranch}/${props.singleton}${
+    props.locale === undefined ? '' : `/${props.locale}`
+  }`;
 
   const yjsInfo = useYjsIfAvailable();
 
@@ -647,6 +764,7 @@ function SingletonPageWrapper(props: { singleton: string; config: Config }) {
       <CollabSingletonPage
         singleton={props.singleton}
         config={props.config}
+        locale={props.locale}
         initialState={
           itemData.data === 'not-found' ? null : itemData.data.initialState
         }
@@ -665,6 +783,7 @@ function SingletonPageWrapper(props: { singleton: string; config: Config }) {
     <LocalSingletonPage
       singleton={props.singleton}
       config={props.config}
+      locale={props.locale}
       initialState={
         itemData.data === 'not-found' ? null : itemData.data.initialState
       }
@@ -679,4 +798,4 @@ function SingletonPageWrapper(props: { singleton: string; config: Config }) {
   );
 }
 
-export { SingletonPageWrapper as SingletonPage };
+export { LocalizedSingletonPage as SingletonPage };
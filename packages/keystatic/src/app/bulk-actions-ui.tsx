@@ -0,0 +1,514 @@
+import { ReactElement, useCallback, useMemo, useState } from 'react';
+
+import { ActionBar, Item } from '@keystar/ui/action-bar';
+import { Button, ButtonGroup } from '@keystar/ui/button';
+import {
+  AlertDialog,
+  Dialog,
+  DialogContainer,
+  useDialogContainer,
+} from '@keystar/ui/dialog';
+import { Icon } from '@keystar/ui/icon';
+import { copyIcon } from '@keystar/ui/icon/icons/copyIcon';
+import { gitBranchIcon } from '@keystar/ui/icon/icons/gitBranchIcon';
+import { pencilIcon } from '@keystar/ui/icon/icons/pencilIcon';
+import { trash2Icon } from '@keystar/ui/icon/icons/trash2Icon';
+import { Flex } from '@keystar/ui/layout';
+import { Notice } from '@keystar/ui/notice';
+import { Item as PickerItem, Picker } from '@keystar/ui/picker';
+import { ProgressCircle } from '@keystar/ui/progress';
+import { Content } from '@keystar/ui/slots';
+import { toastQueue } from '@keystar/ui/toast';
+import { Heading, Text } from '@keystar/ui/typography';
+
+import { Config } from '../config';
+import { BasicFormField, fields } from '../form/api';
+import {
+  BulkEntry,
+  getBulkDeleteChanges,
+  getBulkDuplicateChanges,
+  getBulkEditChanges,
+  getBulkMoveChanges,
+} from './bulk-actions';
+import { getCommentsFilepath } from './comments';
+import { isComputedField } from './computed-fields';
+import { ForkRepoDialog } from './fork-repo';
+import { parseEntry } from './parse-entry';
+import { hasAccess } from './permissions';
+import { useEntryAccess } from './permissions-ui';
+import { PUBLISHING_STATUS_FIELD, PUBLISH_AT_FIELD } from './publishing';
+import {
+  useBaseCommit,
+  useBranchInfo,
+  useIsRepoPrivate,
+  useTree,
+} from './shell/data';
+import { getDirectoriesForTreeKey } from './tree-key';
+import { EntryChanges, useCommitChanges } from './updating';
+import { fetchBlob, getFilesInLocations } from './useItemData';
+import {
+  getCollectionFormat,
+  getCollectionItemPath,
+  isGitHubConfig,
+  isLocalConfig,
+  pluralize,
+} from './utils';
+
+type BulkAction = 'edit' | 'duplicate' | 'move' | 'delete';
+
+function useLoadBulkEntries(config: Config, collection: string) {
+  const tree = useTree().current;
+  const baseCommit = useBaseCommit();
+  const isRepoPrivate = useIsRepoPrivate();
+  const { mainOwner, mainRepo } = useBranchInfo();
+  return useCallback(
+    (slugs: string[]): Promise<BulkEntry[]> => {
+      if (tree.kind !== 'loaded') {
+        return Promise.reject(new Error('The entries have not loaded yet'));
+      }
+      const collectionConfig = config.collections![collection];
+      const format = getCollectionFormat(config, collection);
+      return Promise.all(
+        slugs.map(async slug => {
+          const dirpath = getCollectionItemPath(config, collection, slug);
+          const commentsFilepath = getCommentsFilepath(dirpath);
+          const locations = getDirectoriesForTreeKey(
+            fields.object(collectionConfig.schema),
+            dirpath,
+            slug,
+            format
+          );
+          const contents = new Map(
+            await Promise.all(
+              getFilesInLocations(tree.data.tree, [
+                ...locations,
+                ...(collectionConfig.comments ? [commentsFilepath] : []),
+              ]).map(
+                async entry =>
+                  [
+                    entry.path,
+                    await fetchBlob(
+                      config,
+                      entry.sha,
+                      entry.path,
+                      baseCommit,
+                      isRepoPrivate,
+                      { owner: mainOwner, name: mainRepo }
+                    ),
+                  ] as const
+              )
+            )
+          );
+          const { initialState, initialFiles } = parseEntry(
+            {
+              config,
+              dirpath,
+              format,
+              schema: collectionConfig.schema,
+              slug: { field: collectionConfig.slugField, slug },
+            },
+            contents
+          );
+          return {
+            slug,
+            state: initialState,
+            files: contents.has(commentsFilepath)
+              ? [...initialFiles, commentsFilepath]
+              : initialFiles,
+            contents,
+          };
+        })
+      );
+    },
+    [baseCommit, collection, config, isRepoPrivate, mainOwner, mainRepo, tree]
+  );
+}
+
+/**
+ * The top-level fields of a collection that can be set on many entries at
+ * once. Fields that write files other than the data file aren't included.
+ */
+function getBulkEditableFields(
+  config: Config,
+  collection: string,
+  readOnlyFields: ReadonlySet<string>
+) {
+  const collectionConfig = config.collections![collection];
+  return Object.entries(collectionConfig.schema).flatMap(([key, schema]) => {
+    if (
+      schema.kind !== 'form' ||
+      readOnlyFields.has(key) ||
+      schema.formKind !== undefined ||
+      isComputedField(schema) ||
+      key === collectionConfig.slugField ||
+      (collectionConfig.publishing &&
+        (key === PUBLISHING_STATUS_FIELD || key === PUBLISH_AT_FIELD))
+    ) {
+      return [];
+    }
+    return [{ key, label: schema.label ?? key, schema }];
+  });
+}
+
+function BulkEditDialog(props: {
+  config: Config;
+  collection: string;
+  count: number;
+  onSubmit: (field: string, value: unknown) => void;
+}) {
+  const { dismiss } = useDialogContainer();
+  const { readOnlyFields } = useEntryAccess({
+    kind: 'collection',
+    collection: props.collection,
+  });
+  const editableFields = useMemo(
+    () => getBulkEditableFields(props.config, props.collection, readOnlyFields),
+    [props.config, props.collection, readOnlyFields]
+  );
+  const [field, setField] = useState(editableFields[0]?.key);
+  const schema = editableFields.find(x => x.key === field)?.schema as
+    | BasicFormField<any>
+    | undefined;
+  const [values, setValues] = useState<Record<string, unknown>>({});
+  const [forceValidation, setForceValidation] = useState(false);
+  const value =
+    field === undefined || !schema
+      ? undefined
+      : field in values
+      ? values[field]
+      : schema.defaultValue();
+  const Input = schema?.Input as
+    | ((props: {
+        value: unknown;
+        onChange: (value: unknown) => void;
+        autoFocus: boolean;
+        forceValidation: boolean;
+      }) => ReactElement | null)
+    | undefined;
+
+  return (
+    <Dialog size="medium">
+      <Heading>
+        Edit {pluralize(props.count, { singular: 'entry', plural: 'entries' })}
+      </Heading>
+      <Content>
+        <form
+          id="bulk-edit-form"
+          onSubmit={event => {
+            if (event.target !== event.currentTarget) return;
+            event.preventDefault();
+            if (!schema || field === undefined) return;
+            try {
+              schema.validate(value);
+            } catch {
+              setForceValidation(true);
+              return;
+            }
+            dismiss();
+            props.onSubmit(field, value);
+          }}
+        >
+          <Flex direction="column" gap="xlarge">
+            {editableFields.length ? (
+              <Picker
+                label="Field"
+                items={editableFields}
+                selectedKey={field}
+                onSelectionChange={key => {
+                  setField(key as string);
+                  setForceValidation(false);
+                }}
+              >
+                {item => <PickerItem key={item.key}>{item.label}</PickerItem>}
+              </Picker>
+            ) : (
+              <Notice>There are no fields that can be edited in bulk.</Notice>
+            )}
+            {Input && field !== undefined && (
+              <Input
+                key={field}
+                value={value}
+                onChange={value => {
+                  setValues(values => ({ ...values, [field]: value }));
+                }}
+                autoFocus={false}
+                forceValidation={forceValidation}
+              />
+            )}
+          </Flex>
+        </form>
+      </Content>
+      <ButtonGroup>
+        <Button onPress={dismiss}>Cancel</Button>
+        <Button
+          prominence="high"
+          type="submit"
+          form="bulk-edit-form"
+          isDisabled={!schema}
+        >
+          Update entries
+        </Button>
+      </ButtonGroup>
+    </Dialog>
+  );
+}
+
+function BulkMoveDialog(props: {
+  count: number;
+  onSubmit: (branch: string) => void;
+}) {
+  const { dismiss } = useDialogContainer();
+  const { allBranches, currentBranch } = useBranchInfo();
+  const branches = allBranches
+    .filter(branch => branch !== currentBranch)
+    .map(branch => ({ branch }));
+  const [branch, setBranch] = useState<string | null>(null);
+  return (
+    <Dialog size="small">
+      <Heading>
+        Move {pluralize(props.count, { singular: 'entry', plural: 'entries' })}
+      </Heading>
+      <Content>
+        <Flex direction="column" gap="large">
+          <Text>
+            The entries are committed to the chosen branch as they are on "
+            {currentBranch}" and then deleted from "{currentBranch}".
+          </Text>
+          <Picker
+            label="Branch"
+            items={branches}
+            selectedKey={branch}
+            onSelectionChange={key => setBranch(key as string)}
+          >
+            {item => <PickerItem key={item.branch}>{item.branch}</PickerItem>}
+          </Picker>
+        </Flex>
+      </Content>
+      <ButtonGroup>
+        <Button onPress={dismiss}>Cancel</Button>
+        <Button
+          prominence="high"
+          isDisabled={branch === null}
+          onPress={() => {
+            dismiss();
+            props.onSubmit(branch!);
+          }}
+        >
+          Move entries
+        </Button>
+      </ButtonGroup>
+    </Dialog>
+  );
+}
+
+/**
+ * The actions for the entries selected in the collection list. Each action
+ * is a single commit, except moving which commits to both branches.
+ */
+export function CollectionBulkActions(props: {
+  config: Config;
+  collection: string;
+  selectedSlugs: string[];
+  existingSlugs: string[];
+  onClearSelection: () => void;
+}) {
+  const { config, collection, selectedSlugs } = props;
+  const [action, setAction] = useState<BulkAction | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+  // the changes of the action, kept to retry them after forking the repo
+  const [pendingChanges, setPendingChanges] = useState<EntryChanges[]>([]);
+  const loadEntries = useLoadBulkEntries(config, collection);
+  const entryAccess = useEntryAccess({ kind: 'collection', collection });
+  const [commitState, commit, resetCommitState] = useCommitChanges(
+    config.storage
+  );
+  const collectionConfig = config.collections![collection];
+  const entriesLabel = pluralize(selectedSlugs.length, {
+    singular: 'entry',
+    plural: 'entries',
+  });
+
+  const commitAll = async (changes: EntryChanges[]) => {
+    setPendingChanges(changes);
+    for (const [index, change] of changes.entries()) {
+      if (!(await commit(change))) {
+        setPendingChanges(changes.slice(index));
+        return false;
+      }
+    }
+    setPendingChanges([]);
+    return true;
+  };
+
+  const run = async (
+    getChanges: (entries: BulkEntry[]) => EntryChanges[],
+    successMessage: string
+  ) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const entries = await loadEntries(selectedSlugs);
+      if (await commitAll(getChanges(entries))) {
+        props.onClearSelection();
+        toastQueue.positive(successMessage, { timeout: 5000 });
+      }
+    } catch (err) {
+      setError(err as Error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // moving entries deletes them from the current branch so it needs publish
+  // access like deleting
+  const canPublish = hasAccess(entryAccess.access, 'publish');
+  const actions = [
+    { key: 'edit', label: 'Edit field', icon: pencilIcon },
+    { key: 'duplicate', label: 'Duplicate', icon: copyIcon },
+    ...(isLocalConfig(config) || !canPublish
+      ? []
+      : [{ key: 'move', label: 'Move to branch', icon: gitBranchIcon }]),
+    ...(canPublish
+      ? [{ key: 'delete', label: 'Delete', icon: trash2Icon }]
+      : []),
+  ];
+  const errorMessage =
+    error?.message ??
+    (commitState.kind === 'error' ? commitState.error.message : undefined);
+
+  return (
+    <>
+      <ActionBar
+        items={actions}
+        selectedItemCount={selectedSlugs.length}
+        onClearSelection={props.onClearSelection}
+        onAction={key => setAction(key as BulkAction)}
+        isEmphasized
+      >
+        {item => (
+          <Item key={item.key} textValue={item.label}>
+            <Icon src={item.icon} />
+            <Text>{item.label}</Text>
+          </Item>
+        )}
+      </ActionBar>
+      <DialogContainer onDismiss={() => setAction(null)}>
+        {action === 'edit' && (
+          <BulkEditDialog
+            config={config}
+            collection={collection}
+            count={selectedSlugs.length}
+            onSubmit={(field, value) => {
+              run(
+                entries => [
+                  getBulkEditChanges(config, collection, entries, field, value),
+                ],
+                `Updated ${entriesLabel}`
+              );
+            }}
+          />
+        )}
+        {action === 'duplicate' && (
+          <AlertDialog
+            title="Duplicate entries"
+            cancelLabel="Cancel"
+            primaryActionLabel="Duplicate"
+            onPrimaryAction={() => {
+              run(
+                entries => [
+                  getBulkDuplicateChanges(
+                    config,
+                    collection,
+                    entries,
+                    new Set(props.existingSlugs)
+                  ),
+                ],
+                `Duplicated ${entriesLabel}`
+              );
+            }}
+          >
+            {entriesLabel} in {collectionConfig.label} will be copied with slugs
+            ending in "-copy".
+          </AlertDialog>
+        )}
+        {action === 'move' && (
+          <BulkMoveDialog
+            count={selectedSlugs.length}
+            onSubmit={branch => {
+              run(
+                entries => [
+                  getBulkMoveChanges(config, collection, entries, branch),
+                  getBulkDeleteChanges(config, collection, entries),
+                ],
+                `Moved ${entriesLabel} to ${branch}`
+              );
+            }}
+          />
+        )}
+        {action === 'delete' && (
+          <AlertDialog
+            title="Delete entries"
+            tone="critical"
+            cancelLabel="Cancel"
+            primaryActionLabel="Yes, delete"
+            autoFocusButton="cancel"
+            onPrimaryAction={() => {
+              run(
+                entries => [getBulkDeleteChanges(config, collection, entries)],
+                `Deleted ${entriesLabel}`
+              );
+            }}
+          >
+            {entriesLabel} in {collectionConfig.label} will be deleted. This
+            action cannot be undone.
+          </AlertDialog>
+        )}
+      </DialogContainer>
+      <DialogContainer onDismiss={() => {}} isDismissable={false}>
+        {(isLoading || commitState.kind === 'loading') && (
+          <Dialog size="small" isDismissable={false}>
+            <Heading>Updating entries</Heading>
+            <Content>
+              <Flex alignItems="center" gap="regular">
+                <ProgressCircle
+                  aria-label="Updating entries"
+                  isIndeterminate
+                  size="small"
+                />
+                <Text>Committing changes to {entriesLabel}…</Text>
+              </Flex>
+            </Content>
+          </Dialog>
+        )}
+      </DialogContainer>
+      <DialogContainer
+        onDismiss={() => {
+          setError(null);
+          resetCommitState();
+        }}
+      >
+        {!isLoading && errorMessage !== undefined && (
+          <AlertDialog
+            title="Unable to update entries"
+            tone="critical"
+            primaryActionLabel="Close"
+          >
+            {errorMessage}
+          </AlertDialog>
+        )}
+        {commitState.kind === 'needs-fork' && isGitHubConfig(config) && (
+          <ForkRepoDialog
+            onCreate={async () => {
+              if (await commitAll(pendingChanges)) {
+                props.onClearSelection();
+              }
+            }}
+            onDismiss={resetCommitState}
+            config={config}
+          />
+        )}
+      </DialogContainer>
+    </>
+  );
+}
@@ -0,0 +1,184 @@
+import { Config } from '../config';
+import { getCommentsFilepath } from './comments';
+import { getCollectionFormat, getCollectionItemPath } from './path-utils';
+import { EntryChanges, serializeEntryToFiles } from './updating';
+import { pluralize } from './utils';
+
+/** An entry in a collection as it's read for a bulk action */
+export type BulkEntry = {
+  slug: string;
+  state: Record<string, unknown>;
+  /**
+   * The files of the entry, as `initialFiles` from `parseEntry` along with the
+   * comments file of the entry when it has one
+   */
+  files: string[];
+  contents: Map<string, Uint8Array>;
+};
+
+function entriesLabel(entries: BulkEntry[]) {
+  return pluralize(entries.length, { singular: 'entry', plural: 'entries' });
+}
+
+function isSameContents(a: Uint8Array | undefined, b: Uint8Array) {
+  return (
+    a !== undefined && a.length === b.length && a.every((x, i) => x === b[i])
+  );
+}
+
+function serializeEntry(
+  config: Config,
+  collection: string,
+  slug: string,
+  state: Record<string, unknown>
+) {
+  const collectionConfig = config.collections![collection];
+  return serializeEntryToFiles({
+    basePath: getCollectionItemPath(config, collection, slug),
+    config,
+    schema: collectionConfig.schema,
+    format: getCollectionFormat(config, collection),
+    state,
+    slug: { field: collectionConfig.slugField, value: slug },
+  });
+}
+
+export function getBulkDeleteChanges(
+  config: Config,
+  collection: string,
+  entries: BulkEntry[]
+): EntryChanges {
+  return {
+    message: `Delete ${entriesLabel(entries)} in ${
+      config.collections![collection].label
+    }`,
+    additions: [],
+    deletions: entries.flatMap(entry =>
+      entry.files.filter(path => entry.contents.has(path))
+    ),
+  };
+}
+
+/**
+ * Sets a field to the same value in every entry. Files that the entries no
+ * longer use, like the image of a replaced image field, are deleted.
+ */
+export function getBulkEditChanges(
+  config: Config,
+  collection: string,
+  entries: BulkEntry[],
+  field: string,
+  value: unknown
+): EntryChanges {
+  const collectionConfig = config.collections![collection];
+  const schema = collectionConfig.schema[field];
+  const changes: EntryChanges = {
+    message: `Update ${
+      ('label' in schema && schema.label) || field
+    } of ${entriesLabel(entries)} in ${collectionConfig.label}`,
+    additions: [],
+    deletions: [],
+  };
+  for (const entry of entries) {
+    const files = serializeEntry(config, collection, entry.slug, {
+      ...entry.state,
+      [field]: value,
+    });
+    const paths = new Set(files.map(file => file.path));
+    paths.add(
+      getCommentsFilepath(getCollectionItemPath(config, collection, entry.slug))
+    );
+    changes.additions.push(
+      ...files.filter(
+        file => !isSameContents(entry.contents.get(file.path), file.contents)
+      )
+    );
+    changes.deletions.push(
+      ...entry.files.filter(
+        path => !paths.has(path) && entry.contents.has(path)
+      )
+    );
+  }
+  return changes;
+}
+
+/**
+ * Copies entries with slugs ending in `-copy`, or `-copy-2` and so on when
+ * that slug is taken.
+ */
+export function getBulkDuplicateChanges(
+  config: Config,
+  collection: string,
+  entries: BulkEntry[],
+  existingSlugs: Set<string>
+): EntryChanges {
+  const collectionConfig = config.collections![collection];
+  const slugSchema = collectionConfig.schema[collectionConfig.slugField];
+  if (slugSchema.kind !== 'form' || slugSchema.formKind !== 'slug') {
+    throw new Error(
+      `Slug field ${collectionConfig.slugField} is not a slug field`
+    );
+  }
+  const slugs = new Set(existingSlugs);
+  const changes: EntryChanges = {
+    message: `Duplicate ${entriesLabel(entries)} in ${collectionConfig.label}`,
+    additions: [],
+    deletions: [],
+  };
+  for (const entry of entries) {
+    let slug = `${entry.slug}-copy`;
+    for (let i = 2; slugs.has(slug); i++) {
+      slug = `${entry.slug}-copy-${i}`;
+    }
+    slugs.add(slug);
+    const serialized = slugSchema.serializeWithSlug(
+      entry.state[collectionConfig.slugField]
+    );
+    changes.additions.push(
+      ...serializeEntry(config, collection, slug, {
+        ...entry.state,
+        [collectionConfig.slugField]: slugSchema.parse(serialized.value, {
+          slug,
+        }),
+      })
+    );
+    const comments = entry.contents.get(
+      getCommentsFilepath(getCollectionItemPath(config, collection, entry.slug))
+    );
+    if (comments) {
+      changes.additions.push({
+        path: getCommentsFilepath(
+          getCollectionItemPath(config, collection, slug)
+        ),
+        contents: comments,
+      });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Commits entries as they are on the current branch to another branch. The
+ * entries are deleted from the current branch separately with
+ * `getBulkDeleteChanges` since a commit can only be to one branch.
+ */
+export function getBulkMoveChanges(
+  config: Config,
+  collection: string,
+  entries: BulkEntry[],
+  branch: string
+): EntryChanges {
+  return {
+    message: `Move ${entriesLabel(entries)} in ${
+      config.collections![collection].label
+    }`,
+    additions: entries.flatMap(entry =>
+      entry.files.flatMap(path => {
+        const contents = entry.contents.get(path);
+        return contents ? [{ path, contents }] : [];
+      })
+    ),
+    deletions: [],
+    branch,
+  };
+}
@@ -0,0 +1,345 @@
+import { useCallback } from 'react';
+
+import { ActionButton } from '@keystar/ui/button';
+import { Combobox, Item as ComboboxItem } from '@keystar/ui/combobox';
+import { Dialog, DialogTrigger } from '@keystar/ui/dialog';
+import { Icon } from '@keystar/ui/icon';
+import { chevronDownIcon } from '@keystar/ui/icon/icons/chevronDownIcon';
+import { filterXIcon } from '@keystar/ui/icon/icons/filterXIcon';
+import { Flex } from '@keystar/ui/layout';
+import { Item, Menu, MenuTrigger } from '@keystar/ui/menu';
+import { Item as PickerItem, Picker } from '@keystar/ui/picker';
+import { Content } from '@keystar/ui/slots';
+import { TextField } from '@keystar/ui/text-field';
+import { Heading, Text } from '@keystar/ui/typography';
+
+import {
+  CollectionFilter,
+  DateRange,
+  FilterValues,
+} from './collection-filters';
+import { migrateEntryData } from './migrations';
+import { loadDataFile } from './required-files';
+import { useConfig } from './shell/context';
+import {
+  useBaseCommit,
+  useBranchInfo,
+  useIsRepoPrivate,
+  useTree,
+} from './shell/data';
+import { LOADING, useData } from './useData';
+import { fetchBlob } from './useItemData';
+import {
+  getCollectionFormat,
+  getCollectionItemPath,
+  getEntriesInCollectionWithTreeKey,
+  getEntryDataFilepath,
+  getSlugGlobForCollection,
+} from './utils';
+
+/**
+ * The names of the entries in collections from their slug fields, keyed by
+ * collection and then slug. These are shown instead of slugs for
+ * relationships, entries that can't be read are named by their slug.
+ */
+export function useEntryNames(
+  collections: readonly string[]
+): Map<string, Map<string, string>> {
+  const config = useConfig();
+  const tree = useTree().current;
+  const baseCommit = useBaseCommit();
+  const isRepoPrivate = useIsRepoPrivate();
+  const { mainOwner, mainRepo } = useBranchInfo();
+  const names = useData(
+    useCallback(async () => {
+      if (!collections.length) return new Map();
+      if (tree.kind !== 'loaded') return LOADING;
+      return new Map(
+        await Promise.all(
+          collections.map(async collection => {
+            const collectionConfig = config.collections![collection];
+            const format = getCollectionFormat(config, collection);
+            const glob = getSlugGlobForCollection(config, collection);
+            const slugField =
+              collectionConfig.schema[collectionConfig.slugField];
+            const entries = getEntriesInCollectionWithTreeKey(
+              config,
+              collection,
+              tree.data.tree
+            );
+            const entryNames = await Promise.all(
+              entries.map(async ({ slug, sha }) => {
+                try {
+                  const dataFile = await fetchBlob(
+                    config,
+                    sha,
+                    getEntryDataFilepath(
+                      getCollectionItemPath(config, collection, slug),
+                      format
+                    ),
+                    baseCommit,
+                    isRepoPrivate,
+                    { owner: mainOwner, name: mainRepo }
+                  );
+                  const { loaded } = loadDataFile(dataFile, format);
+                  const data = migrateEntryData(loaded, format.migrations)
+                    .data as Record<string, unknown>;
+                  if (
+                    slugField.kind !== 'form' ||
+                    slugField.formKind !== 'slug'
+                  ) {
+                    return [slug, slug] as const;
+                  }
+                  const value = data[collectionConfig.slugField];
+                  const name = slugField.reader.parseWithSlug(
+                    typeof value === 'string' ? value : undefined,
+                    { slug, glob }
+                  );
+                  return [
+                    slug,
+                    typeof name === 'string' ? name : slug,
+                  ] as const;
+                } catch {
+                  return [slug, slug] as const;
+                }
+              })
+            );
+            return [collection, new Map(entryNames)] as const;
+          })
+        )
+      );
+    }, [
+      baseCommit,
+      collections,
+      config,
+      isRepoPrivate,
+      mainOwner,
+      mainRepo,
+      tree,
+    ])
+  );
+  return names.kind === 'loaded' ? names.data : new Map();
+}
+
+function OptionsFilter(props: {
+  filter: Extract<CollectionFilter, { kind: 'options' }>;
+  value: readonly string[] | undefined;
+  onChange: (value: readonly string[] | undefined) => void;
+}) {
+  const { filter, value = [] } = props;
+  return (
+    <MenuTrigger closeOnSelect={false}>
+      <ActionButton>
+        <Text>
+          {value.length ? `${filter.label} (${value.length})` : filter.label}
+        </Text>
+        <Icon src={chevronDownIcon} />
+      </ActionButton>
+      <Menu
+        aria-label={filter.label}
+        items={filter.options}
+        selectionMode="multiple"
+        selectedKeys={value}
+        onSelectionChange={keys => {
+          const selected =
+            keys === 'all'
+              ? filter.options.map(option => option.value)
+              : filter.options
+                  .map(option => option.value)
+                  .filter(option => keys.has(option));
+          props.onChange(selected.length ? selected : undefined);
+        }}
+      >
+        {option => <Item key={option.value}>{option.label}</Item>}
+      </Menu>
+    </MenuTrigger>
+  );
+}
+
+function CheckboxFilter(props: {
+  filter: Extract<CollectionFilter, { kind: 'checkbox' }>;
+  value: boolean | undefined;
+  onChange: (value: boolean | undefined) => void;
+}) {
+  const { label } = props.filter;
+  const items = [
+    { key: 'any', label },
+    { key: 'true', label: `${label}: Yes` },
+    { key: 'false', label: `${label}: No` },
+  ];
+  return (
+    <Picker
+      aria-label={label}
+      items={items}
+      selectedKey={props.value === undefined ? 'any' : String(props.value)}
+      onSelectionChange={key => {
+        props.onChange(key === 'any' ? undefined : key === 'true');
+      }}
+      width="scale.2400"
+    >
+      {item => <PickerItem key={item.key}>{item.label}</PickerItem>}
+    </Picker>
+  );
+}
+
+function formatDateRange(range: DateRange) {
+  if (range.from && range.to) return `${range.from} – ${range.to}`;
+  if (range.from) return `from ${range.from}`;
+  return `until ${range.to}`;
+}
+
+function DateRangeFilter(props: {
+  filter: Extract<CollectionFilter, { kind: 'date-range' }>;
+  value: DateRange | undefined;
+  onChange: (value: DateRange | undefined) => void;
+}) {
+  const { filter, value } = props;
+  const onChange = (range: DateRange) => {
+    props.onChange(range.from || range.to ? range : undefined);
+  };
+  return (
+    <DialogTrigger type="popover" mobileType="tray">
+      <ActionButton>
+        <Text>
+          {value ? `${filter.label}: ${formatDateRange(value)}` : filter.label}
+        </Text>
+        <Icon src={chevronDownIcon} />
+      </ActionButton>
+      <Dialog size="small">
+        <Heading>{filter.label}</Heading>
+        <Content>
+          <Flex direction="column" gap="large">
+            <TextField
+              label="From"
+              type="date"
+              value={value?.from ?? ''}
+              onChange={from => {
+                onChange({ from: from || null, to: value?.to ?? null });
+              }}
+            />
+            <TextField
+              label="To"
+              type="date"
+              value={value?.to ?? ''}
+              onChange={to => {
+                onChange({ from: value?.from ?? null, to: to || null });
+              }}
+            />
+          </Flex>
+        </Content>
+      </Dialog>
+    </DialogTrigger>
+  );
+}
+
+function RelationshipFilter(props: {
+  filter: Extract<CollectionFilter, { kind: 'relationship' }>;
+  value: string | undefined;
+  names: Map<string, string> | undefined;
+  onChange: (value: string | undefined) => void;
+}) {
+  const { filter } = props;
+  const config = useConfig();
+  const tree = useTree().current;
+  const items =
+    tree.kind === 'loaded'
+      ? getEntriesInCollectionWithTreeKey(
+          config,
+          filter.collection,
+          tree.data.tree
+        ).map(({ slug }) => ({ slug, name: props.names?.get(slug) ?? slug }))
+      : [];
+  return (
+    <Combobox
+      aria-label={filter.label}
+      placeholder={filter.label}
+      items={items}
+      selectedKey={props.value ?? null}
+      onSelectionChange={key => {
+        props.onChange(typeof key === 'string' ? key : undefined);
+      }}
+      width="scale.2400"
+    >
+      {item => <ComboboxItem key={item.slug}>{item.name}</ComboboxItem>}
+    </Combobox>
+  );
+}
+
+/**
+ * The filters of a collection from its `filters` option, shown above the
+ * entries in the collection list.
+ */
+export function CollectionFilterBar(props: {
+  filters: CollectionFilter[];
+  values: FilterValues;
+  onChange: (values: FilterValues) => void;
+  entryNames: Map<string, Map<string, string>>;
+}) {
+  const { filters, values } = props;
+  const setValue = (field: string, value: FilterValues[string] | undefined) => {
+    const { [field]: _, ...rest } = values;
+    props.onChange(value === undefined ? rest : { ...rest, [field]: value });
+  };
+  return (
+    <Flex
+      role="group"
+      aria-label="Filters"
+      alignItems="center"
+      gap="regular"
+      wrap
+      paddingX={{ mobile: 'regular', tablet: 'xlarge', desktop: 'xxlarge' }}
+      paddingTop="large"
+    >
+      {filters.map(filter => {
+        const onChange = (value: FilterValues[string] | undefined) =>
+          setValue(filter.field, value);
+        const value = values[filter.field];
+        switch (filter.kind) {
+          case 'options':
+            return (
+              <OptionsFilter
+                key={filter.field}
+                filter={filter}
+                value={value as readonly string[] | undefined}
+                onChange={onChange}
+              />
+            );
+          case 'checkbox':
+            return (
+              <CheckboxFilter
+                key={filter.field}
+                filter={filter}
+                value={value as boolean | undefined}
+                onChange={onChange}
+              />
+            );
+          case 'date-range':
+            return (
+              <DateRangeFilter
+                key={filter.field}
+                filter={filter}
+                value={value as DateRange | undefined}
+                onChange={onChange}
+              />
+            );
+          case 'relationship':
+            return (
+              <RelationshipFilter
+                key={filter.field}
+                filter={filter}
+                value={value as string | undefined}
+                names={props.entryNames.get(filter.collection)}
+                onChange={onChange}
+              />
+            );
+        }
+      })}
+      {Object.keys(values).length > 0 && (
+        <ActionButton prominence="low" onPress={() => props.onChange({})}>
+          <Icon src={filterXIcon} />
+          <Text>Clear filters</Text>
+        </ActionButton>
+      )}
+    </Flex>
+  );
+}
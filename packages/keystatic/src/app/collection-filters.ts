@@ -0,0 +1,180 @@
+import { ComponentSchema } from '../form/api';
+
+export type CollectionFilter =
+  | {
+      kind: 'options';
+      field: string;
+      label: string;
+      options: readonly { label: string; value: string }[];
+    }
+  | { kind: 'checkbox'; field: string; label: string }
+  | { kind: 'date-range'; field: string; label: string }
+  | { kind: 'relationship'; field: string; label: string; collection: string };
+
+export type DateRange = { from: string | null; to: string | null };
+
+/**
+ * The values of the filters that are applied, keyed by field. Filters without
+ * a value aren't applied.
+ */
+export type FilterValues = {
+  [field: string]: readonly string[] | boolean | DateRange | string;
+};
+
+function getFilter(
+  field: string,
+  schema: ComponentSchema
+): CollectionFilter | undefined {
+  if (schema.kind !== 'form' || schema.formKind !== undefined) return;
+  const label = schema.label ?? field;
+  if ('options' in schema && Array.isArray(schema.options)) {
+    return { kind: 'options', field, label, options: schema.options };
+  }
+  if ('collection' in schema && typeof schema.collection === 'string') {
+    return {
+      kind: 'relationship',
+      field,
+      label,
+      collection: schema.collection,
+    };
+  }
+  const stored = schema.storedValue?.schema;
+  if (stored?.type === 'boolean') {
+    return { kind: 'checkbox', field, label };
+  }
+  if (
+    stored?.type === 'string' &&
+    (stored.format === 'date' || stored.format === 'date-time')
+  ) {
+    return { kind: 'date-range', field, label };
+  }
+}
+
+/**
+ * Gets the filters of a collection from the fields listed in its `filters`,
+ * the kind of filter depends on the field.
+ */
+export function getCollectionFilters(collection: {
+  label: string;
+  filters?: readonly string[];
+  schema: Record<string, ComponentSchema>;
+}): CollectionFilter[] {
+  return (collection.filters ?? []).map(field => {
+    const schema = collection.schema[field];
+    if (!schema) {
+      throw new Error(
+        `The "${collection.label}" collection has a filter for the "${field}" field but there is no field with that name`
+      );
+    }
+    const filter = getFilter(field, schema);
+    if (!filter) {
+      throw new Error(
+        `The "${field}" field of the "${collection.label}" collection can't be used as a filter, only select, multiselect, checkbox, date, datetime, relationship and multiRelationship fields can`
+      );
+    }
+    return filter;
+  });
+}
+
+const DATE_RANGE_SEPARATOR = '..';
+
+/**
+ * Reads the values of filters from the search params of the collection page
+ * URL, e.g. `?tags=news&tags=events&featured=true&date=2024-01-01..`
+ */
+export function parseFilterValues(
+  filters: CollectionFilter[],
+  searchParams: URLSearchParams
+): FilterValues {
+  const values: FilterValues = {};
+  for (const filter of filters) {
+    const params = searchParams.getAll(filter.field).filter(x => x !== '');
+    if (!params.length) continue;
+    if (filter.kind === 'options') {
+      const allowed = new Set(filter.options.map(option => option.value));
+      const selected = params.filter(value => allowed.has(value));
+      if (selected.length) values[filter.field] = selected;
+    } else if (filter.kind === 'checkbox') {
+      if (params[0] === 'true' || params[0] === 'false') {
+        values[filter.field] = params[0] === 'true';
+      }
+    } else if (filter.kind === 'date-range') {
+      const [from = '', to = ''] = params[0].split(DATE_RANGE_SEPARATOR);
+      if (from || to) {
+        values[filter.field] = { from: from || null, to: to || null };
+      }
+    } else {
+      values[filter.field] = params[0];
+    }
+  }
+  return values;
+}
+
+/**
+ * Writes the values of filters to search params, keeping any params that
+ * aren't for filters.
+ */
+export function serializeFilterValues(
+  filters: CollectionFilter[],
+  values: FilterValues,
+  searchParams: URLSearchParams
+): URLSearchParams {
+  const params = new URLSearchParams(searchParams);
+  for (const filter of filters) {
+    params.delete(filter.field);
+    const value = values[filter.field];
+    if (value === undefined) continue;
+    if (typeof value === 'boolean' || typeof value === 'string') {
+      params.set(filter.field, String(value));
+    } else if (isDateRange(value)) {
+      params.set(
+        filter.field,
+        `${value.from ?? ''}${DATE_RANGE_SEPARATOR}${value.to ?? ''}`
+      );
+    } else {
+      for (const option of value) {
+        params.append(filter.field, option);
+      }
+    }
+  }
+  return params;
+}
+
+function isDateRange(value: FilterValues[string]): value is DateRange {
+  return typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Whether the data of an entry, as read by the reader, matches all of the
+ * filters with values.
+ */
+export function matchesFilters(
+  filters: CollectionFilter[],
+  values: FilterValues,
+  data: Record<string, unknown>
+): boolean {
+  return filters.every(filter => {
+    const filterValue = values[filter.field];
+    if (filterValue === undefined) return true;
+    const value = data[filter.field];
+    // select and relationship fields have a single value while multiselect
+    // and multiRelationship fields have many, an entry matches when any of
+    // its values match
+    const entryValues = Array.isArray(value) ? value : [value];
+    if (filter.kind === 'options') {
+      const selected = filterValue as readonly string[];
+      return entryValues.some(x => selected.includes(x));
+    }
+    if (filter.kind === 'checkbox') {
+      return value === filterValue;
+    }
+    if (filter.kind === 'date-range') {
+      if (typeof value !== 'string') return false;
+      // datetimes are compared by their date since ranges are of days
+      const date = value.slice(0, 10);
+      const { from, to } = filterValue as DateRange;
+      return (from === null || date >= from) && (to === null || date <= to);
+    }
+    return entryValues.includes(filterValue);
+  });
+}
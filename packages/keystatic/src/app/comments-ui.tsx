@@ -0,0 +1,569 @@
+import { useLocalizedStringFormatter } from '@react-aria/i18n';
+import {
+  ReactNode,
+  createContext,
+  useCallback,
+  useContext,
+  useMemo,
+  useRef,
+  useState,
+} from 'react';
+
+import { Avatar } from '@keystar/ui/avatar';
+import { ActionButton, Button, ButtonGroup } from '@keystar/ui/button';
+import { Dialog, DialogContainer } from '@keystar/ui/dialog';
+import { Icon } from '@keystar/ui/icon';
+import { checkIcon } from '@keystar/ui/icon/icons/checkIcon';
+import { rotateCcwIcon } from '@keystar/ui/icon/icons/rotateCcwIcon';
+import { xIcon } from '@keystar/ui/icon/icons/xIcon';
+import { Box, Flex, HStack, VStack } from '@keystar/ui/layout';
+import { Notice } from '@keystar/ui/notice';
+import { Content } from '@keystar/ui/slots';
+import { css, tokenSchema } from '@keystar/ui/style';
+import { TextArea } from '@keystar/ui/text-field';
+import { Heading, Text } from '@keystar/ui/typography';
+
+import { Config } from '../config';
+import {
+  CommentAnchor,
+  CommentThread,
+  createCommentId,
+  findAnchor,
+  getCommentsConfig,
+  getCommentsFilepath,
+  getUnresolvedThreadCount,
+  parseCommentsFile,
+  serializeCommentsFile,
+} from './comments';
+import l10nMessages from './l10n/index.json';
+import { getCollectionItemPath } from './path-utils';
+import { RelativeTime } from './persistence';
+import {
+  useBaseCommit,
+  useBranchInfo,
+  useCloudInfo,
+  useIsRepoPrivate,
+  useTree,
+} from './shell/data';
+import { useViewer } from './shell/viewer-data';
+import { getTreeNodeAtPath } from './trees';
+import { useCommitChanges } from './updating';
+import { LOADING, useData } from './useData';
+import { fetchBlob } from './useItemData';
+
+/** A markdoc or document editor that threads can be added to */
+export type CommentableEditor = {
+  /** The text of the editor, with blocks separated by newlines */
+  getText: () => string;
+  /** Replaces the text between two offsets of the text from `getText` */
+  replaceText: (from: number, to: number, text: string) => void;
+};
+
+type NewThread = {
+  anchor: CommentAnchor;
+  kind: 'comment' | 'suggestion';
+};
+
+export type CommentsState = {
+  threads: CommentThread[];
+  /** The comments file as it is in the repository */
+  file: { path: string; contents: Uint8Array } | undefined;
+  unresolvedCount: number;
+  /** Publishing is blocked by the config while there are unresolved threads */
+  isBlockingPublishing: boolean;
+  error: Error | undefined;
+  isPaneOpen: boolean;
+  setPaneOpen: (isOpen: boolean) => void;
+  activeThreadId: string | undefined;
+  /** Makes a thread the active thread and shows it in the comments pane */
+  showThread: (id: string) => void;
+  /** The thread being added, which is shown in a dialog */
+  newThread: NewThread | undefined;
+  /** Opens the dialog to add a thread, `undefined` closes it */
+  startThread: (thread: NewThread | undefined) => void;
+  registerEditor: (editor: CommentableEditor) => () => void;
+  /** Finds the editor that has the text of a thread */
+  findEditor: (
+    anchor: CommentAnchor
+  ) => { editor: CommentableEditor; from: number; to: number } | undefined;
+  addThread: (
+    thread: NewThread & { body: string; suggestion?: string }
+  ) => void;
+  reply: (threadId: string, body: string) => void;
+  setResolved: (threadId: string, resolved: boolean) => void;
+  acceptSuggestion: (threadId: string) => void;
+};
+
+const CommentsContext = createContext<CommentsState | undefined>(undefined);
+
+/**
+ * The comments on the entry being edited, `undefined` outside of entries that
+ * have comments enabled
+ */
+export function useComments() {
+  return useContext(CommentsContext);
+}
+
+export const commentHighlightClassName = css({
+  backgroundColor: tokenSchema.color.scale.amber4,
+  borderBottom: `${tokenSchema.size.border.medium} solid ${tokenSchema.color.scale.amber8}`,
+  cursor: 'pointer',
+  '&[data-active="true"]': {
+    backgroundColor: tokenSchema.color.scale.amber6,
+  },
+});
+
+function useCommentAuthor(): CommentThread['comments'][number]['author'] {
+  const cloudInfo = useCloudInfo();
+  const viewer = useViewer();
+  if (cloudInfo) {
+    return { name: cloudInfo.user.name, avatarUrl: cloudInfo.user.avatarUrl };
+  }
+  if (viewer) {
+    return { name: viewer.name ?? viewer.login, avatarUrl: viewer.avatarUrl };
+  }
+  return { name: 'Local user' };
+}
+
+export function useCommentsState(args: {
+  config: Config;
+  collection: string;
+  itemSlug: string;
+}): CommentsState | undefined {
+  const { config, collection, itemSlug } = args;
+  const commentsConfig = getCommentsConfig(config.collections![collection]);
+  const basePath = getCollectionItemPath(config, collection, itemSlug);
+  const filepath = getCommentsFilepath(basePath);
+  const { current: currentBranch } = useTree();
+  const baseCommit = useBaseCommit();
+  const isRepoPrivate = useIsRepoPrivate();
+  const branchInfo = useBranchInfo();
+  const author = useCommentAuthor();
+  const hasLoaded = currentBranch.kind === 'loaded';
+  const sha =
+    currentBranch.kind === 'loaded'
+      ? getTreeNodeAtPath(currentBranch.data.tree, filepath)?.entry.sha
+      : undefined;
+  const isEnabled = !!commentsConfig;
+
+  const fileData = useData(
+    useCallback(() => {
+      if (!isEnabled) return;
+      if (!hasLoaded) return LOADING;
+      if (sha === undefined) return;
+      const toFile = (contents: Uint8Array) => ({
+        path: filepath,
+        contents,
+        threads: parseCommentsFile(contents),
+      });
+      const blob = fetchBlob(config, sha, filepath, baseCommit, isRepoPrivate, {
+        owner: branchInfo.mainOwner,
+        name: branchInfo.mainRepo,
+      });
+      return blob instanceof Uint8Array ? toFile(blob) : blob.then(toFile);
+    }, [
+      baseCommit,
+      branchInfo.mainOwner,
+      branchInfo.mainRepo,
+      config,
+      filepath,
+      hasLoaded,
+      isEnabled,
+      isRepoPrivate,
+      sha,
+    ])
+  );
+  const file = fileData.kind === 'loaded' ? fileData.data : undefined;
+
+  // changes are shown before they've been committed
+  const [pendingThreads, setPendingThreads] = useState<CommentThread[] | null>(
+    null
+  );
+  const threads = pendingThreads ?? file?.threads ?? [];
+  const [commitState, commit] = useCommitChanges(config.storage);
+  const updateThreads = (
+    message: string,
+    updater: (threads: CommentThread[]) => CommentThread[]
+  ) => {
+    const updated = updater(threads);
+    setPendingThreads(updated);
+    commit({
+      message: `${message} on ${basePath}`,
+      additions: [{ path: filepath, contents: serializeCommentsFile(updated) }],
+      deletions: [],
+    }).finally(() => {
+      setPendingThreads(null);
+    });
+  };
+  const updateThread = (
+    message: string,
+    threadId: string,
+    updater: (thread: CommentThread) => CommentThread
+  ) => {
+    updateThreads(message, threads =>
+      threads.map(thread => (thread.id === threadId ? updater(thread) : thread))
+    );
+  };
+  const createComment = (body: string) => ({
+    id: createCommentId(),
+    author,
+    body,
+    createdAt: new Date().toISOString(),
+  });
+
+  const editors = useRef(new Set<CommentableEditor>());
+  const registerEditor = useCallback((editor: CommentableEditor) => {
+    editors.current.add(editor);
+    return () => {
+      editors.current.delete(editor);
+    };
+  }, []);
+  const findEditor = useCallback((anchor: CommentAnchor) => {
+    for (const editor of editors.current) {
+      const range = findAnchor(editor.getText(), anchor);
+      if (range) return { editor, ...range };
+    }
+  }, []);
+
+  const [isPaneOpen, setPaneOpen] = useState(false);
+  const [activeThreadId, setActiveThreadId] = useState<string>();
+  const [newThread, setNewThread] = useState<NewThread>();
+  const showThread = useCallback((id: string) => {
+    setActiveThreadId(id);
+    setPaneOpen(true);
+  }, []);
+
+  if (!commentsConfig) return;
+  const unresolvedCount = getUnresolvedThreadCount(threads);
+  return {
+    threads,
+    file,
+    unresolvedCount,
+    isBlockingPublishing: commentsConfig.blockPublishing && unresolvedCount > 0,
+    error:
+      fileData.kind === 'error'
+        ? fileData.error
+        : commitState.kind === 'error'
+        ? commitState.error
+        : undefined,
+    isPaneOpen,
+    setPaneOpen,
+    activeThreadId,
+    showThread,
+    newThread,
+    startThread: setNewThread,
+    registerEditor,
+    findEditor,
+    addThread: thread => {
+      const id = createCommentId();
+      updateThreads('Add comment', threads => [
+        ...threads,
+        {
+          id,
+          anchor: thread.anchor,
+          ...(thread.suggestion === undefined
+            ? {}
+            : { suggestion: thread.suggestion }),
+          resolved: false,
+          comments: [createComment(thread.body)],
+        },
+      ]);
+      setNewThread(undefined);
+      showThread(id);
+    },
+    reply: (threadId, body) => {
+      updateThread('Reply to comment', threadId, thread => ({
+        ...thread,
+        comments: [...thread.comments, createComment(body)],
+      }));
+    },
+    setResolved: (threadId, resolved) => {
+      updateThread(
+        resolved ? 'Resolve comment' : 'Reopen comment',
+        threadId,
+        thread => ({ ...thread, resolved })
+      );
+    },
+    acceptSuggestion: threadId => {
+      const thread = threads.find(thread => thread.id === threadId);
+      if (thread?.suggestion === undefined) return;
+      const found = findEditor(thread.anchor);
+      if (!found) return;
+      found.editor.replaceText(found.from, found.to, thread.suggestion);
+      updateThread('Accept suggestion', threadId, thread => ({
+        ...thread,
+        resolved: true,
+      }));
+    },
+  };
+}
+
+export function CommentsProvider(props: {
+  value: CommentsState | undefined;
+  children: ReactNode;
+}) {
+  const { value } = props;
+  return (
+    <CommentsContext.Provider value={value}>
+      {props.children}
+      <DialogContainer onDismiss={() => value?.startThread(undefined)}>
+        {value?.newThread && (
+          <NewThreadDialog
+            thread={value.newThread}
+            onDismiss={() => value.startThread(undefined)}
+            onSubmit={value.addThread}
+          />
+        )}
+      </DialogContainer>
+    </CommentsContext.Provider>
+  );
+}
+
+function NewThreadDialog(props: {
+  thread: NewThread;
+  onDismiss: () => void;
+  onSubmit: (thread: NewThread & { body: string; suggestion?: string }) => void;
+}) {
+  const stringFormatter = useLocalizedStringFormatter(l10nMessages);
+  const { thread } = props;
+  const isSuggestion = thread.kind === 'suggestion';
+  const [body, setBody] = useState('');
+  const [suggestion, setSuggestion] = useState(thread.anchor.quote);
+  const isValid = isSuggestion
+    ? suggestion !== thread.anchor.quote
+    : body.trim() !== '';
+
+  return (
+    <Dialog size="small">
+      <form
+        style={{ display: 'contents' }}
+        onSubmit={event => {
+          if (event.target !== event.currentTarget) return;
+          event.preventDefault();
+          if (!isValid) return;
+          props.onSubmit({
+            ...thread,
+            body: body.trim(),
+            ...(isSuggestion ? { suggestion } : {}),
+          });
+        }}
+      >
+        <Heading>{isSuggestion ? 'Suggest edit' : 'Add comment'}</Heading>
+        <Content>
+          <VStack gap="large">
+            <Quote>{thread.anchor.quote}</Quote>
+            {isSuggestion && (
+              <TextArea
+                label="Suggested text"
+                value={suggestion}
+                onChange={setSuggestion}
+                autoFocus
+              />
+            )}
+            <TextArea
+              label="Comment"
+              value={body}
+              onChange={setBody}
+              autoFocus={!isSuggestion}
+            />
+          </VStack>
+        </Content>
+        <ButtonGroup>
+          <Button onPress={props.onDismiss}>
+            {stringFormatter.format('cancel')}
+          </Button>
+          <Button isDisabled={!isValid} prominence="high" type="submit">
+            {isSuggestion ? 'Suggest' : 'Comment'}
+          </Button>
+        </ButtonGroup>
+      </form>
+    </Dialog>
+  );
+}
+
+function Quote(props: { children: string; isRemoved?: boolean }) {
+  return (
+    <Box
+      paddingStart="regular"
+      UNSAFE_className={css({
+        borderInlineStart: `${tokenSchema.size.border.large} solid ${tokenSchema.color.scale.amber8}`,
+      })}
+    >
+      <Text
+        color="neutralSecondary"
+        UNSAFE_className={css({
+          textDecoration: props.isRemoved ? 'line-through' : undefined,
+          whiteSpace: 'pre-wrap',
+        })}
+      >
+        {props.children}
+      </Text>
+    </Box>
+  );
+}
+
+/** The threads on an entry, shown next to the form */
+export function CommentsPane() {
+  const comments = useComments();
+  const [isShowingResolved, setShowingResolved] = useState(false);
+  const threads = useMemo(
+    () =>
+      comments?.threads.filter(
+        thread => isShowingResolved || !thread.resolved
+      ) ?? [],
+    [comments?.threads, isShowingResolved]
+  );
+  if (!comments) return null;
+  const resolvedCount = comments.threads.length - comments.unresolvedCount;
+
+  return (
+    <VStack gap="large" minWidth={0}>
+      <Flex alignItems="center" justifyContent="space-between" gap="regular">
+        <Heading size="small" elementType="h2">
+          Comments
+        </Heading>
+        {resolvedCount > 0 && (
+          <ActionButton
+            prominence="low"
+            onPress={() => setShowingResolved(isShowing => !isShowing)}
+          >
+            {isShowingResolved
+              ? 'Hide resolved'
+              : `Show resolved (${resolvedCount})`}
+          </ActionButton>
+        )}
+      </Flex>
+      {comments.error && (
+        <Notice tone="critical">{comments.error.message}</Notice>
+      )}
+      {comments.isBlockingPublishing && (
+        <Notice tone="caution">
+          This entry can’t be published until all comments are resolved.
+        </Notice>
+      )}
+      {threads.length === 0 && (
+        <Text color="neutralSecondary">
+          Select text in the editor to add a comment or suggest an edit.
+        </Text>
+      )}
+      {threads.map(thread => (
+        <CommentThreadView key={thread.id} thread={thread} />
+      ))}
+    </VStack>
+  );
+}
+
+function CommentThreadView(props: { thread: CommentThread }) {
+  const comments = useComments()!;
+  const { thread } = props;
+  const [reply, setReply] = useState('');
+  const isActive = comments.activeThreadId === thread.id;
+  const isOrphaned = !comments.findEditor(thread.anchor);
+
+  return (
+    <VStack
+      gap="regular"
+      padding="regular"
+      borderRadius="medium"
+      backgroundColor={isActive ? 'surfaceSecondary' : 'canvas'}
+      UNSAFE_className={css({
+        border: `${tokenSchema.size.border.regular} solid ${tokenSchema.color.border.neutral}`,
+        opacity: thread.resolved ? 0.7 : undefined,
+      })}
+    >
+      <Quote isRemoved={thread.suggestion !== undefined}>
+        {thread.anchor.quote}
+      </Quote>
+      {thread.suggestion !== undefined && (
+        <Text
+          weight="medium"
+          UNSAFE_className={css({ whiteSpace: 'pre-wrap' })}
+        >
+          {thread.suggestion}
+        </Text>
+      )}
+      {isOrphaned && (
+        <Text size="small" color="neutralTertiary">
+          The text of this thread has been changed or removed.
+        </Text>
+      )}
+      {thread.comments.map(comment => (
+        <HStack key={comment.id} gap="regular">
+          <Avatar
+            src={comment.author.avatarUrl}
+            name={comment.author.name}
+            size="xsmall"
+          />
+          <VStack gap="small" minWidth={0}>
+            <Text size="small" color="neutralSecondary">
+              {comment.author.name},{' '}
+              <RelativeTime date={new Date(comment.createdAt)} />
+            </Text>
+            {comment.body && (
+              <Text UNSAFE_className={css({ whiteSpace: 'pre-wrap' })}>
+                {comment.body}
+              </Text>
+            )}
+          </VStack>
+        </HStack>
+      ))}
+      {!thread.resolved && (
+        <form
+          style={{ display: 'contents' }}
+          onSubmit={event => {
+            if (event.target !== event.currentTarget) return;
+            event.preventDefault();
+            if (!reply.trim()) return;
+            comments.reply(thread.id, reply.trim());
+            setReply('');
+          }}
+        >
+          <TextArea
+            aria-label="Reply"
+            placeholder="Reply…"
+            value={reply}
+            onChange={setReply}
+          />
+          {reply.trim() !== '' && (
+            <Button type="submit" alignSelf="end">
+              Reply
+            </Button>
+          )}
+        </form>
+      )}
+      <HStack gap="regular" justifyContent="end">
+        {thread.resolved ? (
+          <ActionButton
+            prominence="low"
+            onPress={() => comments.setResolved(thread.id, false)}
+          >
+            <Icon src={rotateCcwIcon} />
+            <Text>Reopen</Text>
+          </ActionButton>
+        ) : thread.suggestion !== undefined ? (
+          <>
+            <ActionButton
+              prominence="low"
+              onPress={() => comments.setResolved(thread.id, true)}
+            >
+              <Icon src={xIcon} />
+              <Text>Reject</Text>
+            </ActionButton>
+            <ActionButton
+              isDisabled={isOrphaned}
+              onPress={() => comments.acceptSuggestion(thread.id)}
+            >
+              <Icon src={checkIcon} />
+              <Text>Accept</Text>
+            </ActionButton>
+          </>
+        ) : (
+          <ActionButton onPress={() => comments.setResolved(thread.id, true)}>
+            <Icon src={checkIcon} />
+            <Text>Resolve</Text>
+          </ActionButton>
+        )}
+      </HStack>
+    </VStack>
+  );
+}
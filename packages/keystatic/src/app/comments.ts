@@ -0,0 +1,142 @@
+import { z } from 'zod';
+import { Collection, CommentsConfig } from '../config';
+import { ComponentSchema } from '../form/api';
+import { bytesToHex } from '../hex';
+
+/**
+ * Comments are stored in a file next to the entry so that the files of the
+ * entry only have the content
+ */
+export const COMMENTS_FILE_SUFFIX = '.comments.json';
+
+export function getCommentsFilepath(basePath: string) {
+  return `${basePath}${COMMENTS_FILE_SUFFIX}`;
+}
+
+export function getCommentsConfig(
+  collection: Collection<Record<string, ComponentSchema>, string>
+): Required<CommentsConfig> | undefined {
+  if (!collection.comments) return;
+  return {
+    blockPublishing:
+      collection.comments !== true &&
+      (collection.comments.blockPublishing ?? false),
+  };
+}
+
+const anchorSchema = z.object({
+  quote: z.string(),
+  prefix: z.string(),
+  suffix: z.string(),
+});
+
+const commentSchema = z.object({
+  id: z.string(),
+  author: z.object({ name: z.string(), avatarUrl: z.string().optional() }),
+  body: z.string(),
+  createdAt: z.string(),
+});
+
+const threadSchema = z.object({
+  id: z.string(),
+  anchor: anchorSchema,
+  // the text to replace the quote with when the thread suggests an edit
+  suggestion: z.string().optional(),
+  resolved: z.boolean(),
+  comments: z.array(commentSchema),
+});
+
+const commentsFileSchema = z.object({ threads: z.array(threadSchema) });
+
+/**
+ * The text that a thread is about, found again by the text around it when the
+ * content changes
+ */
+export type CommentAnchor = z.infer<typeof anchorSchema>;
+
+export type Comment = z.infer<typeof commentSchema>;
+
+export type CommentThread = z.infer<typeof threadSchema>;
+
+const textDecoder = new TextDecoder();
+const textEncoder = new TextEncoder();
+
+export function parseCommentsFile(contents: Uint8Array): CommentThread[] {
+  return commentsFileSchema.parse(JSON.parse(textDecoder.decode(contents)))
+    .threads;
+}
+
+export function serializeCommentsFile(threads: CommentThread[]) {
+  return textEncoder.encode(JSON.stringify({ threads }, null, 2) + '\n');
+}
+
+export function getUnresolvedThreadCount(threads: CommentThread[]) {
+  return threads.filter(thread => !thread.resolved).length;
+}
+
+export function createCommentId() {
+  return bytesToHex(crypto.getRandomValues(new Uint8Array(8)));
+}
+
+const ANCHOR_CONTEXT_LENGTH = 32;
+
+/**
+ * Creates an anchor for the text between `from` and `to` in the text of an
+ * editor, where blocks are separated by newlines
+ */
+export function createAnchor(
+  text: string,
+  from: number,
+  to: number
+): CommentAnchor {
+  return {
+    quote: text.slice(from, to),
+    prefix: text.slice(Math.max(0, from - ANCHOR_CONTEXT_LENGTH), from),
+    suffix: text.slice(to, to + ANCHOR_CONTEXT_LENGTH),
+  };
+}
+
+function commonSuffixLength(a: string, b: string) {
+  let i = 0;
+  while (
+    i < a.length &&
+    i < b.length &&
+    a[a.length - 1 - i] === b[b.length - 1 - i]
+  ) {
+    i++;
+  }
+  return i;
+}
+
+function commonPrefixLength(a: string, b: string) {
+  let i = 0;
+  while (i < a.length && i < b.length && a[i] === b[i]) {
+    i++;
+  }
+  return i;
+}
+
+/**
+ * Finds the text of an anchor in the text of an editor. When the quote occurs
+ * more than once, the occurrence with the most similar text around it is used.
+ * Returns `undefined` when the quote has been removed.
+ */
+export function findAnchor(
+  text: string,
+  anchor: CommentAnchor
+): { from: number; to: number } | undefined {
+  if (!anchor.quote) return;
+  let best: { from: number; score: number } | undefined;
+  let from = text.indexOf(anchor.quote);
+  while (from !== -1) {
+    const to = from + anchor.quote.length;
+    const score =
+      commonSuffixLength(text.slice(0, from), anchor.prefix) +
+      commonPrefixLength(text.slice(to), anchor.suffix);
+    if (!best || score > best.score) {
+      best = { from, score };
+    }
+    from = text.indexOf(anchor.quote, from + 1);
+  }
+  return best && { from: best.from, to: best.from + anchor.quote.length };
+}
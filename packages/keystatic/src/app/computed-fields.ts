@@ -0,0 +1,46 @@
+import { ComponentSchema, ComputedFormField, JsonYamlValue } from '../form/api';
+
+export function isComputedField(
+  schema: ComponentSchema
+): schema is ComputedFormField<JsonYamlValue, unknown> {
+  return (
+    schema.kind === 'form' &&
+    schema.formKind === undefined &&
+    'compute' in schema
+  );
+}
+
+const textDecoder = new TextDecoder();
+
+/**
+ * Sets the computed fields of the stored data of an entry. `content` is the
+ * content field of the entry which is given to the computed fields as a
+ * string. When `onRead` is true, only the fields that are computed on read are
+ * computed.
+ */
+export function applyComputedFields<Data extends Record<string, unknown>>(
+  schema: Record<string, ComponentSchema>,
+  data: Data,
+  content: { key: string; contents: Uint8Array | undefined } | undefined,
+  onRead: boolean
+): Data {
+  const computedFields = Object.entries(schema).flatMap(([key, field]) =>
+    isComputedField(field) && (!onRead || field.computeOnRead)
+      ? [[key, field] as const]
+      : []
+  );
+  if (!computedFields.length) return data;
+  const entry: Record<string, unknown> = { ...data };
+  if (content) {
+    entry[content.key] = content.contents
+      ? textDecoder.decode(content.contents)
+      : '';
+  }
+  const computed: Record<string, unknown> = { ...data };
+  for (const [key, field] of computedFields) {
+    const { value } = field.serialize(field.compute(entry) ?? null);
+    entry[key] = value;
+    computed[key] = value;
+  }
+  return computed as Data;
+}
@@ -43,7 +43,10 @@ import { useConfig } from './shell/context';
 import { useSlugFieldInfo } from './slugs';
 import { LOADING, useData } from './useData';
 import { serializeEntryToFiles, useUpsertItem } from './updating';
-import { parseEntry, useItemData } from './useItemData';
+import { parseEntry } from './parse-entry';
+import { hasAccess } from './permissions';
+import { useEntryAccess } from './permissions-ui';
+import { useItemData } from './useItemData';
 import { useHasChanged } from './useHasChanged';
 import { useYJsValue } from './useYJsValue';
 import {
@@ -493,9 +496,14 @@ function CreateItemInner(props: {
       ? props.slug
       : undefined;
   const slugInfo = useSlugFieldInfo(props.collection, currentSlug);
+  const entryAccess = useEntryAccess({
+    kind: 'collection',
+    collection: props.collection,
+  });
+  const canCreate = hasAccess(entryAccess.access, 'edit');
 
   const onCreate = async () => {
-    if (createResult.kind === 'loading') return;
+    if (createResult.kind === 'loading' || !canCreate) return;
     if (!clientSideValidateProp(schema, props.state, slugInfo)) {
       setForceValidation(true);
       return;
@@ -552,7 +560,7 @@ function CreateItemInner(props: {
             <Tooltip>Reset</Tooltip>
           </TooltipTrigger>
           <Button
-            isDisabled={isLoading}
+            isDisabled={isLoading || !canCreate}
             prominence="high"
             type="submit"
             form={formID}
@@ -578,6 +586,12 @@ function CreateItemInner(props: {
           {createResult.kind === 'error' && (
             <Notice tone="critical">{createResult.error.message}</Notice>
           )}
+          {!canCreate && (
+            <Notice tone="neutral">
+              You don’t have permission to create entries in{' '}
+              {collectionConfig.label}.
+            </Notice>
+          )}
           <FormForEntry
             previewProps={props.previewProps}
             forceValidation={forceValidation}
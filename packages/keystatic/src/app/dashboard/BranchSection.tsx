@@ -9,11 +9,12 @@ import { Text } from '@keystar/ui/typography';
 
 import { Config } from '../..';
 import { CreateBranchDialog } from '../branch-selection';
+import { CreatePullRequestDialog, PullRequestStatus } from '../pull-requests';
 import { DashboardSection } from './components';
 import { useRouter } from '../router';
 import { useBranchInfo } from '../shell/data';
 import { useLocalizedString } from '../shell/i18n';
-import { getRepoUrl, isLocalConfig } from '../utils';
+import { getRepoUrl, isGitHubConfig, isLocalConfig } from '../utils';
 
 export function BranchSection(props: { config: Config }) {
   let branchInfo = useBranchInfo();
@@ -65,6 +66,20 @@ export function BranchSection(props: { config: Config }) {
         </DialogTrigger>
 
         {!isDefaultBranch &&
+          isGitHubConfig(props.config) &&
+          branchInfo.pullRequestNumber === undefined && (
+            <DialogTrigger>
+              <ActionButton>
+                <Icon src={gitPullRequestIcon} />
+                <Text>{localizedString.format('createPullRequest')}</Text>
+              </ActionButton>
+              {close => (
+                <CreatePullRequestDialog onDismiss={close} onCreate={close} />
+              )}
+            </DialogTrigger>
+          )}
+        {!isDefaultBranch &&
+          !isGitHubConfig(props.config) &&
           (branchInfo.pullRequestNumber === undefined ? (
             <ActionButton
               href={`${repoURL}/pull/new/${branchInfo.currentBranch}`}
@@ -83,6 +98,11 @@ export function BranchSection(props: { config: Config }) {
             </ActionButton>
           ))}
       </Flex>
+      {!isDefaultBranch &&
+        isGitHubConfig(props.config) &&
+        branchInfo.pullRequestNumber !== undefined && (
+          <PullRequestStatus number={branchInfo.pullRequestNumber} />
+        )}
     </DashboardSection>
   );
 }
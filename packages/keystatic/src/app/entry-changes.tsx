@@ -0,0 +1,254 @@
+import { useMemo } from 'react';
+
+import { Badge } from '@keystar/ui/badge';
+import { Box, Grid, HStack, VStack } from '@keystar/ui/layout';
+import { css, tokenSchema } from '@keystar/ui/style';
+import { Text } from '@keystar/ui/typography';
+
+import { useObjectURL } from '../form/fields/image/ui';
+import { EntryFieldChange, EntryFileChange, diffText } from './entry-diff';
+import { isImageFilename } from './media';
+
+const changeKindTones = {
+  added: 'positive',
+  removed: 'critical',
+  changed: 'accent',
+} as const;
+
+const codeClassName = css({
+  fontFamily: tokenSchema.typography.fontFamily.code,
+  whiteSpace: 'pre-wrap',
+  wordBreak: 'break-word',
+});
+
+function ChangedImage(props: { data: Uint8Array; filename: string }) {
+  const url = useObjectURL(props.data);
+  return (
+    <VStack gap="regular">
+      {url && (
+        <img
+          src={url}
+          alt={props.filename}
+          className={css({
+            display: 'block',
+            maxHeight: tokenSchema.size.scale[3000],
+            maxWidth: '100%',
+            objectFit: 'contain',
+          })}
+        />
+      )}
+      <Text UNSAFE_className={codeClassName}>{props.filename}</Text>
+    </VStack>
+  );
+}
+
+function ChangedValue(props: {
+  value: string | undefined;
+  asset: Uint8Array | undefined;
+  tone?: 'positive' | 'critical';
+  label?: string;
+}) {
+  return (
+    <Box
+      backgroundColor={props.value === undefined ? undefined : props.tone}
+      border="neutral"
+      borderRadius="regular"
+      padding="regular"
+      minWidth={0}
+    >
+      {props.label && <Text visuallyHidden>{props.label}</Text>}
+      {props.value === undefined ? (
+        <Text color="neutralTertiary">None</Text>
+      ) : props.asset && isImageFilename(props.value) ? (
+        <ChangedImage data={props.asset} filename={props.value} />
+      ) : (
+        <Text UNSAFE_className={codeClassName}>{props.value}</Text>
+      )}
+    </Box>
+  );
+}
+
+/**
+ * Shows a changed text value with the removed words struck through.
+ */
+function TextDiff(props: { before: string; after: string }) {
+  const segments = useMemo(
+    () => diffText(props.before, props.after, 'word'),
+    [props.after, props.before]
+  );
+  return (
+    <Box border="neutral" borderRadius="regular" padding="regular" minWidth={0}>
+      <Text UNSAFE_className={codeClassName}>
+        {segments.map((segment, i) =>
+          segment.kind === 'equal' ? (
+            segment.value
+          ) : segment.kind === 'added' ? (
+            <ins
+              key={i}
+              className={css({
+                backgroundColor: tokenSchema.color.background.positive,
+                textDecoration: 'none',
+              })}
+            >
+              {segment.value}
+            </ins>
+          ) : (
+            <del
+              key={i}
+              className={css({
+                backgroundColor: tokenSchema.color.background.critical,
+              })}
+            >
+              {segment.value}
+            </del>
+          )
+        )}
+      </Text>
+    </Box>
+  );
+}
+
+/**
+ * Shows the changed top-level nodes of a content field, unchanged nodes are
+ * collapsed so that only the changes and where they are stand out.
+ */
+function ContentDiff(props: { before: string; after: string }) {
+  const segments = useMemo(
+    () => diffText(props.before, props.after, 'block'),
+    [props.after, props.before]
+  );
+  return (
+    <VStack gap="small" minWidth={0}>
+      {segments.map((segment, i) => {
+        const value = segment.value.trimEnd();
+        if (segment.kind === 'equal') {
+          const lines = value.split('\n');
+          return (
+            <Text
+              key={i}
+              color="neutralTertiary"
+              UNSAFE_className={codeClassName}
+            >
+              {lines.length > 2 ? `${lines[0]}\n…` : value}
+            </Text>
+          );
+        }
+        return (
+          <Box
+            key={i}
+            backgroundColor={segment.kind === 'added' ? 'positive' : 'critical'}
+            border="neutral"
+            borderRadius="regular"
+            padding="regular"
+          >
+            <Text visuallyHidden>
+              {segment.kind === 'added' ? 'Added' : 'Removed'}
+            </Text>
+            <Text UNSAFE_className={codeClassName}>{value}</Text>
+          </Box>
+        );
+      })}
+    </VStack>
+  );
+}
+
+function FieldChange(props: { change: EntryFieldChange }) {
+  const { change } = props;
+  if (
+    change.kind === 'changed' &&
+    change.before !== undefined &&
+    change.after !== undefined
+  ) {
+    if (change.format === 'text') {
+      return <TextDiff before={change.before} after={change.after} />;
+    }
+    if (change.format === 'content') {
+      return <ContentDiff before={change.before} after={change.after} />;
+    }
+  }
+  return (
+    <Grid columns="1fr 1fr" gap="regular">
+      <ChangedValue
+        label="Before"
+        tone="critical"
+        value={change.before}
+        asset={change.assets?.before}
+      />
+      <ChangedValue
+        label="After"
+        tone="positive"
+        value={change.after}
+        asset={change.assets?.after}
+      />
+    </Grid>
+  );
+}
+
+/**
+ * Lists the changes to the fields of an entry. Text is compared word by word,
+ * content fields by their top-level nodes and other values are shown before
+ * and after the change side by side.
+ */
+export function EntryChanges(props: { changes: EntryFieldChange[] }) {
+  if (!props.changes.length) {
+    return <Text color="neutralSecondary">No changes</Text>;
+  }
+  return (
+    <VStack gap="xlarge">
+      {props.changes.map(change => (
+        <VStack key={change.path.join('/')} gap="regular">
+          <HStack gap="regular" alignItems="center">
+            <Text weight="semibold">{change.label}</Text>
+            <Badge tone={changeKindTones[change.kind]}>{change.kind}</Badge>
+          </HStack>
+          <FieldChange change={change} />
+        </VStack>
+      ))}
+    </VStack>
+  );
+}
+
+/**
+ * Lists the values of the fields of an entry, the values are the `after` of
+ * the changes from comparing nothing with the entry.
+ */
+export function EntryValues(props: { values: EntryFieldChange[] }) {
+  return (
+    <VStack gap="large">
+      {props.values.map(value => (
+        <VStack key={value.path.join('/')} gap="regular">
+          <Text weight="semibold">{value.label}</Text>
+          <ChangedValue value={value.after} asset={value.assets?.after} />
+        </VStack>
+      ))}
+    </VStack>
+  );
+}
+
+/**
+ * Lists the files that will be added, changed or removed when an entry is
+ * saved.
+ */
+export function EntryFileChanges(props: { changes: EntryFileChange[] }) {
+  if (!props.changes.length) {
+    return <Text color="neutralSecondary">No files will change</Text>;
+  }
+  return (
+    <VStack elementType="ul" gap="regular">
+      {props.changes.map(change => (
+        <HStack
+          key={change.path}
+          elementType="li"
+          gap="regular"
+          alignItems="center"
+          minWidth={0}
+        >
+          <Badge tone={changeKindTones[change.kind]}>{change.kind}</Badge>
+          <Text truncate UNSAFE_className={codeClassName}>
+            {change.path}
+          </Text>
+        </HStack>
+      ))}
+    </VStack>
+  );
+}
@@ -0,0 +1,388 @@
+import { ComponentSchema, FormField, FormFieldStoredValue } from '../form/api';
+import { ReadonlyPropPath } from '../form/fields/document/DocumentEditor/component-blocks/utils';
+
+export type EntryFieldChange = {
+  path: ReadonlyPropPath;
+  /** The labels of the fields along the path, e.g. `Authors › 2 › Name` */
+  label: string;
+  kind: 'added' | 'removed' | 'changed';
+  before: string | undefined;
+  after: string | undefined;
+  /**
+   * How the values should be compared, `text` values are stored strings,
+   * `content` values are the content of content fields like
+   * `fields.markdoc` and `asset` values are the filenames of asset fields
+   */
+  format: EntryFieldFormat;
+  /** The contents of the file before and after for asset fields */
+  assets?: { before: Uint8Array | undefined; after: Uint8Array | undefined };
+};
+
+export type EntryFieldFormat = 'text' | 'content' | 'asset' | 'value';
+
+type SerializedForDiff = {
+  text: string;
+  files: Uint8Array[];
+  format: EntryFieldFormat;
+};
+
+const textDecoder = new TextDecoder();
+
+function formatStoredValue(value: FormFieldStoredValue): string {
+  if (value === undefined) return '';
+  if (typeof value === 'string') return value;
+  return JSON.stringify(value, null, 2);
+}
+
+function serializeFormFieldForDiff(
+  schema: FormField<any, any, any>,
+  value: unknown,
+  isSlugField: boolean
+): SerializedForDiff {
+  if (schema.formKind === 'content') {
+    const { content, other, external } = schema.serialize(value, {
+      slug: undefined,
+    });
+    return {
+      text: content ? textDecoder.decode(content) : '',
+      files: [
+        ...other.values(),
+        ...[...external.values()].flatMap(files => [...files.values()]),
+      ],
+      format: 'content',
+    };
+  }
+  if (schema.formKind === 'asset') {
+    const { value: stored, asset } = schema.serialize(value, {
+      suggestedFilenamePrefix: undefined,
+      slug: undefined,
+    });
+    return {
+      text: formatStoredValue(stored),
+      files: asset ? [asset.content] : [],
+      format: 'asset',
+    };
+  }
+  if (schema.formKind === 'slug' && isSlugField) {
+    const { value: stored, slug } = schema.serializeWithSlug(value);
+    return {
+      text:
+        stored === undefined ? slug : `${formatStoredValue(stored)} (${slug})`,
+      files: [],
+      format: 'text',
+    };
+  }
+  const { value: stored } = schema.serialize(value);
+  return {
+    text: formatStoredValue(stored),
+    files: [],
+    format:
+      stored === undefined || typeof stored === 'string' ? 'text' : 'value',
+  };
+}
+
+function bytesEqual(a: Uint8Array, b: Uint8Array) {
+  return a.length === b.length && a.every((byte, i) => byte === b[i]);
+}
+
+function isEmpty(serialized: SerializedForDiff) {
+  return serialized.text === '' && !serialized.files.length;
+}
+
+function isSerializedEqual(a: SerializedForDiff, b: SerializedForDiff) {
+  return (
+    a.text === b.text &&
+    a.files.length === b.files.length &&
+    a.files.every((file, i) => bytesEqual(file, b.files[i]))
+  );
+}
+
+function getFieldLabel(schema: ComponentSchema, key: string) {
+  if (schema.kind === 'conditional') return schema.discriminant.label || key;
+  return ('label' in schema && schema.label) || key;
+}
+
+function joinLabel(parent: string, label: string) {
+  return parent ? `${parent} › ${label}` : label;
+}
+
+function diffInner(
+  schema: ComponentSchema,
+  before: unknown,
+  after: unknown,
+  path: ReadonlyPropPath,
+  label: string,
+  slugField: string | undefined,
+  changes: EntryFieldChange[]
+) {
+  if (schema.kind === 'child') return;
+  if (schema.kind === 'form') {
+    const isSlugField = path.length === 1 && path[0] === slugField;
+    const serializedBefore =
+      before === undefined
+        ? undefined
+        : serializeFormFieldForDiff(schema, before, isSlugField);
+    const serializedAfter =
+      after === undefined
+        ? undefined
+        : serializeFormFieldForDiff(schema, after, isSlugField);
+    if (
+      serializedBefore && serializedAfter
+        ? isSerializedEqual(serializedBefore, serializedAfter)
+        : isEmpty((serializedBefore ?? serializedAfter)!)
+    ) {
+      return;
+    }
+    changes.push({
+      path,
+      label,
+      kind: !serializedBefore
+        ? 'added'
+        : !serializedAfter
+        ? 'removed'
+        : 'changed',
+      before: serializedBefore?.text,
+      after: serializedAfter?.text,
+      format: (serializedAfter ?? serializedBefore)!.format,
+      ...(schema.formKind === 'asset' && {
+        assets: {
+          before: serializedBefore?.files[0],
+          after: serializedAfter?.files[0],
+        },
+      }),
+    });
+    return;
+  }
+  if (schema.kind === 'object') {
+    for (const [key, field] of Object.entries(schema.fields)) {
+      diffInner(
+        field,
+        (before as Record<string, unknown> | undefined)?.[key],
+        (after as Record<string, unknown> | undefined)?.[key],
+        [...path, key],
+        joinLabel(label, getFieldLabel(field, key)),
+        slugField,
+        changes
+      );
+    }
+    return;
+  }
+  if (schema.kind === 'array') {
+    const beforeItems = (before as unknown[] | undefined) ?? [];
+    const afterItems = (after as unknown[] | undefined) ?? [];
+    for (let i = 0; i < Math.max(beforeItems.length, afterItems.length); i++) {
+      diffInner(
+        schema.element,
+        beforeItems[i],
+        afterItems[i],
+        [...path, i],
+        joinLabel(label, `${i + 1}`),
+        slugField,
+        changes
+      );
+    }
+    return;
+  }
+  const beforeValue = before as
+    | { discriminant: string | boolean; value: unknown }
+    | undefined;
+  const afterValue = after as
+    | { discriminant: string | boolean; value: unknown }
+    | undefined;
+  diffInner(
+    schema.discriminant,
+    beforeValue?.discriminant,
+    afterValue?.discriminant,
+    [...path, 'discriminant'],
+    label,
+    slugField,
+    changes
+  );
+  const isSameDiscriminant =
+    beforeValue?.discriminant === afterValue?.discriminant;
+  if (beforeValue && !isSameDiscriminant) {
+    diffInner(
+      schema.values[`${beforeValue.discriminant}`],
+      beforeValue.value,
+      undefined,
+      [...path, 'value'],
+      label,
+      slugField,
+      changes
+    );
+  }
+  if (afterValue) {
+    diffInner(
+      schema.values[`${afterValue.discriminant}`],
+      isSameDiscriminant ? beforeValue?.value : undefined,
+      afterValue.value,
+      [...path, 'value'],
+      label,
+      slugField,
+      changes
+    );
+  }
+}
+
+/**
+ * Compares two parsed values of an entry field by field, using the serialized
+ * value of each field so that values that would be stored the same, like the
+ * editor states of content fields, are considered equal. Fields that are only
+ * in one of the values are omitted when they're empty.
+ */
+export function diffEntries(
+  schema: Record<string, ComponentSchema>,
+  before: Record<string, unknown> | undefined,
+  after: Record<string, unknown> | undefined,
+  slugField?: string
+): EntryFieldChange[] {
+  const changes: EntryFieldChange[] = [];
+  diffInner(
+    { kind: 'object', fields: schema },
+    before,
+    after,
+    [],
+    '',
+    slugField,
+    changes
+  );
+  return changes;
+}
+
+export type TextDiffSegment = {
+  kind: 'equal' | 'added' | 'removed';
+  value: string;
+};
+
+// above this many comparisons, the changed part of two texts is shown as a
+// whole removal and addition rather than finding the longest common subsequence
+const MAX_TEXT_DIFF_COMPARISONS = 250_000;
+
+function tokenize(text: string, granularity: 'word' | 'block') {
+  return (
+    text.match(
+      granularity === 'word' ? /\s+|\S+\s*/g : /\n+|(?:[^\n]|\n(?!\n))+\n*/g
+    ) ?? []
+  );
+}
+
+function pushSegment(
+  segments: TextDiffSegment[],
+  kind: TextDiffSegment['kind'],
+  value: string
+) {
+  const last = segments[segments.length - 1];
+  if (last?.kind === kind) {
+    last.value += value;
+  } else {
+    segments.push({ kind, value });
+  }
+}
+
+/**
+ * Compares two texts by words or by blocks separated by blank lines, like the
+ * top-level nodes of a Markdoc or MDX document. Adjacent tokens of the same
+ * kind are merged into a single segment.
+ */
+export function diffText(
+  before: string,
+  after: string,
+  granularity: 'word' | 'block'
+): TextDiffSegment[] {
+  const a = tokenize(before, granularity);
+  const b = tokenize(after, granularity);
+  const isEqual = (x: string, y: string) => x.trimEnd() === y.trimEnd();
+  let start = 0;
+  while (start < a.length && start < b.length && isEqual(a[start], b[start])) {
+    start++;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && isEqual(a[endA - 1], b[endB - 1])) {
+    endA--;
+    endB--;
+  }
+  const segments: TextDiffSegment[] = [];
+  for (const token of b.slice(0, start)) {
+    pushSegment(segments, 'equal', token);
+  }
+  const n = endA - start;
+  const m = endB - start;
+  if (n * m > MAX_TEXT_DIFF_COMPARISONS) {
+    for (const token of a.slice(start, endA)) {
+      pushSegment(segments, 'removed', token);
+    }
+    for (const token of b.slice(start, endB)) {
+      pushSegment(segments, 'added', token);
+    }
+  } else {
+    // lengths[i][j] is the length of the longest common subsequence of the
+    // tokens from i in a and j in b
+    const lengths = Array.from({ length: n + 1 }, () =>
+      new Array<number>(m + 1).fill(0)
+    );
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lengths[i][j] = isEqual(a[start + i], b[start + j])
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < n || j < m) {
+      if (i < n && j < m && isEqual(a[start + i], b[start + j])) {
+        pushSegment(segments, 'equal', b[start + j]);
+        i++;
+        j++;
+      } else if (i < n && (j === m || lengths[i + 1][j] >= lengths[i][j + 1])) {
+        pushSegment(segments, 'removed', a[start + i]);
+        i++;
+      } else {
+        pushSegment(segments, 'added', b[start + j]);
+        j++;
+      }
+    }
+  }
+  for (const token of b.slice(endB)) {
+    pushSegment(segments, 'equal', token);
+  }
+  return segments;
+}
+
+export type EntryFileChange = {
+  path: string;
+  kind: 'added' | 'removed' | 'changed';
+};
+
+/**
+ * Compares the files that would be written for an entry with the files of the
+ * entry when it was loaded. `before` is the serialized initial state of the
+ * entry which is used to skip files whose contents haven't changed.
+ */
+export function diffEntryFiles(
+  initialFiles: string[],
+  before: { path: string; contents: Uint8Array }[],
+  after: { path: string; contents: Uint8Array }[]
+): EntryFileChange[] {
+  const initialFilesSet = new Set(initialFiles);
+  const beforeContents = new Map(before.map(x => [x.path, x.contents]));
+  const changes: EntryFileChange[] = [];
+  for (const file of after) {
+    if (!initialFilesSet.has(file.path)) {
+      changes.push({ path: file.path, kind: 'added' });
+      continue;
+    }
+    const contents = beforeContents.get(file.path);
+    if (!contents || !bytesEqual(contents, file.contents)) {
+      changes.push({ path: file.path, kind: 'changed' });
+    }
+  }
+  const afterPaths = new Set(after.map(x => x.path));
+  for (const path of initialFiles) {
+    if (!afterPaths.has(path)) {
+      changes.push({ path, kind: 'removed' });
+    }
+  }
+  return changes.sort((a, b) => a.path.localeCompare(b.path));
+}
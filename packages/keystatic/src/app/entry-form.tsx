@@ -24,12 +24,14 @@ import {
   Collection,
   Singleton,
 } from '..';
+import { ReadOnlyField, ReadOnlyFieldsProvider } from '../form/fields/context';
 import { FormatInfo } from './path-utils';
 import { ScrollView } from './shell/primitives';
 import { PageContainer } from './shell/page';
 import { useContentPanelQuery } from './shell/context';
 
 const emptyArray: ReadonlyPropPath = [];
+const emptySet: ReadonlySet<string> = new Set();
 const RESPONSIVE_PADDING = {
   mobile: 'medium',
   tablet: 'xlarge',
@@ -60,6 +62,7 @@ export function FormForEntry({
   forceValidation,
   slugField,
   entryLayout,
+  readOnlyFields = emptySet,
   previewProps: props,
 }: {
   previewProps: GenericPreviewProps<
@@ -70,6 +73,8 @@ export function FormForEntry({
   entryLayout: 'content' | 'form' | undefined;
   forceValidation: boolean | undefined;
   slugField: SlugFieldInfo | undefined;
+  /** The keys of fields that can't be edited, e.g. because of permissions */
+  readOnlyFields?: ReadonlySet<string>;
 }) {
   const isAboveMobile = useContentPanelQuery({ above: 'mobile' });
 
@@ -89,10 +94,14 @@ export function FormForEntry({
               <EntryLayoutSplitPaneContext.Provider value="main">
                 <ScrollView>
                   <AddToPathProvider part={contentField.key}>
-                    <InnerFormValueContentFromPreviewProps
-                      forceValidation={forceValidation}
-                      {...props.fields[contentField.key]}
-                    />
+                    <ReadOnlyField
+                      isReadOnly={readOnlyFields.has(contentField.key)}
+                    >
+                      <InnerFormValueContentFromPreviewProps
+                        forceValidation={forceValidation}
+                        {...props.fields[contentField.key]}
+                      />
+                    </ReadOnlyField>
                   </AddToPathProvider>
                 </ScrollView>
               </EntryLayoutSplitPaneContext.Provider>
@@ -104,10 +113,12 @@ export function FormForEntry({
                     {Object.entries(props.fields).map(([key, propVal]) =>
                       key === contentField.key ? null : (
                         <AddToPathProvider key={key} part={key}>
-                          <InnerFormValueContentFromPreviewProps
-                            forceValidation={forceValidation}
-                            {...propVal}
-                          />
+                          <ReadOnlyField isReadOnly={readOnlyFields.has(key)}>
+                            <InnerFormValueContentFromPreviewProps
+                              forceValidation={forceValidation}
+                              {...propVal}
+                            />
+                          </ReadOnlyField>
                         </AddToPathProvider>
                       )
                     )}
@@ -124,12 +135,14 @@ export function FormForEntry({
   return (
     <ScrollView>
       <PageContainer paddingY={RESPONSIVE_PADDING}>
-        <FormValueContentFromPreviewProps
-          // autoFocus
-          forceValidation={forceValidation}
-          slugField={slugField}
-          {...props}
-        />
+        <ReadOnlyFieldsProvider value={readOnlyFields}>
+          <FormValueContentFromPreviewProps
+            // autoFocus
+            forceValidation={forceValidation}
+            slugField={slugField}
+            {...props}
+          />
+        </ReadOnlyFieldsProvider>
       </PageContainer>
     </ScrollView>
   );
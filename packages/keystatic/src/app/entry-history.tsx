@@ -0,0 +1,348 @@
+import { gql } from '@ts-gql/tag/no-transform';
+import { Key, useCallback, useContext, useMemo, useState } from 'react';
+import { useClient } from 'urql';
+
+import { Avatar } from '@keystar/ui/avatar';
+import { Button, ButtonGroup } from '@keystar/ui/button';
+import { Dialog, useDialogContainer } from '@keystar/ui/dialog';
+import { Icon } from '@keystar/ui/icon';
+import { historyIcon } from '@keystar/ui/icon/icons/historyIcon';
+import { Flex, HStack, VStack } from '@keystar/ui/layout';
+import { Item, ListView } from '@keystar/ui/list-view';
+import { Notice } from '@keystar/ui/notice';
+import { Picker } from '@keystar/ui/picker';
+import { ProgressCircle } from '@keystar/ui/progress';
+import { Content } from '@keystar/ui/slots';
+import { Heading, Text } from '@keystar/ui/typography';
+
+import { Config } from '../config';
+import { fields } from '../form/api';
+import { EntryChanges } from './entry-changes';
+import { diffEntries } from './entry-diff';
+import { ParseEntryArgs, parseEntry } from './parse-entry';
+import { getEntryDataFilepath, getPathPrefix } from './path-utils';
+import { RelativeTime } from './persistence';
+import {
+  RepoWithWriteAccessContext,
+  fetchGitHubTreeData,
+  useBranchInfo,
+  useIsRepoPrivate,
+} from './shell/data';
+import { scopeEntriesWithPathPrefix } from './shell/path-prefix';
+import { getDirectoriesForTreeKey } from './tree-key';
+import { getTreeNodeAtPath } from './trees';
+import { DataState, useData } from './useData';
+import { fetchBlob, getFilesInLocations } from './useItemData';
+
+export type EntryRevision = {
+  oid: string;
+  treeOid: string;
+  message: string;
+  committedDate: string;
+  author: { name: string; avatarUrl: string | undefined };
+};
+
+const HISTORY_LENGTH = 30;
+
+const EntryHistoryQuery = gql`
+  query EntryHistory(
+    $owner: String!
+    $name: String!
+    $ref: String!
+    $path: String!
+    $count: Int!
+  ) {
+    repository(owner: $owner, name: $name) {
+      id
+      ref(qualifiedName: $ref) {
+        id
+        target {
+          id
+          ... on Commit {
+            history(first: $count, path: $path) {
+              nodes {
+                id
+                oid
+                messageHeadline
+                committedDate
+                tree {
+                  id
+                  oid
+                }
+                author {
+                  name
+                  avatarUrl
+                }
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+` as import('../../__generated__/ts-gql/EntryHistory').type;
+
+/**
+ * Lists the commits on the current branch that changed any of the files of an
+ * entry, newest first. GitHub only filters history by a single path so this
+ * queries each location of the entry and merges the results.
+ */
+function useEntryHistory(
+  config: Config,
+  locations: string[]
+): DataState<EntryRevision[]> {
+  const client = useClient();
+  const branchInfo = useBranchInfo();
+  const repoWithWriteAccess = useContext(RepoWithWriteAccessContext);
+  const repo = repoWithWriteAccess ?? {
+    owner: branchInfo.mainOwner,
+    name: branchInfo.mainRepo,
+  };
+  return useData(
+    useCallback(async () => {
+      const results = await Promise.all(
+        locations.map(async location => {
+          const result = await client
+            .query(EntryHistoryQuery, {
+              owner: repo.owner,
+              name: repo.name,
+              ref: `refs/heads/${branchInfo.currentBranch}`,
+              path: `${getPathPrefix(config.storage) ?? ''}${location}`,
+              count: HISTORY_LENGTH,
+            })
+            .toPromise();
+          if (result.error) throw result.error;
+          const target = result.data?.repository?.ref?.target;
+          return target && 'history' in target
+            ? target.history.nodes ?? []
+            : [];
+        })
+      );
+      const revisions = new Map<string, EntryRevision>();
+      for (const commit of results.flat()) {
+        if (!commit || revisions.has(commit.oid)) continue;
+        revisions.set(commit.oid, {
+          oid: commit.oid,
+          treeOid: commit.tree.oid,
+          message: commit.messageHeadline,
+          committedDate: commit.committedDate,
+          author: {
+            name: commit.author?.name ?? 'Unknown',
+            avatarUrl: commit.author?.avatarUrl,
+          },
+        });
+      }
+      return [...revisions.values()]
+        .sort((a, b) => b.committedDate.localeCompare(a.committedDate))
+        .slice(0, HISTORY_LENGTH);
+    }, [
+      branchInfo.currentBranch,
+      client,
+      config.storage,
+      locations,
+      repo.name,
+      repo.owner,
+    ])
+  );
+}
+
+/**
+ * Loads the state of an entry as it was at a commit, `undefined` is returned
+ * when the entry didn't exist at the commit.
+ */
+async function loadEntryAtRevision(
+  args: ParseEntryArgs,
+  locations: string[],
+  revision: EntryRevision,
+  isRepoPrivate: boolean,
+  repo: { owner: string; name: string }
+): Promise<Record<string, unknown> | undefined> {
+  const { tree } = scopeEntriesWithPathPrefix(
+    await fetchGitHubTreeData(revision.treeOid, args.config),
+    args.config
+  );
+  const dataFilepath = getEntryDataFilepath(args.dirpath, args.format);
+  if (!getTreeNodeAtPath(tree, dataFilepath)) return undefined;
+  const files = await Promise.all(
+    getFilesInLocations(tree, locations).map(
+      async entry =>
+        [
+          entry.path,
+          await fetchBlob(
+            args.config,
+            entry.sha,
+            entry.path,
+            revision.oid,
+            isRepoPrivate,
+            repo
+          ),
+        ] as const
+    )
+  );
+  return parseEntry(args, new Map(files)).initialState;
+}
+
+const PREVIOUS_REVISION = '@@previous';
+
+export function EntryHistoryDialog(props: {
+  args: ParseEntryArgs;
+  onRestore: (state: Record<string, unknown>) => void;
+}) {
+  const { args } = props;
+  const { dismiss } = useDialogContainer();
+  const branchInfo = useBranchInfo();
+  const isRepoPrivate = useIsRepoPrivate();
+  const locations = useMemo(
+    () =>
+      getDirectoriesForTreeKey(
+        fields.object(args.schema),
+        args.dirpath,
+        args.slug?.slug,
+        args.format
+      ),
+    [args.dirpath, args.format, args.schema, args.slug?.slug]
+  );
+  const history = useEntryHistory(args.config, locations);
+  const revisions = history.kind === 'loaded' ? history.data : [];
+
+  const [selectedOid, setSelectedOid] = useState<string>();
+  const [compareWith, setCompareWith] = useState<Key>(PREVIOUS_REVISION);
+  const selectedIndex = Math.max(
+    revisions.findIndex(x => x.oid === selectedOid),
+    0
+  );
+  const selected = revisions[selectedIndex] as EntryRevision | undefined;
+  const base =
+    compareWith === PREVIOUS_REVISION
+      ? (revisions[selectedIndex + 1] as EntryRevision | undefined)
+      : revisions.find(x => x.oid === compareWith);
+
+  const changes = useData(
+    useCallback(async () => {
+      if (!selected) return undefined;
+      const repo = { owner: branchInfo.mainOwner, name: branchInfo.mainRepo };
+      const [before, after] = await Promise.all(
+        [base, selected].map(revision =>
+          revision
+            ? loadEntryAtRevision(
+                args,
+                locations,
+                revision,
+                isRepoPrivate,
+                repo
+              )
+            : undefined
+        )
+      );
+      return {
+        after,
+        changes: diffEntries(args.schema, before, after, args.slug?.field),
+      };
+    }, [
+      args,
+      base,
+      branchInfo.mainOwner,
+      branchInfo.mainRepo,
+      isRepoPrivate,
+      locations,
+      selected,
+    ])
+  );
+
+  return (
+    <Dialog size="large">
+      <Heading>History</Heading>
+      <Content>
+        {history.kind === 'error' ? (
+          <Notice tone="critical">{history.error.message}</Notice>
+        ) : (
+          <Flex gap="xlarge" height="100%" minHeight={0}>
+            <ListView
+              aria-label="Revisions"
+              density="compact"
+              items={revisions}
+              loadingState={history.kind === 'loading' ? 'loading' : 'idle'}
+              selectionMode="single"
+              disallowEmptySelection
+              selectedKeys={selected ? [selected.oid] : []}
+              onSelectionChange={keys => {
+                if (keys === 'all') return;
+                const [key] = keys;
+                setSelectedOid(key as string);
+                setCompareWith(PREVIOUS_REVISION);
+              }}
+              width="scale.3400"
+              flexShrink={0}
+            >
+              {revision => (
+                <Item key={revision.oid} textValue={revision.message}>
+                  <HStack gap="regular" alignItems="center" minWidth={0}>
+                    <Avatar
+                      src={revision.author.avatarUrl}
+                      name={revision.author.name}
+                      size="xsmall"
+                    />
+                    <VStack gap="small" minWidth={0}>
+                      <Text truncate weight="medium">
+                        {revision.message}
+                      </Text>
+                      <Text size="small" color="neutralSecondary">
+                        {revision.author.name},{' '}
+                        <RelativeTime date={new Date(revision.committedDate)} />
+                      </Text>
+                    </VStack>
+                  </HStack>
+                </Item>
+              )}
+            </ListView>
+            <VStack gap="large" flex minWidth={0}>
+              <Picker
+                label="Compare with"
+                items={[
+                  { key: PREVIOUS_REVISION, label: 'Previous version' },
+                  ...revisions
+                    .filter(x => x !== selected)
+                    .map(x => ({ key: x.oid, label: x.message })),
+                ]}
+                selectedKey={compareWith}
+                onSelectionChange={setCompareWith}
+                isDisabled={!selected}
+              >
+                {item => <Item key={item.key}>{item.label}</Item>}
+              </Picker>
+              {changes.kind === 'loading' && history.kind === 'loaded' && (
+                <ProgressCircle
+                  aria-label="Loading changes"
+                  isIndeterminate
+                  alignSelf="center"
+                />
+              )}
+              {changes.kind === 'error' && (
+                <Notice tone="critical">{changes.error.message}</Notice>
+              )}
+              {changes.kind === 'loaded' && changes.data && (
+                <EntryChanges changes={changes.data.changes} />
+              )}
+            </VStack>
+          </Flex>
+        )}
+      </Content>
+      <ButtonGroup>
+        <Button onPress={dismiss}>Close</Button>
+        <Button
+          prominence="high"
+          isDisabled={changes.kind !== 'loaded' || !changes.data?.after}
+          onPress={() => {
+            if (changes.kind === 'loaded' && changes.data?.after) {
+              props.onRestore(changes.data.after);
+              dismiss();
+            }
+          }}
+        >
+          <Icon src={historyIcon} />
+          <Text>Restore this version</Text>
+        </Button>
+      </ButtonGroup>
+    </Dialog>
+  );
+}
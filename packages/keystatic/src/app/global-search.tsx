@@ -0,0 +1,226 @@
+import { isHotkey } from 'is-hotkey';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+
+import { ActionButton } from '@keystar/ui/button';
+import {
+  Dialog,
+  DialogContainer,
+  useDialogContainer,
+} from '@keystar/ui/dialog';
+import { Icon } from '@keystar/ui/icon';
+import { searchIcon } from '@keystar/ui/icon/icons/searchIcon';
+import { Flex } from '@keystar/ui/layout';
+import { Item, ListView } from '@keystar/ui/list-view';
+import { Notice } from '@keystar/ui/notice';
+import { SearchField } from '@keystar/ui/search-field';
+import { Content } from '@keystar/ui/slots';
+import { css, tokenSchema } from '@keystar/ui/style';
+import { Heading, Kbd, Text } from '@keystar/ui/typography';
+
+import { Config } from '../config';
+import { useDebouncedValue } from './useDebouncedValue';
+import { useRouter } from './router';
+import {
+  SearchDocument,
+  SearchResult,
+  getEntriesToIndex,
+  getSearchDocument,
+  searchDocuments,
+} from './search';
+import { useAppState, useConfig } from './shell/context';
+import {
+  useBaseCommit,
+  useBranchInfo,
+  useIsRepoPrivate,
+  useTree,
+} from './shell/data';
+import { LOADING, useData } from './useData';
+import { fetchBlob } from './useItemData';
+import { getEntryHref } from './utils';
+
+// documents are keyed by the tree key of their entry so entries are only
+// re-read when they change
+const documentCache = new Map<string, SearchDocument | null>();
+
+function useSearchDocuments() {
+  const config = useConfig();
+  const tree = useTree().current;
+  const baseCommit = useBaseCommit();
+  const isRepoPrivate = useIsRepoPrivate();
+  const { mainOwner, mainRepo } = useBranchInfo();
+  return useData(
+    useCallback(async () => {
+      if (tree.kind !== 'loaded') return LOADING;
+      const entries = getEntriesToIndex(config, tree.data.tree);
+      const documents = await Promise.all(
+        entries.map(async ({ key, files, ...entry }) => {
+          const cacheKey = `${entry.dirpath}:${key}`;
+          if (!documentCache.has(cacheKey)) {
+            try {
+              const contents = await Promise.all(
+                files.map(
+                  async file =>
+                    [
+                      file.path,
+                      await fetchBlob(
+                        config,
+                        file.sha,
+                        file.path,
+                        baseCommit,
+                        isRepoPrivate,
+                        { owner: mainOwner, name: mainRepo }
+                      ),
+                    ] as const
+                )
+              );
+              documentCache.set(
+                cacheKey,
+                getSearchDocument(entry, new Map(contents))
+              );
+            } catch {
+              // entries that can't be read are left out rather than failing
+              // the whole search, their pages show the error
+              documentCache.set(cacheKey, null);
+            }
+          }
+          return documentCache.get(cacheKey)!;
+        })
+      );
+      return documents.filter((x): x is SearchDocument => x !== null);
+    }, [baseCommit, config, isRepoPrivate, mainOwner, mainRepo, tree])
+  );
+}
+
+function getEntryLabel(config: Config, result: SearchResult) {
+  const { entry } = result.document;
+  return entry.kind === 'collection'
+    ? config.collections![entry.collection].label
+    : 'Singleton';
+}
+
+function HighlightedSnippet(props: { result: SearchResult }) {
+  const { snippet, match } = props.result;
+  return (
+    <>
+      {snippet.slice(0, match.start)}
+      <mark
+        className={css({
+          backgroundColor: tokenSchema.color.background.caution,
+          color: 'inherit',
+        })}
+      >
+        {snippet.slice(match.start, match.end)}
+      </mark>
+      {snippet.slice(match.end)}
+    </>
+  );
+}
+
+function GlobalSearchDialog() {
+  const config = useConfig();
+  const { basePath } = useAppState();
+  const router = useRouter();
+  const { dismiss } = useDialogContainer();
+  const [searchTerm, setSearchTerm] = useState('');
+  const debouncedSearchTerm = useDebouncedValue(searchTerm, 150);
+  const documents = useSearchDocuments();
+  const results = useMemo(
+    () =>
+      documents.kind === 'loaded'
+        ? searchDocuments(documents.data, debouncedSearchTerm)
+        : [],
+    [debouncedSearchTerm, documents]
+  );
+
+  return (
+    <Dialog size="medium">
+      <Heading>Search</Heading>
+      <Content>
+        <Flex direction="column" gap="large" height="100%" minHeight={0}>
+          <SearchField
+            aria-label="Search all entries"
+            autoFocus
+            value={searchTerm}
+            onChange={setSearchTerm}
+            onClear={() => setSearchTerm('')}
+            placeholder="Search all entries"
+          />
+          {documents.kind === 'error' && (
+            <Notice tone="critical">{documents.error.message}</Notice>
+          )}
+          <ListView
+            aria-label="Search results"
+            items={results}
+            loadingState={
+              documents.kind === 'loading' && debouncedSearchTerm
+                ? 'loading'
+                : 'idle'
+            }
+            onAction={key => {
+              dismiss();
+              router.push(key as string);
+            }}
+            renderEmptyState={() => (
+              <Flex alignItems="center" justifyContent="center" height="100%">
+                <Text color="neutralSecondary">
+                  {debouncedSearchTerm.trim()
+                    ? 'No entries found'
+                    : 'Search the content of all entries'}
+                </Text>
+              </Flex>
+            )}
+            flex
+            minHeight="scale.3000"
+          >
+            {result => (
+              <Item
+                key={getEntryHref(basePath, result.document.entry)}
+                textValue={result.document.title}
+              >
+                <Text>
+                  {result.document.title} · {getEntryLabel(config, result)}
+                </Text>
+                <Text slot="description">
+                  {result.field.labels.join(' › ')}:{' '}
+                  <HighlightedSnippet result={result} />
+                </Text>
+              </Item>
+            )}
+          </ListView>
+        </Flex>
+      </Content>
+    </Dialog>
+  );
+}
+
+/**
+ * A button that opens a search across the content of all entries, which can
+ * also be opened with cmd/ctrl+k.
+ */
+export function GlobalSearch() {
+  const [isOpen, setOpen] = useState(false);
+
+  useEffect(() => {
+    const listener = (event: KeyboardEvent) => {
+      if (isHotkey('mod+k', event)) {
+        event.preventDefault();
+        setOpen(true);
+      }
+    };
+    document.addEventListener('keydown', listener);
+    return () => document.removeEventListener('keydown', listener);
+  }, []);
+
+  return (
+    <>
+      <ActionButton prominence="low" onPress={() => setOpen(true)}>
+        <Icon src={searchIcon} />
+        <Text>Search</Text>
+        <Kbd meta>K</Kbd>
+      </ActionButton>
+      <DialogContainer onDismiss={() => setOpen(false)}>
+        {isOpen && <GlobalSearchDialog />}
+      </DialogContainer>
+    </>
+  );
+}
@@ -0,0 +1,91 @@
+import { useEffect, useMemo, useRef } from 'react';
+
+import { css, tokenSchema } from '@keystar/ui/style';
+
+import { ComponentSchema } from '../form/api';
+import {
+  PREVIEW_PROTOCOL_VERSION,
+  PreviewEntry,
+  PreviewUpdateMessage,
+  isPreviewReadyMessage,
+} from '../preview';
+import { useDebouncedValue } from './useDebouncedValue';
+import { getPreviewData } from './preview-data';
+
+/**
+ * Renders the preview URL of an entry and sends it the unsaved values of the
+ * entry as they change, see `@keystatic/core/preview` for the protocol.
+ */
+export function LivePreview(props: {
+  url: string;
+  entry: PreviewEntry;
+  schema: Record<string, ComponentSchema>;
+  state: Record<string, unknown>;
+  slugField: string | undefined;
+  slug: string | undefined;
+}) {
+  const { entry, schema, slug, slugField, url } = props;
+  const iframeRef = useRef<HTMLIFrameElement>(null);
+  const state = useDebouncedValue(props.state, 200);
+  const message = useMemo((): PreviewUpdateMessage | undefined => {
+    try {
+      return {
+        type: 'keystatic:preview-update',
+        version: PREVIEW_PROTOCOL_VERSION,
+        entry,
+        data: getPreviewData(schema, state, slugField, slug),
+      };
+    } catch {
+      // the state can't always be serialized while it's being edited, the
+      // preview keeps the last values until it can be
+      return undefined;
+    }
+  }, [entry, schema, slug, slugField, state]);
+  const targetOrigin = useMemo(
+    () => new URL(url, window.location.href).origin,
+    [url]
+  );
+
+  const latestMessage = useRef(message);
+  useEffect(() => {
+    if (message) {
+      latestMessage.current = message;
+      iframeRef.current?.contentWindow?.postMessage(message, targetOrigin);
+    }
+  }, [message, targetOrigin]);
+
+  useEffect(() => {
+    const listener = (event: MessageEvent) => {
+      if (
+        event.source !== iframeRef.current?.contentWindow ||
+        event.origin !== targetOrigin ||
+        !isPreviewReadyMessage(event.data)
+      ) {
+        return;
+      }
+      if (latestMessage.current) {
+        iframeRef.current?.contentWindow?.postMessage(
+          latestMessage.current,
+          targetOrigin
+        );
+      }
+    };
+    window.addEventListener('message', listener);
+    return () => window.removeEventListener('message', listener);
+  }, [targetOrigin]);
+
+  return (
+    <iframe
+      ref={iframeRef}
+      src={url}
+      title="Live preview"
+      className={css({
+        border: 0,
+        borderInlineStart: `${tokenSchema.size.border.regular} solid ${tokenSchema.color.border.neutral}`,
+        display: 'block',
+        height: '100%',
+        width: '100%',
+      })}
+    />
+  );
+}
@@ -0,0 +1,173 @@
+import { useLocale } from '@react-aria/i18n';
+import { useMemo, useState } from 'react';
+
+import { Icon } from '@keystar/ui/icon';
+import { languagesIcon } from '@keystar/ui/icon/icons/languagesIcon';
+import { VStack } from '@keystar/ui/layout';
+import { Notice } from '@keystar/ui/notice';
+import { Item, Picker } from '@keystar/ui/picker';
+import { ProgressCircle } from '@keystar/ui/progress';
+import { Text } from '@keystar/ui/typography';
+
+import { Localization } from '../config';
+import { EntryValues } from './entry-changes';
+import { diffEntries } from './entry-diff';
+import { getDefaultLocale } from './localization';
+import { ParseEntryArgs } from './parse-entry';
+import { useRouter } from './router';
+import { useItemData } from './useItemData';
+
+const LOCALE_SEARCH_PARAM = 'locale';
+
+/**
+ * The locale of the entry being edited from the `locale` search param,
+ * `undefined` is the default locale.
+ */
+export function useContentLocale(localization: Localization | undefined) {
+  const router = useRouter();
+  if (!localization) return undefined;
+  const locale = new URL(router.href, 'https://example.com').searchParams.get(
+    LOCALE_SEARCH_PARAM
+  );
+  return locale !== null &&
+    locale !== getDefaultLocale(localization) &&
+    localization.locales.includes(locale)
+    ? locale
+    : undefined;
+}
+
+export function getHrefForLocale(href: string, locale: string | undefined) {
+  const url = new URL(href, 'https://example.com');
+  if (locale === undefined) {
+    url.searchParams.delete(LOCALE_SEARCH_PARAM);
+  } else {
+    url.searchParams.set(LOCALE_SEARCH_PARAM, locale);
+  }
+  return url.pathname + url.search;
+}
+
+/**
+ * The name of a locale in the locale of the Admin UI with its code, e.g.
+ * `French (fr)`, falling back to the code when the name is unknown.
+ */
+export function useLocaleLabel() {
+  const { locale: uiLocale } = useLocale();
+  return useMemo(() => {
+    let displayNames: Intl.DisplayNames | undefined;
+    try {
+      displayNames = new Intl.DisplayNames([uiLocale], { type: 'language' });
+    } catch {}
+    return (locale: string) => {
+      let name: string | undefined;
+      try {
+        name = displayNames?.of(locale);
+      } catch {}
+      return name && name !== locale ? `${name} (${locale})` : locale;
+    };
+  }, [uiLocale]);
+}
+
+export function LocalePicker(props: {
+  localization: Localization;
+  locale: string | undefined;
+}) {
+  const router = useRouter();
+  const getLocaleLabel = useLocaleLabel();
+  const defaultLocale = getDefaultLocale(props.localization);
+  return (
+    <Picker
+      aria-label="Locale"
+      prominence="low"
+      width="auto"
+      items={props.localization.locales.map(locale => ({
+        locale,
+        label: getLocaleLabel(locale),
+      }))}
+      selectedKey={props.locale ?? defaultLocale}
+      onSelectionChange={key => {
+        const locale = key as string;
+        router.push(
+          getHrefForLocale(
+            router.href,
+            locale === defaultLocale ? undefined : locale
+          )
+        );
+      }}
+    >
+      {item => (
+        <Item key={item.locale} textValue={item.label}>
+          <Icon src={languagesIcon} />
+          <Text>{item.label}</Text>
+        </Item>
+      )}
+    </Picker>
+  );
+}
+
+/**
+ * Shows the values of an entry in another locale next to the form so that it
+ * can be translated.
+ */
+export function TranslateFromPane(props: {
+  localization: Localization;
+  locale: string | undefined;
+  getArgsForLocale: (locale: string) => ParseEntryArgs;
+}) {
+  const getLocaleLabel = useLocaleLabel();
+  const currentLocale = props.locale ?? getDefaultLocale(props.localization);
+  const otherLocales = props.localization.locales.filter(
+    locale => locale !== currentLocale
+  );
+  const [sourceLocale, setSourceLocale] = useState(otherLocales[0]);
+  const { getArgsForLocale } = props;
+  const args = useMemo(
+    () => getArgsForLocale(sourceLocale),
+    [getArgsForLocale, sourceLocale]
+  );
+  const itemData = useItemData(args);
+  const values = useMemo(
+    () =>
+      itemData.kind === 'loaded' && itemData.data !== 'not-found'
+        ? diffEntries(
+            args.schema,
+            undefined,
+            itemData.data.initialState,
+            args.slug?.field
+          )
+        : [],
+    [args, itemData]
+  );
+
+  return (
+    <VStack gap="xlarge" minWidth={0}>
+      <Picker
+        label="Translate from"
+        items={otherLocales.map(locale => ({
+          locale,
+          label: getLocaleLabel(locale),
+        }))}
+        selectedKey={sourceLocale}
+        onSelectionChange={key => setSourceLocale(key as string)}
+      >
+        {item => <Item key={item.locale}>{item.label}</Item>}
+      </Picker>
+      {itemData.kind === 'loading' ? (
+        <ProgressCircle
+          aria-label="Loading translation"
+          isIndeterminate
+          alignSelf="center"
+        />
+      ) : itemData.kind === 'error' ? (
+        <Notice tone="critical">{itemData.error.message}</Notice>
+      ) : itemData.data === 'not-found' ? (
+        <Text color="neutralSecondary">
+          {`This entry hasn’t been translated into ${getLocaleLabel(
+            sourceLocale
+          )}.`}
+        </Text>
+      ) : (
+        <EntryValues values={values} />
+      )}
+    </VStack>
+  );
+}
@@ -0,0 +1,94 @@
+import type { Config, Localization } from '../config';
+
+export const LOCALE_PLACEHOLDER = '{locale}';
+
+export function getDefaultLocale(localization: Localization) {
+  return localization.locales[0];
+}
+
+/**
+ * The locales to read an entry from, in order, when reading it in a locale:
+ * the locale itself, its configured fallbacks and then the default locale.
+ * Locales that aren't in `locales` are ignored.
+ */
+export function getLocaleFallbacks(
+  localization: Localization,
+  locale: string
+): string[] {
+  const chain = new Set<string>();
+  for (const candidate of [
+    locale,
+    ...(localization.fallbacks?.[locale] ?? []),
+    getDefaultLocale(localization),
+  ]) {
+    if (localization.locales.includes(candidate)) {
+      chain.add(candidate);
+    }
+  }
+  return [...chain];
+}
+
+export function resolveLocalePath(path: string, locale: string) {
+  return path.replaceAll(LOCALE_PLACEHOLDER, locale);
+}
+
+function resolveLocale<
+  T extends { localization?: Localization; path?: string },
+>(item: T, locale: string | undefined): T {
+  if (!item.localization || item.path === undefined) return item;
+  const resolvedLocale =
+    locale !== undefined && item.localization.locales.includes(locale)
+      ? locale
+      : getDefaultLocale(item.localization);
+  return { ...item, path: resolveLocalePath(item.path, resolvedLocale) };
+}
+
+const configsForLocales = new WeakMap<Config, Map<string, Config>>();
+const unresolvedConfigs = new WeakMap<Config, Config>();
+
+/**
+ * Returns a config where the `{locale}` in the paths of localized collections
+ * and singletons is replaced with the given locale, or the default locale of
+ * a collection or singleton when it isn't translated into the locale.
+ *
+ * The same config is returned for the same config and locale so it can be
+ * used as a dependency of hooks. Passing a config that was already resolved
+ * for a locale resolves the original config for the new locale.
+ */
+export function getConfigForLocale(
+  config: Config,
+  locale: string | undefined
+): Config {
+  config = unresolvedConfigs.get(config) ?? config;
+  const key = locale ?? '';
+  let configs = configsForLocales.get(config);
+  if (!configs) {
+    configs = new Map();
+    configsForLocales.set(config, configs);
+  }
+  let resolved = configs.get(key);
+  if (!resolved) {
+    resolved = {
+      ...config,
+      collections:
+        config.collections &&
+        Object.fromEntries(
+          Object.entries(config.collections).map(([key, collection]) => [
+            key,
+            resolveLocale(collection, locale),
+          ])
+        ),
+      singletons:
+        config.singletons &&
+        Object.fromEntries(
+          Object.entries(config.singletons).map(([key, singleton]) => [
+            key,
+            resolveLocale(singleton, locale),
+          ])
+        ),
+    };
+    configs.set(key, resolved);
+    unresolvedConfigs.set(resolved, config);
+  }
+  return resolved;
+}
@@ -0,0 +1,236 @@
+import { useCallback, useContext, useMemo, useState } from 'react';
+
+import { Button, ButtonGroup } from '@keystar/ui/button';
+import { Dialog, useDialogContainer } from '@keystar/ui/dialog';
+import { Image } from '@keystar/ui/image';
+import { Flex } from '@keystar/ui/layout';
+import { Item, ListView } from '@keystar/ui/list-view';
+import { Notice } from '@keystar/ui/notice';
+import { SearchField } from '@keystar/ui/search-field';
+import { Content } from '@keystar/ui/slots';
+import { Heading, Text } from '@keystar/ui/typography';
+
+import { useObjectURL } from '../form/fields/image/ui';
+import {
+  MediaAsset,
+  getMediaAssets,
+  getMediaDirectories,
+  isImageFilename,
+} from './media';
+import { ConfigContext, useConfig } from './shell/context';
+import {
+  useBaseCommit,
+  useBranchInfo,
+  useIsRepoPrivate,
+  useTree,
+} from './shell/data';
+import { DataState, LOADING, useData } from './useData';
+import { fetchBlob } from './useItemData';
+import { pluralize } from './utils';
+
+/**
+ * Whether the config has any image, file or content fields with a
+ * `directory` to list in the media library. This is safe to call outside of
+ * the Admin UI, like in field inputs rendered elsewhere.
+ */
+export function useHasMediaLibrary() {
+  const config = useContext(ConfigContext);
+  return useMemo(
+    () => !!config && getMediaDirectories(config).size > 0,
+    [config]
+  );
+}
+
+export function useMediaAssets(): DataState<MediaAsset[]> {
+  const config = useConfig();
+  const tree = useTree().current;
+  return useMemo(
+    () =>
+      tree.kind === 'loaded'
+        ? { kind: 'loaded', data: getMediaAssets(config, tree.data) }
+        : tree,
+    [config, tree]
+  );
+}
+
+export function useMediaAssetContents(
+  asset: MediaAsset | undefined
+): DataState<Uint8Array> {
+  const config = useConfig();
+  const baseCommit = useBaseCommit();
+  const isRepoPrivate = useIsRepoPrivate();
+  const { mainOwner, mainRepo } = useBranchInfo();
+  return useData(
+    useCallback(() => {
+      if (!asset) return LOADING;
+      return fetchBlob(
+        config,
+        asset.sha,
+        asset.files[0].path,
+        baseCommit,
+        isRepoPrivate,
+        { owner: mainOwner, name: mainRepo }
+      );
+    }, [asset, baseCommit, config, isRepoPrivate, mainOwner, mainRepo])
+  );
+}
+
+export function MediaAssetImage(props: {
+  asset: MediaAsset;
+  fit?: 'contain' | 'cover';
+}) {
+  const contents = useMediaAssetContents(props.asset);
+  const url = useObjectURL(contents.kind === 'loaded' ? contents.data : null);
+  if (!url) return null;
+  return (
+    <Image
+      src={url}
+      alt={props.asset.filename}
+      aspectRatio="1"
+      fit={props.fit}
+    />
+  );
+}
+
+export function getMediaAssetUsageLabel(asset: MediaAsset) {
+  return asset.usedBy.length
+    ? `Used by ${pluralize(asset.usedBy.length, {
+        singular: 'entry',
+        plural: 'entries',
+      })}`
+    : 'Unused';
+}
+
+export function filterMediaAssets(assets: MediaAsset[], searchTerm: string) {
+  const term = searchTerm.toLowerCase();
+  return assets.filter(asset =>
+    asset.files.some(file => file.path.toLowerCase().includes(term))
+  );
+}
+
+export function MediaAssetList(props: {
+  'aria-label': string;
+  assets: DataState<MediaAsset[]>;
+  searchTerm: string;
+  selectedAsset: MediaAsset | undefined;
+  onSelectionChange: (asset: MediaAsset | undefined) => void;
+  renderEmptyState?: () => JSX.Element;
+}) {
+  const { assets, onSelectionChange, searchTerm } = props;
+  const items = useMemo(
+    () =>
+      assets.kind === 'loaded'
+        ? filterMediaAssets(assets.data, searchTerm)
+        : [],
+    [assets, searchTerm]
+  );
+  return (
+    <ListView
+      aria-label={props['aria-label']}
+      items={items}
+      loadingState={assets.kind === 'loading' ? 'loading' : 'idle'}
+      selectionMode="single"
+      selectedKeys={props.selectedAsset ? [props.selectedAsset.sha] : []}
+      onSelectionChange={keys => {
+        if (keys === 'all') return;
+        const [key] = keys;
+        onSelectionChange(items.find(asset => asset.sha === key));
+      }}
+      renderEmptyState={props.renderEmptyState}
+      flex
+      minHeight="scale.3000"
+    >
+      {asset => (
+        <Item key={asset.sha} textValue={asset.filename}>
+          {isImageFilename(asset.filename) && <MediaAssetImage asset={asset} />}
+          <Text>{asset.filename}</Text>
+          <Text slot="description">{getMediaAssetUsageLabel(asset)}</Text>
+        </Item>
+      )}
+    </ListView>
+  );
+}
+
+/**
+ * Lets an existing file from the media library be chosen instead of
+ * uploading it again. The chosen file is copied to the entry when it's
+ * saved, like an uploaded file.
+ */
+export function MediaPickerDialog(props: {
+  accept: 'image' | 'file';
+  onSelect: (file: { content: Uint8Array; filename: string }) => void;
+}) {
+  const { dismiss } = useDialogContainer();
+  const allAssets = useMediaAssets();
+  const assets = useMemo(
+    (): DataState<MediaAsset[]> =>
+      allAssets.kind === 'loaded' && props.accept === 'image'
+        ? {
+            kind: 'loaded',
+            data: allAssets.data.filter(asset =>
+              isImageFilename(asset.filename)
+            ),
+          }
+        : allAssets,
+    [allAssets, props.accept]
+  );
+  const [searchTerm, setSearchTerm] = useState('');
+  const [selectedAsset, setSelectedAsset] = useState<MediaAsset>();
+  const contents = useMediaAssetContents(selectedAsset);
+
+  return (
+    <Dialog size="medium">
+      <Heading>
+        {props.accept === 'image'
+          ? 'Choose existing image'
+          : 'Choose existing file'}
+      </Heading>
+      <Content>
+        <Flex direction="column" gap="large" height="100%" minHeight={0}>
+          {assets.kind === 'error' && (
+            <Notice tone="critical">{assets.error.message}</Notice>
+          )}
+          {contents.kind === 'error' && selectedAsset && (
+            <Notice tone="critical">{contents.error.message}</Notice>
+          )}
+          <SearchField
+            aria-label="Search"
+            value={searchTerm}
+            onChange={setSearchTerm}
+            onClear={() => setSearchTerm('')}
+            placeholder="Search"
+          />
+          <MediaAssetList
+            aria-label="Media"
+            assets={assets}
+            searchTerm={searchTerm}
+            selectedAsset={selectedAsset}
+            onSelectionChange={setSelectedAsset}
+            renderEmptyState={() => (
+              <Flex alignItems="center" justifyContent="center" height="100%">
+                <Text color="neutralSecondary">No files found</Text>
+              </Flex>
+            )}
+          />
+        </Flex>
+      </Content>
+      <ButtonGroup>
+        <Button onPress={dismiss}>Cancel</Button>
+        <Button
+          prominence="high"
+          isDisabled={!selectedAsset || contents.kind !== 'loaded'}
+          onPress={() => {
+            if (!selectedAsset || contents.kind !== 'loaded') return;
+            dismiss();
+            props.onSelect({
+              content: contents.data,
+              filename: selectedAsset.filename,
+            });
+          }}
+        >
+          Choose
+        </Button>
+      </ButtonGroup>
+    </Dialog>
+  );
+}
@@ -0,0 +1,203 @@
+import { Config } from '../config';
+import { ComponentSchema, fields } from '../form/api';
+import {
+  getEntryDataFilepath,
+  getSingletonFormat,
+  getSingletonPath,
+} from './path-utils';
+import { collectDirectoriesUsedInSchema } from './tree-key';
+import { getEntriesInCollectionWithTreeKey } from './utils';
+import type { TreeData } from './shell/data';
+
+export type MediaOwner =
+  | { kind: 'collection'; collection: string; slug: string }
+  | { kind: 'singleton'; singleton: string };
+
+export type MediaFile = {
+  path: string;
+  filename: string;
+  /** The configured directory the file is in */
+  directory: string;
+  sha: string;
+  /** The entry the file belongs to, `undefined` when the entry doesn't exist */
+  owner: MediaOwner | undefined;
+};
+
+/**
+ * Files with the same contents, like the same logo uploaded to multiple
+ * entries, are a single asset in the media library.
+ */
+export type MediaAsset = {
+  sha: string;
+  filename: string;
+  files: MediaFile[];
+  /** The entries that have a copy of the asset */
+  usedBy: MediaOwner[];
+};
+
+type DirectoryOwner =
+  | { kind: 'collection'; collection: string }
+  | { kind: 'singleton'; singleton: string };
+
+const imageExtensions = new Set([
+  'apng',
+  'avif',
+  'gif',
+  'jpeg',
+  'jpg',
+  'png',
+  'svg',
+  'webp',
+]);
+
+export function isImageFilename(filename: string | undefined) {
+  const extension = filename?.split('.').pop()?.toLowerCase();
+  return !!extension && imageExtensions.has(extension);
+}
+
+/**
+ * The directories that the image, file and content fields of collections and
+ * singletons write assets to with their `directory` options, along with the
+ * collections and singletons that write to them.
+ */
+export function getMediaDirectories(
+  config: Config
+): Map<string, DirectoryOwner[]> {
+  const directories = new Map<string, DirectoryOwner[]>();
+  const add = (
+    schema: Record<string, ComponentSchema>,
+    owner: DirectoryOwner
+  ) => {
+    for (const directory of collectDirectoriesUsedInSchema(
+      fields.object(schema)
+    )) {
+      if (!directories.has(directory)) {
+        directories.set(directory, []);
+      }
+      directories.get(directory)!.push(owner);
+    }
+  };
+  for (const [collection, collectionConfig] of Object.entries(
+    config.collections ?? {}
+  )) {
+    add(collectionConfig.schema, { kind: 'collection', collection });
+  }
+  for (const [singleton, singletonConfig] of Object.entries(
+    config.singletons ?? {}
+  )) {
+    add(singletonConfig.schema, { kind: 'singleton', singleton });
+  }
+  return new Map([...directories].sort(([a], [b]) => a.localeCompare(b)));
+}
+
+function getOwner(
+  config: Config,
+  tree: TreeData,
+  owners: DirectoryOwner[],
+  pathInDirectory: string,
+  getSlugs: (collection: string) => string[]
+): MediaOwner | undefined {
+  for (const owner of owners) {
+    if (owner.kind === 'singleton') {
+      // assets of singletons are written directly in the directory
+      const dataFilepath = getEntryDataFilepath(
+        getSingletonPath(config, owner.singleton),
+        getSingletonFormat(config, owner.singleton)
+      );
+      if (tree.entries.has(dataFilepath) && !pathInDirectory.includes('/')) {
+        return owner;
+      }
+      continue;
+    }
+    // assets of collection entries are written in a directory named after
+    // the slug, slugs can include slashes with `**` in the collection path
+    const slug = getSlugs(owner.collection).find(slug =>
+      pathInDirectory.startsWith(`${slug}/`)
+    );
+    if (slug !== undefined) {
+      return { kind: 'collection', collection: owner.collection, slug };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Lists the files in the media directories of the config, grouped by their
+ * contents.
+ */
+export function getMediaAssets(config: Config, tree: TreeData): MediaAsset[] {
+  const directories = getMediaDirectories(config);
+  const slugsByCollection = new Map<string, string[]>();
+  const getSlugs = (collection: string) => {
+    let slugs = slugsByCollection.get(collection);
+    if (!slugs) {
+      slugs = getEntriesInCollectionWithTreeKey(
+        config,
+        collection,
+        tree.tree
+      ).map(entry => entry.slug);
+      slugsByCollection.set(collection, slugs);
+    }
+    return slugs;
+  };
+
+  // the longest directory first so files in nested directories belong to
+  // the innermost one
+  const directoriesByLength = [...directories].sort(
+    ([a], [b]) => b.length - a.length
+  );
+  const assets = new Map<string, MediaAsset>();
+  for (const entry of tree.entries.values()) {
+    if (entry.type !== 'blob') continue;
+    const match = directoriesByLength.find(([directory]) =>
+      entry.path.startsWith(`${directory}/`)
+    );
+    if (!match) continue;
+    const [directory, owners] = match;
+    const file: MediaFile = {
+      path: entry.path,
+      filename: entry.path.slice(entry.path.lastIndexOf('/') + 1),
+      directory,
+      sha: entry.sha,
+      owner: getOwner(
+        config,
+        tree,
+        owners,
+        entry.path.slice(directory.length + 1),
+        getSlugs
+      ),
+    };
+    let asset = assets.get(entry.sha);
+    if (!asset) {
+      asset = {
+        sha: entry.sha,
+        filename: file.filename,
+        files: [],
+        usedBy: [],
+      };
+      assets.set(entry.sha, asset);
+    }
+    asset.files.push(file);
+    const { owner } = file;
+    if (owner && !asset.usedBy.some(other => isSameOwner(other, owner))) {
+      asset.usedBy.push(owner);
+    }
+  }
+  return [...assets.values()].sort((a, b) =>
+    a.filename.localeCompare(b.filename)
+  );
+}
+
+function isSameOwner(a: MediaOwner, b: MediaOwner) {
+  return a.kind === 'collection'
+    ? b.kind === 'collection' &&
+        a.collection === b.collection &&
+        a.slug === b.slug
+    : b.kind === 'singleton' && a.singleton === b.singleton;
+}
+
+export function getMediaOwnerLabel(config: Config, owner: MediaOwner) {
+  return owner.kind === 'collection'
+    ? `${config.collections![owner.collection].label} › ${owner.slug}`
+    : config.singletons![owner.singleton].label;
+}
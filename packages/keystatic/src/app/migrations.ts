@@ -0,0 +1,73 @@
+import { Migration } from '../config';
+import { JsonYamlValue } from '../form/api';
+
+/**
+ * The key in the data of an entry that stores how many of the migrations of
+ * its collection or singleton have been applied to it. Entries without it are
+ * at version 0.
+ */
+export const ENTRY_VERSION_KEY = '$version';
+
+function isObject(value: unknown): value is { [key: string]: JsonYamlValue } {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    !Array.isArray(value) &&
+    !(value instanceof Date)
+  );
+}
+
+export function getEntryVersion(data: JsonYamlValue) {
+  if (!isObject(data) || data[ENTRY_VERSION_KEY] === undefined) return 0;
+  const version = data[ENTRY_VERSION_KEY];
+  if (
+    typeof version !== 'number' ||
+    !Number.isInteger(version) ||
+    version < 0
+  ) {
+    throw new Error(`${ENTRY_VERSION_KEY} must be a non-negative integer`);
+  }
+  return version;
+}
+
+/**
+ * Applies the migrations that haven't been applied to the stored data of an
+ * entry yet and removes the version so the result can be parsed with the
+ * schema.
+ */
+export function migrateEntryData(
+  data: JsonYamlValue,
+  migrations: Migration[]
+): { data: JsonYamlValue; fromVersion: number } {
+  const fromVersion = getEntryVersion(data);
+  if (!isObject(data)) return { data, fromVersion };
+  if (fromVersion > migrations.length) {
+    throw new Error(
+      `Entry is at version ${fromVersion} but only ${migrations.length} migrations are defined`
+    );
+  }
+  let { [ENTRY_VERSION_KEY]: _version, ...migrated } = data;
+  for (let version = fromVersion; version < migrations.length; version++) {
+    try {
+      migrated = migrations[version](migrated);
+    } catch (err) {
+      throw new Error(
+        `Migration to version ${version + 1} failed: ${(err as Error).message}`,
+        { cause: err }
+      );
+    }
+  }
+  return { data: migrated, fromVersion };
+}
+
+/**
+ * Adds the current version to the serialized data of an entry when its
+ * collection or singleton has migrations.
+ */
+export function addEntryVersion(
+  data: unknown,
+  migrations: Migration[]
+): unknown {
+  if (!migrations.length || !isObject(data)) return data;
+  return { [ENTRY_VERSION_KEY]: migrations.length, ...data };
+}
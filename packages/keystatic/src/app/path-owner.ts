@@ -0,0 +1,148 @@
+import { Config } from '../config';
+import { COMMENTS_FILE_SUFFIX } from './comments';
+import { getConfigForLocale } from './localization';
+import { getMediaDirectories } from './media';
+import {
+  FormatInfo,
+  getCollectionFormat,
+  getCollectionItemPath,
+  getCollectionPath,
+  getDataFileExtension,
+  getEntryDataFilepath,
+  getSingletonFormat,
+  getSingletonPath,
+  getSlugGlobForCollection,
+} from './path-utils';
+
+/** The collection or singleton that a file in the repository belongs to */
+export type PathOwner = {
+  entry:
+    | { kind: 'collection'; collection: string }
+    | { kind: 'singleton'; singleton: string };
+  label: string;
+  /**
+   * `undefined` for files in the media directories of collections and the
+   * comments on collection entries
+   */
+  location:
+    | {
+        /** `undefined` for singletons */
+        slug: string | undefined;
+        basePath: string;
+        dataFilepath: string;
+        format: FormatInfo;
+      }
+    | undefined;
+};
+
+function getLocaleConfigs(config: Config) {
+  const locales = new Set<string>();
+  for (const item of [
+    ...Object.values(config.collections ?? {}),
+    ...Object.values(config.singletons ?? {}),
+  ]) {
+    for (const locale of item.localization?.locales ?? []) {
+      locales.add(locale);
+    }
+  }
+  return [config, ...[...locales].map(x => getConfigForLocale(config, x))];
+}
+
+function getCollectionEntryLocation(
+  config: Config,
+  collection: string,
+  path: string
+) {
+  const collectionPath = getCollectionPath(config, collection);
+  if (!path.startsWith(`${collectionPath}/`)) return;
+  const format = getCollectionFormat(config, collection);
+  const extension = getDataFileExtension(format);
+  const segments = path.slice(collectionPath.length + 1).split('/');
+  // slugs can include slashes with `**` in the collection path so any of the
+  // leading segments could be the slug
+  const slugs = (
+    getSlugGlobForCollection(config, collection) === '*'
+      ? [segments[0]]
+      : segments.map((_, i) => segments.slice(0, i + 1).join('/'))
+  ).flatMap(slug =>
+    slug.endsWith(extension) ? [slug, slug.slice(0, -extension.length)] : slug
+  );
+  const locations = slugs.map(slug => {
+    const basePath = getCollectionItemPath(config, collection, slug);
+    return {
+      slug,
+      basePath,
+      dataFilepath: getEntryDataFilepath(basePath, format),
+      format,
+    };
+  });
+  return (
+    locations.find(location => location.dataFilepath === path) ??
+    locations.find(location => path.startsWith(`${location.basePath}/`))
+  );
+}
+
+/**
+ * Finds the collection entry or singleton that a file belongs to from its path
+ * relative to the path prefix
+ */
+export function getPathOwner(
+  config: Config,
+  path: string
+): PathOwner | undefined {
+  for (const localeConfig of getLocaleConfigs(config)) {
+    for (const [singleton, singletonConfig] of Object.entries(
+      localeConfig.singletons ?? {}
+    )) {
+      const basePath = getSingletonPath(localeConfig, singleton);
+      const format = getSingletonFormat(localeConfig, singleton);
+      const dataFilepath = getEntryDataFilepath(basePath, format);
+      if (path === dataFilepath || path.startsWith(`${basePath}/`)) {
+        return {
+          entry: { kind: 'singleton', singleton },
+          label: singletonConfig.label,
+          location: { slug: undefined, basePath, dataFilepath, format },
+        };
+      }
+    }
+    for (const [collection, collectionConfig] of Object.entries(
+      localeConfig.collections ?? {}
+    )) {
+      if (
+        collectionConfig.comments &&
+        path.endsWith(COMMENTS_FILE_SUFFIX) &&
+        path.startsWith(`${getCollectionPath(localeConfig, collection)}/`)
+      ) {
+        return {
+          entry: { kind: 'collection', collection },
+          label: collectionConfig.label,
+          location: undefined,
+        };
+      }
+      const location = getCollectionEntryLocation(
+        localeConfig,
+        collection,
+        path
+      );
+      if (location) {
+        return {
+          entry: { kind: 'collection', collection },
+          label: collectionConfig.label,
+          location,
+        };
+      }
+    }
+  }
+  for (const [directory, owners] of getMediaDirectories(config)) {
+    if (!path.startsWith(`${directory}/`)) continue;
+    const owner = owners[0];
+    return {
+      entry: owner,
+      label:
+        owner.kind === 'collection'
+          ? config.collections![owner.collection].label
+          : config.singletons![owner.singleton].label,
+      location: undefined,
+    };
+  }
+}
@@ -1,6 +1,15 @@
 import { assert } from 'emery';
-import { Config, DataFormat, Format, Glob } from '../config';
+import {
+  Collection,
+  Config,
+  DataFormat,
+  Format,
+  Glob,
+  Migration,
+  Singleton,
+} from '../config';
 import { ComponentSchema, ContentFormField } from '../form/api';
+import { getDefaultLocale, resolveLocalePath } from './localization';
 
 export function fixPath(path: string) {
   return path.replace(/^\.?\/+/, '').replace(/\/*$/, '');
@@ -10,7 +19,10 @@ const collectionPath = /\/\*\*?(?:$|\/)/;
 
 function getConfiguredCollectionPath(config: Config, collection: string) {
   const collectionConfig = config.collections![collection];
-  const path = collectionConfig.path ?? `${collection}/*/`;
+  const path = withDefaultLocale(
+    collectionConfig.path ?? `${collection}/*/`,
+    collectionConfig
+  );
   if (!collectionPath.test(path)) {
     throw new Error(
       `Collection path must end with /* or /** or include /*/ or /**/ but ${collection} has ${path}`
@@ -30,7 +42,8 @@ export function getCollectionFormat(config: Config, collection: string) {
   return getFormatInfo(
     collectionConfig.format ?? 'yaml',
     collectionConfig.schema,
-    getConfiguredCollectionPath(config, collection)
+    getConfiguredCollectionPath(config, collection),
+    collectionConfig.migrations ?? []
   );
 }
 
@@ -39,7 +52,8 @@ export function getSingletonFormat(config: Config, singleton: string) {
   return getFormatInfo(
     singletonConfig.format ?? 'yaml',
     singletonConfig.schema,
-    singletonConfig.path ?? `${singleton}/`
+    withDefaultLocale(singletonConfig.path ?? `${singleton}/`, singletonConfig),
+    singletonConfig.migrations ?? []
   );
 }
 
@@ -77,14 +91,28 @@ export function getCollectionItemSlugSuffix(
 }
 
 export function getSingletonPath(config: Config, singleton: string) {
-  if (config.singletons![singleton].path?.includes('*')) {
+  const singletonConfig = config.singletons![singleton];
+  if (singletonConfig.path?.includes('*')) {
     throw new Error(
-      `Singleton paths cannot include * but ${singleton} has ${
-        config.singletons![singleton].path
-      }`
+      `Singleton paths cannot include * but ${singleton} has ${singletonConfig.path}`
     );
   }
-  return fixPath(config.singletons![singleton].path ?? singleton);
+  return fixPath(
+    withDefaultLocale(singletonConfig.path ?? singleton, singletonConfig)
+  );
+}
+
+/**
+ * Paths of localized collections and singletons that haven't been resolved
+ * for a locale with `getConfigForLocale` refer to the default locale.
+ */
+function withDefaultLocale(
+  path: string,
+  item: Collection<any, any> | Singleton<any>
+) {
+  return item.localization
+    ? resolveLocalePath(path, getDefaultLocale(item.localization))
+    : path;
 }
 
 export function getDataFileExtension(formatInfo: FormatInfo) {
@@ -96,7 +124,8 @@ export function getDataFileExtension(formatInfo: FormatInfo) {
 function getFormatInfo(
   format: Format,
   schema: Record<string, ComponentSchema>,
-  path: string
+  path: string,
+  migrations: Migration[]
 ): FormatInfo {
   const dataLocation = path.endsWith('/') ? 'index' : 'outer';
   if (typeof format === 'string') {
@@ -104,6 +133,7 @@ function getFormatInfo(
       dataLocation,
       contentField: undefined,
       data: format,
+      migrations,
     };
   }
   let contentField;
@@ -126,6 +156,7 @@ function getFormatInfo(
     data: format.data ?? 'yaml',
     contentField,
     dataLocation,
+    migrations,
   };
 }
 
@@ -138,6 +169,7 @@ export type FormatInfo = {
       }
     | undefined;
   dataLocation: 'index' | 'outer';
+  migrations: Migration[];
 };
 
 export function getPathPrefix(storage: Config['storage']) {
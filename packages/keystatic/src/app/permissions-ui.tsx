@@ -0,0 +1,86 @@
+import {
+  ReactNode,
+  createContext,
+  useCallback,
+  useContext,
+  useMemo,
+} from 'react';
+import { z } from 'zod';
+
+import { Config } from '../config';
+import {
+  EntryAccess,
+  FULL_ACCESS,
+  Identity,
+  PermissionsEntry,
+  getEntryAccess,
+} from './permissions';
+import { useConfig } from './shell/context';
+import { DataState, useData } from './useData';
+import { isGitHubConfig } from './utils';
+
+const identitySchema = z.object({
+  login: z.string(),
+  teams: z.array(z.string()),
+});
+
+/** `null` when permissions aren't enforced */
+const IdentityContext = createContext<DataState<Identity | null>>({
+  kind: 'loaded',
+  data: null,
+});
+
+export function PermissionsProvider(props: {
+  config: Config;
+  children: ReactNode;
+}) {
+  const identity = useData(
+    useCallback(async () => {
+      if (!isGitHubConfig(props.config) || !props.config.permissions) {
+        return null;
+      }
+      const res = await fetch('/api/keystatic/github/identity', {
+        headers: { 'no-cors': '1' },
+      });
+      if (!res.ok) {
+        throw new Error(await res.text());
+      }
+      return identitySchema.parse(await res.json());
+    }, [props.config])
+  );
+  return (
+    <IdentityContext.Provider value={identity}>
+      {props.children}
+    </IdentityContext.Provider>
+  );
+}
+
+/**
+ * The access the current user has to a collection or singleton. Everything is
+ * read-only until the user is known.
+ */
+export function useEntryAccess(entry: PermissionsEntry): EntryAccess {
+  const config = useConfig();
+  const identity = useContext(IdentityContext);
+  const { kind } = entry;
+  const key = entry.kind === 'collection' ? entry.collection : entry.singleton;
+  return useMemo(() => {
+    const memoizedEntry: PermissionsEntry =
+      kind === 'collection'
+        ? { kind, collection: key }
+        : { kind, singleton: key };
+    if (identity.kind === 'loaded') {
+      return identity.data === null
+        ? FULL_ACCESS
+        : getEntryAccess(config, identity.data, memoizedEntry);
+    }
+    const schema =
+      kind === 'collection'
+        ? config.collections![key].schema
+        : config.singletons![key].schema;
+    return {
+      access: 'read' as const,
+      readOnlyFields: new Set(Object.keys(schema)),
+    };
+  }, [config, identity, kind, key]);
+}
@@ -0,0 +1,226 @@
+import { Access, Config } from '../config';
+import { getPathOwner } from './path-owner';
+import { getPathPrefix } from './path-utils';
+import { PUBLISHING_STATUS_FIELD, PUBLISH_AT_FIELD } from './publishing';
+import { loadDataFile } from './required-files';
+
+/** The GitHub user that's making changes */
+export type Identity = { login: string; teams: string[] };
+
+export type PermissionsEntry =
+  | { kind: 'collection'; collection: string }
+  | { kind: 'singleton'; singleton: string };
+
+export type EntryAccess = {
+  access: Access;
+  /** The keys of the fields of the entry that can't be edited */
+  readOnlyFields: ReadonlySet<string>;
+};
+
+export const FULL_ACCESS: EntryAccess = {
+  access: 'publish',
+  readOnlyFields: new Set(),
+};
+
+const accessLevels: Access[] = ['read', 'edit', 'publish'];
+
+export function hasAccess(access: Access, required: Access) {
+  return accessLevels.indexOf(access) >= accessLevels.indexOf(required);
+}
+
+function maxAccess(accesses: Access[], fallback: Access): Access {
+  if (!accesses.length) return fallback;
+  return accesses.reduce((a, b) => (hasAccess(a, b) ? a : b));
+}
+
+export function getRoles(config: Config, identity: Identity): string[] {
+  const login = identity.login.toLowerCase();
+  const teams = new Set(identity.teams.map(team => team.toLowerCase()));
+  return Object.entries(config.permissions?.roles ?? {})
+    .filter(
+      ([, role]) =>
+        role.users?.some(user => user.toLowerCase() === login) ||
+        role.teams?.some(team => teams.has(team.toLowerCase()))
+    )
+    .map(([name]) => name);
+}
+
+function getEntryConfig(config: Config, entry: PermissionsEntry) {
+  return entry.kind === 'collection'
+    ? config.collections![entry.collection]
+    : config.singletons![entry.singleton];
+}
+
+function getEntryPermissions(config: Config, entry: PermissionsEntry) {
+  return entry.kind === 'collection'
+    ? config.permissions?.collections?.[entry.collection]
+    : config.permissions?.singletons?.[entry.singleton];
+}
+
+/**
+ * The access a user has to the files outside of collections and singletons,
+ * from the access of their roles.
+ */
+export function getBaseAccess(config: Config, identity: Identity): Access {
+  const permissions = config.permissions;
+  if (!permissions) return 'publish';
+  return maxAccess(
+    getRoles(config, identity).map(role => permissions.roles[role].access),
+    permissions.default ?? 'read'
+  );
+}
+
+export function getEntryAccess(
+  config: Config,
+  identity: Identity,
+  entry: PermissionsEntry
+): EntryAccess {
+  const permissions = config.permissions;
+  if (!permissions) return FULL_ACCESS;
+  const roles = getRoles(config, identity);
+  const fallback = permissions.default ?? 'read';
+  const entryPermissions = getEntryPermissions(config, entry);
+  const entryConfig = getEntryConfig(config, entry);
+  const roleAccess = new Map(
+    roles.map(role => [
+      role,
+      entryPermissions?.access?.[role] ?? permissions.roles[role].access,
+    ])
+  );
+  const access = maxAccess([...roleAccess.values()], fallback);
+  const readOnlyFields = new Set<string>();
+  for (const field of Object.keys(entryConfig.schema)) {
+    const fieldPermissions = (
+      entryPermissions?.fields as Record<string, Record<string, Access>>
+    )?.[field];
+    const fieldAccess = maxAccess(
+      roles.map(role => {
+        const access = roleAccess.get(role)!;
+        const fieldAccess = fieldPermissions?.[role] ?? access;
+        return hasAccess(access, fieldAccess) ? fieldAccess : access;
+      }),
+      fallback
+    );
+    const isPublishingField =
+      entry.kind === 'collection' &&
+      config.collections![entry.collection].publishing &&
+      (field === PUBLISHING_STATUS_FIELD || field === PUBLISH_AT_FIELD);
+    if (
+      !hasAccess(fieldAccess, 'edit') ||
+      (isPublishingField && !hasAccess(access, 'publish'))
+    ) {
+      readOnlyFields.add(field);
+    }
+  }
+  return { access, readOnlyFields };
+}
+
+const textDecoder = new TextDecoder();
+
+function getFieldLabel(config: Config, entry: PermissionsEntry, field: string) {
+  const schema = getEntryConfig(config, entry).schema[field];
+  return ('label' in schema && schema.label) || field;
+}
+
+function isSameValue(a: unknown, b: unknown) {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Checks that a user is allowed to make changes to the files in the
+ * repository, returning a message for the first change they aren't allowed to
+ * make. Changes to fields are found by comparing the data files with how they
+ * are in the commit that's being changed, read with `readFile`.
+ */
+export async function validateChanges(
+  config: Config,
+  identity: Identity,
+  changes: {
+    additions: { path: string; contents: Uint8Array }[];
+    deletions: string[];
+  },
+  readFile: (path: string) => Promise<Uint8Array | null>
+): Promise<string | undefined> {
+  if (!config.permissions) return;
+  const files = new Map<string, Promise<Uint8Array | null>>();
+  const readFileOnce = (path: string) => {
+    if (!files.has(path)) files.set(path, readFile(path));
+    return files.get(path)!;
+  };
+  const pathPrefix = getPathPrefix(config.storage) ?? '';
+  const changedFiles = [
+    ...changes.additions,
+    ...changes.deletions.map(path => ({ path, contents: null })),
+  ];
+  for (const { path: repoPath, contents } of changedFiles) {
+    const path = repoPath.startsWith(pathPrefix)
+      ? repoPath.slice(pathPrefix.length)
+      : undefined;
+    const owner = path === undefined ? undefined : getPathOwner(config, path);
+    if (path === undefined || !owner) {
+      if (!hasAccess(getBaseAccess(config, identity), 'edit')) {
+        return `You don't have permission to change ${repoPath}`;
+      }
+      continue;
+    }
+    const { access, readOnlyFields } = getEntryAccess(
+      config,
+      identity,
+      owner.entry
+    );
+    if (!hasAccess(access, 'edit')) {
+      return `You don't have permission to edit ${owner.label}`;
+    }
+    const { location } = owner;
+    if (!location) continue;
+    if (contents === null && path === location.dataFilepath) {
+      if (!hasAccess(access, 'publish')) {
+        return `You don't have permission to delete entries in ${owner.label}`;
+      }
+      continue;
+    }
+    if (!readOnlyFields.size) continue;
+    const existing = await readFileOnce(pathPrefix + location.dataFilepath);
+    if (path !== location.dataFilepath) {
+      // other files in the directory of an entry are named after their field
+      const field = path.slice(location.basePath.length + 1).split(/[./]/)[0];
+      if (existing !== null && readOnlyFields.has(field)) {
+        return `You don't have permission to edit the ${getFieldLabel(
+          config,
+          owner.entry,
+          field
+        )} field of ${owner.label}`;
+      }
+      continue;
+    }
+    const updated = loadDataFile(contents!, location.format);
+    const updatedData = updated.loaded as Record<string, unknown>;
+    if (existing === null) {
+      // fields can be filled in when creating entries but entries can only be
+      // published when they're created with publish access
+      if (
+        readOnlyFields.has(PUBLISHING_STATUS_FIELD) &&
+        updatedData[PUBLISHING_STATUS_FIELD] === 'published'
+      ) {
+        return `You don't have permission to publish entries in ${owner.label}`;
+      }
+      continue;
+    }
+    const previous = loadDataFile(existing, location.format);
+    const previousData = previous.loaded as Record<string, unknown>;
+    for (const field of readOnlyFields) {
+      const isSame =
+        field === location.format.contentField?.key
+          ? textDecoder.decode(previous.extraFakeFile?.contents) ===
+            textDecoder.decode(updated.extraFakeFile?.contents)
+          : isSameValue(previousData[field], updatedData[field]);
+      if (!isSame) {
+        return `You don't have permission to edit the ${getFieldLabel(
+          config,
+          owner.entry,
+          field
+        )} field of ${owner.label}`;
+      }
+    }
+  }
+}
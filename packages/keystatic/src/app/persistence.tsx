@@ -33,7 +33,7 @@ function formatTimeAgo(
   return 'unknown';
 }
 
-function RelativeTime(props: { date: Date }) {
+export function RelativeTime(props: { date: Date }) {
   const { locale } = useLocale();
   const [now] = useState(() => new Date());
   const formatted = useMemo(() => {
@@ -71,10 +71,12 @@ function getStore() {
   return store;
 }
 
+// the locale is only included for translations in a locale other than the
+// default locale so drafts from before localization was enabled still apply
 type Key =
-  | readonly ['collection', collection: string, slug: string]
+  | readonly ['collection', collection: string, slug: string, locale?: string]
   | readonly ['collection-create', collection: string, duplicateSlug?: string]
-  | readonly ['singleton', singleton: string];
+  | readonly ['singleton', singleton: string, locale?: string];
 
 // the as anys are because the indexeddb types dont't accept readonly arrays
 
@@ -3,18 +3,23 @@ import { useAwarenessStates } from './shell/collab';
 import { Avatar } from '@keystar/ui/avatar';
 import { useCloudInfo } from './shell/data';
 import { useRouter } from './router';
+import { useConfig } from './shell/context';
 
 export function PresenceAvatars() {
+  const config = useConfig();
   const cloudInfo = useCloudInfo();
   const awarenessStates = useAwarenessStates();
   const router = useRouter();
-  if (!cloudInfo) return null;
+  if (!cloudInfo && !config.collaboration) return null;
   return (
     <HStack>
       {[...awarenessStates.values()].map(val => {
         if (
           !val.user ||
-          router.href !== `/keystatic/branch/${val.branch}/${val.location}`
+          router.href !==
+            (config.storage.kind === 'local'
+              ? `/keystatic/${val.location}`
+              : `/keystatic/branch/${val.branch}/${val.location}`)
         ) {
           return null;
         }
@@ -0,0 +1,50 @@
+import { ComponentSchema, fields } from '../form/api';
+import { transformProps } from '../form/props-value';
+
+const textDecoder = new TextDecoder();
+
+/**
+ * The values of an entry as they would be written to its data file, with the
+ * source of content fields as strings instead of separate files.
+ */
+export function getPreviewData(
+  schema: Record<string, ComponentSchema>,
+  state: Record<string, unknown>,
+  slugField: string | undefined,
+  slug: string | undefined
+): Record<string, unknown> {
+  return transformProps(fields.object(schema), state, {
+    form(schema, value, propPath) {
+      if (propPath.length === 1 && slugField === propPath[0]) {
+        if (schema.formKind !== 'slug') {
+          throw new Error('slugField is a not a slug field');
+        }
+        return schema.serializeWithSlug(value).value;
+      }
+      if (schema.formKind === 'asset') {
+        return schema.serialize(value, {
+          suggestedFilenamePrefix: undefined,
+          slug,
+        }).value;
+      }
+      if (schema.formKind === 'content') {
+        const { content } = schema.serialize(value, { slug });
+        return content ? textDecoder.decode(content) : undefined;
+      }
+      return schema.serialize(value).value;
+    },
+    object(_schema, value) {
+      return Object.fromEntries(
+        Object.entries(value).filter(([_, val]) => val !== undefined)
+      );
+    },
+    array(_schema, value) {
+      return value.map(val => (val === undefined ? null : val));
+    },
+    // child fields are only used in component blocks, which are stored in
+    // the content of document fields rather than the data file
+    child() {
+      return null;
+    },
+  }) as Record<string, unknown>;
+}
@@ -0,0 +1,86 @@
+import { useLocalizedStringFormatter } from '@react-aria/i18n';
+import { useState } from 'react';
+
+import { Badge, BadgeProps } from '@keystar/ui/badge';
+import { Button, ButtonGroup } from '@keystar/ui/button';
+import { Dialog } from '@keystar/ui/dialog';
+import { Content } from '@keystar/ui/slots';
+import { TextField } from '@keystar/ui/text-field';
+import { Heading } from '@keystar/ui/typography';
+
+import l10nMessages from './l10n/index.json';
+import { PublishingState, formatPublishAt, parsePublishAt } from './publishing';
+
+const publishingStateTones: Record<PublishingState, BadgeProps['tone']> = {
+  draft: 'neutral',
+  scheduled: 'accent',
+  published: 'positive',
+};
+
+export function PublishingBadge(
+  props: { state: PublishingState } & Omit<BadgeProps, 'children' | 'tone'>
+) {
+  const { state, ...otherProps } = props;
+  const stringFormatter = useLocalizedStringFormatter(l10nMessages);
+  return (
+    <Badge tone={publishingStateTones[state]} {...otherProps}>
+      {stringFormatter.format(state)}
+    </Badge>
+  );
+}
+
+// datetime-local inputs use the local timezone while publishAt is in UTC
+function toLocalInputValue(publishAt: string) {
+  const date = parsePublishAt(publishAt);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60 * 1000)
+    .toISOString()
+    .slice(0, 16);
+}
+
+export function ScheduleDialog(props: {
+  publishAt: string | null;
+  onDismiss: () => void;
+  onSchedule: (publishAt: string) => void;
+}) {
+  const stringFormatter = useLocalizedStringFormatter(l10nMessages);
+  const [value, setValue] = useState(() =>
+    props.publishAt === null ? '' : toLocalInputValue(props.publishAt)
+  );
+  const date = value === '' ? undefined : new Date(value);
+  const isValid = date !== undefined && !isNaN(date.getTime());
+
+  return (
+    <Dialog size="small">
+      <form
+        style={{ display: 'contents' }}
+        onSubmit={event => {
+          if (event.target !== event.currentTarget) return;
+          event.preventDefault();
+          if (!isValid) return;
+          props.onSchedule(formatPublishAt(date));
+          props.onDismiss();
+        }}
+      >
+        <Heading>{stringFormatter.format('scheduleEntry')}</Heading>
+        <Content>
+          <TextField
+            label={stringFormatter.format('publishAt')}
+            description={stringFormatter.format('publishAtDescription')}
+            type="datetime-local"
+            value={value}
+            onChange={setValue}
+            autoFocus
+          />
+        </Content>
+        <ButtonGroup>
+          <Button onPress={props.onDismiss}>
+            {stringFormatter.format('cancel')}
+          </Button>
+          <Button isDisabled={!isValid} prominence="high" type="submit">
+            {stringFormatter.format('schedule')}
+          </Button>
+        </ButtonGroup>
+      </form>
+    </Dialog>
+  );
+}
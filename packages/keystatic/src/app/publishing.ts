@@ -0,0 +1,66 @@
+import { BasicFormField } from '../form/api';
+import { datetime } from '../form/fields/datetime';
+import { select } from '../form/fields/select';
+
+export const PUBLISHING_STATUS_FIELD = 'status';
+export const PUBLISH_AT_FIELD = 'publishAt';
+
+export type PublishingStatus = 'draft' | 'published';
+
+export type PublishingState = 'draft' | 'scheduled' | 'published';
+
+export type PublishingFields = {
+  [PUBLISHING_STATUS_FIELD]: BasicFormField<PublishingStatus> & {
+    options: readonly { label: string; value: PublishingStatus }[];
+  };
+  [PUBLISH_AT_FIELD]: BasicFormField<string | null, string | null>;
+};
+
+/**
+ * The fields that are added to the schema of collections with `publishing`
+ * enabled. They're edited with the actions in the header of the item page
+ * rather than in the form so their inputs render nothing.
+ */
+export function getPublishingFields(): PublishingFields {
+  return {
+    [PUBLISHING_STATUS_FIELD]: {
+      ...select({
+        label: 'Status',
+        options: [
+          { label: 'Draft', value: 'draft' },
+          { label: 'Published', value: 'published' },
+        ],
+        defaultValue: 'draft',
+      }),
+      Input: () => null,
+    },
+    [PUBLISH_AT_FIELD]: {
+      ...datetime({ label: 'Publish at' }),
+      Input: () => null,
+    },
+  };
+}
+
+/**
+ * Values of `publishAt` are stored without a timezone and are interpreted as
+ * UTC, the same as the serialized value of the `datetime` field.
+ */
+export function parsePublishAt(value: string) {
+  return new Date(/(Z|[+-]\d\d:\d\d)$/i.test(value) ? value : `${value}Z`);
+}
+
+export function formatPublishAt(date: Date) {
+  return date.toISOString().slice(0, 16);
+}
+
+export function getPublishingState(
+  entry: Record<string, unknown>,
+  now = new Date()
+): PublishingState {
+  if (entry[PUBLISHING_STATUS_FIELD] !== 'published') return 'draft';
+  const publishAt = entry[PUBLISH_AT_FIELD];
+  if (typeof publishAt === 'string' && parsePublishAt(publishAt) > now) {
+    return 'scheduled';
+  }
+  return 'published';
+}
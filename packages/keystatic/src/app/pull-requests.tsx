@@ -0,0 +1,552 @@
+import { gql } from '@ts-gql/tag/no-transform';
+import { useState } from 'react';
+import { useMutation, useQuery } from 'urql';
+
+import { Avatar } from '@keystar/ui/avatar';
+import { Badge } from '@keystar/ui/badge';
+import { ActionButton, Button, ButtonGroup } from '@keystar/ui/button';
+import { Dialog, DialogTrigger } from '@keystar/ui/dialog';
+import { Icon } from '@keystar/ui/icon';
+import { checkCircle2Icon } from '@keystar/ui/icon/icons/checkCircle2Icon';
+import { circleDotIcon } from '@keystar/ui/icon/icons/circleDotIcon';
+import { externalLinkIcon } from '@keystar/ui/icon/icons/externalLinkIcon';
+import { gitMergeIcon } from '@keystar/ui/icon/icons/gitMergeIcon';
+import { xCircleIcon } from '@keystar/ui/icon/icons/xCircleIcon';
+import { Flex, HStack, VStack } from '@keystar/ui/layout';
+import { TextLink } from '@keystar/ui/link';
+import { Notice } from '@keystar/ui/notice';
+import { ProgressCircle } from '@keystar/ui/progress';
+import { Radio, RadioGroup } from '@keystar/ui/radio';
+import { Content } from '@keystar/ui/slots';
+import { TextArea, TextField } from '@keystar/ui/text-field';
+import { toastQueue } from '@keystar/ui/toast';
+import { Heading, Text } from '@keystar/ui/typography';
+
+import { Ref_base, useBranchInfo, useRepositoryId } from './shell/data';
+
+// Data
+// -----------------------------------------------------------------------------
+
+const CreatePullRequestMutation = gql`
+  mutation CreatePullRequest($input: CreatePullRequestInput!) {
+    createPullRequest(input: $input) {
+      pullRequest {
+        id
+        number
+        headRef {
+          ...Ref_base
+        }
+      }
+    }
+  }
+  ${Ref_base}
+` as import('../../__generated__/ts-gql/CreatePullRequest').type;
+
+const MergePullRequestMutation = gql`
+  mutation MergePullRequest($input: MergePullRequestInput!) {
+    mergePullRequest(input: $input) {
+      pullRequest {
+        id
+        state
+        merged
+        headRef {
+          ...Ref_base
+        }
+        baseRef {
+          ...Ref_base
+        }
+      }
+    }
+  }
+  ${Ref_base}
+` as import('../../__generated__/ts-gql/MergePullRequest').type;
+
+const PullRequestStatusQuery = gql`
+  query PullRequestStatus($owner: String!, $name: String!, $number: Int!) {
+    repository(owner: $owner, name: $name) {
+      id
+      pullRequest(number: $number) {
+        id
+        number
+        title
+        url
+        state
+        isDraft
+        merged
+        mergeable
+        reviewDecision
+        headRefOid
+        commits(last: 1) {
+          nodes {
+            id
+            commit {
+              id
+              statusCheckRollup {
+                id
+                state
+                contexts(first: 50) {
+                  nodes {
+                    __typename
+                    ... on CheckRun {
+                      id
+                      name
+                      status
+                      conclusion
+                      detailsUrl
+                    }
+                    ... on StatusContext {
+                      id
+                      context
+                      state
+                      targetUrl
+                    }
+                  }
+                }
+              }
+            }
+          }
+        }
+        latestReviews(first: 10) {
+          nodes {
+            id
+            state
+            body
+            url
+            author {
+              login
+              avatarUrl
+            }
+            comments(first: 20) {
+              nodes {
+                id
+                body
+                path
+                url
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+` as import('../../__generated__/ts-gql/PullRequestStatus').type;
+
+export type PullRequest = NonNullable<
+  NonNullable<
+    NonNullable<
+      ReturnType<typeof usePullRequestStatus>[0]['data']
+    >['repository']
+  >['pullRequest']
+>;
+
+type CheckState = 'success' | 'failure' | 'pending' | 'neutral';
+
+export type Check = {
+  id: string;
+  name: string;
+  state: CheckState;
+  url?: string;
+};
+
+function usePullRequestStatus(number: number) {
+  const branchInfo = useBranchInfo();
+  return useQuery({
+    query: PullRequestStatusQuery,
+    variables: {
+      owner: branchInfo.mainOwner,
+      name: branchInfo.mainRepo,
+      number,
+    },
+    requestPolicy: 'cache-and-network',
+  });
+}
+
+export function getChecks(pullRequest: PullRequest): Check[] {
+  const contexts =
+    pullRequest.commits.nodes?.[0]?.commit.statusCheckRollup?.contexts.nodes ??
+    [];
+  return contexts.flatMap((context): Check[] => {
+    if (!context) return [];
+    if (context.__typename === 'CheckRun') {
+      return [
+        {
+          id: context.id,
+          name: context.name,
+          state:
+            context.status !== 'COMPLETED'
+              ? 'pending'
+              : context.conclusion === 'SUCCESS'
+              ? 'success'
+              : context.conclusion === 'NEUTRAL' ||
+                context.conclusion === 'SKIPPED'
+              ? 'neutral'
+              : 'failure',
+          url: context.detailsUrl ?? undefined,
+        },
+      ];
+    }
+    if (context.__typename === 'StatusContext') {
+      return [
+        {
+          id: context.id,
+          name: context.context,
+          state:
+            context.state === 'SUCCESS'
+              ? 'success'
+              : context.state === 'PENDING' || context.state === 'EXPECTED'
+              ? 'pending'
+              : 'failure',
+          url: context.targetUrl ?? undefined,
+        },
+      ];
+    }
+    return [];
+  });
+}
+
+/**
+ * The reason a pull request can't be merged, GitHub still enforces branch
+ * protection rules when merging so this only covers the common cases.
+ */
+export function getMergeBlocker(
+  pullRequest: PullRequest,
+  checks: Check[]
+): string | undefined {
+  if (pullRequest.state !== 'OPEN') return 'This pull request is closed.';
+  if (pullRequest.isDraft) return 'This pull request is still a draft.';
+  if (pullRequest.mergeable === 'CONFLICTING') {
+    return 'This branch has conflicts that must be resolved on GitHub.';
+  }
+  if (pullRequest.reviewDecision === 'CHANGES_REQUESTED') {
+    return 'Changes have been requested.';
+  }
+  if (pullRequest.reviewDecision === 'REVIEW_REQUIRED') {
+    return 'An approving review is required.';
+  }
+  if (checks.some(check => check.state === 'failure')) {
+    return 'Some checks were not successful.';
+  }
+  if (checks.some(check => check.state === 'pending')) {
+    return 'Some checks haven’t completed yet.';
+  }
+  return undefined;
+}
+
+// Components
+// -----------------------------------------------------------------------------
+
+export function CreatePullRequestDialog(props: {
+  onDismiss: () => void;
+  onCreate: (pullRequestNumber: number) => void;
+}) {
+  const branchInfo = useBranchInfo();
+  const repositoryId = useRepositoryId();
+  const [{ error, fetching }, createPullRequest] = useMutation(
+    CreatePullRequestMutation
+  );
+  const [title, setTitle] = useState(branchInfo.currentBranch);
+  const [body, setBody] = useState('');
+
+  return (
+    <Dialog size="medium">
+      <form
+        style={{ display: 'contents' }}
+        onSubmit={async event => {
+          if (event.target !== event.currentTarget) return;
+          event.preventDefault();
+          const result = await createPullRequest({
+            input: {
+              repositoryId,
+              baseRefName: branchInfo.defaultBranch,
+              headRefName: branchInfo.currentBranch,
+              title,
+              body,
+            },
+          });
+          const pullRequest = result.data?.createPullRequest?.pullRequest;
+          if (pullRequest) {
+            props.onCreate(pullRequest.number);
+          }
+        }}
+      >
+        <Heading>Create pull request</Heading>
+        <Content>
+          <VStack gap="xlarge">
+            <Text>
+              Propose merging <strong>{branchInfo.currentBranch}</strong> into{' '}
+              <strong>{branchInfo.defaultBranch}</strong>.
+            </Text>
+            <TextField
+              label="Title"
+              value={title}
+              onChange={setTitle}
+              isRequired
+              autoFocus
+            />
+            <TextArea label="Description" value={body} onChange={setBody} />
+            {error && <Notice tone="critical">{error.message}</Notice>}
+          </VStack>
+        </Content>
+        <ButtonGroup>
+          {fetching && (
+            <ProgressCircle
+              aria-label="Creating pull request"
+              isIndeterminate
+              size="small"
+            />
+          )}
+          <Button onPress={props.onDismiss} isDisabled={fetching}>
+            Cancel
+          </Button>
+          <Button
+            isDisabled={fetching || !title.trim()}
+            prominence="high"
+            type="submit"
+          >
+            Create
+          </Button>
+        </ButtonGroup>
+      </form>
+    </Dialog>
+  );
+}
+
+const mergeMethods = [
+  {
+    key: 'MERGE',
+    label: 'Create a merge commit',
+    description:
+      'All commits from this branch will be added to the base branch.',
+  },
+  {
+    key: 'SQUASH',
+    label: 'Squash and merge',
+    description: 'The commits from this branch will be combined into one.',
+  },
+  {
+    key: 'REBASE',
+    label: 'Rebase and merge',
+    description: 'The commits from this branch will be rebased and added.',
+  },
+] as const;
+
+type MergeMethod = (typeof mergeMethods)[number]['key'];
+
+function MergePullRequestDialog(props: {
+  pullRequest: PullRequest;
+  onDismiss: () => void;
+}) {
+  const branchInfo = useBranchInfo();
+  const [{ error, fetching }, mergePullRequest] = useMutation(
+    MergePullRequestMutation
+  );
+  const [mergeMethod, setMergeMethod] = useState<MergeMethod>('MERGE');
+
+  return (
+    <Dialog size="small">
+      <Heading>Merge pull request</Heading>
+      <Content>
+        <VStack gap="xlarge">
+          <Text>
+            Merge <strong>{branchInfo.currentBranch}</strong> into{' '}
+            <strong>{branchInfo.defaultBranch}</strong>.
+          </Text>
+          <RadioGroup
+            label="Merge method"
+            value={mergeMethod}
+            onChange={value => setMergeMethod(value as MergeMethod)}
+          >
+            {mergeMethods.map(method => (
+              <Radio key={method.key} value={method.key}>
+                <Text>{method.label}</Text>
+                <Text slot="description">{method.description}</Text>
+              </Radio>
+            ))}
+          </RadioGroup>
+          {error && <Notice tone="critical">{error.message}</Notice>}
+        </VStack>
+      </Content>
+      <ButtonGroup>
+        <Button onPress={props.onDismiss} isDisabled={fetching}>
+          Cancel
+        </Button>
+        <Button
+          isDisabled={fetching}
+          prominence="high"
+          onPress={async () => {
+            const result = await mergePullRequest({
+              input: {
+                pullRequestId: props.pullRequest.id,
+                mergeMethod,
+                expectedHeadOid: props.pullRequest.headRefOid,
+              },
+            });
+            if (result.data?.mergePullRequest?.pullRequest?.merged) {
+              toastQueue.positive(
+                `Pull request #${props.pullRequest.number} merged`,
+                { timeout: 5000 }
+              );
+              props.onDismiss();
+            }
+          }}
+        >
+          Merge
+        </Button>
+      </ButtonGroup>
+    </Dialog>
+  );
+}
+
+const checkStateIcons = {
+  success: { src: checkCircle2Icon, color: 'positive' },
+  failure: { src: xCircleIcon, color: 'critical' },
+  pending: { src: circleDotIcon, color: 'pending' },
+  neutral: { src: circleDotIcon, color: 'neutral' },
+} as const;
+
+const reviewDecisionBadges = {
+  APPROVED: { tone: 'positive', label: 'Approved' },
+  CHANGES_REQUESTED: { tone: 'critical', label: 'Changes requested' },
+  REVIEW_REQUIRED: { tone: 'pending', label: 'Review required' },
+} as const;
+
+const reviewStateLabels: Record<string, string> = {
+  APPROVED: 'approved',
+  CHANGES_REQUESTED: 'requested changes',
+  COMMENTED: 'commented',
+  DISMISSED: 'review dismissed',
+  PENDING: 'review pending',
+};
+
+/**
+ * Shows the status of the pull request for the current branch: its checks,
+ * the latest reviews and their comments and whether it can be merged.
+ */
+export function PullRequestStatus(props: { number: number }) {
+  const [{ data, error, fetching }] = usePullRequestStatus(props.number);
+  const pullRequest = data?.repository?.pullRequest;
+
+  if (error) {
+    return <Notice tone="critical">{error.message}</Notice>;
+  }
+  if (!pullRequest) {
+    return fetching ? (
+      <ProgressCircle
+        aria-label="Loading pull request"
+        isIndeterminate
+        size="small"
+      />
+    ) : null;
+  }
+
+  const checks = getChecks(pullRequest);
+  const mergeBlocker = getMergeBlocker(pullRequest, checks);
+  const reviews = (pullRequest.latestReviews?.nodes ?? []).flatMap(review =>
+    review ? [review] : []
+  );
+  const reviewDecision = pullRequest.reviewDecision
+    ? reviewDecisionBadges[pullRequest.reviewDecision]
+    : undefined;
+
+  return (
+    <VStack
+      gap="xlarge"
+      border="muted"
+      borderRadius="medium"
+      backgroundColor="canvas"
+      padding="large"
+    >
+      <Flex gap="regular" alignItems="center" wrap>
+        <Text size="medium" weight="semibold">
+          {pullRequest.title}{' '}
+          <Text color="neutralSecondary">#{pullRequest.number}</Text>
+        </Text>
+        {pullRequest.isDraft ? (
+          <Badge tone="neutral">Draft</Badge>
+        ) : pullRequest.merged ? (
+          <Badge tone="highlight">Merged</Badge>
+        ) : pullRequest.state === 'CLOSED' ? (
+          <Badge tone="critical">Closed</Badge>
+        ) : (
+          <Badge tone="positive">Open</Badge>
+        )}
+        {reviewDecision && (
+          <Badge tone={reviewDecision.tone}>{reviewDecision.label}</Badge>
+        )}
+      </Flex>
+
+      {checks.length > 0 && (
+        <VStack gap="regular" elementType="ul">
+          {checks.map(check => (
+            <HStack key={check.id} gap="regular" elementType="li">
+              <Icon
+                src={checkStateIcons[check.state].src}
+                color={checkStateIcons[check.state].color}
+              />
+              {check.url ? (
+                <TextLink href={check.url} target="_blank">
+                  {check.name}
+                </TextLink>
+              ) : (
+                <Text>{check.name}</Text>
+              )}
+            </HStack>
+          ))}
+        </VStack>
+      )}
+
+      {reviews.length > 0 && (
+        <VStack gap="large">
+          {reviews.map(review => (
+            <VStack key={review.id} gap="regular">
+              <HStack gap="regular" alignItems="center">
+                <Avatar
+                  src={review.author?.avatarUrl}
+                  name={review.author?.login ?? 'Unknown'}
+                  size="xsmall"
+                />
+                <Text weight="medium">{review.author?.login ?? 'Unknown'}</Text>
+                <TextLink href={review.url} target="_blank">
+                  {reviewStateLabels[review.state] ?? review.state}
+                </TextLink>
+              </HStack>
+              {review.body && <Text>{review.body}</Text>}
+              {review.comments.nodes?.map(
+                comment =>
+                  comment && (
+                    <VStack key={comment.id} gap="small" paddingStart="xlarge">
+                      <Text size="small" color="neutralSecondary">
+                        {comment.path}
+                      </Text>
+                      <Text>{comment.body}</Text>
+                    </VStack>
+                  )
+              )}
+            </VStack>
+          ))}
+        </VStack>
+      )}
+
+      {mergeBlocker && <Text color="neutralSecondary">{mergeBlocker}</Text>}
+
+      <Flex gap="regular" wrap>
+        <DialogTrigger>
+          <ActionButton isDisabled={!!mergeBlocker}>
+            <Icon src={gitMergeIcon} />
+            <Text>Merge</Text>
+          </ActionButton>
+          {close => (
+            <MergePullRequestDialog
+              pullRequest={pullRequest}
+              onDismiss={close}
+            />
+          )}
+        </DialogTrigger>
+        <ActionButton href={pullRequest.url} target="_blank">
+          <Icon src={externalLinkIcon} />
+          <Text>View on GitHub</Text>
+        </ActionButton>
+      </Flex>
+    </VStack>
+  );
+}
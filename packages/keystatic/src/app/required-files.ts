@@ -1,4 +1,4 @@
-import { load } from 'js-yaml';
+import { dump, load } from 'js-yaml';
 import { AssetFormField, ContentFormField, JsonYamlValue } from '../form/api';
 import { ReadonlyPropPath } from '../form/fields/document/DocumentEditor/component-blocks/utils';
 import { FormatInfo } from './path-utils';
@@ -51,3 +51,53 @@ export function loadDataFile(
     },
   };
 }
+
+export function getContentFieldFile(
+  data: Uint8Array,
+  formatInfo: FormatInfo
+): { path: string; contents: Uint8Array } | undefined {
+  if (!formatInfo.contentField) return undefined;
+  const res = splitFrontmatter(data);
+  return {
+    path: `${formatInfo.contentField.key}${formatInfo.contentField.config.contentExtension}`,
+    contents: res === null ? data : res.content,
+  };
+}
+
+const frontmatterSplit = textEncoder.encode('---\n');
+
+function combineFrontmatterAndContents(
+  frontmatter: Uint8Array,
+  contents: Uint8Array
+) {
+  const array = new Uint8Array(
+    frontmatter.byteLength +
+      contents.byteLength +
+      frontmatterSplit.byteLength * 2
+  );
+  array.set(frontmatterSplit);
+  array.set(frontmatter, frontmatterSplit.byteLength);
+  array.set(
+    frontmatterSplit,
+    frontmatterSplit.byteLength + frontmatter.byteLength
+  );
+  array.set(contents, frontmatterSplit.byteLength * 2 + frontmatter.byteLength);
+  return array;
+}
+
+export function dumpDataFile(
+  data: unknown,
+  formatInfo: FormatInfo,
+  contentFieldContents: Uint8Array | undefined
+): Uint8Array {
+  const dataContent = textEncoder.encode(
+    formatInfo.data === 'json'
+      ? JSON.stringify(data, null, 2) + '\n'
+      : dump(data)
+  );
+  if (!formatInfo.contentField) return dataContent;
+  if (contentFieldContents === undefined) {
+    throw new Error('Expected content field to be present');
+  }
+  return combineFrontmatterAndContents(dataContent, contentFieldContents);
+}
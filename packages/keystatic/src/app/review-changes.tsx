@@ -0,0 +1,98 @@
+import { useMemo } from 'react';
+
+import { Button, ButtonGroup } from '@keystar/ui/button';
+import { Dialog, useDialogContainer } from '@keystar/ui/dialog';
+import { VStack } from '@keystar/ui/layout';
+import { Content } from '@keystar/ui/slots';
+import { Heading, Text } from '@keystar/ui/typography';
+
+import { Config } from '../config';
+import { EntryChanges, EntryFileChanges } from './entry-changes';
+import { diffEntries, diffEntryFiles } from './entry-diff';
+import { getCollectionFormat, getCollectionItemPath } from './path-utils';
+import { serializeEntryToFiles } from './updating';
+import { getSlugFromState } from './utils';
+
+/**
+ * Shows the unsaved changes to a collection entry field by field along with
+ * the files that saving the entry will write.
+ */
+export function ReviewChangesDialog(props: {
+  collection: string;
+  config: Config;
+  itemSlug: string;
+  initialFiles: string[];
+  initialState: Record<string, unknown>;
+  state: Record<string, unknown>;
+  onSave: () => void;
+}) {
+  const { collection, config, initialFiles, initialState, itemSlug, state } =
+    props;
+  const { dismiss } = useDialogContainer();
+  const collectionConfig = config.collections![collection]!;
+
+  const changes = useMemo(
+    () =>
+      diffEntries(
+        collectionConfig.schema,
+        initialState,
+        state,
+        collectionConfig.slugField
+      ),
+    [collectionConfig, initialState, state]
+  );
+  const fileChanges = useMemo(() => {
+    const format = getCollectionFormat(config, collection);
+    const slug = getSlugFromState(collectionConfig, state);
+    const serialize = (state: Record<string, unknown>, slug: string) =>
+      serializeEntryToFiles({
+        basePath: getCollectionItemPath(config, collection, slug),
+        config,
+        format,
+        schema: collectionConfig.schema,
+        slug: { field: collectionConfig.slugField, value: slug },
+        state,
+      });
+    return diffEntryFiles(
+      initialFiles,
+      serialize(initialState, itemSlug),
+      serialize(state, slug)
+    );
+  }, [
+    collection,
+    collectionConfig,
+    config,
+    initialFiles,
+    initialState,
+    itemSlug,
+    state,
+  ]);
+
+  return (
+    <Dialog size="large">
+      <Heading>Review changes</Heading>
+      <Content>
+        <VStack gap="xxlarge">
+          <EntryChanges changes={changes} />
+          <VStack gap="large">
+            <Text weight="semibold">Files</Text>
+            <EntryFileChanges changes={fileChanges} />
+          </VStack>
+        </VStack>
+      </Content>
+      <ButtonGroup>
+        <Button onPress={dismiss}>Close</Button>
+        <Button
+          prominence="high"
+          isDisabled={!changes.length && !fileChanges.length}
+          onPress={() => {
+            dismiss();
+            props.onSave();
+          }}
+        >
+          Save
+        </Button>
+      </ButtonGroup>
+    </Dialog>
+  );
+}
@@ -13,6 +13,8 @@ export type Router = {
   replace: (path: string) => void;
   href: string;
   params: string[];
+  /** The search params of the current URL, e.g. the collection page filters */
+  searchParams: URLSearchParams;
 };
 
 const RouterContext = createContext<Router | null>(null);
@@ -48,6 +50,7 @@ export function RouterProvider(props: { children: ReactNode }) {
         navigate(path, false);
       },
       params,
+      searchParams: parsedUrl.searchParams,
     };
   }, [url]);
   useEffect(() => {
@@ -0,0 +1,339 @@
+import { assertNever } from 'emery';
+
+import { Config } from '../config';
+import { ComponentSchema, fields } from '../form/api';
+import { parseProps } from '../form/parse-props';
+import { migrateEntryData } from './migrations';
+import {
+  FormatInfo,
+  getCollectionFormat,
+  getCollectionItemPath,
+  getEntryDataFilepath,
+  getSingletonFormat,
+  getSingletonPath,
+} from './path-utils';
+import { loadDataFile } from './required-files';
+import { TreeEntry, TreeNode, getTreeNodeAtPath } from './trees';
+import { getEntriesInCollectionWithTreeKey } from './utils';
+
+export type SearchEntry =
+  | { kind: 'collection'; collection: string; slug: string }
+  | { kind: 'singleton'; singleton: string };
+
+export type SearchField = {
+  /** The labels of the field and the fields it's nested in */
+  labels: string[];
+  text: string;
+};
+
+export type SearchDocument = {
+  entry: SearchEntry;
+  /** The name of the entry, e.g. the value of the slug field */
+  title: string;
+  fields: SearchField[];
+};
+
+export type SearchResult = {
+  document: SearchDocument;
+  field: SearchField;
+  /** The text around the match with the match at `match.start` */
+  snippet: string;
+  match: { start: number; end: number };
+};
+
+type EntryToIndex = {
+  /** Changes when any of the files of the entry change */
+  key: string;
+  entry: SearchEntry;
+  title: string;
+  dirpath: string;
+  format: FormatInfo;
+  schema: Record<string, ComponentSchema>;
+  slug: { slug: string; field: string } | undefined;
+  /** The data file and the files of content fields */
+  files: TreeEntry[];
+};
+
+function collectContentExtensions(
+  schema: ComponentSchema,
+  extensions: Set<string>,
+  seenSchemas: Set<ComponentSchema>
+): void {
+  if (seenSchemas.has(schema)) return;
+  seenSchemas.add(schema);
+  if (schema.kind === 'array') {
+    return collectContentExtensions(schema.element, extensions, seenSchemas);
+  }
+  if (schema.kind === 'child') return;
+  if (schema.kind === 'form') {
+    if (schema.formKind === 'content') {
+      extensions.add(schema.contentExtension);
+    }
+    return;
+  }
+  if (schema.kind === 'object') {
+    for (const field of Object.values(schema.fields)) {
+      collectContentExtensions(field, extensions, seenSchemas);
+    }
+    return;
+  }
+  if (schema.kind === 'conditional') {
+    for (const innerSchema of Object.values(schema.values)) {
+      collectContentExtensions(innerSchema, extensions, seenSchemas);
+    }
+    return;
+  }
+  assertNever(schema);
+}
+
+function getFilesToIndex(
+  tree: Map<string, TreeNode>,
+  schema: Record<string, ComponentSchema>,
+  dirpath: string,
+  format: FormatInfo
+): TreeEntry[] | undefined {
+  const dataFile = getTreeNodeAtPath(
+    tree,
+    getEntryDataFilepath(dirpath, format)
+  );
+  if (!dataFile) return undefined;
+  const extensions = new Set<string>();
+  collectContentExtensions(fields.object(schema), extensions, new Set());
+  const files = [dataFile.entry];
+  const visit = (node: TreeNode | undefined) => {
+    for (const child of node?.children?.values() ?? []) {
+      if (child.children) {
+        visit(child);
+      } else if (
+        child.entry !== dataFile.entry &&
+        [...extensions].some(extension => child.entry.path.endsWith(extension))
+      ) {
+        files.push(child.entry);
+      }
+    }
+  };
+  visit(getTreeNodeAtPath(tree, dirpath));
+  return files;
+}
+
+/** Lists the entries of the config with the files to index them from */
+export function getEntriesToIndex(
+  config: Config,
+  tree: Map<string, TreeNode>
+): EntryToIndex[] {
+  const entries: EntryToIndex[] = [];
+  for (const [collection, collectionConfig] of Object.entries(
+    config.collections ?? {}
+  )) {
+    const format = getCollectionFormat(config, collection);
+    for (const { key, slug } of getEntriesInCollectionWithTreeKey(
+      config,
+      collection,
+      tree
+    )) {
+      const dirpath = getCollectionItemPath(config, collection, slug);
+      const files = getFilesToIndex(
+        tree,
+        collectionConfig.schema,
+        dirpath,
+        format
+      );
+      if (!files) continue;
+      entries.push({
+        key,
+        entry: { kind: 'collection', collection, slug },
+        title: slug,
+        dirpath,
+        format,
+        schema: collectionConfig.schema,
+        slug: { slug, field: collectionConfig.slugField },
+        files,
+      });
+    }
+  }
+  for (const [singleton, singletonConfig] of Object.entries(
+    config.singletons ?? {}
+  )) {
+    const dirpath = getSingletonPath(config, singleton);
+    const format = getSingletonFormat(config, singleton);
+    const files = getFilesToIndex(
+      tree,
+      singletonConfig.schema,
+      dirpath,
+      format
+    );
+    if (!files) continue;
+    entries.push({
+      key: files.map(file => file.sha).join(':'),
+      entry: { kind: 'singleton', singleton },
+      title: singletonConfig.label,
+      dirpath,
+      format,
+      schema: singletonConfig.schema,
+      slug: undefined,
+      files,
+    });
+  }
+  return entries;
+}
+
+const textDecoder = new TextDecoder();
+
+/**
+ * Removes the syntax of Markdoc, MDX and Markdown from content so the text
+ * reads like it does in the editor. This is only for searching, it doesn't
+ * need to handle every edge case.
+ */
+export function getPlainText(source: string) {
+  return source
+    .replace(/\{%.*?%\}/gs, ' ')
+    .replace(/<\/?[A-Za-z][^>]*>/g, ' ')
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/^\s{0,3}(?:#{1,6}|>|[-*+]|\d+\.)\s+/gm, '')
+    .replace(/(\*\*|__|\*|_|~~|`+)/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function getFieldLabel(schema: ComponentSchema, key: string | number) {
+  return 'label' in schema && typeof schema.label === 'string'
+    ? schema.label
+    : String(key);
+}
+
+/**
+ * Reads the text of the fields of an entry from its data file and the files
+ * of its content fields, e.g. the body of a `fields.markdoc` field.
+ */
+export function getSearchDocument(
+  entry: Omit<EntryToIndex, 'key' | 'files'>,
+  files: Map<string, Uint8Array>
+): SearchDocument {
+  const data = files.get(getEntryDataFilepath(entry.dirpath, entry.format));
+  if (!data) {
+    throw new Error(`Could not find data file for ${entry.dirpath}`);
+  }
+  const { loaded, extraFakeFile } = loadDataFile(data, entry.format);
+  const migrated = migrateEntryData(loaded, entry.format.migrations).data;
+  const allFiles = new Map(files);
+  if (extraFakeFile) {
+    allFiles.set(
+      `${entry.dirpath}/${extraFakeFile.path}`,
+      extraFakeFile.contents
+    );
+  }
+  const searchFields: SearchField[] = [];
+  const rootSchema = fields.object(entry.schema);
+  let title = entry.title;
+  const getLabels = (path: readonly (string | number)[]) => {
+    const labels: string[] = [];
+    let schema: ComponentSchema = rootSchema;
+    for (const key of path) {
+      if (schema.kind === 'object') {
+        schema = schema.fields[key];
+        labels.push(getFieldLabel(schema, key));
+      } else if (schema.kind === 'array') {
+        schema = schema.element;
+      } else if (schema.kind === 'conditional') {
+        // the path of a conditional is "discriminant" or "value"
+        break;
+      }
+    }
+    return labels;
+  };
+  parseProps(
+    rootSchema,
+    migrated,
+    [],
+    [],
+    (schema, value, path, pathWithArrayFieldSlugs) => {
+      if (path.length === 1 && path[0] === entry.slug?.field) {
+        if (schema.formKind !== 'slug') {
+          throw new Error(`slugField is not a slug field`);
+        }
+        const parsed = schema.parse(value, { slug: entry.slug.slug });
+        title = parsed.name || title;
+        searchFields.push({ labels: getLabels(path), text: parsed.name });
+        return parsed;
+      }
+      if (schema.formKind === 'asset') {
+        return null;
+      }
+      if (schema.formKind === 'content') {
+        const contents = allFiles.get(
+          `${entry.dirpath}/${pathWithArrayFieldSlugs.join('/')}${
+            schema.contentExtension
+          }`
+        );
+        if (contents) {
+          searchFields.push({
+            labels: getLabels(path),
+            text: getPlainText(textDecoder.decode(contents)),
+          });
+        }
+        return null;
+      }
+      const parsed = schema.parse(value, undefined);
+      const text =
+        typeof value === 'string'
+          ? value
+          : Array.isArray(value) &&
+            value.every((x): x is string => typeof x === 'string')
+          ? value.join(', ')
+          : undefined;
+      if (text) {
+        searchFields.push({ labels: getLabels(path), text });
+      }
+      return parsed;
+    },
+    false
+  );
+  return {
+    entry: entry.entry,
+    title,
+    fields: searchFields.filter(field => field.text.trim() !== ''),
+  };
+}
+
+const SNIPPET_CONTEXT = 40;
+
+/**
+ * Finds the documents with fields that contain the search term, case
+ * insensitively. Matches in the title of an entry are listed first.
+ */
+export function searchDocuments(
+  documents: SearchDocument[],
+  searchTerm: string,
+  limit = 50
+): SearchResult[] {
+  const term = searchTerm.trim().toLowerCase();
+  if (!term) return [];
+  const titleMatches: SearchResult[] = [];
+  const otherMatches: SearchResult[] = [];
+  for (const document of documents) {
+    const matches = document.fields.flatMap(field => {
+      const index = field.text.toLowerCase().indexOf(term);
+      return index === -1 ? [] : [{ field, index }];
+    });
+    if (!matches.length) continue;
+    // one result for each entry is enough to find it, preferring the title
+    const isTitle = (field: SearchField) => field.text === document.title;
+    const { field, index } = matches.find(x => isTitle(x.field)) ?? matches[0];
+    const start = Math.max(0, index - SNIPPET_CONTEXT);
+    const end = Math.min(
+      field.text.length,
+      index + term.length + SNIPPET_CONTEXT
+    );
+    const prefix = start > 0 ? '…' : '';
+    const matchStart = prefix.length + index - start;
+    (isTitle(field) ? titleMatches : otherMatches).push({
+      document,
+      field,
+      snippet: `${prefix}${field.text.slice(start, end)}${
+        end < field.text.length ? '…' : ''
+      }`,
+      match: { start: matchStart, end: matchStart + term.length },
+    });
+  }
+  return [...titleMatches, ...otherMatches].slice(0, limit);
+}
@@ -18,6 +18,7 @@ import { WebsocketProvider } from './websocket-provider';
 import { getAuth } from '../auth';
 import { useRouter } from '../router';
 import { useBranchInfo, useCloudInfo } from './data';
+import { useViewer } from './viewer-data';
 import { Config } from '../..';
 import ReconnectingWebSocket from 'partysocket/ws';
 import * as decoding from 'lib0/decoding';
@@ -138,12 +139,15 @@ export function CollabProvider(props: { children: ReactNode; config: Config }) {
   const branchInfo = useBranchInfo();
   const router = useRouter();
   const cloudInfo = useCloudInfo();
+  const viewer = useViewer();
   const project = props.config.cloud?.project;
+  const collaborationUrl = props.config.collaboration?.url;
   const key = `ks-multiplayer-${project}`;
   const isMultiplayerEnabled =
-    cloudInfo === null
+    collaborationUrl !== undefined ||
+    (cloudInfo === null
       ? localStorage.getItem(key) === 'true'
-      : cloudInfo.team.multiplayer;
+      : cloudInfo.team.multiplayer);
   const yJsInfo = useMemo(() => {
     // we'll optimistically connect to the websocket if multiplayer was enabled last time
 
@@ -154,10 +158,16 @@ export function CollabProvider(props: { children: ReactNode; config: Config }) {
     const doc = new Y.Doc();
     const data = doc.getMap<Y.Doc>('data');
     const awareness = new Awareness(doc);
-    const idb = createIndexedDBProvider(doc, `keystatic-2-${project}`);
+    const idb = createIndexedDBProvider(
+      doc,
+      `keystatic-2-${collaborationUrl ?? project}`
+    );
     const provider = new WebsocketProvider({
       doc,
-      url: `wss://live.keystatic.cloud/${project}?v=${PKG_VERSION}`,
+      url:
+        collaborationUrl ??
+        `wss://live.keystatic.cloud/${project}?v=${PKG_VERSION}`,
+      subDocSyncReplies: collaborationUrl !== undefined,
       WebSocketPolyfill: class extends ReconnectingWebSocket {
         constructor(url: string) {
           super(url);
@@ -196,17 +206,36 @@ export function CollabProvider(props: { children: ReactNode; config: Config }) {
         getAuth(props.config).then(auth => auth?.accessToken ?? ''),
     });
     return { doc, awareness, provider, data, idb };
-  }, [isMultiplayerEnabled, project, props.config]);
+  }, [isMultiplayerEnabled, project, collaborationUrl, props.config]);
 
+  const isLocal = props.config.storage.kind === 'local';
   useEffect(() => {
     yJsInfo?.awareness.setLocalStateField('branch', branchInfo.currentBranch);
     yJsInfo?.awareness.setLocalStateField(
       'location',
-      router.params.slice(2).join('/')
+      router.params.slice(isLocal ? 0 : 2).join('/')
     );
-  }, [branchInfo.currentBranch, router.params, yJsInfo?.awareness]);
+  }, [branchInfo.currentBranch, isLocal, router.params, yJsInfo?.awareness]);
+
+  // there is no viewer in local mode so users are shown with the same name
+  // as comments by local users
+  const userName =
+    cloudInfo?.user.name ??
+    viewer?.name ??
+    viewer?.login ??
+    (isLocal ? 'Local user' : undefined);
+  const userAvatarUrl = cloudInfo?.user.avatarUrl ?? viewer?.avatarUrl;
+  useEffect(() => {
+    if (userName !== undefined) {
+      yJsInfo?.awareness.setLocalStateField('user', {
+        name: userName,
+        avatarUrl: userAvatarUrl,
+      });
+    }
+  }, [userName, userAvatarUrl, yJsInfo?.awareness]);
 
-  const hasRepo = branchInfo.currentBranch;
+  // local mode doesn't have branches
+  const hasRepo = isLocal || branchInfo.currentBranch;
   useEffect(() => {
     if (hasRepo && yJsInfo) {
       yJsInfo.idb.connect();
@@ -112,7 +112,13 @@ export function LocalAppShellProvider(props: {
     <SetTreeShaContext.Provider value={setCurrentTreeSha}>
       <ChangedContext.Provider value={changedData}>
         <TreeContext.Provider value={allTreeData}>
-          {props.children}
+          {props.config.collaboration ? (
+            <CollabProvider config={props.config}>
+              {props.children}
+            </CollabProvider>
+          ) : (
+            props.children
+          )}
         </TreeContext.Provider>
       </ChangedContext.Provider>
     </SetTreeShaContext.Provider>
@@ -435,7 +441,8 @@ export function GitHubAppShellProvider(props: {
           <BaseInfoContext.Provider value={baseInfo}>
             <ChangedContext.Provider value={changedData}>
               <TreeContext.Provider value={allTreeData}>
-                {props.config.storage.kind === 'cloud' ? (
+                {props.config.storage.kind === 'cloud' ||
+                props.config.collaboration ? (
                   <CollabProvider config={props.config}>
                     {props.children}
                   </CollabProvider>
@@ -38,6 +38,8 @@ import { useBrand } from '../common';
 import { SIDE_PANEL_ID } from '../constants';
 import { GitMenu, ThemeMenu, UserActions } from './components';
 import { BranchPicker } from '../../branch-selection';
+import { GlobalSearch } from '../../global-search';
+import { useHasMediaLibrary } from '../../media-picker';
 import { useAppState, useConfig } from '../context';
 
 const SidebarContext = createContext<OverlayTriggerState | null>(null);
@@ -80,6 +82,7 @@ export function SidebarPanel() {
     <VStack backgroundColor="surface" height="100%">
       <SidebarHeader />
       <SidebarGitActions />
+      <SidebarSearch />
       <SidebarNav />
       <SidebarFooter />
     </VStack>
@@ -157,6 +160,14 @@ function SidebarGitActions() {
   );
 }
 
+function SidebarSearch() {
+  return (
+    <HStack paddingX="medium" paddingTop="regular">
+      <GlobalSearch />
+    </HStack>
+  );
+}
+
 export function SidebarDialog() {
   const state = useSidebar();
   const router = useRouter();
@@ -238,6 +249,7 @@ export function SidebarNav() {
   const stringFormatter = useLocalizedStringFormatter(l10nMessages);
   const navItems = useNavItems();
   const isCurrent = useIsCurrent();
+  const hasMediaLibrary = useHasMediaLibrary();
 
   return (
     <ScrollView flex paddingY="large" paddingEnd="medium">
@@ -248,6 +260,14 @@ export function SidebarNav() {
         >
           {stringFormatter.format('dashboard')}
         </NavItem>
+        {hasMediaLibrary && (
+          <NavItem
+            href={`${basePath}/media`}
+            aria-current={isCurrent(`${basePath}/media`)}
+          >
+            Media
+          </NavItem>
+        )}
 
         {navItems.map(item => renderItemOrGroup(item, isCurrent))}
       </NavList>
@@ -73,18 +73,32 @@ messageHandlers[messageSubDocSync] = (
   emitSynced
 ) => {
   const subDocID = decoding.readVarString(decoder);
-  encoding.writeVarUint(encoder, messageSync);
   const subDoc = provider.getSubDoc(subDocID);
-  if (subDoc) {
-    const syncMessageType = syncProtocol.readSyncMessage(
-      decoder,
-      encoder,
-      subDoc,
-      provider
-    );
-    if (emitSynced && syncMessageType === syncProtocol.messageYjsSyncStep2) {
-      subDoc.emit('sync', [true]);
-    }
+  if (!subDoc) return;
+  // the self-hosted server needs replies to sync step 1 to be sent for the
+  // subdoc rather than the main doc
+  const replyEncoder = provider.subDocSyncReplies
+    ? encoding.createEncoder()
+    : encoder;
+  if (!provider.subDocSyncReplies) {
+    encoding.writeVarUint(encoder, messageSync);
+  }
+  const syncMessageType = syncProtocol.readSyncMessage(
+    decoder,
+    replyEncoder,
+    subDoc,
+    provider
+  );
+  if (
+    provider.subDocSyncReplies &&
+    syncMessageType === syncProtocol.messageYjsSyncStep1
+  ) {
+    encoding.writeVarUint(encoder, messageSubDocSync);
+    encoding.writeVarString(encoder, subDocID);
+    encoding.writeUint8Array(encoder, encoding.toUint8Array(replyEncoder));
+  }
+  if (emitSynced && syncMessageType === syncProtocol.messageYjsSyncStep2) {
+    subDoc.emit('sync', [true]);
   }
 };
 
@@ -149,6 +163,10 @@ const setupWS = (provider: WebsocketProvider, WS: typeof WebSocket) => {
             }
             return;
           }
+          if (authMessageType === authProtocol.messagePermissionDenied) {
+            permissionDeniedHandler(provider, decoding.readVarString(decoder));
+            return;
+          }
         }
         authState.queue.push(bytes);
       } else {
@@ -237,11 +255,18 @@ export class WebsocketProvider {
   }) => void;
   authToken: () => Promise<string>;
   onSynced: (synced: boolean) => void;
+  subDocSyncReplies: boolean;
   constructor(opts: {
     url: string;
     doc: Y.Doc;
     awareness: awarenessProtocol.Awareness;
     resyncInterval?: number;
+    /**
+     * Whether replies to sync step 1 of a subdoc are sent as subdoc sync
+     * messages, which the self-hosted collaboration server expects. Keystatic
+     * Cloud is sent them as sync messages like it always has been.
+     */
+    subDocSyncReplies?: boolean;
     WebSocketPolyfill?: typeof WebSocket;
     authToken: () => Promise<string>;
     onStatus?(status: {
@@ -261,6 +286,7 @@ export class WebsocketProvider {
     this.mux = mutex.createMutex();
     this.#synced = false;
     this.authToken = opts.authToken;
+    this.subDocSyncReplies = opts.subDocSyncReplies ?? false;
     this.ws = null;
     this.wsLastMessageReceived = 0;
 
@@ -273,7 +299,7 @@ export class WebsocketProvider {
     this.#resyncInterval = null;
     if (opts.resyncInterval !== undefined && opts.resyncInterval > 0) {
       this.#resyncInterval = setInterval(() => {
-        if (this.ws) {
+        if (this.ws && this.wsconnected) {
           // resend sync step 1
           const encoder = encoding.createEncoder();
           encoding.writeVarUint(encoder, messageSync);
@@ -378,7 +404,9 @@ export class WebsocketProvider {
 
   waitForConnection = (callback: (ws: WebSocket) => void, interval: number) => {
     const ws = this.ws;
-    if (ws?.readyState === 1) {
+    // the server closes the connection when anything is sent before it has
+    // authenticated the connection
+    if (ws?.readyState === 1 && this.wsconnected) {
       callback(ws);
     } else {
       setTimeout(() => {
@@ -18,6 +18,7 @@ import { CollectionPage } from './CollectionPage';
 import { CreateItem } from './create-item';
 import { DashboardPage } from './dashboard';
 import { ItemPage } from './ItemPage';
+import { MediaLibraryPage } from './MediaLibraryPage';
 import Provider from './provider';
 import { AppShell } from './shell';
 import { PageBody, PageRoot } from './shell/page';
@@ -43,6 +44,7 @@ import { KeystaticCloudAuthCallback } from './cloud-auth-callback';
 import { getAuth } from './auth';
 import { assertValidRepoConfig } from './repo-config';
 import { NotFoundBoundary, notFound } from './not-found';
+import { PermissionsProvider } from './permissions-ui';
 
 function parseParamsWithoutBranch(params: string[]) {
   if (params.length === 0) {
@@ -51,6 +53,9 @@ function parseParamsWithoutBranch(params: string[]) {
   if (params.length === 2 && params[0] === 'singleton') {
     return { singleton: params[1] };
   }
+  if (params.length === 1 && params[0] === 'media') {
+    return { media: true };
+  }
   if (params.length < 2 || params[0] !== 'collection') return null;
   const collection = params[1];
   if (params.length === 2) {
@@ -119,7 +124,9 @@ function PageInner({ config }: { config: Config }) {
     wrapper = element => (
       <AuthWrapper config={config}>
         <GitHubAppShellDataProvider config={config}>
-          {origWrapper(element)}
+          <PermissionsProvider config={config}>
+            {origWrapper(element)}
+          </PermissionsProvider>
         </GitHubAppShellDataProvider>
       </AuthWrapper>
     );
@@ -186,6 +193,11 @@ function PageInner({ config }: { config: Config }) {
               config={config as unknown as Config}
             />
           )
+        ) : parsedParams.media ? (
+          <MediaLibraryPage
+            config={config as unknown as Config}
+            basePath={basePath}
+          />
         ) : parsedParams.singleton ? (
           <SingletonPage
             key={parsedParams.singleton}
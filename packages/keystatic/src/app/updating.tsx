@@ -1,9 +1,7 @@
 import { gql } from '@ts-gql/tag/no-transform';
-import { assert } from 'emery';
-import { useContext, useState } from 'react';
+import { useCallback, useContext, useState } from 'react';
 
 import { ComponentSchema, fields } from '../form/api';
-import { dump } from 'js-yaml';
 import { useMutation } from 'urql';
 import { fromUint8Array } from 'js-base64';
 import {
@@ -29,29 +27,11 @@ import { AppSlugContext } from './onboarding/install-app';
 import { createUrqlClient } from './provider';
 import { serializeProps } from '../form/serialize-props';
 import { scopeEntriesWithPathPrefix } from './shell/path-prefix';
-
-const textEncoder = new TextEncoder();
-
-const frontmatterSplit = textEncoder.encode('---\n');
-
-function combineFrontmatterAndContents(
-  frontmatter: Uint8Array,
-  contents: Uint8Array
-) {
-  const array = new Uint8Array(
-    frontmatter.byteLength +
-      contents.byteLength +
-      frontmatterSplit.byteLength * 2
-  );
-  array.set(frontmatterSplit);
-  array.set(frontmatter, frontmatterSplit.byteLength);
-  array.set(
-    frontmatterSplit,
-    frontmatterSplit.byteLength + frontmatter.byteLength
-  );
-  array.set(contents, frontmatterSplit.byteLength * 2 + frontmatter.byteLength);
-  return array;
-}
+import { addEntryVersion } from './migrations';
+import { dumpDataFile } from './required-files';
+import { useConfig } from './shell/context';
+import { applyComputedFields } from './computed-fields';
+import { getCommentsFilepath } from './comments';
 
 export function serializeEntryToFiles(args: {
   basePath: string;
@@ -68,24 +48,29 @@ export function serializeEntryToFiles(args: {
     args.slug?.value,
     true
   );
-  const dataFormat = args.format.data;
-  let dataContent = textEncoder.encode(
-    dataFormat === 'json'
-      ? JSON.stringify(stateWithExtraFilesRemoved, null, 2) + '\n'
-      : dump(stateWithExtraFilesRemoved)
-  );
-
+  let contentFieldContents: undefined | Uint8Array;
   if (args.format.contentField) {
     const filename = `${args.format.contentField.key}${args.format.contentField.config.contentExtension}`;
-    let contents: undefined | Uint8Array;
     extraFiles = extraFiles.filter(x => {
       if (x.path !== filename) return true;
-      contents = x.contents;
+      contentFieldContents = x.contents;
       return false;
     });
-    assert(contents !== undefined, 'Expected content field to be present');
-    dataContent = combineFrontmatterAndContents(dataContent, contents);
   }
+  const computed = applyComputedFields(
+    args.schema,
+    stateWithExtraFilesRemoved as Record<string, unknown>,
+    args.format.contentField && {
+      key: args.format.contentField.key,
+      contents: contentFieldContents,
+    },
+    false
+  );
+  const dataContent = dumpDataFile(
+    addEntryVersion(computed, args.format.migrations),
+    args.format,
+    contentFieldContents
+  );
 
   return [
     {
@@ -114,6 +99,8 @@ export function useUpsertItem(args: {
   currentLocalTreeKey: string | undefined;
   basePath: string;
   slug: { value: string; field: string } | undefined;
+  /** The comments on the entry, which are moved when the slug changes */
+  commentsFile?: { path: string; contents: Uint8Array };
 }) {
   const [state, setState] = useState<
     | { kind: 'idle' }
@@ -128,7 +115,7 @@ export function useUpsertItem(args: {
   const baseCommit = useBaseCommit();
   const branchInfo = useContext(BranchInfoContext);
   const setTreeSha = useSetTreeSha();
-  const [, mutate] = useMutation(createCommitMutation);
+  const mutate = useCreateCommitMutation();
   const repoWithWriteAccess = useContext(RepoWithWriteAccessContext);
   const appSlug = useContext(AppSlugContext);
   const unscopedTreeData = useCurrentUnscopedTree();
@@ -164,6 +151,17 @@ export function useUpsertItem(args: {
           ...addition,
           path: pathPrefix + addition.path,
         }));
+        const movedCommentsFile =
+          args.commentsFile &&
+          args.commentsFile.path !== getCommentsFilepath(args.basePath)
+            ? args.commentsFile
+            : undefined;
+        if (movedCommentsFile) {
+          additions.push({
+            path: pathPrefix + getCommentsFilepath(args.basePath),
+            contents: movedCommentsFile.contents,
+          });
+        }
 
         const additionPathToSha = new Map(
           await Promise.all(
@@ -180,6 +178,9 @@ export function useUpsertItem(args: {
         const filesToDelete = new Set(
           args.initialFiles?.map(x => pathPrefix + x)
         );
+        if (movedCommentsFile) {
+          filesToDelete.add(pathPrefix + movedCommentsFile.path);
+        }
         for (const file of additions) {
           filesToDelete.delete(file.path);
         }
@@ -343,6 +344,49 @@ const createCommitMutation = gql`
   }
 ` as import('../../__generated__/ts-gql/CreateCommit').type;
 
+let apiRouteHasHooks: Promise<boolean> | undefined;
+
+/**
+ * Whether the API route has lifecycle hooks or webhooks, this is only checked
+ * once since it can't change without reloading.
+ */
+function getApiRouteHasHooks() {
+  if (!apiRouteHasHooks) {
+    apiRouteHasHooks = fetch('/api/keystatic/github/commit', {
+      headers: { 'no-cors': '1' },
+    }).then(
+      res => res.ok,
+      err => {
+        apiRouteHasHooks = undefined;
+        throw err;
+      }
+    );
+  }
+  return apiRouteHasHooks;
+}
+
+/**
+ * In GitHub mode, commits are made through the API route when the changes
+ * need to be validated against the permissions or lifecycle hooks need to be
+ * run, otherwise they're made directly with the GitHub API
+ */
+function useCreateCommitMutation() {
+  const config = useConfig();
+  const [, mutate] = useMutation(createCommitMutation);
+  return useCallback(
+    async (variables: Parameters<typeof mutate>[0]) => {
+      const useApiRoute =
+        config.storage.kind === 'github' &&
+        (!!config.permissions || (await getApiRouteHasHooks()));
+      return mutate(
+        variables,
+        useApiRoute ? { url: '/api/keystatic/github/commit' } : undefined
+      );
+    },
+    [config, mutate]
+  );
+}
+
 export function useDeleteItem(args: {
   basePath: string;
   initialFiles: string[];
@@ -360,7 +404,7 @@ export function useDeleteItem(args: {
   const baseCommit = useBaseCommit();
   const branchInfo = useContext(BranchInfoContext);
 
-  const [, mutate] = useMutation(createCommitMutation);
+  const mutate = useCreateCommitMutation();
   const setTreeSha = useSetTreeSha();
   const repoWithWriteAccess = useContext(RepoWithWriteAccessContext);
   const appSlug = useContext(AppSlugContext);
@@ -444,6 +488,141 @@ export function useDeleteItem(args: {
   ] as const;
 }
 
+export type EntryChanges = {
+  message: string;
+  additions: { path: string; contents: Uint8Array }[];
+  deletions: string[];
+  /** The branch to commit to, defaults to the current branch */
+  branch?: string;
+};
+
+/**
+ * Commits changes to any number of files as a single commit, like the bulk
+ * actions in the collection list. Paths are relative to the path prefix.
+ */
+export function useCommitChanges(storage: Config['storage']) {
+  const [state, setState] = useState<
+    | { kind: 'idle' }
+    | { kind: 'updated' }
+    | { kind: 'loading' }
+    | { kind: 'needs-fork' }
+    | { kind: 'error'; error: Error }
+  >({
+    kind: 'idle',
+  });
+  const baseCommit = useBaseCommit();
+  const branchInfo = useContext(BranchInfoContext);
+
+  const mutate = useCreateCommitMutation();
+  const setTreeSha = useSetTreeSha();
+  const repoWithWriteAccess = useContext(RepoWithWriteAccessContext);
+  const appSlug = useContext(AppSlugContext);
+  const unscopedTreeData = useCurrentUnscopedTree();
+
+  return [
+    state,
+    async (changes: EntryChanges): Promise<boolean> => {
+      try {
+        const unscopedTree =
+          unscopedTreeData.kind === 'loaded'
+            ? unscopedTreeData.data.tree
+            : undefined;
+        if (!unscopedTree) return false;
+        if (
+          repoWithWriteAccess === null &&
+          storage.kind === 'github' &&
+          appSlug?.value
+        ) {
+          setState({ kind: 'needs-fork' });
+          return false;
+        }
+        setState({ kind: 'loading' });
+        const pathPrefix = getPathPrefix(storage) ?? '';
+        const additions = changes.additions.map(addition => ({
+          path: pathPrefix + addition.path,
+          contents: addition.contents,
+        }));
+        const deletions = changes.deletions.map(path => pathPrefix + path);
+        const isCurrentBranch =
+          changes.branch === undefined ||
+          changes.branch === branchInfo.currentBranch;
+        await Promise.all(
+          additions.map(addition => hydrateBlobCache(addition.contents))
+        );
+        if (isCurrentBranch) {
+          const updatedTree = await updateTreeWithChanges(unscopedTree, {
+            additions,
+            deletions,
+          });
+          await hydrateTreeCacheWithEntries(updatedTree.entries);
+        }
+        if (storage.kind === 'github' || storage.kind === 'cloud') {
+          const branchName = changes.branch ?? branchInfo.currentBranch;
+          const expectedHeadOid = isCurrentBranch
+            ? baseCommit
+            : branchInfo.branchNameToBaseCommit.get(branchName);
+          if (!expectedHeadOid) {
+            throw new Error(`Branch ${branchName} not found`);
+          }
+          const { error } = await mutate({
+            input: {
+              branch: {
+                repositoryNameWithOwner: `${repoWithWriteAccess!.owner}/${
+                  repoWithWriteAccess!.name
+                }`,
+                branchName,
+              },
+              message: { headline: changes.message },
+              expectedHeadOid,
+              fileChanges: {
+                additions: additions.map(addition => ({
+                  ...addition,
+                  contents: fromUint8Array(addition.contents),
+                })),
+                deletions: deletions.map(path => ({ path })),
+              },
+            },
+          });
+          if (error) {
+            throw error;
+          }
+          setState({ kind: 'updated' });
+          return true;
+        } else {
+          const res = await fetch('/api/keystatic/update', {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+              'no-cors': '1',
+            },
+            body: JSON.stringify({
+              additions: additions.map(addition => ({
+                ...addition,
+                contents: fromUint8Array(addition.contents),
+              })),
+              deletions: deletions.map(path => ({ path })),
+            }),
+          });
+          if (!res.ok) {
+            throw new Error(await res.text());
+          }
+          const newTree: TreeEntry[] = await res.json();
+          const { tree } = await hydrateTreeCacheWithEntries(newTree);
+          setTreeSha(await treeSha(tree));
+          setState({ kind: 'updated' });
+          return true;
+        }
+      } catch (err) {
+        setState({ kind: 'error', error: err as Error });
+        return false;
+      }
+    },
+    () => {
+      setState({ kind: 'idle' });
+    },
+  ] as const;
+}
+
 const FetchRef = gql`
   query FetchRef($owner: String!, $name: String!, $ref: String!) {
     repository(owner: $owner, name: $name) {
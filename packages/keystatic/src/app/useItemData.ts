@@ -1,10 +1,9 @@
 import { LRUCache } from 'lru-cache';
 import { useCallback, useMemo } from 'react';
 import { Config } from '../config';
-import { ComponentSchema, fields } from '..';
-import { parseProps } from '../form/parse-props';
+import { fields } from '..';
 import { getAuth } from './auth';
-import { loadDataFile } from './required-files';
+import { ParseEntryArgs, parseEntry } from './parse-entry';
 import {
   useBaseCommit,
   useBranchInfo,
@@ -15,172 +14,36 @@ import { getDirectoriesForTreeKey, getTreeKey } from './tree-key';
 import { TreeNode, getTreeNodeAtPath, TreeEntry, blobSha } from './trees';
 import { LOADING, useData } from './useData';
 import {
-  FormatInfo,
   getEntryDataFilepath,
   getPathPrefix,
   KEYSTATIC_CLOUD_API_URL,
   KEYSTATIC_CLOUD_HEADERS,
   MaybePromise,
 } from './utils';
-import { toFormattedFormDataError } from '../form/error-formatting';
 import { serializeRepoConfig } from './repo-config';
 import {
   getBlobFromPersistedCache,
   setBlobToPersistedCache,
 } from './object-cache';
 
-class TrackedMap<K, V> extends Map<K, V> {
-  #onGet: (key: K) => void;
-  constructor(
-    onGet: (key: K) => void,
-    entries?: readonly (readonly [K, V])[] | null
-  ) {
-    super(entries);
-    this.#onGet = onGet;
-  }
-  get(key: K) {
-    this.#onGet(key);
-    return super.get(key);
-  }
-}
-
-export function parseEntry(
-  args: UseItemDataArgs,
-  files: Map<string, Uint8Array>
-) {
-  const dataFilepath = getEntryDataFilepath(args.dirpath, args.format);
-  const data = files.get(dataFilepath);
-  if (!data) {
-    throw new Error(`Could not find data file at ${dataFilepath}`);
-  }
-  const { loaded, extraFakeFile } = loadDataFile(data, args.format);
-  const filesWithFakeFile = new Map(files);
-  if (extraFakeFile) {
-    filesWithFakeFile.set(
-      `${args.dirpath}/${extraFakeFile.path}`,
-      extraFakeFile.contents
-    );
-  }
-  const usedFiles = new Set([dataFilepath]);
-  const rootSchema = fields.object(args.schema);
-  let initialState;
-
-  const getFile = (filepath: string) => {
-    usedFiles.add(filepath);
-    return filesWithFakeFile.get(filepath);
-  };
-  try {
-    initialState = parseProps(
-      rootSchema,
-      loaded,
-      [],
-      [],
-      (schema, value, path, pathWithArrayFieldSlugs) => {
-        if (path.length === 1 && path[0] === args.slug?.field) {
-          if (schema.formKind !== 'slug') {
-            throw new Error(`slugField is not a slug field`);
-          }
-          return schema.parse(value, { slug: args.slug.slug });
-        }
-        if (schema.formKind === 'asset') {
-          const suggestedFilenamePrefix = pathWithArrayFieldSlugs.join('/');
-          const filepath = schema.filename(value, {
-            suggestedFilenamePrefix,
-            slug: args.slug?.slug,
-          });
-          const asset = filepath
-            ? getFile(
-                `${
-                  schema.directory
-                    ? `${schema.directory}${
-                        args.slug?.slug === undefined
-                          ? ''
-                          : `/${args.slug.slug}`
-                      }`
-                    : args.dirpath
-                }/${filepath}`
-              )
-            : undefined;
-
-          return schema.parse(value, { asset, slug: args.slug?.slug });
-        }
-        if (schema.formKind === 'content') {
-          const rootPath = `${args.dirpath}/${pathWithArrayFieldSlugs.join(
-            '/'
-          )}`;
-          const mainFilepath = rootPath + schema.contentExtension;
-          const mainContents = getFile(mainFilepath);
-
-          const otherFiles = new TrackedMap<string, Uint8Array>(key => {
-            usedFiles.add(`${rootPath}/${key}`);
-          });
-          const otherDirectories = new Map<
-            string,
-            TrackedMap<string, Uint8Array>
-          >();
-
-          for (const [filename] of filesWithFakeFile) {
-            if (filename.startsWith(rootPath + '/')) {
-              const relativePath = filename.slice(rootPath.length + 1);
-              otherFiles.set(relativePath, filesWithFakeFile.get(filename)!);
-            }
-          }
-          for (const dir of schema.directories ?? []) {
-            const dirFiles = new TrackedMap<string, Uint8Array>(relativePath =>
-              usedFiles.add(start + relativePath)
-            );
-            const start = `${dir}${
-              args.slug?.slug === undefined ? '' : `/${args.slug?.slug}`
-            }/`;
-            for (const [filename, val] of filesWithFakeFile) {
-              if (filename.startsWith(start)) {
-                const relativePath = filename.slice(start.length);
-                dirFiles.set(relativePath, val);
-              }
-            }
-            if (dirFiles.size) {
-              otherDirectories.set(dir, dirFiles);
-            }
-          }
-
-          return schema.parse(value, {
-            content: mainContents,
-            other: otherFiles,
-            external: otherDirectories,
-            slug: args.slug?.slug,
-          });
-        }
-
-        return schema.parse(value, undefined);
-      },
-      false
-    );
-  } catch (err) {
-    throw toFormattedFormDataError(err);
-  }
-
-  if (extraFakeFile) {
-    usedFiles.delete(`${args.dirpath}/${extraFakeFile.path}`);
-  }
-
-  return { initialState, initialFiles: [...usedFiles] };
-}
-
-type UseItemDataArgs = {
-  config: Config;
-  schema: Record<string, ComponentSchema>;
-  dirpath: string;
-  format: FormatInfo;
-  slug: { slug: string; field: string } | undefined;
-};
-
 function getAllFilesInTree(tree: Map<string, TreeNode>): TreeEntry[] {
   return [...tree.values()].flatMap(val =>
     val.children ? getAllFilesInTree(val.children) : [val.entry]
   );
 }
 
-export function useItemData(args: UseItemDataArgs) {
+export function getFilesInLocations(
+  tree: Map<string, TreeNode>,
+  locations: string[]
+): TreeEntry[] {
+  return locations.flatMap(dir => {
+    const node = getTreeNodeAtPath(tree, dir);
+    if (!node) return [];
+    return node.children ? getAllFilesInTree(node.children) : [node.entry];
+  });
+}
+
+export function useItemData(args: ParseEntryArgs) {
   const { current: currentBranch } = useTree();
   const baseCommit = useBaseCommit();
   const isRepoPrivate = useIsRepoPrivate();
@@ -234,15 +97,8 @@ export function useItemData(args: UseItemDataArgs) {
         schema: args.schema,
         slug: args.slug,
       };
-      const allBlobs = locationsForTreeKey
-        .flatMap(dir => {
-          const node = getTreeNodeAtPath(tree, dir);
-          if (!node) return [];
-          return node.children
-            ? getAllFilesInTree(node.children)
-            : [node.entry];
-        })
-        .map(entry => {
+      const allBlobs = getFilesInLocations(tree, locationsForTreeKey).map(
+        entry => {
           const blob = fetchBlob(
             args.config,
             entry.sha,
@@ -255,7 +111,8 @@ export function useItemData(args: UseItemDataArgs) {
             return [entry.path, blob] as const;
           }
           return blob.then(blob => [entry.path, blob] as const);
-        });
+        }
+      );
 
       if (
         allBlobs.every((x): x is readonly [string, Uint8Array] =>
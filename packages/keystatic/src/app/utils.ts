@@ -13,6 +13,7 @@ import {
 } from './path-utils';
 import { collectDirectoriesUsedInSchema, getTreeKey } from './tree-key';
 import { getTreeNodeAtPath, TreeNode } from './trees';
+import { COMMENTS_FILE_SUFFIX } from './comments';
 import pkgJson from '../../package.json';
 import { object } from '../form/fields/object';
 
@@ -79,6 +80,19 @@ export function getRepoUrl(config: { mainOwner: string; mainRepo: string }) {
   return `https://github.com/${getRepoPath(config)}`;
 }
 
+export function getEntryHref(
+  basePath: string,
+  entry:
+    | { kind: 'collection'; collection: string; slug: string }
+    | { kind: 'singleton'; singleton: string }
+) {
+  return entry.kind === 'collection'
+    ? `${basePath}/collection/${encodeURIComponent(
+        entry.collection
+      )}/item/${encodeURIComponent(entry.slug)}`
+    : `${basePath}/singleton/${encodeURIComponent(entry.singleton)}`;
+}
+
 export function getSlugFromState(
   collectionConfig: {
     slugField: string;
@@ -162,7 +176,13 @@ export function getEntriesInCollectionWithTreeKey(
           sha: newEntry.entry.sha,
         });
       }
-      if (entry.children || !key.endsWith(extension)) continue;
+      if (
+        entry.children ||
+        !key.endsWith(extension) ||
+        (collectionConfig.comments && key.endsWith(COMMENTS_FILE_SUFFIX))
+      ) {
+        continue;
+      }
       const slug = key.slice(0, -extension.length);
       entries.push({
         key: getTreeKey(
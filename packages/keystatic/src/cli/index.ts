@@ -0,0 +1,232 @@
+import nodePath from 'node:path';
+import nodeFs from 'node:fs/promises';
+import { MinimalFs } from '../reader/generic';
+import { createLocalFs } from '../reader/local-fs';
+import { getPathPrefix } from '../app/path-utils';
+import { findConfigFile, loadConfig } from './load-config';
+import { ValidationResult, validateContent } from './validate';
+import { MigrationFs, MigrationResult, migrateContent } from './migrate';
+import { generateJsonSchemas } from './json-schema';
+import { generateTypeScriptTypes } from './typescript';
+
+export { validateContent } from './validate';
+export type { ValidationResult } from './validate';
+export { migrateContent } from './migrate';
+export type { MigrationFs, MigrationResult } from './migrate';
+export { generateJsonSchemas } from './json-schema';
+export { generateTypeScriptTypes } from './typescript';
+
+const usage = `Usage: keystatic <command> [options]
+
+Commands:
+  validate    Validate every entry in every collection and singleton
+  migrate     Apply the migrations of collections and singletons to entries
+              stored at an older version
+  generate    Generate JSON Schema for the data files of entries and
+              TypeScript types for the values returned by the reader API
+
+Options:
+  --config <path>    Path to the Keystatic config (default: keystatic.config.{ts,tsx,js,...})
+  --root <path>      Path to the root of the content repository (default: the current directory)
+  --dry-run          With migrate, report the entries that would be migrated without writing them
+  --out <path>       With generate, the directory to write to (default: .keystatic)
+  --help             Show this message
+`;
+
+function withPathPrefix(fs: MinimalFs, prefix: string | undefined): MinimalFs {
+  if (prefix === undefined) return fs;
+  return {
+    fileExists: path => fs.fileExists(prefix + path),
+    readdir: path => fs.readdir(prefix + path),
+    readFile: path => fs.readFile(prefix + path),
+  };
+}
+
+function getLabel(result: ValidationResult | MigrationResult) {
+  return result.kind === 'collection'
+    ? `"${result.slug}" in collection "${result.key}"`
+    : `singleton "${result.key}"`;
+}
+
+function formatResult(result: ValidationResult | MigrationResult) {
+  const errors = result.errors
+    .flatMap(error => error.split('\n'))
+    .map(line => `    ${line}`)
+    .join('\n');
+  return `  ✖ ${getLabel(result)} (${result.filepath})\n${errors}`;
+}
+
+type Options = {
+  config?: string;
+  root?: string;
+  out?: string;
+  dryRun?: boolean;
+};
+
+async function loadProjectConfig(opts: Options) {
+  const cwd = process.cwd();
+  const configPath = opts.config
+    ? nodePath.resolve(cwd, opts.config)
+    : await findConfigFile(cwd);
+  if (configPath === undefined) {
+    throw new Error(`Could not find a Keystatic config in ${cwd}`);
+  }
+  return loadConfig(configPath);
+}
+
+async function loadProject(opts: Options) {
+  const cwd = process.cwd();
+  const config = await loadProjectConfig(opts);
+  const root = nodePath.resolve(cwd, opts.root ?? '.');
+  const prefix = getPathPrefix(config.storage) ?? '';
+  const fs: MigrationFs = {
+    ...withPathPrefix(createLocalFs(root), prefix),
+    writeFile: (path, contents) =>
+      nodeFs.writeFile(nodePath.join(root, prefix + path), contents),
+  };
+  return { config, fs };
+}
+
+async function validate(opts: Options) {
+  const { config, fs } = await loadProject(opts);
+  const results = await validateContent(config, fs);
+  const invalid = results.filter(result => result.errors.length);
+  if (invalid.length) {
+    console.error(
+      `Found errors in ${invalid.length} of ${
+        results.length
+      } entries:\n\n${invalid.map(formatResult).join('\n\n')}`
+    );
+    return 1;
+  }
+  console.log(`Validated ${results.length} entries, no errors found`);
+  return 0;
+}
+
+async function migrate(opts: Options) {
+  const { config, fs } = await loadProject(opts);
+  const results = await migrateContent(config, fs, { dryRun: opts.dryRun });
+  for (const result of results) {
+    if (result.errors.length) continue;
+    console.log(
+      `  ✔ ${getLabel(result)} (${result.filepath}) v${
+        result.fromVersion
+      } → v${result.toVersion}`
+    );
+  }
+  const migrated = results.filter(result => !result.errors.length).length;
+  console.log(
+    `${opts.dryRun ? 'Would migrate' : 'Migrated'} ${migrated} ${
+      migrated === 1 ? 'entry' : 'entries'
+    }`
+  );
+  const invalid = results.filter(result => result.errors.length);
+  if (invalid.length) {
+    console.error(
+      `Could not migrate ${invalid.length} entries:\n\n${invalid
+        .map(formatResult)
+        .join('\n\n')}`
+    );
+    return 1;
+  }
+  return 0;
+}
+
+async function generate(opts: Options) {
+  const config = await loadProjectConfig(opts);
+  const outDir = nodePath.resolve(process.cwd(), opts.out ?? '.keystatic');
+  const schemas = generateJsonSchemas(config);
+  const files = new Map<string, string>([
+    ['types.d.ts', generateTypeScriptTypes(config)],
+  ]);
+  for (const kind of ['collections', 'singletons'] as const) {
+    for (const [key, schema] of Object.entries(schemas[kind])) {
+      files.set(
+        `${kind}/${key}.schema.json`,
+        JSON.stringify(schema, null, 2) + '\n'
+      );
+    }
+  }
+  for (const [filepath, contents] of files) {
+    const fullPath = nodePath.join(outDir, filepath);
+    await nodeFs.mkdir(nodePath.dirname(fullPath), { recursive: true });
+    await nodeFs.writeFile(fullPath, contents);
+  }
+  console.log(
+    `Generated ${files.size} files in ${nodePath.relative(
+      process.cwd(),
+      outDir
+    )}`
+  );
+  return 0;
+}
+
+const commands: Record<string, (opts: Options) => Promise<number>> = {
+  validate,
+  migrate,
+  generate,
+};
+
+const optionsWithValues: Record<string, 'config' | 'root' | 'out'> = {
+  '--config': 'config',
+  '--root': 'root',
+  '--out': 'out',
+};
+
+function parseArgs(args: string[]) {
+  const positionals: string[] = [];
+  const values: Options & { help?: boolean } = {};
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--help' || arg === '-h') {
+      values.help = true;
+    } else if (arg === '--dry-run') {
+      values.dryRun = true;
+    } else if (Object.prototype.hasOwnProperty.call(optionsWithValues, arg)) {
+      const value = args[++i];
+      if (value === undefined) {
+        throw new Error(`Option "${arg}" requires a value`);
+      }
+      values[optionsWithValues[arg]] = value;
+    } else if (arg.startsWith('-')) {
+      throw new Error(`Unknown option "${arg}"`);
+    } else {
+      positionals.push(arg);
+    }
+  }
+  return { positionals, values };
+}
+
+export async function run(args: string[]) {
+  let parsed;
+  try {
+    parsed = parseArgs(args);
+  } catch (err) {
+    console.error(`${(err as Error).message}\n\n${usage}`);
+    process.exitCode = 2;
+    return;
+  }
+  const [command] = parsed.positionals;
+  if (parsed.values.help) {
+    console.log(usage);
+    return;
+  }
+  if (
+    command === undefined ||
+    !Object.prototype.hasOwnProperty.call(commands, command)
+  ) {
+    console.error(
+      `${
+        command ? `Unknown command "${command}"` : 'No command given'
+      }\n\n${usage}`
+    );
+    process.exitCode = 2;
+    return;
+  }
+  try {
+    process.exitCode = await commands[command](parsed.values);
+  } catch (err) {
+    console.error(err);
+    process.exitCode = 2;
+  }
+}
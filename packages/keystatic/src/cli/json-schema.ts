@@ -0,0 +1,148 @@
+import { Config } from '../config';
+import { ComponentSchema, ConditionalField, JSONSchema } from '../form/api';
+
+export function getDiscriminantValue(
+  schema: ConditionalField<any, any>,
+  key: string
+) {
+  return typeof schema.discriminant.defaultValue() === 'boolean'
+    ? key === 'true'
+    : key;
+}
+
+/**
+ * Returns whether a missing value for the field is read as `null`, these
+ * values are also stored as `null` in arrays.
+ */
+export function isNullable(schema: ComponentSchema) {
+  if (schema.kind !== 'form' || schema.formKind === 'content') return false;
+  if (!schema.storedValue) return true;
+  return (
+    !schema.storedValue.isRequired &&
+    schema.storedValue.schema.default === undefined &&
+    schema.storedValue.schema.type !== 'null'
+  );
+}
+
+/**
+ * Returns the JSON Schema for the value stored for a schema or `undefined` if
+ * nothing is stored in the data of the entry for it, like content fields.
+ */
+function getJsonSchemaForComponentSchema(
+  schema: ComponentSchema
+): JSONSchema | undefined {
+  if (schema.kind === 'form') {
+    if (schema.formKind === 'content') return undefined;
+    return schema.storedValue?.schema ?? {};
+  }
+  if (schema.kind === 'child') return undefined;
+  if (schema.kind === 'object') return getJsonSchemaForObject(schema.fields);
+  if (schema.kind === 'array') {
+    const element = getJsonSchemaForComponentSchema(schema.element) ?? {
+      type: 'null',
+    };
+    return {
+      type: 'array',
+      items: isNullable(schema.element)
+        ? { anyOf: [element, { type: 'null' }] }
+        : element,
+      minItems: schema.validation?.length?.min,
+      maxItems: schema.validation?.length?.max,
+      default: [],
+    };
+  }
+  return {
+    anyOf: Object.entries(schema.values as Record<string, ComponentSchema>).map(
+      ([key, value]): JSONSchema => {
+        const valueSchema = getJsonSchemaForComponentSchema(value);
+        return {
+          type: 'object',
+          properties: {
+            discriminant: { const: getDiscriminantValue(schema, key) },
+            ...(valueSchema && { value: valueSchema }),
+          },
+          required: ['discriminant'],
+          additionalProperties: false,
+        };
+      }
+    ),
+  };
+}
+
+function getJsonSchemaForObject(
+  fields: Record<string, ComponentSchema>
+): JSONSchema {
+  const properties: Record<string, JSONSchema> = {};
+  const required: string[] = [];
+  for (const [key, field] of Object.entries(fields)) {
+    const schema = getJsonSchemaForComponentSchema(field);
+    if (schema === undefined) continue;
+    properties[key] = schema;
+    if (
+      field.kind === 'form' &&
+      field.formKind !== 'content' &&
+      field.storedValue?.isRequired
+    ) {
+      required.push(key);
+    }
+  }
+  return {
+    type: 'object',
+    properties,
+    ...(required.length && { required }),
+    additionalProperties: false,
+  };
+}
+
+function getJsonSchemaForEntry(entry: {
+  label: string;
+  schema: Record<string, ComponentSchema>;
+  slugField?: string;
+  migrations?: unknown[];
+}): JSONSchema {
+  const schema = getJsonSchemaForObject(entry.schema);
+  if (entry.slugField !== undefined) {
+    // the value of the slug field is stored in the filename and for some
+    // fields, the data file
+    schema.properties![entry.slugField] = { type: 'string' };
+    schema.required = schema.required?.filter(x => x !== entry.slugField);
+    if (!schema.required?.length) delete schema.required;
+  }
+  if (entry.migrations?.length) {
+    schema.properties = {
+      $version: { const: entry.migrations.length },
+      ...schema.properties,
+    };
+    schema.required = ['$version', ...(schema.required ?? [])];
+  }
+  return {
+    $schema: 'https://json-schema.org/draft/2020-12/schema',
+    title: entry.label,
+    ...schema,
+  };
+}
+
+/**
+ * Generates JSON Schema for the data files of the entries of every collection
+ * and singleton. For entries with a content field, the schema describes the
+ * frontmatter.
+ */
+export function generateJsonSchemas(config: Config): {
+  collections: Record<string, JSONSchema>;
+  singletons: Record<string, JSONSchema>;
+} {
+  return {
+    collections: Object.fromEntries(
+      Object.entries(config.collections ?? {}).map(([key, collection]) => [
+        key,
+        getJsonSchemaForEntry(collection),
+      ])
+    ),
+    singletons: Object.fromEntries(
+      Object.entries(config.singletons ?? {}).map(([key, singleton]) => [
+        key,
+        getJsonSchemaForEntry(singleton),
+      ])
+    ),
+  };
+}
@@ -0,0 +1,67 @@
+import nodePath from 'node:path';
+import nodeFs from 'node:fs/promises';
+import { pathToFileURL } from 'node:url';
+import { Config } from '../config';
+
+const configFilenames = [
+  'keystatic.config.ts',
+  'keystatic.config.tsx',
+  'keystatic.config.mts',
+  'keystatic.config.js',
+  'keystatic.config.jsx',
+  'keystatic.config.mjs',
+];
+
+export async function findConfigFile(cwd: string) {
+  for (const filename of configFilenames) {
+    const filepath = nodePath.join(cwd, filename);
+    try {
+      await nodeFs.access(filepath);
+      return filepath;
+    } catch {}
+  }
+}
+
+/**
+ * Loads the default export of a Keystatic config file. The config is bundled
+ * with esbuild so that it can be written in TypeScript and use JSX, imports
+ * of packages are left as is and resolved from the directory of the config.
+ * esbuild is an optional peer dependency since only the CLI needs it.
+ */
+export async function loadConfig(configPath: string): Promise<Config> {
+  let esbuild: typeof import('esbuild');
+  try {
+    esbuild = await import('esbuild');
+  } catch {
+    throw new Error(
+      'esbuild must be installed to load the Keystatic config, install it with `npm install --save-dev esbuild`'
+    );
+  }
+  const result = await esbuild.build({
+    entryPoints: [configPath],
+    bundle: true,
+    platform: 'node',
+    format: 'esm',
+    target: 'node18',
+    packages: 'external',
+    jsx: 'automatic',
+    write: false,
+    logLevel: 'silent',
+  });
+  // this is written next to the config rather than in a temporary directory
+  // so that packages are resolved from the node_modules of the project
+  const bundledPath = `${configPath}.timestamp-${Date.now()}.mjs`;
+  await nodeFs.writeFile(bundledPath, result.outputFiles[0].contents);
+  try {
+    const mod = await import(pathToFileURL(bundledPath).href);
+    const config = mod.default?.default ?? mod.default;
+    if (typeof config !== 'object' || config === null || !config.storage) {
+      throw new Error(
+        `${configPath} must have a default export of a Keystatic config`
+      );
+    }
+    return config;
+  } finally {
+    await nodeFs.rm(bundledPath, { force: true });
+  }
+}
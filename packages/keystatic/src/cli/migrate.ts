@@ -0,0 +1,138 @@
+import { Config } from '../config';
+import { ComponentSchema } from '../form/api';
+import { parseEntry } from '../app/parse-entry';
+import {
+  addEntryVersion,
+  getEntryVersion,
+  migrateEntryData,
+} from '../app/migrations';
+import {
+  FormatInfo,
+  getCollectionFormat,
+  getCollectionItemPath,
+  getEntryDataFilepath,
+  getSingletonFormat,
+  getSingletonPath,
+} from '../app/path-utils';
+import {
+  dumpDataFile,
+  getContentFieldFile,
+  loadDataFile,
+} from '../app/required-files';
+import { MinimalFs, collectionReader } from '../reader/generic';
+import { readEntryFiles } from './validate';
+
+export type MigrationFs = MinimalFs & {
+  writeFile(path: string, contents: Uint8Array): Promise<void>;
+};
+
+export type MigrationResult = {
+  /** The collection or singleton key */
+  key: string;
+  kind: 'collection' | 'singleton';
+  slug: string | undefined;
+  filepath: string;
+  fromVersion: number;
+  toVersion: number;
+  /** Entries with errors are left unchanged */
+  errors: string[];
+};
+
+async function migrateEntry(
+  config: Config,
+  fs: MigrationFs,
+  schema: Record<string, ComponentSchema>,
+  dirpath: string,
+  format: FormatInfo,
+  slug: { slug: string; field: string } | undefined,
+  dryRun: boolean
+): Promise<Omit<MigrationResult, 'key' | 'kind' | 'slug'> | undefined> {
+  const filepath = getEntryDataFilepath(dirpath, format);
+  const dataFile = await fs.readFile(filepath);
+  if (dataFile === null) return;
+  const toVersion = format.migrations.length;
+  const result: Omit<MigrationResult, 'key' | 'kind' | 'slug'> = {
+    filepath,
+    fromVersion: 0,
+    toVersion,
+    errors: [],
+  };
+  let newDataFile: Uint8Array;
+  try {
+    const { loaded } = loadDataFile(dataFile, format);
+    result.fromVersion = getEntryVersion(loaded);
+    if (result.fromVersion === toVersion) return;
+    const migrated = migrateEntryData(loaded, format.migrations).data;
+    newDataFile = dumpDataFile(
+      addEntryVersion(migrated, format.migrations),
+      format,
+      getContentFieldFile(dataFile, format)?.contents
+    );
+    // parsing the migrated entry with the schema ensures that migrations
+    // don't write data that the Admin UI and reader can't read
+    const files = await readEntryFiles(fs, schema, dirpath, slug?.slug, format);
+    files.set(filepath, newDataFile);
+    parseEntry({ config, schema, dirpath, format, slug }, files);
+  } catch (err) {
+    return {
+      ...result,
+      errors: [
+        (err as Error).message.replace(/^Field validation failed:\n/, ''),
+      ],
+    };
+  }
+  if (!dryRun) {
+    await fs.writeFile(filepath, newDataFile);
+  }
+  return result;
+}
+
+/**
+ * Applies the migrations of every collection and singleton to the entries that
+ * are stored at an older version. Entries that are already at the latest
+ * version are not included in the results.
+ */
+export async function migrateContent(
+  config: Config,
+  fs: MigrationFs,
+  opts: { dryRun?: boolean } = {}
+): Promise<MigrationResult[]> {
+  const results: MigrationResult[] = [];
+  for (const [key, collection] of Object.entries(config.collections ?? {})) {
+    const format = getCollectionFormat(config, key);
+    if (!format.migrations.length) continue;
+    for (const slug of await collectionReader(key, config, fs).list({
+      includeUnpublished: true,
+    })) {
+      const result = await migrateEntry(
+        config,
+        fs,
+        collection.schema,
+        getCollectionItemPath(config, key, slug),
+        format,
+        { slug, field: collection.slugField },
+        !!opts.dryRun
+      );
+      if (result) {
+        results.push({ key, kind: 'collection', slug, ...result });
+      }
+    }
+  }
+  for (const [key, singleton] of Object.entries(config.singletons ?? {})) {
+    const format = getSingletonFormat(config, key);
+    if (!format.migrations.length) continue;
+    const result = await migrateEntry(
+      config,
+      fs,
+      singleton.schema,
+      getSingletonPath(config, key),
+      format,
+      undefined,
+      !!opts.dryRun
+    );
+    if (result) {
+      results.push({ key, kind: 'singleton', slug: undefined, ...result });
+    }
+  }
+  return results;
+}
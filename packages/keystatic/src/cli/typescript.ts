@@ -0,0 +1,122 @@
+import { Config } from '../config';
+import { ComponentSchema, JSONSchema } from '../form/api';
+import { getDiscriminantValue, isNullable } from './json-schema';
+
+function union(types: string[]) {
+  const unique = [...new Set(types)];
+  return unique.length ? unique.join(' | ') : 'never';
+}
+
+function arrayOf(type: string) {
+  return `readonly ${/[|&]/.test(type) ? `(${type})` : type}[]`;
+}
+
+function propertyKey(key: string) {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key);
+}
+
+function indent(str: string) {
+  return str.replace(/\n/g, '\n  ');
+}
+
+function objectType(properties: [key: string, type: string][]) {
+  if (!properties.length) return '{}';
+  return `{\n${properties
+    .map(([key, type]) => `  readonly ${propertyKey(key)}: ${indent(type)};`)
+    .join('\n')}\n}`;
+}
+
+function getTypeForJsonSchema(schema: JSONSchema): string {
+  if (schema.const !== undefined) return JSON.stringify(schema.const);
+  if (schema.enum) return union(schema.enum.map(x => JSON.stringify(x)));
+  if (schema.anyOf) return union(schema.anyOf.map(getTypeForJsonSchema));
+  switch (schema.type) {
+    case 'string':
+    case 'boolean':
+    case 'null':
+      return schema.type;
+    case 'number':
+    case 'integer':
+      return 'number';
+    case 'array':
+      return arrayOf(
+        schema.items ? getTypeForJsonSchema(schema.items) : 'unknown'
+      );
+    case 'object':
+      return objectType(
+        Object.entries(schema.properties ?? {}).map(([key, value]) => [
+          key,
+          getTypeForJsonSchema(value),
+        ])
+      );
+  }
+  return 'unknown';
+}
+
+function getTypeForComponentSchema(schema: ComponentSchema): string {
+  if (schema.kind === 'form') {
+    if (schema.formKind === 'content') return '() => Promise<unknown>';
+    const type = schema.storedValue
+      ? getTypeForJsonSchema(schema.storedValue.schema)
+      : 'unknown';
+    return isNullable(schema) ? union([type, 'null']) : type;
+  }
+  if (schema.kind === 'child') return 'null';
+  if (schema.kind === 'object') return getTypeForObject(schema.fields);
+  if (schema.kind === 'array') {
+    return arrayOf(getTypeForComponentSchema(schema.element));
+  }
+  return union(
+    Object.entries(schema.values as Record<string, ComponentSchema>).map(
+      ([key, value]) =>
+        objectType([
+          ['discriminant', JSON.stringify(getDiscriminantValue(schema, key))],
+          ['value', getTypeForComponentSchema(value)],
+        ])
+    )
+  );
+}
+
+function getTypeForObject(
+  fields: Record<string, ComponentSchema>,
+  slugField?: string
+) {
+  return objectType(
+    Object.entries(fields).map(([key, field]) => [
+      key,
+      key === slugField ? 'string' : getTypeForComponentSchema(field),
+    ])
+  );
+}
+
+/**
+ * Generates a standalone TypeScript declaration file with the types of entries
+ * as returned by the reader API, without resolving linked files. The contents
+ * of content fields are typed as `unknown`.
+ */
+export function generateTypeScriptTypes(config: Config) {
+  const collections = Object.entries(config.collections ?? {}).map(
+    ([key, collection]): [string, string] => [
+      key,
+      getTypeForObject(collection.schema, collection.slugField),
+    ]
+  );
+  const singletons = Object.entries(config.singletons ?? {}).map(
+    ([key, singleton]): [string, string] => [
+      key,
+      getTypeForObject(singleton.schema),
+    ]
+  );
+  return `// This file is generated by \`keystatic generate\`, do not edit it manually
+
+export type Collections = ${objectType(collections)};
+
+export type Singletons = ${objectType(singletons)};
+
+export type Entry<Collection extends keyof Collections> =
+  Collections[Collection];
+
+export type SingletonEntry<Singleton extends keyof Singletons> =
+  Singletons[Singleton];
+`;
+}
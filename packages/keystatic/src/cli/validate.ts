@@ -0,0 +1,238 @@
+import { Config, Glob } from '../config';
+import { ComponentSchema, fields } from '../form/api';
+import { validateValueWithSchema } from '../form/errors';
+import { formatFormDataError } from '../form/error-formatting';
+import { traverseProps } from '../form/props-value';
+import { parseEntry } from '../app/parse-entry';
+import {
+  FormatInfo,
+  getCollectionFormat,
+  getCollectionItemPath,
+  getEntryDataFilepath,
+  getSingletonFormat,
+  getSingletonPath,
+  getSlugGlobForCollection,
+} from '../app/path-utils';
+import { getDirectoriesForTreeKey } from '../app/tree-key';
+import { getConfigForLocale } from '../app/localization';
+import { MinimalFs, collectionReader } from '../reader/generic';
+import { getRelationshipCollection } from '../reader/relationships';
+
+export type ValidationResult = {
+  /** The collection or singleton key */
+  key: string;
+  kind: 'collection' | 'singleton';
+  slug: string | undefined;
+  filepath: string;
+  errors: string[];
+};
+
+async function readFilesInLocation(
+  fs: MinimalFs,
+  location: string,
+  files: Map<string, Uint8Array>
+) {
+  const lastSlash = location.lastIndexOf('/');
+  const parent = lastSlash === -1 ? '' : location.slice(0, lastSlash);
+  const name = location.slice(lastSlash + 1);
+  const dirent = (await fs.readdir(parent)).find(x => x.name === name);
+  if (!dirent) return;
+  if (dirent.kind === 'file') {
+    const contents = await fs.readFile(location);
+    if (contents) files.set(location, contents);
+    return;
+  }
+  await Promise.all(
+    (await fs.readdir(location)).map(x =>
+      readFilesInLocation(fs, `${location}/${x.name}`, files)
+    )
+  );
+}
+
+export async function readEntryFiles(
+  fs: MinimalFs,
+  schema: Record<string, ComponentSchema>,
+  dirpath: string,
+  slug: string | undefined,
+  format: FormatInfo
+) {
+  const files = new Map<string, Uint8Array>();
+  for (const location of getDirectoriesForTreeKey(
+    fields.object(schema),
+    dirpath,
+    slug,
+    format
+  )) {
+    await readFilesInLocation(fs, location, files);
+  }
+  return files;
+}
+
+async function validateEntry(
+  config: Config,
+  fs: MinimalFs,
+  schema: Record<string, ComponentSchema>,
+  dirpath: string,
+  format: FormatInfo,
+  slug:
+    | { slug: string; field: string; slugs: Set<string>; glob: Glob }
+    | undefined,
+  getSlugsInCollection: (collection: string) => Promise<Set<string>>
+): Promise<string[]> {
+  const rootSchema = fields.object(schema);
+  const files = await readEntryFiles(fs, schema, dirpath, slug?.slug, format);
+
+  let state: Record<string, unknown>;
+  try {
+    state = parseEntry(
+      {
+        config,
+        schema,
+        dirpath,
+        format,
+        slug: slug && { slug: slug.slug, field: slug.field },
+      },
+      files
+    ).initialState;
+  } catch (err) {
+    return [(err as Error).message.replace(/^Field validation failed:\n/, '')];
+  }
+
+  const errors: string[] = [];
+  try {
+    validateValueWithSchema(
+      rootSchema,
+      state,
+      slug && { field: slug.field, slugs: slug.slugs, glob: slug.glob }
+    );
+  } catch (err) {
+    errors.push(formatFormDataError(err));
+  }
+
+  const relationships: { path: string; collection: string; slug: string }[] =
+    [];
+  traverseProps(rootSchema, state, (schema, value, path) => {
+    const collection = getRelationshipCollection(schema);
+    if (collection === undefined) return;
+    const slugs =
+      typeof value === 'string' ? [value] : Array.isArray(value) ? value : [];
+    for (const slug of slugs) {
+      relationships.push({ path: path.join('.'), collection, slug });
+    }
+  });
+  for (const relationship of relationships) {
+    const slugs = await getSlugsInCollection(relationship.collection);
+    if (!slugs.has(relationship.slug)) {
+      errors.push(
+        `${relationship.path}: Entry "${relationship.slug}" does not exist in collection "${relationship.collection}"`
+      );
+    }
+  }
+  return errors;
+}
+
+/**
+ * Validates every entry in every collection and singleton with the same
+ * parsing and validation as the Admin UI, including that slugs are unique and
+ * that relationship fields reference entries that exist.
+ */
+export async function validateContent(
+  config: Config,
+  fs: MinimalFs
+): Promise<ValidationResult[]> {
+  const slugsInCollections = new Map<string, Promise<Set<string>>>();
+  const getSlugsInCollection = (collection: string) => {
+    if (!config.collections?.[collection]) {
+      return Promise.resolve(new Set<string>());
+    }
+    if (!slugsInCollections.has(collection)) {
+      slugsInCollections.set(
+        collection,
+        collectionReader(collection, config, fs)
+          .list({ includeUnpublished: true })
+          .then(slugs => new Set(slugs))
+      );
+    }
+    return slugsInCollections.get(collection)!;
+  };
+
+  // listing a locale includes the entries in its fallbacks, so only the
+  // entries that are translated into the locale are kept
+  const getSlugsInLocale = async (
+    collection: string,
+    localeConfig: Config,
+    locale: string
+  ) => {
+    const format = getCollectionFormat(localeConfig, collection);
+    const slugs = await collectionReader(collection, config, fs).list({
+      includeUnpublished: true,
+      locale,
+    });
+    const translated = new Set<string>();
+    for (const slug of slugs) {
+      const dirpath = getCollectionItemPath(localeConfig, collection, slug);
+      if (await fs.fileExists(getEntryDataFilepath(dirpath, format))) {
+        translated.add(slug);
+      }
+    }
+    return translated;
+  };
+
+  const results: ValidationResult[] = [];
+  for (const [key, collection] of Object.entries(config.collections ?? {})) {
+    const format = getCollectionFormat(config, key);
+    const glob = getSlugGlobForCollection(config, key);
+    // every translation of a localized collection is validated
+    for (const locale of collection.localization?.locales ?? [undefined]) {
+      const localeConfig = getConfigForLocale(config, locale);
+      const slugs =
+        locale === undefined
+          ? await getSlugsInCollection(key)
+          : await getSlugsInLocale(key, localeConfig, locale);
+      for (const slug of slugs) {
+        const dirpath = getCollectionItemPath(localeConfig, key, slug);
+        const otherSlugs = new Set(slugs);
+        otherSlugs.delete(slug);
+        results.push({
+          key,
+          kind: 'collection',
+          slug,
+          filepath: getEntryDataFilepath(dirpath, format),
+          errors: await validateEntry(
+            config,
+            fs,
+            collection.schema,
+            dirpath,
+            format,
+            { slug, field: collection.slugField, slugs: otherSlugs, glob },
+            getSlugsInCollection
+          ),
+        });
+      }
+    }
+  }
+  for (const [key, singleton] of Object.entries(config.singletons ?? {})) {
+    const format = getSingletonFormat(config, key);
+    for (const locale of singleton.localization?.locales ?? [undefined]) {
+      const dirpath = getSingletonPath(getConfigForLocale(config, locale), key);
+      const filepath = getEntryDataFilepath(dirpath, format);
+      if (!(await fs.fileExists(filepath))) continue;
+      results.push({
+        key,
+        kind: 'singleton',
+        slug: undefined,
+        filepath,
+        errors: await validateEntry(
+          config,
+          fs,
+          singleton.schema,
+          dirpath,
+          format,
+          undefined,
+          getSlugsInCollection
+        ),
+      });
+    }
+  }
+  return results;
+}
@@ -1,9 +1,24 @@
 import { ColorScheme } from '@keystar/ui/types';
 import { ReactElement } from 'react';
 
-import { ComponentSchema, FormField, SlugFormField } from './form/api';
+import {
+  AssetFormField,
+  BasicFormField,
+  ComponentSchema,
+  FormField,
+  JsonYamlValue,
+  SlugFormField,
+} from './form/api';
 import type { Locale } from './app/l10n/locales';
 import { RepoConfig } from './app/repo-config';
+import {
+  PUBLISHING_STATUS_FIELD,
+  PUBLISH_AT_FIELD,
+  PublishingFields,
+  getPublishingFields,
+} from './app/publishing';
+import { LOCALE_PLACEHOLDER } from './app/localization';
+import { getCollectionFilters } from './app/collection-filters';
 
 // Common
 // ----------------------------------------------------------------------------
@@ -12,6 +27,26 @@ export type DataFormat = 'json' | 'yaml';
 export type Format = DataFormat | { data?: DataFormat; contentField?: string };
 export type EntryLayout = 'content' | 'form';
 export type Glob = '*' | '**';
+export type Migration = (
+  data: Record<string, JsonYamlValue>
+) => Record<string, JsonYamlValue>;
+export type Localization = {
+  /**
+   * The locales that entries can be translated into. The first locale is the
+   * default locale, which is used when no locale is given.
+   */
+  locales: readonly [string, ...string[]];
+  /**
+   * The locales to read, in order, when an entry hasn't been translated into
+   * a locale, e.g. `{ 'fr-CA': ['fr'] }`. The default locale is always the
+   * last fallback.
+   */
+  fallbacks?: Record<string, readonly string[]>;
+};
+export type CommentsConfig = {
+  /** Stops entries from being published while they have unresolved comments */
+  blockPublishing?: boolean;
+};
 export type Collection<
   Schema extends Record<string, ComponentSchema>,
   SlugField extends string,
@@ -22,10 +57,24 @@ export type Collection<
   format?: Format;
   previewUrl?: string;
   columns?: string[];
+  /**
+   * Fields to filter the entries in the collection list by. Select,
+   * multiselect, checkbox, date, datetime, relationship and
+   * multiRelationship fields can be used as filters.
+   */
+  filters?: string[];
   template?: string;
   parseSlugForSort?: (slug: string) => string | number;
   slugField: SlugField;
   schema: Schema;
+  migrations?: Migration[];
+  publishing?: boolean;
+  /**
+   * Allows comments and suggested edits on the text of markdoc and document
+   * fields, stored in a file next to each entry
+   */
+  comments?: boolean | CommentsConfig;
+  localization?: Localization;
 };
 
 export type Singleton<Schema extends Record<string, ComponentSchema>> = {
@@ -35,12 +84,20 @@ export type Singleton<Schema extends Record<string, ComponentSchema>> = {
   format?: Format;
   previewUrl?: string;
   schema: Schema;
+  migrations?: Migration[];
+  localization?: Localization;
 };
 
 type CommonConfig<Collections, Singletons> = {
   locale?: Locale;
   cloud?: { project: string };
+  /**
+   * A self-hosted collaboration server from `@keystatic/collab-server` to use
+   * for real-time collaboration rather than Keystatic Cloud
+   */
+  collaboration?: { url: string };
   ui?: UserInterface<Collections, Singletons>;
+  permissions?: Permissions<Collections, Singletons>;
 };
 
 type CommonRemoteStorageConfig = {
@@ -48,6 +105,61 @@ type CommonRemoteStorageConfig = {
   branchPrefix?: string;
 };
 
+// Permissions
+// ----------------------------------------------------------------------------
+
+/**
+ * `read` can view entries, `edit` can also create and update them and
+ * `publish` can also delete them and change their publishing status
+ */
+export type Access = 'read' | 'edit' | 'publish';
+
+export type PermissionsRole = {
+  /** GitHub usernames */
+  users?: string[];
+  /** GitHub teams as `org/team-slug` */
+  teams?: string[];
+  /** The access of the role to collections and singletons that don't set it */
+  access: Access;
+};
+
+export type EntryPermissions<FieldKey extends string> = {
+  /** The access of roles to the collection or singleton, keyed by role */
+  access?: Record<string, Access>;
+  /**
+   * The access of roles to fields, keyed by field then role. A field can't
+   * be given more access than its collection or singleton.
+   */
+  fields?: { [K in FieldKey]?: Record<string, Access> };
+};
+
+/**
+ * Restricts what users can do in GitHub mode. Users have every role that
+ * includes them and get the most access of their roles.
+ */
+export type Permissions<Collections, Singletons> = {
+  roles: Record<string, PermissionsRole>;
+  /**
+   * The access of users without a role
+   * @default 'read'
+   */
+  default?: Access;
+  collections?: {
+    [K in keyof Collections]?: EntryPermissions<
+      Collections[K] extends Collection<infer Schema, any>
+        ? keyof Schema & string
+        : string
+    >;
+  };
+  singletons?: {
+    [K in keyof Singletons]?: EntryPermissions<
+      Singletons[K] extends Singleton<infer Schema>
+        ? keyof Schema & string
+        : string
+    >;
+  };
+};
+
 // Interface
 // ----------------------------------------------------------------------------
 
@@ -174,26 +286,78 @@ export function collection<
       ? K
       : never;
   }[keyof Schema],
+  Publishing extends boolean = false,
 >(
   collection: Collection<Schema, SlugField & string> & {
+    publishing?: Publishing;
     columns?: {
       [K in keyof Schema]: Schema[K] extends
         | FormField<
             any,
             any,
-            string | number | boolean | Date | null | undefined
+            | string
+            | number
+            | boolean
+            | Date
+            | readonly string[]
+            | null
+            | undefined
           >
         | SlugFormField<any, any, any, string>
+        | AssetFormField<any, any, any>
+        ? K & string
+        : never;
+    }[keyof Schema][];
+    filters?: {
+      [K in keyof Schema]: Schema[K] extends BasicFormField<any, any, any>
         ? K & string
         : never;
     }[keyof Schema][];
   }
-): Collection<Schema, SlugField & string> {
-  return collection;
+): Collection<
+  Publishing extends true ? Schema & PublishingFields : Schema,
+  SlugField & string
+> {
+  type Result = Collection<
+    Publishing extends true ? Schema & PublishingFields : Schema,
+    SlugField & string
+  >;
+  validateLocalizedPath(collection);
+  if (!collection.publishing) {
+    // throws when a filter isn't for a field that can be filtered by
+    getCollectionFilters(collection);
+    return collection as Result;
+  }
+  for (const key of [PUBLISHING_STATUS_FIELD, PUBLISH_AT_FIELD]) {
+    if (key in collection.schema) {
+      throw new Error(
+        `The "${key}" field is added by publishing so it cannot be in the schema of the "${collection.label}" collection`
+      );
+    }
+  }
+  const withPublishing = {
+    ...collection,
+    schema: { ...collection.schema, ...getPublishingFields() },
+  };
+  getCollectionFilters(withPublishing);
+  return withPublishing as Result;
 }
 
 export function singleton<Schema extends Record<string, ComponentSchema>>(
   collection: Singleton<Schema>
 ): Singleton<Schema> {
+  validateLocalizedPath(collection);
   return collection;
 }
+
+function validateLocalizedPath(item: {
+  label: string;
+  path?: string;
+  localization?: Localization;
+}) {
+  if (item.localization && !item.path?.includes(LOCALE_PLACEHOLDER)) {
+    throw new Error(
+      `The path of "${item.label}" must include ${LOCALE_PLACEHOLDER} since it has localization`
+    );
+  }
+}
@@ -26,6 +26,47 @@ export type JsonYamlValue =
 
 type JsonYamlValueWithoutNull = JsonYamlValue & {};
 
+export type JSONSchema = {
+  $schema?: string;
+  title?: string;
+  description?: string;
+  type?:
+    | 'string'
+    | 'number'
+    | 'integer'
+    | 'boolean'
+    | 'null'
+    | 'object'
+    | 'array';
+  enum?: readonly (string | number | boolean | null)[];
+  const?: string | number | boolean | null;
+  format?: string;
+  default?: unknown;
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+  items?: JSONSchema;
+  minItems?: number;
+  maxItems?: number;
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JSONSchema;
+  anyOf?: JSONSchema[];
+};
+
+/**
+ * Describes the value a form field stores in the data of an entry. It's used
+ * to generate JSON Schema and TypeScript types for entries.
+ *
+ * The value of the field when reading is expected to be `null` when the value
+ * isn't stored unless the field is required or the schema has a `default`.
+ */
+export type StoredValueSchema = {
+  schema: JSONSchema;
+  isRequired?: boolean;
+};
+
 export type FormFieldStoredValue = JsonYamlValueWithoutNull | undefined;
 
 export type BasicFormField<
@@ -48,6 +89,19 @@ export type BasicFormField<
     parse(value: FormFieldStoredValue): ReaderValue;
   };
   label?: string;
+  storedValue?: StoredValueSchema;
+};
+
+/**
+ * A form field whose value is computed from the other fields of the entry
+ * when it's saved rather than being edited.
+ */
+export type ComputedFormField<
+  Value extends JsonYamlValue,
+  Entry = Record<string, JsonYamlValue | undefined>,
+> = BasicFormField<Value | null> & {
+  compute(entry: Entry): Value | null;
+  computeOnRead: boolean;
 };
 
 export type SlugFormField<
@@ -85,6 +139,7 @@ export type SlugFormField<
     ): ReaderValueAsSlugField;
   };
   label?: string;
+  storedValue?: StoredValueSchema;
 };
 
 export type AssetFormField<
@@ -127,6 +182,7 @@ export type AssetFormField<
     parse(value: FormFieldStoredValue): ReaderValue;
   };
   label?: string;
+  storedValue?: StoredValueSchema;
 };
 
 export type ContentFormField<
@@ -171,6 +227,7 @@ export type ContentFormField<
       }
     ): ReaderValue;
   };
+  label?: string;
   collaboration?: {
     toYjs: (value: ParsedValue) => unknown;
     fromYjs: (yjsValue: unknown, awareness: Awareness) => ParsedValue;
@@ -20,7 +20,7 @@ export function clientSideValidateProp(
   }
 }
 
-function validateValueWithSchema(
+export function validateValueWithSchema(
   schema: ComponentSchema,
   value: any,
   slugField: SlugFieldInfo | undefined,
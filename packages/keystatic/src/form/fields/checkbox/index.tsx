@@ -36,6 +36,7 @@ export function checkbox({
     validate(value) {
       return value;
     },
+    storedValue: { schema: { type: 'boolean', default: defaultValue } },
     serialize(value) {
       return { value };
     },
@@ -0,0 +1,68 @@
+import { ComputedFormField, JsonYamlValue } from '../../api';
+import { ComputedFieldInput } from '#field-ui/computed';
+
+/**
+ * The type of the entry passed to `compute` can't be inferred from the schema
+ * since the field is a part of it. Annotate the parameter of `compute`, e.g.
+ * `compute: (entry: { content: string }) => ...`, or pass the type arguments,
+ * e.g. `fields.computed<number, { content: string }>({ ... })`.
+ */
+export function computed<
+  Value extends JsonYamlValue,
+  Entry = Record<string, JsonYamlValue | undefined>,
+>({
+  label,
+  description,
+  compute,
+  computeOnRead = false,
+}: {
+  label: string;
+  description?: string;
+  /**
+   * Computes the value from the entry as it's stored, i.e. the values of the
+   * other fields as they're written to the data file and the content field as
+   * a string. Computed fields are computed in the order they're in the schema
+   * so a computed field can use the computed fields before it.
+   */
+  compute: (entry: Entry) => Value | null;
+  /**
+   * Compute the value when reading entries with the reader API rather than
+   * reading the value that was stored when the entry was last saved.
+   * @default false
+   */
+  computeOnRead?: boolean;
+}): ComputedFormField<Value, Entry> {
+  return {
+    kind: 'form',
+    label,
+    compute,
+    computeOnRead,
+    Input(props) {
+      return (
+        <ComputedFieldInput
+          label={label}
+          description={description}
+          value={props.value}
+        />
+      );
+    },
+    defaultValue() {
+      return null;
+    },
+    parse(value) {
+      return (value ?? null) as Value | null;
+    },
+    serialize(value) {
+      return { value: value ?? undefined };
+    },
+    validate(value) {
+      return value;
+    },
+    reader: {
+      parse(value) {
+        return (value ?? null) as Value | null;
+      },
+    },
+    storedValue: { schema: {} },
+  };
+}
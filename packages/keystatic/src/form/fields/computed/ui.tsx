@@ -0,0 +1,25 @@
+import { TextField } from '@keystar/ui/text-field';
+import { JsonYamlValue } from '../../api';
+
+function formatValue(value: JsonYamlValue) {
+  if (value === null) return '';
+  if (typeof value === 'string') return value;
+  if (value instanceof Date) return value.toISOString();
+  return JSON.stringify(value);
+}
+
+export function ComputedFieldInput(props: {
+  label: string;
+  description: string | undefined;
+  value: JsonYamlValue;
+}) {
+  return (
+    <TextField
+      label={props.label}
+      description={props.description}
+      value={formatValue(props.value)}
+      placeholder="Computed when the entry is saved"
+      isReadOnly
+    />
+  );
+}
@@ -1,4 +1,6 @@
-import { createContext, useContext } from 'react';
+import { ReactNode, createContext, useContext } from 'react';
+
+import { css } from '@keystar/ui/style';
 
 export const FIELD_GRID_COLUMNS = 12;
 
@@ -9,3 +11,24 @@ const FieldContext = createContext<FieldContextType>({
 
 export const useFieldContext = () => useContext(FieldContext);
 export const FieldContextProvider = FieldContext.Provider;
+
+/** The keys of the top-level fields of an entry that can't be edited */
+const ReadOnlyFieldsContext = createContext<ReadonlySet<string>>(new Set());
+
+export const useReadOnlyFields = () => useContext(ReadOnlyFieldsContext);
+export const ReadOnlyFieldsProvider = ReadOnlyFieldsContext.Provider;
+
+export function ReadOnlyField(props: {
+  isReadOnly: boolean;
+  children: ReactNode;
+}) {
+  if (!props.isReadOnly) return <>{props.children}</>;
+  return (
+    <fieldset
+      disabled
+      className={css({ border: 0, margin: 0, minWidth: 0, padding: 0 })}
+    >
+      {props.children}
+    </fieldset>
+  );
+}
@@ -62,6 +62,10 @@ export function date<IsRequired extends boolean | undefined>({
       }
       return value;
     },
+    storedValue: {
+      schema: { type: 'string', format: 'date' },
+      isRequired: validation?.isRequired,
+    },
     serialize(value) {
       if (value === null) return { value: undefined };
       const date = new Date(value);
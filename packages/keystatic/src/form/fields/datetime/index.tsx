@@ -61,6 +61,10 @@ export function datetime<IsRequired extends boolean | undefined>({
       }
       return value;
     },
+    storedValue: {
+      schema: { type: 'string', format: 'date-time' },
+      isRequired: validation?.isRequired,
+    },
     serialize(value) {
       if (value === null) return { value: undefined };
       const date = new Date(value + 'Z');
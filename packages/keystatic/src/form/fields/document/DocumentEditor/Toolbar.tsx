@@ -30,6 +30,7 @@ import { useEntryLayoutSplitPaneContext } from '../../../../app/entry-form';
 import { TextAlignMenu } from './alignment';
 import { blockquoteButton } from './blockquote/blockquote-ui';
 import { codeButton } from './code-block/code-block-ui';
+import { CommentButtons } from './comments';
 import { insertComponentBlock } from './component-blocks';
 import { dividerButton } from './divider';
 import { DocumentFeatures } from './document-features';
@@ -119,6 +120,7 @@ export function Toolbar({
             {hasComponentBlocksForInsertMenu && insertBlocksInToolbar}
           </ToolbarGroup>
         )}
+        <CommentButtons />
         {/* make sure elements fill space */}
         <Box flex />
       </ToolbarScrollArea>
@@ -0,0 +1,179 @@
+import { ReactNode, useEffect, useMemo } from 'react';
+import {
+  Editor,
+  Element,
+  Node,
+  NodeEntry,
+  Path,
+  Point,
+  Range,
+  Text,
+  Transforms,
+} from 'slate';
+import { useSlate } from 'slate-react';
+
+import { ActionButton } from '@keystar/ui/button';
+import { Icon } from '@keystar/ui/icon';
+import { messageSquareDiffIcon } from '@keystar/ui/icon/icons/messageSquareDiffIcon';
+import { messageSquarePlusIcon } from '@keystar/ui/icon/icons/messageSquarePlusIcon';
+import { Flex } from '@keystar/ui/layout';
+import { Tooltip, TooltipTrigger } from '@keystar/ui/tooltip';
+
+import { createAnchor, findAnchor } from '../../../../app/comments';
+import {
+  commentHighlightClassName,
+  useComments,
+} from '../../../../app/comments-ui';
+
+type TextEntry = { path: Path; start: number; length: number };
+
+/**
+ * The text of an editor with blocks separated by newlines and where each text
+ * node starts in the text
+ */
+function getTextWithPaths(editor: Editor) {
+  let text = '';
+  const entries: TextEntry[] = [];
+  let isFirstBlock = true;
+  for (const [block, blockPath] of Editor.nodes(editor, {
+    at: [],
+    match: node => Element.isElement(node) && Editor.hasInlines(editor, node),
+  })) {
+    if (!isFirstBlock) text += '\n';
+    isFirstBlock = false;
+    for (const [node, path] of Node.texts(block)) {
+      entries.push({
+        path: [...blockPath, ...path],
+        start: text.length,
+        length: node.text.length,
+      });
+      text += node.text;
+    }
+  }
+  return { text, entries };
+}
+
+function offsetToPoint(entries: TextEntry[], offset: number): Point {
+  const entry =
+    entries.find(
+      entry => offset >= entry.start && offset <= entry.start + entry.length
+    ) ?? entries[entries.length - 1];
+  return { path: entry.path, offset: offset - entry.start };
+}
+
+function pointToOffset(entries: TextEntry[], point: Point) {
+  const entry = entries.find(entry => Path.equals(entry.path, point.path));
+  return entry && entry.start + point.offset;
+}
+
+/**
+ * Gets the decorations that highlight the text that threads are about, for
+ * the `decorate` prop of `Editable`
+ */
+export function useCommentDecorations(editor: Editor) {
+  const comments = useComments();
+  const registerEditor = comments?.registerEditor;
+  const threads = comments?.threads;
+  const activeThreadId = comments?.activeThreadId;
+
+  useEffect(() => {
+    return registerEditor?.({
+      getText: () => getTextWithPaths(editor).text,
+      replaceText: (from, to, text) => {
+        const { entries } = getTextWithPaths(editor);
+        Transforms.insertText(editor, text, {
+          at: {
+            anchor: offsetToPoint(entries, from),
+            focus: offsetToPoint(entries, to),
+          },
+        });
+      },
+    });
+  }, [editor, registerEditor]);
+
+  const { children } = editor;
+  return useMemo(() => {
+    if (!threads) return () => [];
+    const { text, entries } = getTextWithPaths(editor);
+    const ranges: Range[] = [];
+    for (const thread of threads) {
+      if (thread.resolved) continue;
+      const range = findAnchor(text, thread.anchor);
+      if (!range) continue;
+      ranges.push({
+        anchor: offsetToPoint(entries, range.from),
+        focus: offsetToPoint(entries, range.to),
+        commentThread: thread.id,
+        isActiveCommentThread: thread.id === activeThreadId || undefined,
+      });
+    }
+    return ([node, path]: NodeEntry<Node>): Range[] => {
+      if (!Text.isText(node) || !ranges.length) return [];
+      const nodeRange = Editor.range(editor, path);
+      return ranges.flatMap(range => {
+        const intersection = Range.intersection(range, nodeRange);
+        return intersection ? [{ ...range, ...intersection }] : [];
+      });
+    };
+    // the decorations change when the content of the editor changes
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [activeThreadId, children, editor, threads]);
+}
+
+export function CommentHighlight(props: {
+  threadId: string;
+  isActive: boolean;
+  children: ReactNode;
+}) {
+  const comments = useComments();
+  return (
+    <span
+      className={commentHighlightClassName}
+      data-active={props.isActive}
+      onClick={() => comments?.showThread(props.threadId)}
+    >
+      {props.children}
+    </span>
+  );
+}
+
+export function CommentButtons() {
+  const editor = useSlate();
+  const comments = useComments();
+  if (!comments) return null;
+  const { selection } = editor;
+  const isDisabled = !selection || Range.isCollapsed(selection);
+  const start = (kind: 'comment' | 'suggestion') => {
+    if (!selection) return;
+    const { text, entries } = getTextWithPaths(editor);
+    const [startPoint, endPoint] = Range.edges(selection);
+    const from = pointToOffset(entries, startPoint);
+    const to = pointToOffset(entries, endPoint);
+    if (from === undefined || to === undefined || from === to) return;
+    comments.startThread({ anchor: createAnchor(text, from, to), kind });
+  };
+  return (
+    <Flex gap="regular">
+      <TooltipTrigger delay={200}>
+        <ActionButton
+          prominence="low"
+          isDisabled={isDisabled}
+          onPress={() => start('comment')}
+        >
+          <Icon src={messageSquarePlusIcon} />
+        </ActionButton>
+        <Tooltip>Comment</Tooltip>
+      </TooltipTrigger>
+      <TooltipTrigger delay={200}>
+        <ActionButton
+          prominence="low"
+          isDisabled={isDisabled}
+          onPress={() => start('suggestion')}
+        >
+          <Icon src={messageSquareDiffIcon} />
+        </ActionButton>
+        <Tooltip>Suggest edit</Tooltip>
+      </TooltipTrigger>
+    </Flex>
+  );
+}
@@ -43,6 +43,7 @@ import { renderElement } from './render-element';
 import { nestList, unnestList } from './lists/lists';
 import { getPlaceholderTextForPropPath } from './component-blocks/utils';
 import { renderLeaf } from './leaf';
+import { useCommentDecorations } from './comments';
 import { ToolbarStateProvider, useDocumentEditorConfig } from './toolbar-state';
 import { ActiveBlockPopoverProvider } from './primitives';
 import {
@@ -454,6 +455,7 @@ export function DocumentEditorEditable(props: EditableProps) {
     () => getKeyDownHandler(editor, documentFeatures),
     [editor, documentFeatures]
   );
+  const decorateComments = useCommentDecorations(editor);
 
   return (
     <ActiveBlockPopoverProvider editor={editor}>
@@ -462,7 +464,7 @@ export function DocumentEditorEditable(props: EditableProps) {
           placeholder='Start writing or press "/" for commands...'
           decorate={useCallback(
             ([node, path]: NodeEntry<Node>) => {
-              let decorations: Range[] = [];
+              let decorations: Range[] = decorateComments([node, path]);
               if (node.type === 'component-block') {
                 if (
                   node.children.length === 1 &&
@@ -537,7 +539,7 @@ export function DocumentEditorEditable(props: EditableProps) {
               }
               return decorations;
             },
-            [editor, componentBlocks]
+            [editor, componentBlocks, decorateComments]
           )}
           onKeyDown={onKeyDown}
           renderElement={renderElement}
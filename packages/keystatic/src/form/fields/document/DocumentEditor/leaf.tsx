@@ -2,6 +2,7 @@ import { css, tokenSchema } from '@keystar/ui/style';
 import { ReactNode, useState } from 'react';
 import { RenderLeafProps } from 'slate-react';
 
+import { CommentHighlight } from './comments';
 import { InsertMenu } from './insert-menu';
 
 function Placeholder({
@@ -64,6 +65,8 @@ const Leaf = ({ leaf, text, children, attributes }: RenderLeafProps) => {
     subscript,
     placeholder,
     insertMenu,
+    commentThread,
+    isActiveCommentThread,
     ...rest
   } = leaf;
 
@@ -99,6 +102,16 @@ const Leaf = ({ leaf, text, children, attributes }: RenderLeafProps) => {
   if (underline) {
     children = <u>{children}</u>;
   }
+  if (commentThread !== undefined) {
+    children = (
+      <CommentHighlight
+        threadId={commentThread}
+        isActive={!!isActiveCommentThread}
+      >
+        {children}
+      </CommentHighlight>
+    );
+  }
   const prismClassNames = Object.keys(rest)
     .filter(x => x.startsWith('prism_'))
     .map(x => styles.get(x.replace('prism_', '')));
@@ -95,12 +95,17 @@ type Element = (
 declare module 'slate' {
   interface CustomTypes {
     Element: Element;
-    Range: { placeholder?: string } & BaseRange;
+    Range: {
+      placeholder?: string;
+      commentThread?: string;
+      isActiveCommentThread?: true;
+    } & BaseRange;
     Editor: { type?: undefined } & BaseEditor & ReactEditor & HistoryEditor;
     Text: {
       type?: undefined;
       text: string;
       placeholder?: string;
-    } & { [Key in Mark | 'insertMenu']?: true };
+      commentThread?: string;
+    } & { [Key in Mark | 'insertMenu' | 'isActiveCommentThread']?: true };
   }
 }
@@ -296,6 +296,7 @@ export function document({
   return {
     kind: 'form',
     formKind: 'content',
+    label,
     defaultValue() {
       return [{ type: 'paragraph', children: [{ text: '' }] }];
     },
@@ -149,6 +149,15 @@ test('array', () => {
               },
               "serialize": [Function],
               "serializeWithSlug": [Function],
+              "storedValue": {
+                "isRequired": false,
+                "schema": {
+                  "default": "",
+                  "maxLength": undefined,
+                  "minLength": undefined,
+                  "type": "string",
+                },
+              },
               "validate": [Function],
             },
             "href": {
@@ -161,6 +170,13 @@ test('array', () => {
                 "parse": [Function],
               },
               "serialize": [Function],
+              "storedValue": {
+                "isRequired": undefined,
+                "schema": {
+                  "format": "uri",
+                  "type": "string",
+                },
+              },
               "validate": [Function],
             },
           },
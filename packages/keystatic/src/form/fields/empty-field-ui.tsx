@@ -26,6 +26,7 @@ export let SlugFieldInput = empty,
   BlocksFieldInput = empty,
   DocumentFieldInput = empty,
   CheckboxFieldInput = empty,
+  ComputedFieldInput = empty,
   createEditorSchema = empty,
   getDefaultValue = empty,
   parseToEditorState = empty,
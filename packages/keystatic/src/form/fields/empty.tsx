@@ -12,6 +12,7 @@ export function empty(): BasicFormField<null> {
     parse() {
       return null;
     },
+    storedValue: { schema: { type: 'null' } },
     serialize() {
       return { value: undefined };
     },
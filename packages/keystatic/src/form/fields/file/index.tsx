@@ -66,6 +66,10 @@ export function file<IsRequired extends boolean | undefined>({
       assertRequired(value, validation, label);
       return value;
     },
+    storedValue: {
+      schema: { type: 'string' },
+      isRequired: validation?.isRequired,
+    },
     serialize(value, args) {
       if (value === null) {
         return { value: undefined, asset: undefined };
@@ -1,15 +1,20 @@
 import { ButtonGroup, ActionButton, Button } from '@keystar/ui/button';
+import { DialogContainer } from '@keystar/ui/dialog';
 import { FieldLabel, FieldMessage } from '@keystar/ui/field';
 import { Flex } from '@keystar/ui/layout';
 import { TextField } from '@keystar/ui/text-field';
 import { Text } from '@keystar/ui/typography';
 
 import { useIsInDocumentEditor } from '../document/DocumentEditor';
-import { useId, useReducer } from 'react';
+import { useId, useReducer, useState } from 'react';
 import { FormFieldInputProps } from '../../api';
+import {
+  MediaPickerDialog,
+  useHasMediaLibrary,
+} from '../../../app/media-picker';
 import { getUploadedFile, useObjectURL } from '../image/ui';
 
-// TODO: button labels ("Choose file", "Remove", "Download") need i18n support
+// TODO: button labels ("Choose file", "Choose existing", "Remove", "Download") need i18n support
 export function FileFieldInput(
   props: FormFieldInputProps<{
     data: Uint8Array;
@@ -27,6 +32,8 @@ export function FileFieldInput(
   const objectUrl = useObjectURL(value === null ? null : value.data);
   const labelId = useId();
   const descriptionId = useId();
+  const hasMediaLibrary = useHasMediaLibrary();
+  const [mediaPickerIsOpen, setMediaPickerOpen] = useState(false);
   return (
     <Flex
       aria-describedby={props.description ? descriptionId : undefined}
@@ -62,6 +69,11 @@ export function FileFieldInput(
         >
           Choose file
         </ActionButton>
+        {hasMediaLibrary && (
+          <ActionButton onPress={() => setMediaPickerOpen(true)}>
+            Choose existing
+          </ActionButton>
+        )}
         {value !== null && (
           <>
             <ActionButton
@@ -94,6 +106,20 @@ export function FileFieldInput(
           value={value.filename}
         />
       )}
+      <DialogContainer onDismiss={() => setMediaPickerOpen(false)}>
+        {mediaPickerIsOpen && (
+          <MediaPickerDialog
+            accept="file"
+            onSelect={({ content, filename }) => {
+              props.onChange({
+                data: content,
+                filename,
+                extension: filename.match(/\.([^.]+$)/)?.[1] ?? '',
+              });
+            }}
+          />
+        )}
+      </DialogContainer>
       {(props.forceValidation || blurred) &&
         props.validation?.isRequired &&
         value === null && (
@@ -0,0 +1,99 @@
+// an encoder for https://blurha.sh, the placeholders are small enough to be
+// stored in the data file of an entry next to the path of the image
+
+const digits =
+  '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz#$%*+,-.:;=?@[]^_{|}~';
+
+function encode83(value: number, length: number) {
+  let result = '';
+  for (let i = 1; i <= length; i++) {
+    const digit = Math.floor(value / Math.pow(83, length - i)) % 83;
+    result += digits[digit];
+  }
+  return result;
+}
+
+function sRGBToLinear(value: number) {
+  const v = value / 255;
+  return v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+}
+
+function linearToSRGB(value: number) {
+  const v = Math.max(0, Math.min(1, value));
+  return v <= 0.0031308
+    ? Math.trunc(v * 12.92 * 255 + 0.5)
+    : Math.trunc((1.055 * Math.pow(v, 1 / 2.4) - 0.055) * 255 + 0.5);
+}
+
+function signPow(value: number, exponent: number) {
+  return Math.sign(value) * Math.pow(Math.abs(value), exponent);
+}
+
+type Factor = [r: number, g: number, b: number];
+
+/**
+ * Encodes RGBA pixels, like the data of an `ImageData`, as a blurhash with
+ * `componentsX` by `componentsY` components, which must be between 1 and 9.
+ */
+export function encodeBlurhash(
+  pixels: Uint8ClampedArray,
+  width: number,
+  height: number,
+  componentsX: number,
+  componentsY: number
+) {
+  const factors: Factor[] = [];
+  for (let y = 0; y < componentsY; y++) {
+    for (let x = 0; x < componentsX; x++) {
+      const normalisation = x === 0 && y === 0 ? 1 : 2;
+      const factor: Factor = [0, 0, 0];
+      for (let j = 0; j < height; j++) {
+        for (let i = 0; i < width; i++) {
+          const basis =
+            normalisation *
+            Math.cos((Math.PI * x * i) / width) *
+            Math.cos((Math.PI * y * j) / height);
+          const index = 4 * (i + j * width);
+          factor[0] += basis * sRGBToLinear(pixels[index]);
+          factor[1] += basis * sRGBToLinear(pixels[index + 1]);
+          factor[2] += basis * sRGBToLinear(pixels[index + 2]);
+        }
+      }
+      const scale = 1 / (width * height);
+      factors.push([factor[0] * scale, factor[1] * scale, factor[2] * scale]);
+    }
+  }
+
+  const [dc, ...ac] = factors;
+  let hash = encode83(componentsX - 1 + (componentsY - 1) * 9, 1);
+  let maximumValue = 1;
+  if (ac.length) {
+    const actualMaximumValue = Math.max(
+      ...ac.map(factor => Math.max(...factor.map(Math.abs)))
+    );
+    const quantisedMaximumValue = Math.max(
+      0,
+      Math.min(82, Math.floor(actualMaximumValue * 166 - 0.5))
+    );
+    maximumValue = (quantisedMaximumValue + 1) / 166;
+    hash += encode83(quantisedMaximumValue, 1);
+  } else {
+    hash += encode83(0, 1);
+  }
+  hash += encode83(
+    (linearToSRGB(dc[0]) << 16) +
+      (linearToSRGB(dc[1]) << 8) +
+      linearToSRGB(dc[2]),
+    4
+  );
+  for (const factor of ac) {
+    const [r, g, b] = factor.map(value =>
+      Math.max(
+        0,
+        Math.min(18, Math.floor(signPow(value / maximumValue, 0.5) * 9 + 9.5))
+      )
+    );
+    hash += encode83(r * 19 * 19 + g * 19 + b, 2);
+  }
+  return hash;
+}
@@ -1,27 +1,82 @@
 import { fixPath } from '../../../app/path-utils';
-import { AssetFormField } from '../../api';
+import { AssetFormField, FormFieldStoredValue } from '../../api';
 import { FieldDataError } from '../error';
 import { RequiredValidation, assertRequired } from '../utils';
 import { getSrcPrefix } from './getSrcPrefix';
+import type { ImageMetadata, ImageProcessingOptions } from './processing';
 import { ImageFieldInput } from '#field-ui/image';
 
-export function image<IsRequired extends boolean | undefined>({
+export type ImageWithMetadata = {
+  src: string;
+  width: number | null;
+  height: number | null;
+  blurhash: string | null;
+};
+
+function parseStoredImage(
+  value: FormFieldStoredValue
+): { src: string; metadata: Partial<ImageMetadata> } | null {
+  if (value === undefined) return null;
+  if (typeof value === 'string') return { src: value, metadata: {} };
+  if (
+    typeof value !== 'object' ||
+    Array.isArray(value) ||
+    value instanceof Date ||
+    typeof (value as Record<string, unknown>).src !== 'string'
+  ) {
+    throw new FieldDataError('Must be a string or an object with a src');
+  }
+  const { src, width, height, blurhash } = value as Record<string, unknown>;
+  return {
+    src: src as string,
+    metadata: {
+      width: typeof width === 'number' ? width : undefined,
+      height: typeof height === 'number' ? height : undefined,
+      blurhash: typeof blurhash === 'string' ? blurhash : undefined,
+    },
+  };
+}
+
+export function image<
+  IsRequired extends boolean | undefined,
+  Metadata extends boolean | undefined = undefined,
+>({
   label,
   directory,
   validation,
   description,
   publicPath,
+  processing,
+  metadata,
 }: {
   label: string;
   directory?: string;
   validation?: { isRequired?: IsRequired };
   description?: string;
   publicPath?: string;
+  /** Resizes, converts and strips metadata from images as they're uploaded */
+  processing?: ImageProcessingOptions;
+  /**
+   * Stores the width, height and blurhash of images next to their path and
+   * reads the image as an object with them instead of the path
+   */
+  metadata?: Metadata;
 } & RequiredValidation<IsRequired>): AssetFormField<
-  { data: Uint8Array; extension: string; filename: string } | null,
-  | { data: Uint8Array; extension: string; filename: string }
+  {
+    data: Uint8Array;
+    extension: string;
+    filename: string;
+    metadata?: ImageMetadata;
+  } | null,
+  | {
+      data: Uint8Array;
+      extension: string;
+      filename: string;
+      metadata?: ImageMetadata;
+    }
   | (IsRequired extends true ? never : null),
-  string | (IsRequired extends true ? never : null)
+  | (Metadata extends true ? ImageWithMetadata : string)
+  | (IsRequired extends true ? never : null)
 > {
   return {
     kind: 'form',
@@ -33,6 +88,8 @@ export function image<IsRequired extends boolean | undefined>({
           label={label}
           description={description}
           validation={validation}
+          processing={processing}
+          withMetadata={!!metadata}
           {...props}
         />
       );
@@ -41,31 +98,49 @@ export function image<IsRequired extends boolean | undefined>({
       return null;
     },
     filename(value, args) {
-      if (typeof value === 'string') {
-        return value.slice(getSrcPrefix(publicPath, args.slug).length);
+      const stored = parseStoredImage(value);
+      if (stored) {
+        return stored.src.slice(getSrcPrefix(publicPath, args.slug).length);
       }
       return undefined;
     },
     parse(value, args) {
-      if (value === undefined) {
-        return null;
-      }
-      if (typeof value !== 'string') {
-        throw new FieldDataError('Must be a string');
-      }
-      if (args.asset === undefined) {
+      const stored = parseStoredImage(value);
+      if (stored === null || args.asset === undefined) {
         return null;
       }
+      const { width, height, blurhash } = stored.metadata;
       return {
         data: args.asset,
-        filename: value.slice(getSrcPrefix(publicPath, args.slug).length),
-        extension: value.match(/\.([^.]+$)/)?.[1] ?? '',
+        filename: stored.src.slice(getSrcPrefix(publicPath, args.slug).length),
+        extension: stored.src.match(/\.([^.]+$)/)?.[1] ?? '',
+        ...(width !== undefined &&
+          height !== undefined &&
+          blurhash !== undefined && {
+            metadata: { width, height, blurhash },
+          }),
       };
     },
     validate(value) {
       assertRequired(value, validation, label);
       return value;
     },
+    storedValue: {
+      schema: metadata
+        ? {
+            type: 'object',
+            properties: {
+              src: { type: 'string' },
+              width: { type: 'number' },
+              height: { type: 'number' },
+              blurhash: { type: 'string' },
+            },
+            required: ['src'],
+            additionalProperties: false,
+          }
+        : { type: 'string' },
+      isRequired: validation?.isRequired,
+    },
     serialize(value, args) {
       if (value === null) {
         return { value: undefined, asset: undefined };
@@ -73,20 +148,27 @@ export function image<IsRequired extends boolean | undefined>({
       const filename = args.suggestedFilenamePrefix
         ? args.suggestedFilenamePrefix + '.' + value.extension
         : value.filename;
+      const src = `${getSrcPrefix(publicPath, args.slug)}${filename}`;
       return {
-        value: `${getSrcPrefix(publicPath, args.slug)}${filename}`,
+        value: metadata ? { src, ...value.metadata } : src,
         asset: { filename, content: value.data },
       };
     },
     directory: directory ? fixPath(directory) : undefined,
     reader: {
       parse(value) {
-        if (typeof value !== 'string' && value !== undefined) {
-          throw new FieldDataError('Must be a string');
-        }
-        const val = value === undefined ? null : value;
-        assertRequired(val, validation, label);
-        return val;
+        const stored = parseStoredImage(value);
+        assertRequired(stored, validation, label);
+        if (stored === null) return stored;
+        const image: ImageWithMetadata = {
+          src: stored.src,
+          width: stored.metadata.width ?? null,
+          height: stored.metadata.height ?? null,
+          blurhash: stored.metadata.blurhash ?? null,
+        };
+        return (metadata ? image : stored.src) as Metadata extends true
+          ? ImageWithMetadata
+          : string;
       },
     },
   };
@@ -0,0 +1,177 @@
+import { encodeBlurhash } from './blurhash';
+
+export type ImageFormat = 'avif' | 'jpeg' | 'png' | 'webp';
+
+export type ImageProcessingOptions = {
+  /** Images wider than this are scaled down, keeping their aspect ratio */
+  maxWidth?: number;
+  /** Images taller than this are scaled down, keeping their aspect ratio */
+  maxHeight?: number;
+  /**
+   * The format images are converted to. Browsers that can't encode the format
+   * keep the format of the uploaded image.
+   */
+  format?: ImageFormat;
+  /** The quality of lossy formats between 0 and 1, defaults to 0.8 */
+  quality?: number;
+  /** Removes EXIF and other metadata, like the location a photo was taken */
+  stripMetadata?: boolean;
+};
+
+export type ImageMetadata = {
+  width: number;
+  height: number;
+  blurhash: string;
+};
+
+const mimeTypes: Record<ImageFormat, string> = {
+  avif: 'image/avif',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+};
+
+const extensionFormats: Record<string, ImageFormat> = {
+  avif: 'avif',
+  jpeg: 'jpeg',
+  jpg: 'jpeg',
+  png: 'png',
+  webp: 'webp',
+};
+
+export function getResizedDimensions(
+  width: number,
+  height: number,
+  options: Pick<ImageProcessingOptions, 'maxWidth' | 'maxHeight'>
+) {
+  const scale = Math.min(
+    1,
+    options.maxWidth ? options.maxWidth / width : 1,
+    options.maxHeight ? options.maxHeight / height : 1
+  );
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale)),
+  };
+}
+
+function loadImage(content: Uint8Array, filename: string) {
+  const url = URL.createObjectURL(
+    new Blob([content], {
+      type: filename.endsWith('.svg') ? 'image/svg+xml' : undefined,
+    })
+  );
+  const image = new Image();
+  image.src = url;
+  return image.decode().then(
+    () => {
+      URL.revokeObjectURL(url);
+      return image;
+    },
+    () => {
+      URL.revokeObjectURL(url);
+      throw new Error(`${filename} could not be read as an image`);
+    }
+  );
+}
+
+function drawImage(image: HTMLImageElement, width: number, height: number) {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d')!;
+  context.drawImage(image, 0, 0, width, height);
+  return { canvas, context };
+}
+
+function getBlurhash(image: HTMLImageElement) {
+  // blurhashes only keep the rough colours of an image so encoding a small
+  // version of it is much faster without changing the result much
+  const { width, height } = getResizedDimensions(
+    image.naturalWidth,
+    image.naturalHeight,
+    { maxWidth: 32, maxHeight: 32 }
+  );
+  const { context } = drawImage(image, width, height);
+  const { data } = context.getImageData(0, 0, width, height);
+  return encodeBlurhash(data, width, height, 4, 3);
+}
+
+async function encodeCanvas(
+  canvas: HTMLCanvasElement,
+  format: ImageFormat,
+  quality: number
+) {
+  const blob = await new Promise<Blob | null>(resolve =>
+    canvas.toBlob(resolve, mimeTypes[format], quality)
+  );
+  // browsers encode PNGs instead of formats they can't encode
+  if (!blob || blob.type !== mimeTypes[format]) return undefined;
+  return { blob, format };
+}
+
+/**
+ * Applies the processing options of an image field to an uploaded image
+ * before it's stored and reads its metadata when `withMetadata` is true.
+ *
+ * SVGs and GIFs are stored as they were uploaded since they would lose their
+ * vectors or animations.
+ */
+export async function processImage(
+  image: { content: Uint8Array; filename: string },
+  options: ImageProcessingOptions | undefined,
+  withMetadata: boolean
+): Promise<{
+  content: Uint8Array;
+  filename: string;
+  metadata: ImageMetadata | undefined;
+}> {
+  const match = image.filename.match(/^(.*)\.([^.]+)$/);
+  const basename = match?.[1] ?? image.filename;
+  const sourceFormat = extensionFormats[match?.[2].toLowerCase() ?? ''] as
+    | ImageFormat
+    | undefined;
+  if (!options && !withMetadata) {
+    return { ...image, metadata: undefined };
+  }
+  const decoded = await loadImage(image.content, image.filename);
+  const { width, height } = getResizedDimensions(
+    decoded.naturalWidth,
+    decoded.naturalHeight,
+    options ?? {}
+  );
+  const blurhash = withMetadata ? getBlurhash(decoded) : undefined;
+  const getMetadata = (width: number, height: number) =>
+    blurhash === undefined ? undefined : { width, height, blurhash };
+  const unprocessed = {
+    ...image,
+    metadata: getMetadata(decoded.naturalWidth, decoded.naturalHeight),
+  };
+
+  const format = options?.format ?? sourceFormat;
+  const shouldEncode =
+    options !== undefined &&
+    sourceFormat !== undefined &&
+    format !== undefined &&
+    (format !== sourceFormat ||
+      width !== decoded.naturalWidth ||
+      height !== decoded.naturalHeight ||
+      !!options.stripMetadata);
+  if (!shouldEncode) return unprocessed;
+
+  const { canvas } = drawImage(decoded, width, height);
+  const quality = options.quality ?? 0.8;
+  let encoded = await encodeCanvas(canvas, format, quality);
+  if (!encoded && format !== sourceFormat) {
+    encoded = await encodeCanvas(canvas, sourceFormat, quality);
+  }
+  if (!encoded) return unprocessed;
+  return {
+    content: new Uint8Array(await encoded.blob.arrayBuffer()),
+    filename:
+      encoded.format === sourceFormat
+        ? image.filename
+        : `${basename}.${encoded.format}`,
+    metadata: getMetadata(width, height),
+  };
+}
@@ -1,4 +1,5 @@
 import { ButtonGroup, ActionButton } from '@keystar/ui/button';
+import { DialogContainer } from '@keystar/ui/dialog';
 import { FieldLabel, FieldMessage } from '@keystar/ui/field';
 import { Flex, Box } from '@keystar/ui/layout';
 import { tokenSchema } from '@keystar/ui/style';
@@ -8,6 +9,15 @@ import { Text } from '@keystar/ui/typography';
 import { useIsInDocumentEditor } from '../document/DocumentEditor';
 import { useState, useEffect, useReducer, useId } from 'react';
 import { FormFieldInputProps } from '../../api';
+import {
+  ImageMetadata,
+  ImageProcessingOptions,
+  processImage,
+} from './processing';
+import {
+  MediaPickerDialog,
+  useHasMediaLibrary,
+} from '../../../app/media-picker';
 
 export function getUploadedFileObject(
   accept: string
@@ -59,16 +69,19 @@ export function useObjectURL(data: Uint8Array | null) {
   return url;
 }
 
-// TODO: button labels ("Choose file", "Remove") need i18n support
+// TODO: button labels ("Choose file", "Choose existing", "Remove") need i18n support
 export function ImageFieldInput(
   props: FormFieldInputProps<{
     data: Uint8Array;
     extension: string;
     filename: string;
+    metadata?: ImageMetadata;
   } | null> & {
     label: string;
     description: string | undefined;
     validation: { isRequired?: boolean } | undefined;
+    processing?: ImageProcessingOptions;
+    withMetadata?: boolean;
   }
 ) {
   const { value } = props;
@@ -77,6 +90,33 @@ export function ImageFieldInput(
   const objectUrl = useObjectURL(value === null ? null : value.data);
   const labelId = useId();
   const descriptionId = useId();
+  const hasMediaLibrary = useHasMediaLibrary();
+  const [mediaPickerIsOpen, setMediaPickerOpen] = useState(false);
+  const [processingState, setProcessingState] = useState<
+    { kind: 'idle' } | { kind: 'loading' } | { kind: 'error'; error: Error }
+  >({ kind: 'idle' });
+  const onImage = async (image: { content: Uint8Array; filename: string }) => {
+    setProcessingState({ kind: 'loading' });
+    try {
+      const processed = await processImage(
+        image,
+        props.processing,
+        !!props.withMetadata
+      );
+      setProcessingState({ kind: 'idle' });
+      const extension = processed.filename.match(/\.([^.]+$)/)?.[1];
+      if (extension) {
+        props.onChange({
+          data: processed.content,
+          extension,
+          filename: processed.filename,
+          ...(processed.metadata && { metadata: processed.metadata }),
+        });
+      }
+    } catch (error) {
+      setProcessingState({ kind: 'error', error: error as Error });
+    }
+  };
   return (
     <Flex
       aria-describedby={props.description ? descriptionId : undefined}
@@ -99,22 +139,24 @@ export function ImageFieldInput(
       )}
       <ButtonGroup>
         <ActionButton
+          isDisabled={processingState.kind === 'loading'}
           onPress={async () => {
             const image = await getUploadedImage();
             if (image) {
-              const extension = image.filename.match(/\.([^.]+$)/)?.[1];
-              if (extension) {
-                props.onChange({
-                  data: image.content,
-                  extension,
-                  filename: image.filename,
-                });
-              }
+              await onImage(image);
             }
           }}
         >
           Choose file
         </ActionButton>
+        {hasMediaLibrary && (
+          <ActionButton
+            isDisabled={processingState.kind === 'loading'}
+            onPress={() => setMediaPickerOpen(true)}
+          >
+            Choose existing
+          </ActionButton>
+        )}
         {value !== null && (
           <ActionButton
             prominence="low"
@@ -127,6 +169,11 @@ export function ImageFieldInput(
           </ActionButton>
         )}
       </ButtonGroup>
+      {processingState.kind === 'loading' && (
+        <Text size="small" color="neutralSecondary">
+          Processing image…
+        </Text>
+      )}
       {objectUrl && (
         <Box
           alignSelf="start"
@@ -155,6 +202,14 @@ export function ImageFieldInput(
           value={value.filename}
         />
       )}
+      <DialogContainer onDismiss={() => setMediaPickerOpen(false)}>
+        {mediaPickerIsOpen && (
+          <MediaPickerDialog accept="image" onSelect={onImage} />
+        )}
+      </DialogContainer>
+      {processingState.kind === 'error' && (
+        <FieldMessage>{processingState.error.message}</FieldMessage>
+      )}
       {(props.forceValidation || blurred) &&
         props.validation?.isRequired &&
         value === null && (
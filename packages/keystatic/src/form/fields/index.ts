@@ -3,6 +3,7 @@ export { blocks } from './blocks';
 export { checkbox } from './checkbox';
 export { child } from './child';
 export { cloudImage } from './cloudImage';
+export { computed } from './computed';
 export { conditional } from './conditional';
 export { date } from './date';
 export { datetime } from './datetime';
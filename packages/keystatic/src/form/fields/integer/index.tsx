@@ -54,6 +54,14 @@ export function integer<IsRequired extends boolean | undefined>({
       assertRequired(value, validation, label);
       return value;
     },
+    storedValue: {
+      schema: {
+        type: 'integer',
+        minimum: validation?.min,
+        maximum: validation?.max,
+      },
+      isRequired: validation?.isRequired,
+    },
     serialize(value) {
       return { value: value === null ? undefined : value };
     },
@@ -64,6 +64,9 @@ export type EditorConfig = {
     | undefined;
   divider: boolean;
   codeBlock: { schema: Record<string, ComponentSchema> } | undefined;
+  taskList: boolean;
+  footnote: boolean;
+  definitionList: boolean;
 };
 
 export type MarkdocEditorOptions = {
@@ -88,6 +91,9 @@ export type MarkdocEditorOptions = {
       };
   divider?: boolean;
   codeBlock?: boolean | { schema: Record<string, ComponentSchema> };
+  taskList?: boolean;
+  footnote?: boolean;
+  definitionList?: boolean;
 };
 
 export type MDXEditorOptions = {
@@ -110,6 +116,9 @@ export type MDXEditorOptions = {
       };
   divider?: boolean;
   codeBlock?: boolean;
+  taskList?: boolean;
+  footnote?: boolean;
+  definitionList?: boolean;
 };
 
 type EditorOptions = MarkdocEditorOptions | MDXEditorOptions;
@@ -171,5 +180,8 @@ export function editorOptionsToConfig(options: EditorOptions): EditorConfig {
                 ? options.codeBlock.schema
                 : {},
           },
+    taskList: options.taskList ?? false,
+    footnote: options.footnote ?? false,
+    definitionList: options.definitionList ?? false,
   };
 }
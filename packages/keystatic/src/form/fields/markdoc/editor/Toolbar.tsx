@@ -26,6 +26,7 @@ import { codeIcon } from '@keystar/ui/icon/icons/codeIcon';
 import { italicIcon } from '@keystar/ui/icon/icons/italicIcon';
 import { listIcon } from '@keystar/ui/icon/icons/listIcon';
 import { listOrderedIcon } from '@keystar/ui/icon/icons/listOrderedIcon';
+import { listTodoIcon } from '@keystar/ui/icon/icons/listTodoIcon';
 import { minusIcon } from '@keystar/ui/icon/icons/minusIcon';
 import { plusIcon } from '@keystar/ui/icon/icons/plusIcon';
 import { quoteIcon } from '@keystar/ui/icon/icons/quoteIcon';
@@ -55,6 +56,8 @@ import { DialogContainer } from '@keystar/ui/dialog';
 import { linkIcon } from '@keystar/ui/icon/icons/linkIcon';
 import { markAround } from './popovers';
 import { useEditorKeydownListener } from './keydown';
+import { SourceModeButton } from './source-mode';
+import { CommentButtons } from './comments';
 
 export function ToolbarButton(props: {
   children: ReactNode;
@@ -263,10 +266,12 @@ export const Toolbar = memo(function Toolbar(
             )}
             <ImageToolbarButton />
           </EditorToolbarGroup>
+          <CommentButtons />
         </EditorToolbar>
       </ToolbarScrollArea>
 
       <InsertBlockMenu />
+      <SourceModeButton />
     </ToolbarWrapper>
   );
 });
@@ -305,7 +310,7 @@ const ToolbarContainer = ({ children }: { children: ReactNode }) => {
   );
 };
 
-const ToolbarWrapper = (props: HTMLAttributes<HTMLDivElement>) => {
+export const ToolbarWrapper = (props: HTMLAttributes<HTMLDivElement>) => {
   let entryLayoutPane = useEntryLayoutSplitPaneContext();
   return (
     <div
@@ -331,7 +336,7 @@ const ToolbarWrapper = (props: HTMLAttributes<HTMLDivElement>) => {
   );
 };
 
-const ToolbarScrollArea = (props: { children: ReactNode }) => {
+export const ToolbarScrollArea = (props: { children: ReactNode }) => {
   let entryLayoutPane = useEntryLayoutSplitPaneContext();
   return (
     <div
@@ -639,6 +644,8 @@ function getActiveListType(state: EditorState, schema: EditorSchema) {
       return 'ordered_list' as const;
     } else if (node.type === schema.nodes.unordered_list) {
       return 'unordered_list' as const;
+    } else if (node.type === schema.nodes.task_list) {
+      return 'task_list' as const;
     }
   }
   return null;
@@ -654,6 +661,8 @@ function ListButtons() {
   const canWrapInUnorderedList =
     !!schema.nodes.unordered_list &&
     toggleList(schema.nodes.unordered_list)(state);
+  const canWrapInTaskList =
+    !!schema.nodes.task_list && toggleList(schema.nodes.task_list)(state);
   const activeListType = getActiveListType(state, schema);
 
   const items = useMemo(() => {
@@ -670,15 +679,26 @@ function ListButtons() {
         shortcut: '1.',
         icon: listOrderedIcon,
       },
+      !!schema.nodes.task_list && {
+        label: 'Task list',
+        key: 'task_list',
+        shortcut: '[ ]',
+        icon: listTodoIcon,
+      },
     ].filter(removeFalse);
-  }, [schema.nodes.unordered_list, schema.nodes.ordered_list]);
+  }, [
+    schema.nodes.unordered_list,
+    schema.nodes.ordered_list,
+    schema.nodes.task_list,
+  ]);
 
   const disabledKeys = useMemo(() => {
     return [
       !canWrapInOrderedList && 'ordered_list',
       !canWrapInUnorderedList && 'unordered_list',
+      !canWrapInTaskList && 'task_list',
     ].filter(removeFalse);
-  }, [canWrapInOrderedList, canWrapInUnorderedList]);
+  }, [canWrapInOrderedList, canWrapInUnorderedList, canWrapInTaskList]);
 
   return useMemo(() => {
     if (items.length === 0) {
@@ -690,7 +710,7 @@ function ListButtons() {
         aria-label="Lists"
         value={activeListType}
         onChange={key => {
-          const format = key as 'ordered_list' | 'unordered_list';
+          const format = key as 'ordered_list' | 'unordered_list' | 'task_list';
           const type = schema.nodes[format];
           if (type) {
             dispatchCommand(toggleList(type));
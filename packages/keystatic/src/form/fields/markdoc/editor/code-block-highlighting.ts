@@ -96,6 +96,10 @@ export function codeBlockSyntaxHighlighting() {
   });
 }
 
+export function getPrismTokenClassName(type: string) {
+  return styles.get(type);
+}
+
 function getPrismTokenLength(token: Prism.Token | string): number {
   if (typeof token === 'string') {
     return token.length;
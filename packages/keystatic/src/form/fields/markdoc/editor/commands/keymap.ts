@@ -26,7 +26,7 @@ import {
   sinkListItem,
 } from '../lists';
 import { EditorSchema } from '../schema';
-import { Command, NodeSelection } from 'prosemirror-state';
+import { Command, NodeSelection, TextSelection } from 'prosemirror-state';
 import { NodeType, ResolvedPos } from 'prosemirror-model';
 
 const mac =
@@ -46,6 +46,41 @@ const codeModiferEnterCommand: Command = (state, dispatch, view) => {
   );
 };
 
+// pressing enter in an empty definition at the end of a definition list
+// moves the cursor to a new paragraph after the list
+function exitDefinitionList(
+  listType: NodeType,
+  paragraphType: NodeType
+): Command {
+  return (state, dispatch) => {
+    const { $from, $to } = state.selection;
+    if (
+      $from.depth < 2 ||
+      !$from.sameParent($to) ||
+      $from.parent.content.size !== 0
+    ) {
+      return false;
+    }
+    const list = $from.node(-1);
+    if (list.type !== listType || $from.indexAfter(-1) !== list.childCount) {
+      return false;
+    }
+    if (dispatch) {
+      const tr = state.tr;
+      const index = $from.index(-1);
+      // the definition is kept when it's the only definition of the term
+      if (list.canReplace(index, index + 1)) {
+        tr.delete($from.before(), $from.after());
+      }
+      const pos = tr.mapping.map($from.after(-1));
+      tr.insert(pos, paragraphType.create());
+      tr.setSelection(TextSelection.create(tr.doc, pos + 1));
+      dispatch(tr.scrollIntoView());
+    }
+    return true;
+  };
+}
+
 function findSelectableAncestor($pos: ResolvedPos, startDepth: number) {
   for (let depth = startDepth; depth > 0; depth--) {
     let pos = $pos.before(depth);
@@ -85,6 +120,14 @@ export function keymapForSchema(
     add('Tab', sinkListItem(nodes.list_item));
     add('Shift-Tab', liftListItem(nodes.list_item));
   }
+  if (nodes.task_list_item) {
+    add('Enter', splitListItem(nodes.task_list_item, { checked: false }));
+    add('Tab', sinkListItem(nodes.task_list_item));
+    add('Shift-Tab', liftListItem(nodes.task_list_item));
+  }
+  if (nodes.definition_list) {
+    add('Enter', exitDefinitionList(nodes.definition_list, nodes.paragraph));
+  }
   add(
     'Enter',
     chainCommands(
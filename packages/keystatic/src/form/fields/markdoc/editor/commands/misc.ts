@@ -1,6 +1,6 @@
 import { setBlockType } from 'prosemirror-commands';
 import { NodeType } from 'prosemirror-model';
-import { Command, NodeSelection } from 'prosemirror-state';
+import { Command, NodeSelection, TextSelection } from 'prosemirror-state';
 
 export function insertNode(nodeType: NodeType): Command {
   return (state, dispatch) => {
@@ -59,3 +59,30 @@ export function insertTable(tableType: NodeType): Command {
     return true;
   };
 }
+
+export function insertFootnote(referenceType: NodeType): Command {
+  const definitionType = referenceType.schema.nodes.footnote_definition;
+  return (state, dispatch) => {
+    if (!definitionType || !state.selection.$from.parent.inlineContent) {
+      return false;
+    }
+    if (dispatch) {
+      let label = 1;
+      state.doc.descendants(node => {
+        if (node.type === referenceType || node.type === definitionType) {
+          const existing = Number(node.attrs.label);
+          if (Number.isInteger(existing) && existing >= label) {
+            label = existing + 1;
+          }
+        }
+      });
+      const attrs = { label: String(label) };
+      const tr = state.tr.replaceSelectionWith(referenceType.create(attrs));
+      const end = tr.doc.content.size;
+      tr.insert(end, definitionType.create(attrs));
+      tr.setSelection(TextSelection.create(tr.doc, end + 1));
+      dispatch(tr.scrollIntoView());
+    }
+    return true;
+  };
+}
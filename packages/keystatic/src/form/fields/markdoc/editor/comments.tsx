@@ -0,0 +1,185 @@
+import { Node } from 'prosemirror-model';
+import { Command, EditorState } from 'prosemirror-state';
+import { Decoration, DecorationSet } from 'prosemirror-view';
+import { useEffect } from 'react';
+
+import { EditorToolbarGroup, EditorToolbarSeparator } from '@keystar/ui/editor';
+import { Icon } from '@keystar/ui/icon';
+import { messageSquareDiffIcon } from '@keystar/ui/icon/icons/messageSquareDiffIcon';
+import { messageSquarePlusIcon } from '@keystar/ui/icon/icons/messageSquarePlusIcon';
+import { Tooltip, TooltipTrigger } from '@keystar/ui/tooltip';
+import { Text } from '@keystar/ui/typography';
+
+import { createAnchor, findAnchor } from '../../../../app/comments';
+import {
+  CommentsState,
+  commentHighlightClassName,
+  useComments,
+} from '../../../../app/comments-ui';
+import { useEditorViewRef } from './editor-view';
+import { ToolbarButton } from './Toolbar';
+
+/**
+ * The text of a document with blocks separated by newlines and the position in
+ * the document of each character of the text
+ */
+function getTextWithPositions(doc: Node) {
+  let text = '';
+  const positions: number[] = [];
+  doc.descendants((node, pos) => {
+    if (!node.isTextblock) return true;
+    if (positions.length) {
+      text += '\n';
+      positions.push(pos);
+    }
+    node.descendants((child, childPos) => {
+      if (!child.isText) return;
+      text += child.text;
+      for (let i = 0; i < child.text!.length; i++) {
+        positions.push(pos + 1 + childPos + i);
+      }
+    });
+    return false;
+  });
+  return { text, positions };
+}
+
+function getDecorations(
+  doc: Node,
+  threads: CommentsState['threads'],
+  activeThreadId: string | undefined
+) {
+  const { text, positions } = getTextWithPositions(doc);
+  const decorations: Decoration[] = [];
+  for (const thread of threads) {
+    if (thread.resolved) continue;
+    const range = findAnchor(text, thread.anchor);
+    if (!range) continue;
+    decorations.push(
+      Decoration.inline(
+        positions[range.from],
+        positions[range.to - 1] + 1,
+        {
+          class: commentHighlightClassName,
+          'data-active': String(thread.id === activeThreadId),
+        },
+        { threadId: thread.id }
+      )
+    );
+  }
+  return DecorationSet.create(doc, decorations);
+}
+
+/**
+ * Highlights the text that threads are about and allows threads to be added
+ * to and suggestions to be accepted in the editor
+ */
+export function CommentDecorations() {
+  const viewRef = useEditorViewRef();
+  const comments = useComments();
+  const registerEditor = comments?.registerEditor;
+  const threads = comments?.threads;
+  const activeThreadId = comments?.activeThreadId;
+  const showThread = comments?.showThread;
+
+  useEffect(() => {
+    return registerEditor?.({
+      getText: () => getTextWithPositions(viewRef.current!.state.doc).text,
+      replaceText: (from, to, text) => {
+        const view = viewRef.current!;
+        const { positions } = getTextWithPositions(view.state.doc);
+        view.dispatch(
+          view.state.tr.insertText(text, positions[from], positions[to - 1] + 1)
+        );
+      },
+    });
+  }, [registerEditor, viewRef]);
+
+  // this is an effect rather than a layout effect since the view is created
+  // in a layout effect of a parent
+  useEffect(() => {
+    const view = viewRef.current;
+    if (!view || !threads || !showThread) return;
+    let cache: { doc: Node; decorations: DecorationSet } | undefined;
+    const getCachedDecorations = (state: EditorState) => {
+      if (cache?.doc !== state.doc) {
+        cache = {
+          doc: state.doc,
+          decorations: getDecorations(state.doc, threads, activeThreadId),
+        };
+      }
+      return cache.decorations;
+    };
+    view.setProps({
+      decorations: getCachedDecorations,
+      handleClick(view, pos) {
+        const [decoration] = getCachedDecorations(view.state).find(pos, pos);
+        if (decoration) {
+          showThread(decoration.spec.threadId);
+        }
+        return false;
+      },
+    });
+    return () => {
+      if (!view.isDestroyed) {
+        view.setProps({ decorations: undefined, handleClick: undefined });
+      }
+    };
+  }, [activeThreadId, showThread, threads, viewRef]);
+
+  return null;
+}
+
+function startThread(
+  comments: CommentsState,
+  kind: 'comment' | 'suggestion'
+): Command {
+  return (state, dispatch) => {
+    if (state.selection.empty) return false;
+    const { text, positions } = getTextWithPositions(state.doc);
+    const from = positions.findIndex(pos => pos >= state.selection.from);
+    let to = from;
+    while (to < positions.length && positions[to] < state.selection.to) {
+      to++;
+    }
+    if (from === -1 || from === to) return false;
+    if (dispatch) {
+      comments.startThread({ anchor: createAnchor(text, from, to), kind });
+    }
+    return true;
+  };
+}
+
+export function CommentButtons() {
+  const comments = useComments();
+  if (!comments) return null;
+  return (
+    <>
+      <EditorToolbarSeparator />
+      <EditorToolbarGroup aria-label="Comments">
+        <TooltipTrigger>
+          <ToolbarButton
+            aria-label="Comment"
+            command={startThread(comments, 'comment')}
+          >
+            <Icon src={messageSquarePlusIcon} />
+          </ToolbarButton>
+          <Tooltip>
+            <Text>Comment</Text>
+          </Tooltip>
+        </TooltipTrigger>
+        <TooltipTrigger>
+          <ToolbarButton
+            aria-label="Suggest edit"
+            command={startThread(comments, 'suggestion')}
+          >
+            <Icon src={messageSquareDiffIcon} />
+          </ToolbarButton>
+          <Tooltip>
+            <Text>Suggest edit</Text>
+          </Tooltip>
+        </TooltipTrigger>
+      </EditorToolbarGroup>
+    </>
+  );
+}
@@ -0,0 +1,60 @@
+import { Fragment, Node } from 'prosemirror-model';
+import { EditorSchema } from './schema';
+
+const descriptionPrefix = /^:(?: |$)/;
+
+function splitLines(schema: EditorSchema, nodes: readonly Node[]) {
+  const lines: Node[][] = [[]];
+  for (const node of nodes) {
+    if (!node.isText) {
+      lines[lines.length - 1].push(node);
+      continue;
+    }
+    node.text!.split('\n').forEach((text, i) => {
+      if (i !== 0) lines.push([]);
+      if (text) {
+        lines[lines.length - 1].push(schema.schema.text(text, node.marks));
+      }
+    });
+  }
+  return lines;
+}
+
+/**
+ * Definition lists are written as a term followed by a line for each of its
+ * definitions starting with `: `, like this:
+ *
+ * ```md
+ * Term
+ * : Definition
+ * ```
+ *
+ * Markdoc and MDX parse that as a paragraph, so this returns a definition list
+ * when the content of a paragraph is written like that
+ */
+export function definitionListFromParagraph(
+  schema: EditorSchema,
+  children: readonly Node[]
+): Node | undefined {
+  const { definition_list, definition_term, definition_description } =
+    schema.nodes;
+  if (!definition_list || !definition_term || !definition_description) {
+    return;
+  }
+  const lines = splitLines(schema, children);
+  if (lines.length < 2) return;
+  const items = lines.map(([first, ...rest]) => {
+    const prefix = first?.isText ? descriptionPrefix.exec(first.text!) : null;
+    if (!prefix) {
+      return definition_term.create(null, first ? [first, ...rest] : []);
+    }
+    const text = first.text!.slice(prefix[0].length);
+    return definition_description.create(
+      null,
+      text ? [schema.schema.text(text, first.marks), ...rest] : rest
+    );
+  });
+  const content = Fragment.from(items);
+  if (!definition_list.validContent(content)) return;
+  return definition_list.create(null, content);
+}
@@ -17,6 +17,7 @@ import { ProseMirrorEditable, ProseMirrorEditor } from './editor-view';
 import { AutocompleteDecoration } from './autocomplete/decoration';
 import { NodeViews } from './react-node-views';
 import { CellMenuPortal } from './popovers/table';
+import { CommentDecorations } from './comments';
 import {
   EditorContextProvider,
   getContentId,
@@ -134,6 +135,7 @@ export const Editor = forwardRef(function Editor(
         <CellMenuPortal />
         <EditorPopoverDecoration state={value} />
         <AutocompleteDecoration />
+        <CommentDecorations />
       </ProseMirrorEditor>
     </EditorContextProvider>
   );
@@ -6,10 +6,12 @@ import {
   textblockTypeInputRuleHandler,
   wrappingInputRuleHandler,
 } from './handlers';
-import { InputRule } from './inputrules';
 import { shortcuts, simpleMarkShortcuts } from './shortcuts';
-import { MarkType, Node } from 'prosemirror-model';
+import { MarkType, Node, NodeType } from 'prosemirror-model';
+import { TextSelection } from 'prosemirror-state';
+import { canJoin } from 'prosemirror-transform';
 import { insertMenuInputRule } from '../autocomplete/insert-menu';
+import { InputRule, InputRuleHandler } from './inputrules';
 
 const textShortcutRules = Object.entries(shortcuts).map(
   ([shortcut, replacement]): InputRule => ({
@@ -38,6 +40,45 @@ export function inputRulesForSchema({ nodes, marks, config }: EditorSchema) {
       handler: wrappingInputRuleHandler(nodes.unordered_list),
     });
   }
+  if (nodes.task_list) {
+    const handler = wrappingInputRuleHandler(nodes.task_list);
+    rules.push({
+      pattern: /^\s*\[([ xX])?\]\s$/,
+      handler: (state, match, start, end) => {
+        const tr = handler(state, match, start, end);
+        if (tr && match[1] && match[1] !== ' ') {
+          const $start = tr.doc.resolve(tr.mapping.map(start));
+          tr.setNodeAttribute($start.before(-1), 'checked', true);
+        }
+        return tr;
+      },
+    });
+  }
+  if (nodes.footnote_definition) {
+    rules.push({
+      pattern: /^\[\^([^\]\s]+)\]:\s$/,
+      handler: textblockTypeInputRuleHandler(
+        nodes.footnote_definition,
+        match => ({ label: match[1] })
+      ),
+    });
+  }
+  if (nodes.footnote_reference) {
+    const referenceType = nodes.footnote_reference;
+    rules.push({
+      // references aren't created at the start of a textblock so that the
+      // rule for footnote definitions can match
+      pattern: /.\[\^([^\]\s]+)\]$/,
+      handler: (state, [, label], start, end) =>
+        state.tr.replaceWith(start + 1, end, referenceType.create({ label })),
+    });
+  }
+  if (nodes.definition_list) {
+    rules.push({
+      pattern: /^:\s$/,
+      handler: definitionListInputRuleHandler(nodes.definition_list),
+    });
+  }
 
   if (nodes.code_block) {
     rules.push({
@@ -133,6 +174,39 @@ export function enterInputRulesForSchema({ nodes }: EditorSchema) {
   return rules;
 }
 
+// typing `: ` at the start of a paragraph after another paragraph makes the
+// previous paragraph a term and the paragraph its definition
+function definitionListInputRuleHandler(listType: NodeType): InputRuleHandler {
+  const { definition_term, definition_description } = listType.schema.nodes;
+  return (state, _match, start, end) => {
+    const $start = state.doc.resolve(start);
+    const paragraphType = state.schema.nodes.paragraph;
+    const index = $start.index(-1);
+    const before = index > 0 ? $start.node(-1).child(index - 1) : undefined;
+    if (
+      $start.parent.type !== paragraphType ||
+      before?.type !== paragraphType
+    ) {
+      return null;
+    }
+    const term = definition_term.create(null, before.content);
+    const list = listType.create(null, [
+      term,
+      definition_description.create(
+        null,
+        $start.parent.content.cut(end - $start.start())
+      ),
+    ]);
+    const from = $start.before() - before.nodeSize;
+    const tr = state.tr.replaceWith(from, $start.after(), list);
+    tr.setSelection(TextSelection.create(tr.doc, from + term.nodeSize + 2));
+    if (canJoin(tr.doc, from)) {
+      tr.join(from);
+    }
+    return tr;
+  };
+}
+
 function allowsMarkType(
   doc: Node,
   start: number,
@@ -9,6 +9,7 @@ import { EditorSchema } from '../schema';
 import { fixPath } from '../../../../../app/path-utils';
 import { getSrcPrefixForImageBlock } from '../images';
 import { deserializeProps, toSerialized } from '../props-serialization';
+import { definitionListFromParagraph } from '../definition-lists';
 
 let _state:
   | {
@@ -88,6 +89,15 @@ function createAndFill(
   if (mapChildren) {
     children = mapChildren(children);
   }
+  return fill(markdocNode, nodeType, attrs, children);
+}
+
+function fill(
+  markdocNode: MarkdocNode,
+  nodeType: NodeType,
+  attrs: Record<string, any>,
+  children: ProseMirrorNode[]
+) {
   const node = nodeType.createAndFill(attrs, children);
   if (!node) {
     error({
@@ -167,6 +177,62 @@ const wrapInParagraph =
     return newChildren;
   };
 
+// task lists, footnotes and definition lists aren't part of Markdoc so they're
+// written like they are in GitHub Flavored Markdown (and for definition lists,
+// other Markdown extensions) which Markdoc parses as text
+
+const taskListItemPrefix = /^\[([ xX])\](?: |$)/;
+
+function getTaskListItemPrefix(item: MarkdocNode) {
+  let node: MarkdocNode | undefined = item.children[0];
+  if (node?.type === 'paragraph') node = node.children[0];
+  const text = node?.type === 'inline' ? node.children[0] : undefined;
+  if (text?.type !== 'text') return null;
+  return taskListItemPrefix.exec(text.attributes.content);
+}
+
+const footnoteReferencePattern = /\[\^([^\]\s]+)\]/g;
+
+function textWithFootnoteReferences(text: string, referenceType: NodeType) {
+  const { schema, marks } = getState();
+  const nodes: ProseMirrorNode[] = [];
+  let lastIndex = 0;
+  for (const match of text.matchAll(footnoteReferencePattern)) {
+    if (match.index! > lastIndex) {
+      nodes.push(schema.schema.text(text.slice(lastIndex, match.index), marks));
+    }
+    nodes.push(referenceType.create({ label: match[1] }));
+    lastIndex = match.index! + match[0].length;
+  }
+  if (lastIndex < text.length) {
+    nodes.push(schema.schema.text(text.slice(lastIndex), marks));
+  }
+  return nodes;
+}
+
+const footnoteDefinitionSeparator = /^:(?: |$)/;
+
+function footnoteDefinitionFromParagraph(
+  schema: EditorSchema,
+  children: ProseMirrorNode[]
+) {
+  const [reference, first, ...rest] = children;
+  if (
+    !schema.nodes.footnote_definition ||
+    reference?.type !== schema.nodes.footnote_reference ||
+    !first?.isText
+  ) {
+    return;
+  }
+  const separator = footnoteDefinitionSeparator.exec(first.text!);
+  if (!separator) return;
+  const text = first.text!.slice(separator[0].length);
+  return schema.nodes.footnote_definition.createAndFill(
+    reference.attrs,
+    text ? [schema.schema.text(text, first.marks), ...rest] : rest
+  );
+}
+
 function markdocNodeToProseMirrorNode(
   node: MarkdocNode,
   parentType: NodeType | undefined
@@ -237,7 +303,15 @@ function markdocNodeToProseMirrorNode(
     });
   }
   if (node.type === 'paragraph') {
-    return createAndFill(node, schema.nodes.paragraph, {});
+    const children = childrenToProseMirrorNodes(
+      node.children,
+      schema.nodes.paragraph
+    );
+    return (
+      footnoteDefinitionFromParagraph(schema, children) ??
+      definitionListFromParagraph(schema, children) ??
+      fill(node, schema.nodes.paragraph, {}, children)
+    );
   }
   if (node.type === 'comment') {
     return [];
@@ -274,9 +348,27 @@ function markdocNodeToProseMirrorNode(
     );
   }
   if (node.type === 'text') {
+    if (schema.nodes.footnote_reference) {
+      return textWithFootnoteReferences(
+        node.attributes.content,
+        schema.nodes.footnote_reference
+      );
+    }
     return schema.schema.text(node.attributes.content, getState().marks);
   }
   if (node.type === 'item') {
+    if (schema.nodes.task_list_item && parentType === schema.nodes.task_list) {
+      const prefix = getTaskListItemPrefix(node)!;
+      return createAndFill(
+        node,
+        schema.nodes.task_list_item,
+        { checked: prefix[1] !== ' ' },
+        children => {
+          const [first, ...rest] = wrapInParagraph(schema)(children);
+          return [first.cut(prefix[0].length), ...rest];
+        }
+      );
+    }
     if (!schema.nodes.list_item) return notAllowed(node, parentType);
     return createAndFill(
       node,
@@ -286,6 +378,13 @@ function markdocNodeToProseMirrorNode(
     );
   }
   if (node.type === 'list') {
+    if (
+      schema.nodes.task_list &&
+      !node.attributes.ordered &&
+      node.children.every(getTaskListItemPrefix)
+    ) {
+      return createAndFill(node, schema.nodes.task_list, {});
+    }
     const listType = node.attributes.ordered
       ? schema.nodes.ordered_list
       : schema.nodes.unordered_list;
@@ -43,6 +43,12 @@ function textblockChildren(
       children.push(new Ast.Node('hardbreak'));
       return;
     }
+    if (child.type === child.type.schema.nodes.footnote_reference) {
+      children.push(
+        new Ast.Node('text', { content: `[^${child.attrs.label}]` }, [])
+      );
+      return;
+    }
     if (child.type === child.type.schema.nodes.image) {
       const src = child.attrs.src;
 
@@ -234,6 +240,43 @@ export function proseMirrorToMarkdoc(
     }
     return new Ast.Node('item', {}, listItemContent);
   }
+  if (node.type === schema.nodes.task_list_item) {
+    const [first, ...rest] = blocks(node.content);
+    const prefix = new Ast.Node(
+      'text',
+      { content: node.attrs.checked ? '[x] ' : '[ ] ' },
+      []
+    );
+    first.children[0].children.unshift(prefix);
+    return new Ast.Node(
+      'item',
+      {},
+      rest.length ? [first, ...rest] : first.children
+    );
+  }
+  if (node.type === schema.nodes.task_list) {
+    return new Ast.Node('list', { ordered: false }, blocks(node.content));
+  }
+  if (node.type === schema.nodes.footnote_definition) {
+    const [content] = inline(node.content);
+    content.children.unshift(
+      new Ast.Node('text', { content: `[^${node.attrs.label}]: ` }, [])
+    );
+    return new Ast.Node('paragraph', {}, [content]);
+  }
+  if (node.type === schema.nodes.definition_list) {
+    const children: MarkdocNode[] = [];
+    node.forEach((child, _, i) => {
+      if (i !== 0) children.push(new Ast.Node('softbreak'));
+      if (child.type === schema.nodes.definition_description) {
+        children.push(new Ast.Node('text', { content: ': ' }, []));
+      }
+      children.push(...textblockChildren(child.content, state));
+    });
+    return new Ast.Node('paragraph', {}, [
+      new Ast.Node('inline', {}, children),
+    ]);
+  }
   if (node.type === schema.nodes.ordered_list) {
     return new Ast.Node('list', { ordered: true }, blocks(node.content));
   }
@@ -14,6 +14,7 @@ import { assert } from 'emery';
 import { deserializeProps, toSerialized } from '../props-serialization';
 import { toMarkdown } from 'mdast-util-to-markdown';
 import { gfmToMarkdown } from 'mdast-util-gfm';
+import { definitionListFromParagraph } from '../definition-lists';
 
 let state:
   | {
@@ -24,6 +25,7 @@ let state:
       otherFiles: ReadonlyMap<string, ReadonlyMap<string, Uint8Array>>;
       slug: string | undefined;
       definitions: Map<string, Definition>;
+      source: string;
     }
   | undefined;
 function getState(): typeof state & {} {
@@ -91,6 +93,15 @@ function createAndFill(
   if (mapChildren) {
     children = mapChildren(children);
   }
+  return fill(mdNode, nodeType, attrs, children);
+}
+
+function fill(
+  mdNode: Nodes,
+  nodeType: NodeType,
+  attrs: Record<string, any>,
+  children: ProseMirrorNode[]
+) {
   const node = nodeType.createAndFill(attrs, children);
   if (!node) {
     error(`${mdNode.type} has unexpected children`);
@@ -112,8 +123,14 @@ function addMark(
   );
 }
 
+/**
+ * `source` is the MDX that `node` was parsed from, syntax that the editor
+ * doesn't support like imports, exports and expressions is kept as it's
+ * written in the source
+ */
 export function mdxToProseMirror(
   node: Nodes,
+  source: string,
   schema: EditorSchema,
   files: ReadonlyMap<string, Uint8Array> | undefined,
   otherFiles: ReadonlyMap<string, ReadonlyMap<string, Uint8Array>> | undefined,
@@ -127,6 +144,7 @@ export function mdxToProseMirror(
     otherFiles: otherFiles ?? new Map(),
     slug,
     definitions: new Map(),
+    source,
   };
   visit(node, node => {
     if (node.type === 'definition') {
@@ -174,6 +192,38 @@ const wrapInParagraph =
     return newChildren;
   };
 
+function isPhrasing(node: Nodes) {
+  return node.type === 'mdxTextExpression' || node.type === 'mdxJsxTextElement';
+}
+
+function getSource(node: Nodes) {
+  const { start, end } = node.position!;
+  const source = getState().source.slice(start.offset, end.offset);
+  if (isPhrasing(node)) return source;
+  // the lines after the first line include the indentation of the parents of
+  // the node, e.g. list items, which is added back when serializing
+  const indentation = ' '.repeat(start.column - 1);
+  return source
+    .split('\n')
+    .map((line, i) =>
+      i !== 0 && line.startsWith(indentation)
+        ? line.slice(indentation.length)
+        : line
+    )
+    .join('\n');
+}
+
+function preserveSource(node: Nodes, parentType: NodeType | undefined) {
+  const schema = getSchema();
+  const source = getSource(node);
+  if (isPhrasing(node)) {
+    if (!schema.nodes.mdx_inline) return notAllowed(node, parentType);
+    return schema.nodes.mdx_inline.create({ source });
+  }
+  if (!schema.nodes.mdx_block) return notAllowed(node, parentType);
+  return schema.nodes.mdx_block.create({ source });
+}
+
 type Program = (MdxJsxAttributeValueExpression['data'] & {})['estree'] & {};
 function programToValue(program: Program) {
   assert(program.body.length === 1);
@@ -262,7 +312,14 @@ function markdocNodeToProseMirrorNode(
     });
   }
   if (node.type === 'paragraph') {
-    return createAndFill(node, schema.nodes.paragraph, {});
+    const children = childrenToProseMirrorNodes(
+      node.children,
+      schema.nodes.paragraph
+    );
+    return (
+      definitionListFromParagraph(schema, children) ??
+      fill(node, schema.nodes.paragraph, {}, children)
+    );
   }
   if (node.type === 'root') {
     return createAndFill(node, schema.nodes.doc, {});
@@ -304,7 +361,30 @@ function markdocNodeToProseMirrorNode(
   if (node.type === 'text') {
     return schema.schema.text(node.value, getState().marks);
   }
+  if (node.type === 'footnoteReference') {
+    if (!schema.nodes.footnote_reference) return notAllowed(node, parentType);
+    return schema.nodes.footnote_reference.create({
+      label: node.label ?? node.identifier,
+    });
+  }
+  if (node.type === 'footnoteDefinition') {
+    if (!schema.nodes.footnote_definition) return notAllowed(node, parentType);
+    if (node.children.length !== 1 || node.children[0].type !== 'paragraph') {
+      return preserveSource(node, parentType);
+    }
+    return createAndFill(node.children[0], schema.nodes.footnote_definition, {
+      label: node.label ?? node.identifier,
+    });
+  }
   if (node.type === 'listItem') {
+    if (schema.nodes.task_list_item && parentType === schema.nodes.task_list) {
+      return createAndFill(
+        node,
+        schema.nodes.task_list_item,
+        { checked: node.checked },
+        wrapInParagraph(schema)
+      );
+    }
     if (!schema.nodes.list_item) return notAllowed(node, parentType);
     return createAndFill(
       node,
@@ -314,6 +394,18 @@ function markdocNodeToProseMirrorNode(
     );
   }
   if (node.type === 'list') {
+    if (
+      schema.nodes.task_list &&
+      node.children.some(item => typeof item.checked === 'boolean')
+    ) {
+      if (
+        node.ordered ||
+        !node.children.every(item => typeof item.checked === 'boolean')
+      ) {
+        return preserveSource(node, parentType);
+      }
+      return createAndFill(node, schema.nodes.task_list, {});
+    }
     const listType = node.ordered
       ? schema.nodes.ordered_list
       : schema.nodes.unordered_list;
@@ -338,8 +430,10 @@ function markdocNodeToProseMirrorNode(
     );
   }
   if (node.type === 'mdxJsxFlowElement' || node.type === 'mdxJsxTextElement') {
+    // fragments and components that aren't in the config can't be edited
+    // so they're kept as is
     if (!node.name) {
-      return notAllowed(node, parentType);
+      return preserveSource(node, parentType);
     }
     const componentConfig = schema.components[node.name];
     if (componentConfig) {
@@ -357,11 +451,13 @@ function markdocNodeToProseMirrorNode(
                 ? attribute.value
                 : programToValue(attribute.value.data!.estree!);
           } catch {
-            error(`${node.type} has unexpected attributes`);
+            // attributes with expressions other than values, e.g. functions
+            // or variables, can't be edited so the element is kept as is
+            return preserveSource(node, parentType);
           }
           continue;
         }
-        error(`${node.type} has unexpected attributes`);
+        return preserveSource(node, parentType);
       }
       const deserialized = deserializeProps(
         componentConfig.schema,
@@ -395,11 +491,7 @@ function markdocNodeToProseMirrorNode(
       }
       return pmNode;
     }
-    error(`Missing component definition for ${node.name}`);
-    return childrenToProseMirrorNodes(
-      'children' in node ? node.children : [],
-      parentType
-    );
+    return preserveSource(node, parentType);
   }
   if (node.type === 'image' || node.type === 'imageReference') {
     const data =
@@ -439,6 +531,13 @@ function markdocNodeToProseMirrorNode(
     );
   }
   if (node.type === 'definition') return [];
+  if (
+    node.type === 'mdxjsEsm' ||
+    node.type === 'mdxFlowExpression' ||
+    node.type === 'mdxTextExpression'
+  ) {
+    return preserveSource(node, parentType);
+  }
   error(
     `Unhandled type ${node.type}: ${toMarkdown(node, {
       extensions: [gfmToMarkdown(), mdxToMarkdown()],
@@ -8,6 +8,7 @@ import {
   Text,
   InlineCode,
   BlockContent,
+  DefinitionContent,
   Root,
 } from 'mdast';
 import { MdxJsxAttribute } from 'mdast-util-mdx';
@@ -23,8 +24,8 @@ type DocumentSerializationState = {
 function _blocks(
   fragment: Fragment,
   state: DocumentSerializationState
-): BlockContent[] {
-  const children: BlockContent[] = [];
+): (BlockContent | DefinitionContent)[] {
+  const children: (BlockContent | DefinitionContent)[] = [];
   fragment.forEach(child => {
     children.push(proseMirrorToMDX(child, state));
   });
@@ -65,6 +66,19 @@ function textblockChildren(
       children.push({ type: 'break' });
       return;
     }
+    if (child.type === child.type.schema.nodes.mdx_inline) {
+      children.push({ type: 'html', value: child.attrs.source });
+      return;
+    }
+    if (child.type === child.type.schema.nodes.footnote_reference) {
+      const { label } = child.attrs;
+      children.push({
+        type: 'footnoteReference',
+        identifier: label.toLowerCase(),
+        label,
+      });
+      return;
+    }
     if (child.type === child.type.schema.nodes.image) {
       const { src, filename } = child.attrs;
 
@@ -178,8 +192,11 @@ function mapContent<T>(
   return result;
 }
 
-function convertListItem(listItemContent: BlockContent[]): ListItem {
-  return { type: 'listItem', children: listItemContent };
+function convertListItem(
+  listItemContent: (BlockContent | DefinitionContent)[],
+  checked?: boolean
+): ListItem {
+  return { type: 'listItem', checked, children: listItemContent };
 }
 
 export function proseMirrorToMDXRoot(
@@ -195,7 +212,7 @@ export function proseMirrorToMDXRoot(
 function proseMirrorToMDX(
   node: ProseMirrorNode,
   state: DocumentSerializationState
-): BlockContent {
+): BlockContent | DefinitionContent {
   const blocks = (fragment: Fragment) => _blocks(fragment, state);
   const inline = (fragment: Fragment) => _inline(fragment, state);
   const schema = getEditorSchema(node.type.schema);
@@ -209,6 +226,10 @@ function proseMirrorToMDX(
   if (node.type === schema.nodes.divider) {
     return { type: 'thematicBreak' };
   }
+  if (node.type === schema.nodes.mdx_block) {
+    // html nodes are written as they are so the source is kept byte-for-byte
+    return { type: 'html', value: node.attrs.source };
+  }
   if (node.type === schema.nodes.table) {
     return {
       type: 'table',
@@ -261,6 +282,34 @@ function proseMirrorToMDX(
       children: mapContent(node, node => convertListItem(blocks(node.content))),
     };
   }
+  if (node.type === schema.nodes.task_list) {
+    return {
+      type: 'list',
+      children: mapContent(node, node =>
+        convertListItem(blocks(node.content), node.attrs.checked)
+      ),
+    };
+  }
+  if (node.type === schema.nodes.footnote_definition) {
+    const { label } = node.attrs;
+    return {
+      type: 'footnoteDefinition',
+      identifier: label.toLowerCase(),
+      label,
+      children: [{ type: 'paragraph', children: inline(node.content) }],
+    };
+  }
+  if (node.type === schema.nodes.definition_list) {
+    const children: PhrasingContent[] = [];
+    node.forEach((child, _, i) => {
+      if (i !== 0) children.push({ type: 'text', value: '\n' });
+      if (child.type === schema.nodes.definition_description) {
+        children.push({ type: 'text', value: ': ' });
+      }
+      children.push(...inline(child.content));
+    });
+    return { type: 'paragraph', children };
+  }
 
   const name = node.type.name;
   const componentConfig = schema.components[name];
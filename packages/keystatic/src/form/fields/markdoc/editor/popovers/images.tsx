@@ -17,9 +17,14 @@ import l10nMessages from '../../../../../app/l10n/index.json';
 import { Icon } from '@keystar/ui/icon';
 import { editIcon } from '@keystar/ui/icon/icons/editIcon';
 import { fileUpIcon } from '@keystar/ui/icon/icons/fileUpIcon';
+import { libraryIcon } from '@keystar/ui/icon/icons/libraryIcon';
 import { trash2Icon } from '@keystar/ui/icon/icons/trash2Icon';
 import { TooltipTrigger, Tooltip } from '@keystar/ui/tooltip';
 import { getUploadedFileObject } from '../../../image/ui';
+import {
+  MediaPickerDialog,
+  useHasMediaLibrary,
+} from '../../../../../app/media-picker';
 import { EditorState, NodeSelection } from 'prosemirror-state';
 import { useEditorDispatchCommand, useEditorSchema } from '../editor-view';
 import { Node } from 'prosemirror-model';
@@ -32,6 +37,8 @@ export function ImagePopover(props: {
   let stringFormatter = useLocalizedStringFormatter(l10nMessages);
   const runCommand = useEditorDispatchCommand();
   const [dialogOpen, setDialogOpen] = useState(false);
+  const [mediaPickerIsOpen, setMediaPickerOpen] = useState(false);
+  const hasMediaLibrary = useHasMediaLibrary();
   return (
     <>
       <Flex gap="regular" padding="regular">
@@ -67,6 +74,17 @@ export function ImagePopover(props: {
             </ActionButton>
             <Tooltip>Choose file</Tooltip>
           </TooltipTrigger>
+          {hasMediaLibrary && (
+            <TooltipTrigger>
+              <ActionButton
+                prominence="low"
+                onPress={() => setMediaPickerOpen(true)}
+              >
+                <Icon src={libraryIcon} />
+              </ActionButton>
+              <Tooltip>Choose existing</Tooltip>
+            </TooltipTrigger>
+          )}
         </Flex>
         <Divider orientation="vertical" />
         <TooltipTrigger>
@@ -119,6 +137,31 @@ export function ImagePopover(props: {
           />
         )}
       </DialogContainer>
+      <DialogContainer onDismiss={() => setMediaPickerOpen(false)}>
+        {mediaPickerIsOpen && (
+          <MediaPickerDialog
+            accept="image"
+            onSelect={({ content, filename }) => {
+              runCommand((state, dispatch) => {
+                if (dispatch) {
+                  const { tr } = state;
+                  tr.setNodeMarkup(props.pos, undefined, {
+                    ...props.node.attrs,
+                    src: content,
+                    filename,
+                  });
+                  const newState = state.apply(tr);
+                  tr.setSelection(
+                    NodeSelection.create(newState.doc, props.pos)
+                  );
+                  dispatch(tr);
+                }
+                return true;
+              });
+            }}
+          />
+        )}
+      </DialogContainer>
     </>
   );
 }
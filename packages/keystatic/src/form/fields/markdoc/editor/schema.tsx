@@ -9,9 +9,12 @@ import { heading6Icon } from '@keystar/ui/icon/icons/heading6Icon';
 import { imageIcon } from '@keystar/ui/icon/icons/imageIcon';
 import { listIcon } from '@keystar/ui/icon/icons/listIcon';
 import { listOrderedIcon } from '@keystar/ui/icon/icons/listOrderedIcon';
+import { listTodoIcon } from '@keystar/ui/icon/icons/listTodoIcon';
 import { quoteIcon } from '@keystar/ui/icon/icons/quoteIcon';
 import { tableIcon } from '@keystar/ui/icon/icons/tableIcon';
 import { separatorHorizontalIcon } from '@keystar/ui/icon/icons/separatorHorizontalIcon';
+import { superscriptIcon } from '@keystar/ui/icon/icons/superscriptIcon';
+import { bookAIcon } from '@keystar/ui/icon/icons/bookAIcon';
 import {
   DOMOutputSpec,
   NodeSpec,
@@ -27,7 +30,7 @@ import {
   WithInsertMenuNodeSpec,
 } from './autocomplete/insert-menu';
 import { setBlockType, wrapIn } from 'prosemirror-commands';
-import { insertNode, insertTable } from './commands/misc';
+import { insertFootnote, insertNode, insertTable } from './commands/misc';
 import { toggleList } from './lists';
 import { independentForGapCursor } from './gapcursor/gapcursor';
 import { WithReactNodeViewSpec } from './react-node-views';
@@ -77,9 +80,91 @@ const codeDOM: DOMOutputSpec = [
 ];
 const hardBreakDOM: DOMOutputSpec = ['br'];
 
+const mdxSourceClass = css({
+  backgroundColor: tokenSchema.color.alias.backgroundIdle,
+  borderRadius: tokenSchema.size.radius.small,
+  color: tokenSchema.color.foreground.neutralSecondary,
+  fontFamily: tokenSchema.typography.fontFamily.code,
+  whiteSpace: 'pre-wrap',
+});
+const mdxBlockClass = css(blockElementSpacing, {
+  padding: tokenSchema.size.space.regular,
+});
+
+// syntax in MDX that the editor doesn't support, like imports, exports and
+// expressions, is kept as it's written in the source and can't be edited
+function mdxSourceSpec(
+  tag: 'pre' | 'code',
+  className: string
+): Pick<EditorNodeSpec, 'attrs' | 'atom' | 'parseDOM' | 'toDOM'> {
+  return {
+    atom: true,
+    attrs: { source: {} },
+    parseDOM: [
+      {
+        tag: `${tag}[data-mdx-source]`,
+        priority: 60,
+        getAttrs(node) {
+          if (typeof node === 'string') return false;
+          return { source: node.getAttribute('data-mdx-source') };
+        },
+      },
+    ],
+    toDOM(node) {
+      return [
+        tag,
+        {
+          'data-mdx-source': node.attrs.source,
+          contenteditable: 'false',
+          class: className,
+        },
+        node.attrs.source,
+      ];
+    },
+  };
+}
+
 const olDOM: DOMOutputSpec = ['ol', {}, 0];
 const ulDOM: DOMOutputSpec = ['ul', {}, 0];
 const liDOM: DOMOutputSpec = ['li', {}, 0];
+const taskListDOM: DOMOutputSpec = [
+  'ul',
+  {
+    'data-task-list': '',
+    class: css({ listStyle: 'none', paddingInlineStart: 0 }),
+  },
+  0,
+];
+const taskListItemClass = css({
+  alignItems: 'baseline',
+  display: 'flex',
+  gap: tokenSchema.size.space.regular,
+  '& > div': { flex: 1, minWidth: 0 },
+});
+const footnoteReferenceClass = css({
+  color: tokenSchema.color.foreground.accent,
+  [`&.${classes.nodeSelection}`]: {
+    backgroundColor: tokenSchema.color.alias.backgroundSelected,
+  },
+});
+const footnoteDefinitionClass = css(blockElementSpacing, {
+  color: tokenSchema.color.foreground.neutralSecondary,
+  display: 'flex',
+  fontSize: '0.875em',
+  gap: tokenSchema.size.space.regular,
+  '& > p': { flex: 1, margin: 0 },
+});
+const dlDOM: DOMOutputSpec = ['dl', { class: blockElementSpacing }, 0];
+const dtDOM: DOMOutputSpec = [
+  'dt',
+  { class: css({ fontWeight: tokenSchema.typography.fontWeight.semibold }) },
+  0,
+];
+const ddDOM: DOMOutputSpec = [
+  'dd',
+  { class: css({ marginInlineStart: tokenSchema.size.space.xlarge }) },
+  0,
+];
 
 export type EditorNodeSpec = NodeSpec &
   WithInsertMenuNodeSpec &
@@ -232,6 +317,177 @@ const nodeSpecs = {
       command: toggleList,
     },
   },
+  task_list_item: {
+    content: 'paragraph block*',
+    attrs: { checked: { default: false } },
+    parseDOM: [
+      {
+        tag: 'li[data-checked]',
+        priority: 60,
+        getAttrs(node) {
+          if (typeof node === 'string') return false;
+          return { checked: node.getAttribute('data-checked') === 'true' };
+        },
+      },
+    ],
+    toDOM(node) {
+      return [
+        'li',
+        {
+          'data-checked': String(node.attrs.checked),
+          class: taskListItemClass,
+        },
+        [
+          'input',
+          {
+            type: 'checkbox',
+            contenteditable: 'false',
+            ...(node.attrs.checked ? { checked: '' } : {}),
+          },
+        ],
+        ['div', 0],
+      ];
+    },
+    // the checkbox is part of the item rather than a node of its own so it
+    // needs to update the item when it's changed
+    nodeView(node, view, getPos) {
+      const dom = document.createElement('li');
+      dom.classList.add(taskListItemClass);
+      const checkbox = document.createElement('input');
+      checkbox.type = 'checkbox';
+      checkbox.contentEditable = 'false';
+      checkbox.checked = node.attrs.checked;
+      checkbox.addEventListener('change', () => {
+        const pos = getPos();
+        if (pos === undefined) return;
+        view.dispatch(
+          view.state.tr.setNodeAttribute(pos, 'checked', checkbox.checked)
+        );
+      });
+      const contentDOM = document.createElement('div');
+      dom.append(checkbox, contentDOM);
+      return {
+        dom,
+        contentDOM,
+        update(newNode) {
+          if (newNode.type !== node.type) return false;
+          checkbox.checked = newNode.attrs.checked;
+          return true;
+        },
+        stopEvent(event) {
+          return event.target === checkbox;
+        },
+        ignoreMutation(mutation) {
+          return !contentDOM.contains(mutation.target);
+        },
+      };
+    },
+    defining: true,
+  },
+  task_list: {
+    content: 'task_list_item+',
+    group: 'block',
+    parseDOM: [{ tag: 'ul[data-task-list]', priority: 60 }],
+    toDOM() {
+      return taskListDOM;
+    },
+    insertMenu: {
+      label: 'Task list',
+      description: 'Insert a list of tasks with checkboxes',
+      icon: listTodoIcon,
+      command: toggleList,
+    },
+  },
+  footnote_reference: {
+    group: 'inline inline_component',
+    inline: true,
+    atom: true,
+    attrs: { label: {} },
+    parseDOM: [
+      {
+        tag: 'sup[data-footnote-reference]',
+        getAttrs(node) {
+          if (typeof node === 'string') return false;
+          return { label: node.getAttribute('data-footnote-reference') };
+        },
+      },
+    ],
+    toDOM(node) {
+      return [
+        'sup',
+        {
+          'data-footnote-reference': node.attrs.label,
+          class: footnoteReferenceClass,
+        },
+        node.attrs.label,
+      ];
+    },
+    insertMenu: {
+      label: 'Footnote',
+      description: 'Insert a reference to a note at the end of the content',
+      icon: superscriptIcon,
+      command: insertFootnote,
+      forToolbar: true,
+    },
+  },
+  footnote_definition: {
+    content: inlineContent,
+    group: 'block',
+    defining: true,
+    attrs: { label: {} },
+    parseDOM: [
+      {
+        tag: 'div[data-footnote-definition]',
+        contentElement: 'p',
+        getAttrs(node) {
+          if (typeof node === 'string') return false;
+          return { label: node.getAttribute('data-footnote-definition') };
+        },
+      },
+    ],
+    toDOM(node) {
+      return [
+        'div',
+        {
+          'data-footnote-definition': node.attrs.label,
+          class: footnoteDefinitionClass,
+        },
+        ['span', { contenteditable: 'false' }, node.attrs.label],
+        ['p', 0],
+      ];
+    },
+  },
+  definition_list: {
+    content: '(definition_term definition_description+)+',
+    group: 'block',
+    parseDOM: [{ tag: 'dl' }],
+    toDOM() {
+      return dlDOM;
+    },
+    insertMenu: {
+      label: 'Definition list',
+      description: 'Insert a list of terms and their definitions',
+      icon: bookAIcon,
+      command: insertNode,
+      forToolbar: true,
+    },
+  },
+  definition_term: {
+    content: inlineContent,
+    defining: true,
+    parseDOM: [{ tag: 'dt' }],
+    toDOM() {
+      return dtDOM;
+    },
+  },
+  definition_description: {
+    content: inlineContent,
+    defining: true,
+    parseDOM: [{ tag: 'dd' }],
+    toDOM() {
+      return ddDOM;
+    },
+  },
   hard_break: {
     inline: true,
     group: 'inline',
@@ -403,6 +659,15 @@ const nodeSpecs = {
       },
     ],
   },
+  mdx_block: {
+    group: 'block',
+    ...mdxSourceSpec('pre', classNames(mdxSourceClass, mdxBlockClass)),
+  },
+  mdx_inline: {
+    group: 'inline inline_component',
+    inline: true,
+    ...mdxSourceSpec('code', mdxSourceClass),
+  },
 } satisfies Record<string, EditorNodeSpec>;
 
 const italicDOM: DOMOutputSpec = ['em', 0];
@@ -551,6 +816,10 @@ export function createEditorSchema(
   if (config.orderedList || config.unorderedList) {
     nodeSpecsWithCustomNodes.list_item = nodeSpecs.list_item;
   }
+  if (config.taskList) {
+    nodeSpecsWithCustomNodes.task_list = nodeSpecs.task_list;
+    nodeSpecsWithCustomNodes.task_list_item = nodeSpecs.task_list_item;
+  }
   if (config.heading.levels.length) {
     nodeSpecsWithCustomNodes.heading = {
       attrs: {
@@ -598,6 +867,21 @@ export function createEditorSchema(
   if (config.image) {
     nodeSpecsWithCustomNodes.image = nodeSpecs.image;
   }
+  if (config.footnote) {
+    nodeSpecsWithCustomNodes.footnote_reference = nodeSpecs.footnote_reference;
+    nodeSpecsWithCustomNodes.footnote_definition =
+      nodeSpecs.footnote_definition;
+  }
+  if (config.definitionList) {
+    nodeSpecsWithCustomNodes.definition_list = nodeSpecs.definition_list;
+    nodeSpecsWithCustomNodes.definition_term = nodeSpecs.definition_term;
+    nodeSpecsWithCustomNodes.definition_description =
+      nodeSpecs.definition_description;
+  }
+  if (isMDX) {
+    nodeSpecsWithCustomNodes.mdx_block = nodeSpecs.mdx_block;
+    nodeSpecsWithCustomNodes.mdx_inline = nodeSpecs.mdx_inline;
+  }
 
   const markSpecsWithCustomMarks = {
     ...getCustomMarkSpecs(components),
@@ -0,0 +1,153 @@
+import {
+  ReactNode,
+  TextareaHTMLAttributes,
+  createContext,
+  useContext,
+  useMemo,
+} from 'react';
+import { ToggleButton } from '@keystar/ui/button';
+import { Icon } from '@keystar/ui/icon';
+import { fileCodeIcon } from '@keystar/ui/icon/icons/fileCodeIcon';
+import { Box } from '@keystar/ui/layout';
+import { Notice } from '@keystar/ui/notice';
+import { css, tokenSchema } from '@keystar/ui/style';
+import { Tooltip, TooltipTrigger } from '@keystar/ui/tooltip';
+import { Text } from '@keystar/ui/typography';
+
+import Prism from '../../document/DocumentEditor/prism';
+import { useEntryLayoutSplitPaneContext } from '../../../../app/entry-form';
+import { getPrismTokenClassName } from './code-block-highlighting';
+import { ToolbarScrollArea, ToolbarWrapper } from './Toolbar';
+
+type SourceMode = { isSourceMode: boolean; toggle: () => void };
+
+const SourceModeContext = createContext<SourceMode | null>(null);
+
+export const SourceModeProvider = SourceModeContext.Provider;
+
+export function SourceModeButton() {
+  const sourceMode = useContext(SourceModeContext);
+  const entryLayoutPane = useEntryLayoutSplitPaneContext();
+  if (!sourceMode) return null;
+  return (
+    <TooltipTrigger>
+      <ToggleButton
+        aria-label="Edit source"
+        prominence="low"
+        isSelected={sourceMode.isSourceMode}
+        onPress={sourceMode.toggle}
+        marginStart="regular"
+        marginEnd={entryLayoutPane === 'main' ? undefined : 'medium'}
+      >
+        <Icon src={fileCodeIcon} />
+      </ToggleButton>
+      <Tooltip>
+        <Text>Edit source</Text>
+      </Tooltip>
+    </TooltipTrigger>
+  );
+}
+
+function renderTokens(tokens: (string | Prism.Token)[]): ReactNode[] {
+  return tokens.map((token, i) => {
+    if (typeof token === 'string') return token;
+    return (
+      <span key={i} className={getPrismTokenClassName(token.type)}>
+        {renderTokens(
+          Array.isArray(token.content) ? token.content : [token.content]
+        )}
+      </span>
+    );
+  });
+}
+
+const sourceTextStyles = {
+  boxSizing: 'border-box',
+  fontFamily: tokenSchema.typography.fontFamily.code,
+  fontSize: '0.875rem',
+  gridArea: '1 / 1',
+  lineHeight: 1.6,
+  margin: 0,
+  minWidth: 0,
+  overflowWrap: 'anywhere',
+  padding: tokenSchema.size.space.medium,
+  whiteSpace: 'pre-wrap',
+} as const;
+
+/**
+ * The Markdoc or MDX of a field as text. The text is overlaid on the
+ * highlighted source so that it's still a regular textarea.
+ */
+export function SourceEditor(props: {
+  value: string;
+  onChange: (value: string) => void;
+  error: string | undefined;
+  textareaProps: TextareaHTMLAttributes<HTMLTextAreaElement>;
+}) {
+  const entryLayoutPane = useEntryLayoutSplitPaneContext();
+  const highlighted = useMemo(
+    () =>
+      // the trailing new line stops the height changing after the last line
+      renderTokens(
+        Prism.tokenize(props.value + '\n', Prism.languages.markdown)
+      ),
+    [props.value]
+  );
+  return (
+    <Box
+      data-layout={entryLayoutPane}
+      backgroundColor="canvas"
+      minWidth={0}
+      UNSAFE_className={css({
+        '&[data-layout="main"]': {
+          flex: 1,
+          display: 'flex',
+          flexDirection: 'column',
+        },
+        '&:not([data-layout="main"])': {
+          border: `${tokenSchema.size.border.regular} solid ${tokenSchema.color.border.neutral}`,
+          borderRadius: tokenSchema.size.radius.medium,
+        },
+      })}
+    >
+      <ToolbarWrapper>
+        <ToolbarScrollArea>
+          <Text color="neutralSecondary">Source</Text>
+        </ToolbarScrollArea>
+        <SourceModeButton />
+      </ToolbarWrapper>
+      {props.error !== undefined && (
+        <Notice tone="critical" margin="medium">
+          <Text UNSAFE_className={css({ whiteSpace: 'pre-wrap' })}>
+            {props.error}
+          </Text>
+        </Notice>
+      )}
+      <div
+        className={css({
+          display: 'grid',
+          minHeight: tokenSchema.size.scale[2000],
+        })}
+      >
+        <pre aria-hidden className={css(sourceTextStyles)}>
+          {highlighted}
+        </pre>
+        <textarea
+          {...props.textareaProps}
+          value={props.value}
+          onChange={event => props.onChange(event.target.value)}
+          spellCheck={false}
+          className={css(sourceTextStyles, {
+            background: 'transparent',
+            border: 0,
+            caretColor: tokenSchema.color.foreground.neutral,
+            color: 'transparent',
+            outline: 0,
+            overflow: 'hidden',
+            resize: 'none',
+          })}
+        />
+      </div>
+    </Box>
+  );
+}
@@ -0,0 +1,458 @@
+/** @jest-environment jsdom */
+/** @jsxRuntime classic */
+/** @jsx jsx */
+import { expect, test } from '@jest/globals';
+import Markdoc from '@markdoc/markdoc';
+import { gfmFromMarkdown, gfmToMarkdown } from 'mdast-util-gfm';
+import { mdxFromMarkdown, mdxToMarkdown } from 'mdast-util-mdx';
+import { toMarkdown } from 'mdast-util-to-markdown';
+import { fromMarkdown } from 'mdast-util-from-markdown';
+import { mdxjs } from 'micromark-extension-mdxjs';
+import { gfm } from 'micromark-extension-gfm';
+import { Node } from 'prosemirror-model';
+import { renderEditor, toEditorState } from './utils';
+import { createEditorSchema } from '../schema';
+import { editorOptionsToConfig } from '../../config';
+import { markdocToProseMirror } from '../markdoc/parse';
+import { proseMirrorToMarkdoc } from '../markdoc/serialize';
+import { mdxToProseMirror } from '../mdx/parse';
+import { proseMirrorToMDXRoot } from '../mdx/serialize';
+
+const markdocSchema = createEditorSchema(
+  editorOptionsToConfig({
+    taskList: true,
+    footnote: true,
+    definitionList: true,
+  }),
+  {},
+  false
+);
+
+const mdxSchema = createEditorSchema(
+  editorOptionsToConfig({
+    taskList: true,
+    footnote: true,
+    definitionList: true,
+  }),
+  {},
+  true
+);
+
+function fromMarkdoc(markdoc: string) {
+  return markdocToProseMirror(
+    Markdoc.parse(markdoc),
+    markdocSchema,
+    undefined,
+    undefined,
+    undefined
+  );
+}
+
+function toMarkdoc(doc: Node) {
+  return Markdoc.format(
+    proseMirrorToMarkdoc(doc, {
+      extraFiles: new Map(),
+      otherFiles: new Map(),
+      schema: markdocSchema,
+      slug: undefined,
+    })
+  );
+}
+
+function fromMDX(mdx: string) {
+  const root = fromMarkdown(mdx, {
+    extensions: [mdxjs(), gfm()],
+    mdastExtensions: [mdxFromMarkdown(), gfmFromMarkdown()],
+  });
+  return mdxToProseMirror(
+    root,
+    mdx,
+    mdxSchema,
+    new Map(),
+    new Map(),
+    undefined
+  );
+}
+
+function toMDX(doc: Node) {
+  const root = proseMirrorToMDXRoot(doc, {
+    extraFiles: new Map(),
+    otherFiles: new Map(),
+    schema: mdxSchema,
+    slug: undefined,
+  });
+  return toMarkdown(root, {
+    extensions: [gfmToMarkdown(), mdxToMarkdown()],
+    rule: '-',
+  });
+}
+
+const source = `- [ ] Something
+- [x] Done
+
+Some text[^1] and more[^note]
+
+[^1]: The footnote
+
+[^note]: Another footnote
+
+Term
+: Definition
+: Another definition
+Another term
+: Its definition
+`;
+
+test('markdoc', () => {
+  const doc = fromMarkdoc(source);
+  expect(toEditorState(doc)).toMatchInlineSnapshot(`
+    <doc>
+      <task_list>
+        <task_list_item
+          checked={false}
+        >
+          <paragraph>
+            <text>
+              <cursor />
+              Something
+            </text>
+          </paragraph>
+        </task_list_item>
+        <task_list_item
+          checked={true}
+        >
+          <paragraph>
+            <text>
+              Done
+            </text>
+          </paragraph>
+        </task_list_item>
+      </task_list>
+      <paragraph>
+        <text>
+          Some text
+        </text>
+        <footnote_reference
+          label="1"
+        />
+        <text>
+           and more
+        </text>
+        <footnote_reference
+          label="note"
+        />
+      </paragraph>
+      <footnote_definition
+        label="1"
+      >
+        <text>
+          The footnote
+        </text>
+      </footnote_definition>
+      <footnote_definition
+        label="note"
+      >
+        <text>
+          Another footnote
+        </text>
+      </footnote_definition>
+      <definition_list>
+        <definition_term>
+          <text>
+            Term
+          </text>
+        </definition_term>
+        <definition_description>
+          <text>
+            Definition
+          </text>
+        </definition_description>
+        <definition_description>
+          <text>
+            Another definition
+          </text>
+        </definition_description>
+        <definition_term>
+          <text>
+            Another term
+          </text>
+        </definition_term>
+        <definition_description>
+          <text>
+            Its definition
+          </text>
+        </definition_description>
+      </definition_list>
+    </doc>
+  `);
+  expect(toMarkdoc(doc)).toMatchInlineSnapshot(`
+    "- [ ] Something
+    - [x] Done
+
+    Some text[^1] and more[^note]
+
+    [^1]: The footnote
+
+    [^note]: Another footnote
+
+    Term
+    : Definition
+    : Another definition
+    Another term
+    : Its definition
+    "
+  `);
+});
+
+test('mdx', () => {
+  const doc = fromMDX(source);
+  expect(toEditorState(doc)).toMatchInlineSnapshot(`
+    <doc>
+      <task_list>
+        <task_list_item
+          checked={false}
+        >
+          <paragraph>
+            <text>
+              <cursor />
+              Something
+            </text>
+          </paragraph>
+        </task_list_item>
+        <task_list_item
+          checked={true}
+        >
+          <paragraph>
+            <text>
+              Done
+            </text>
+          </paragraph>
+        </task_list_item>
+      </task_list>
+      <paragraph>
+        <text>
+          Some text
+        </text>
+        <footnote_reference
+          label="1"
+        />
+        <text>
+           and more
+        </text>
+        <footnote_reference
+          label="note"
+        />
+      </paragraph>
+      <footnote_definition
+        label="1"
+      >
+        <text>
+          The footnote
+        </text>
+      </footnote_definition>
+      <footnote_definition
+        label="note"
+      >
+        <text>
+          Another footnote
+        </text>
+      </footnote_definition>
+      <definition_list>
+        <definition_term>
+          <text>
+            Term
+          </text>
+        </definition_term>
+        <definition_description>
+          <text>
+            Definition
+          </text>
+        </definition_description>
+        <definition_description>
+          <text>
+            Another definition
+          </text>
+        </definition_description>
+        <definition_term>
+          <text>
+            Another term
+          </text>
+        </definition_term>
+        <definition_description>
+          <text>
+            Its definition
+          </text>
+        </definition_description>
+      </definition_list>
+    </doc>
+  `);
+  expect(toMDX(doc)).toMatchInlineSnapshot(`
+    "* [ ] Something
+
+    * [x] Done
+
+    Some text[^1] and more[^note]
+
+    [^1]: The footnote
+
+    [^note]: Another footnote
+
+    Term
+    : Definition
+    : Another definition
+    Another term
+    : Its definition
+    "
+  `);
+});
+
+test('task list with a nested list in markdoc', () => {
+  const markdoc = `- [x] Something
+
+  - Nested
+`;
+  const doc = fromMarkdoc(markdoc);
+  expect(toEditorState(doc)).toMatchInlineSnapshot(`
+    <doc>
+      <task_list>
+        <task_list_item
+          checked={true}
+        >
+          <paragraph>
+            <text>
+              <cursor />
+              Something
+            </text>
+          </paragraph>
+          <unordered_list>
+            <list_item>
+              <paragraph>
+                <text>
+                  Nested
+                </text>
+              </paragraph>
+            </list_item>
+          </unordered_list>
+        </task_list_item>
+      </task_list>
+    </doc>
+  `);
+  expect(toMarkdoc(doc)).toMatchInlineSnapshot(`
+    "- [x] Something
+
+      - Nested
+    "
+  `);
+});
+
+test('list with some task list items in mdx is preserved as mdx', () => {
+  const doc = fromMDX(`- [ ] Something\n- Other\n`);
+  expect(toEditorState(doc)).toMatchInlineSnapshot(`
+    <doc>
+      <node_selection>
+        <mdx_block
+          source="- [ ] Something
+    - Other"
+        />
+      </node_selection>
+    </doc>
+  `);
+});
+
+test('a list without task list items is a regular list in markdoc', () => {
+  expect(toEditorState(fromMarkdoc(`- [ ] Something\n- Other\n`)))
+    .toMatchInlineSnapshot(`
+    <doc>
+      <unordered_list>
+        <list_item>
+          <paragraph>
+            <text>
+              <cursor />
+              [ ] Something
+            </text>
+          </paragraph>
+        </list_item>
+        <list_item>
+          <paragraph>
+            <text>
+              Other
+            </text>
+          </paragraph>
+        </list_item>
+      </unordered_list>
+    </doc>
+  `);
+});
+
+test('task list shortcut', async () => {
+  const { state, user } = renderEditor(toEditorState(fromMarkdoc('')));
+  await user.keyboard('[[x] Something');
+  expect(state()).toMatchInlineSnapshot(`
+    <doc>
+      <task_list>
+        <task_list_item
+          checked={true}
+        >
+          <paragraph>
+            <text>
+              Something
+              <cursor />
+            </text>
+          </paragraph>
+        </task_list_item>
+      </task_list>
+    </doc>
+  `);
+});
+
+test('footnote shortcuts', async () => {
+  const { state, user } = renderEditor(toEditorState(fromMarkdoc('')));
+  await user.keyboard('Text[[^1]{Enter}[[^1]: The footnote');
+  expect(state()).toMatchInlineSnapshot(`
+    <doc>
+      <paragraph>
+        <text>
+          Text
+        </text>
+        <footnote_reference
+          label="1"
+        />
+      </paragraph>
+      <footnote_definition
+        label="1"
+      >
+        <text>
+          The footnote
+          <cursor />
+        </text>
+      </footnote_definition>
+    </doc>
+  `);
+});
+
+test('definition list shortcut', async () => {
+  const { state, user } = renderEditor(toEditorState(fromMarkdoc('')));
+  await user.keyboard('Term{Enter}: Definition{Enter}{Enter}After');
+  expect(state()).toMatchInlineSnapshot(`
+    <doc>
+      <definition_list>
+        <definition_term>
+          <text>
+            Term
+          </text>
+        </definition_term>
+        <definition_description>
+          <text>
+            Definition
+          </text>
+        </definition_description>
+      </definition_list>
+      <paragraph>
+        <text>
+          After
+          <cursor />
+        </text>
+      </paragraph>
+    </doc>
+  `);
+});
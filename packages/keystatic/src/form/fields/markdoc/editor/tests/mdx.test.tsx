@@ -86,7 +86,7 @@ function fromMDX(mdx: string) {
     ['something something.png', new Uint8Array([])],
   ]);
   const otherFiles = new Map<string, Map<string, Uint8Array>>();
-  const doc = mdxToProseMirror(root, schema, files, otherFiles, undefined);
+  const doc = mdxToProseMirror(root, mdx, schema, files, otherFiles, undefined);
   return toEditorState(doc);
 }
 
@@ -766,19 +766,164 @@ b
   `);
 });
 
-test('undefined component', () => {
-  expect(() => {
-    fromMDX('<ComponentThatDoesNotExist />');
-  }).toThrowErrorMatchingInlineSnapshot(
-    `"Missing component definition for ComponentThatDoesNotExist"`
-  );
+test('undefined components and fragments are preserved', () => {
+  const mdx = `<ComponentThatDoesNotExist />
+
+Some <Inline>text</Inline> here
+
+<>
+  Fragment
+</>`;
+  const editor = fromMDX(mdx);
+  expect(editor).toMatchInlineSnapshot(`
+    <doc>
+      <node_selection>
+        <mdx_block
+          source="<ComponentThatDoesNotExist />"
+        />
+      </node_selection>
+      <paragraph>
+        <text>
+          Some 
+        </text>
+        <mdx_inline
+          source="<Inline>text</Inline>"
+        />
+        <text>
+           here
+        </text>
+      </paragraph>
+      <mdx_block
+        source="<>
+      Fragment
+    </>"
+      />
+    </doc>
+  `);
+  expect(toMDX(editor)).toMatchInlineSnapshot(`
+    "<ComponentThatDoesNotExist />
+
+    Some <Inline>text</Inline> here
+
+    <>
+      Fragment
+    </>
+    "
+  `);
+});
+
+test('imports and exports are preserved', () => {
+  const mdx = `import { Chart } from '../components/chart'
+export const meta = {title:  'Something'}
+
+Something`;
+  const editor = fromMDX(mdx);
+  expect(editor).toMatchInlineSnapshot(`
+    <doc>
+      <node_selection>
+        <mdx_block
+          source="import { Chart } from '../components/chart'
+    export const meta = {title:  'Something'}"
+        />
+      </node_selection>
+      <paragraph>
+        <text>
+          Something
+        </text>
+      </paragraph>
+    </doc>
+  `);
+  expect(toMDX(editor)).toMatchInlineSnapshot(`
+    "import { Chart } from '../components/chart'
+    export const meta = {title:  'Something'}
+
+    Something
+    "
+  `);
+});
+
+test('expressions are preserved', () => {
+  const mdx = `{new Date( ).getFullYear()}
+
+Copyright {year  + 1} {/* a comment */}
+
+* {props.items.map(item => (
+    item.name
+  ))}`;
+  const editor = fromMDX(mdx);
+  expect(editor).toMatchInlineSnapshot(`
+    <doc>
+      <node_selection>
+        <mdx_block
+          source="{new Date( ).getFullYear()}"
+        />
+      </node_selection>
+      <paragraph>
+        <text>
+          Copyright 
+        </text>
+        <mdx_inline
+          source="{year  + 1}"
+        />
+        <text>
+           
+        </text>
+        <mdx_inline
+          source="{/* a comment */}"
+        />
+      </paragraph>
+      <unordered_list>
+        <list_item>
+          <mdx_block
+            source="{props.items.map(item => (
+      item.name
+    ))}"
+          />
+        </list_item>
+      </unordered_list>
+    </doc>
+  `);
+  expect(toMDX(editor)).toMatchInlineSnapshot(`
+    "{new Date( ).getFullYear()}
+
+    Copyright {year  + 1} {/* a comment */}
+
+    * {props.items.map(item => (
+        item.name
+      ))}
+    "
+  `);
 });
 
-test('other syntax', () => {
-  expect(() => {
-    fromMDX('export const a = true;');
-  }).toThrowErrorMatchingInlineSnapshot(`
-    "Unhandled type mdxjsEsm: export const a = true;
+test('components with attributes that are not values are preserved', () => {
+  const mdx = `<Something bool={isEnabled} />
+
+a <InlineThing something={() => 'a'} /> b`;
+  const editor = fromMDX(mdx);
+  expect(editor).toMatchInlineSnapshot(`
+    <doc>
+      <node_selection>
+        <mdx_block
+          source="<Something bool={isEnabled} />"
+        />
+      </node_selection>
+      <paragraph>
+        <text>
+          a 
+        </text>
+        <mdx_inline
+          source="<InlineThing something={() => 'a'} />"
+        />
+        <text>
+           b
+        </text>
+      </paragraph>
+    </doc>
+  `);
+  expect(toMDX(editor)).toMatchInlineSnapshot(`
+    "<Something bool={isEnabled} />
+
+    a <InlineThing something={() => 'a'} /> b
     "
   `);
 });
@@ -0,0 +1,85 @@
+/** @jest-environment jsdom */
+import { expect, test } from '@jest/globals';
+import { act, renderHook } from '@testing-library/react';
+import { EditorState } from 'prosemirror-state';
+import { useState } from 'react';
+import { createEditorSchema } from '../schema';
+import { editorOptionsToConfig } from '../../config';
+import {
+  parseToEditorState,
+  serializeFromEditorState,
+  useSourceMode,
+} from '../../ui';
+
+const schema = createEditorSchema(editorOptionsToConfig({}), {}, false);
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+function fromMarkdoc(markdoc: string) {
+  return parseToEditorState(
+    textEncoder.encode(markdoc),
+    schema,
+    new Map(),
+    new Map(),
+    undefined
+  );
+}
+
+function toMarkdoc(value: EditorState) {
+  return textDecoder.decode(serializeFromEditorState(value, undefined).content);
+}
+
+function renderSourceMode(markdoc: string) {
+  return renderHook(() => {
+    const [value, setValue] = useState(() => fromMarkdoc(markdoc));
+    return { value, setValue, ...useSourceMode(value, setValue, false) };
+  });
+}
+
+test('toggling shows the value as text', () => {
+  const { result } = renderSourceMode('# Heading\n\nSome text\n');
+  expect(result.current.sourceMode.isSourceMode).toBe(false);
+  act(() => result.current.sourceMode.toggle());
+  expect(result.current.sourceMode.isSourceMode).toBe(true);
+  expect(result.current.source?.text).toBe('# Heading\n\nSome text\n');
+  act(() => result.current.sourceMode.toggle());
+  expect(result.current.sourceMode.isSourceMode).toBe(false);
+});
+
+test('changing the text updates the value', () => {
+  const { result } = renderSourceMode('Some text\n');
+  act(() => result.current.sourceMode.toggle());
+  act(() => result.current.onSourceChange('Some **bold** text\n'));
+  expect(result.current.source?.error).toBeUndefined();
+  expect(toMarkdoc(result.current.value)).toBe('Some **bold** text\n');
+  act(() => result.current.sourceMode.toggle());
+  expect(result.current.sourceMode.isSourceMode).toBe(false);
+});
+
+test('text that cannot be parsed is kept and stops switching back', () => {
+  const { result } = renderSourceMode('Some text\n');
+  act(() => result.current.sourceMode.toggle());
+  act(() => result.current.onSourceChange('{% unclosed %}\n'));
+  expect(result.current.source?.text).toBe('{% unclosed %}\n');
+  expect(result.current.source?.error).toEqual(expect.any(String));
+  expect(toMarkdoc(result.current.value)).toBe('Some text\n');
+  act(() => result.current.sourceMode.toggle());
+  expect(result.current.sourceMode.isSourceMode).toBe(true);
+
+  act(() => result.current.onSourceChange('Other text\n'));
+  expect(result.current.source?.error).toBeUndefined();
+  expect(toMarkdoc(result.current.value)).toBe('Other text\n');
+  act(() => result.current.sourceMode.toggle());
+  expect(result.current.sourceMode.isSourceMode).toBe(false);
+});
+
+test('the text is replaced when the value is changed from elsewhere', () => {
+  const { result } = renderSourceMode('Some text\n');
+  act(() => result.current.sourceMode.toggle());
+  act(() => result.current.onSourceChange('{% unclosed %}\n'));
+  act(() => result.current.setValue(fromMarkdoc('Reset text\n')));
+  expect(result.current.sourceMode.isSourceMode).toBe(true);
+  expect(result.current.source?.text).toBe('Reset text\n');
+  expect(result.current.source?.error).toBeUndefined();
+});
@@ -52,6 +52,7 @@ export function markdoc({
   return {
     kind: 'form',
     formKind: 'content',
+    label,
     defaultValue() {
       return getDefaultValue(getSchema());
     },
@@ -60,6 +61,7 @@ export function markdoc({
         <DocumentFieldInput
           description={description}
           label={label}
+          isMDX={false}
           {...props}
         />
       );
@@ -149,6 +151,7 @@ export function mdx({
   return {
     kind: 'form',
     formKind: 'content',
+    label,
     defaultValue() {
       return getDefaultValue(getSchema());
     },
@@ -157,6 +160,7 @@ export function mdx({
         <DocumentFieldInput
           description={description}
           label={label}
+          isMDX
           {...props}
         />
       );
@@ -4,6 +4,7 @@ import { EditorState } from 'prosemirror-state';
 import { Editor } from './editor';
 import { createEditorState } from './editor/editor-state';
 import { EditorSchema, getEditorSchema } from './editor/schema';
+import { SourceEditor, SourceModeProvider } from './editor/source-mode';
 import { markdocToProseMirror } from './editor/markdoc/parse';
 import Markdoc from '@markdoc/markdoc';
 import { proseMirrorToMarkdoc } from './editor/markdoc/serialize';
@@ -19,6 +20,7 @@ import { mdxToProseMirror } from './editor/mdx/parse';
 import { proseMirrorToMDXRoot } from './editor/mdx/serialize';
 import { yXmlFragmentToProsemirror } from 'y-prosemirror';
 import { Awareness } from 'y-protocols/awareness';
+import { useMemo, useState } from 'react';
 
 export { createEditorSchema } from './editor/schema';
 
@@ -79,7 +81,7 @@ export function parseToEditorStateMDX(
     extensions: [mdxjs(), gfm()],
     mdastExtensions: [mdxFromMarkdown(), gfmFromMarkdown()],
   });
-  const doc = mdxToProseMirror(root, schema, files, otherFiles, slug);
+  const doc = mdxToProseMirror(root, mdx, schema, files, otherFiles, slug);
   return createEditorState(doc);
 }
 
@@ -106,13 +108,98 @@ export function serializeFromEditorStateMDX(
   };
 }
 
+type SourceState = {
+  text: string;
+  error: string | undefined;
+  files: ReadonlyMap<string, Uint8Array>;
+  otherFiles: ReadonlyMap<string, ReadonlyMap<string, Uint8Array>>;
+  /**
+   * The value that the text was serialized from or last parsed to, the text
+   * is replaced when the value is changed from elsewhere, e.g. by resetting
+   * the entry
+   */
+  value: EditorState;
+};
+
+function getSourceState(value: EditorState, isMDX: boolean): SourceState {
+  // the slug is only used for the paths of images which are parsed with the
+  // same slug when switching back
+  const { content, other, external } = (
+    isMDX ? serializeFromEditorStateMDX : serializeFromEditorState
+  )(value, undefined);
+  return {
+    text: textDecoder.decode(content),
+    error: undefined,
+    files: other,
+    otherFiles: external,
+    value,
+  };
+}
+
+export function useSourceMode(
+  value: EditorState,
+  onChange: (value: EditorState) => void,
+  isMDX: boolean
+) {
+  let [source, setSource] = useState<SourceState | null>(null);
+  if (source !== null && source.value !== value) {
+    source = getSourceState(value, isMDX);
+    setSource(source);
+  }
+  const sourceMode = useMemo(
+    () => ({
+      isSourceMode: source !== null,
+      toggle() {
+        if (source === null) {
+          setSource(getSourceState(value, isMDX));
+        } else if (source.error === undefined) {
+          setSource(null);
+        }
+      },
+    }),
+    [isMDX, source, value]
+  );
+  const onSourceChange = (text: string) => {
+    if (source === null) return;
+    try {
+      const newValue = (isMDX ? parseToEditorStateMDX : parseToEditorState)(
+        textEncoder.encode(text),
+        getEditorSchema(value.schema),
+        source.files,
+        source.otherFiles,
+        undefined
+      );
+      onChange(newValue);
+      setSource({ ...source, text, error: undefined, value: newValue });
+    } catch (err) {
+      // the text is kept so nothing is lost while it can't be parsed, the
+      // value of the field is the last text that could be parsed
+      setSource({
+        ...source,
+        text,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  };
+  return { source, sourceMode, onSourceChange };
+}
+
 export function DocumentFieldInput(
   props: FormFieldInputProps<EditorState> & {
     label: string;
     description: string | undefined;
+    isMDX: boolean;
   }
 ) {
   let entryLayoutPane = useEntryLayoutSplitPaneContext();
+  const { source, sourceMode, onSourceChange } = useSourceMode(
+    props.value,
+    props.onChange,
+    props.isMDX
+  );
+  // switching to the source changes the whole document which would conflict
+  // with changes from other people when collaborating
+  const isCollaborating = 'yjs' in props.onChange;
 
   let fieldProps: FieldProps = {
     label: props.label,
@@ -132,7 +219,22 @@ export function DocumentFieldInput(
       {...fieldProps}
     >
       {inputProps => (
-        <Editor {...inputProps} value={props.value} onChange={props.onChange} />
+        <SourceModeProvider value={isCollaborating ? null : sourceMode}>
+          {source ? (
+            <SourceEditor
+              value={source.text}
+              onChange={onSourceChange}
+              error={source.error}
+              textareaProps={inputProps}
+            />
+          ) : (
+            <Editor
+              {...inputProps}
+              value={props.value}
+              onChange={props.onChange}
+            />
+          )}
+        </SourceModeProvider>
       )}
     </Field>
   );
@@ -5,18 +5,20 @@ import { MultiRelationshipInput } from '#field-ui/multiRelationship';
 import { isString } from 'emery';
 import { validateMultiRelationshipLength } from './validate';
 
-export function multiRelationship({
+export function multiRelationship<CollectionName extends string>({
   label,
   collection,
   validation,
   description,
 }: {
   label: string;
-  collection: string;
+  collection: CollectionName;
   validation?: { length?: { min?: number; max?: number } };
   description?: string;
-}): BasicFormField<string[]> {
-  return basicFormFieldWithSimpleReaderParse({
+}): BasicFormField<string[]> & {
+  collection: CollectionName;
+} {
+  const field: BasicFormField<string[]> = basicFormFieldWithSimpleReaderParse({
     label,
     Input(props) {
       return (
@@ -48,8 +50,21 @@ export function multiRelationship({
       }
       return value;
     },
+    storedValue: {
+      schema: {
+        type: 'array',
+        items: { type: 'string' },
+        minItems: validation?.length?.min,
+        maxItems: validation?.length?.max,
+        default: [],
+      },
+    },
     serialize(value) {
       return { value };
     },
   });
+  return {
+    ...field,
+    collection,
+  };
 }
@@ -59,6 +59,13 @@ export function multiselect<
       validate(value) {
         return value;
       },
+      storedValue: {
+        schema: {
+          type: 'array',
+          items: { type: 'string', enum: options.map(x => x.value) },
+          default: [],
+        },
+      },
       serialize(value) {
         return { value };
       },
@@ -62,6 +62,14 @@ export function number<IsRequired extends boolean | undefined>({
       assertRequired(value, validation, label);
       return value;
     },
+    storedValue: {
+      schema: {
+        type: 'number',
+        minimum: validation?.min,
+        maximum: validation?.max,
+      },
+      isRequired: validation?.isRequired,
+    },
     serialize(value) {
       return { value: value === null ? undefined : value };
     },
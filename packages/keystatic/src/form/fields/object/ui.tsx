@@ -1,5 +1,5 @@
 import { assert, assertNever } from 'emery';
-import { useId } from 'react';
+import { useContext, useId } from 'react';
 
 import { Grid } from '@keystar/ui/layout';
 import { containerQueries, css } from '@keystar/ui/style';
@@ -10,8 +10,13 @@ import {
   ExtraFieldInputProps,
   InnerFormValueContentFromPreviewProps,
 } from '../../form-from-preview';
-import { AddToPathProvider } from '../text/path-slug-context';
-import { FIELD_GRID_COLUMNS, FieldContextProvider } from '../context';
+import { AddToPathProvider, PathContext } from '../text/path-slug-context';
+import {
+  FIELD_GRID_COLUMNS,
+  FieldContextProvider,
+  ReadOnlyField,
+  useReadOnlyFields,
+} from '../context';
 
 export function ObjectFieldInput<
   Fields extends Record<string, ComponentSchema>,
@@ -22,6 +27,9 @@ export function ObjectFieldInput<
   forceValidation,
 }: GenericPreviewProps<ObjectField<Fields>, unknown> & ExtraFieldInputProps) {
   validateLayout(schema);
+  // read-only fields are only the top-level fields of an entry
+  const isEntryObject = useContext(PathContext).length === 0;
+  const readOnlyFields = useReadOnlyFields();
 
   const firstFocusable = autoFocus
     ? findFocusableObjectFieldKey(schema)
@@ -46,12 +54,16 @@ export function ObjectFieldInput<
               })}
             >
               <AddToPathProvider part={key}>
-                <InnerFormValueContentFromPreviewProps
-                  forceValidation={forceValidation}
-                  autoFocus={key === firstFocusable}
-                  marginBottom="xlarge"
-                  {...propVal}
-                />
+                <ReadOnlyField
+                  isReadOnly={isEntryObject && readOnlyFields.has(key)}
+                >
+                  <InnerFormValueContentFromPreviewProps
+                    forceValidation={forceValidation}
+                    autoFocus={key === firstFocusable}
+                    marginBottom="xlarge"
+                    {...propVal}
+                  />
+                </ReadOnlyField>
               </AddToPathProvider>
             </div>
           </FieldContextProvider>
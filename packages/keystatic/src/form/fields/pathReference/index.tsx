@@ -50,6 +50,10 @@ export function pathReference<IsRequired extends boolean | undefined>({
       assertRequired(value, validation, label);
       return value;
     },
+    storedValue: {
+      schema: { type: 'string' },
+      isRequired: validation?.isRequired,
+    },
     serialize(value) {
       return { value: value === null ? undefined : value };
     },
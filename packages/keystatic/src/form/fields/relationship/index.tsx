@@ -7,21 +7,29 @@ import {
 } from '../utils';
 import { RelationshipInput } from '#field-ui/relationship';
 
-export function relationship<IsRequired extends boolean | undefined>({
+export function relationship<
+  IsRequired extends boolean | undefined,
+  CollectionName extends string,
+>({
   label,
   collection,
   validation,
   description,
 }: {
   label: string;
-  collection: string;
+  collection: CollectionName;
   validation?: { isRequired?: IsRequired };
   description?: string;
 } & RequiredValidation<IsRequired>): BasicFormField<
   string | null,
   string | (IsRequired extends true ? never : null)
-> {
-  return basicFormFieldWithSimpleReaderParse({
+> & {
+  collection: CollectionName;
+} {
+  const field: BasicFormField<
+    string | null,
+    string | (IsRequired extends true ? never : null)
+  > = basicFormFieldWithSimpleReaderParse({
     label,
     Input(props) {
       return (
@@ -50,8 +58,16 @@ export function relationship<IsRequired extends boolean | undefined>({
       assertRequired(value, validation, label);
       return value;
     },
+    storedValue: {
+      schema: { type: 'string' },
+      isRequired: validation?.isRequired,
+    },
     serialize(value) {
       return { value: value === null ? undefined : value };
     },
   });
+  return {
+    ...field,
+    collection,
+  };
 }
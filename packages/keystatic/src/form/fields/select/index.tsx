@@ -53,6 +53,13 @@ export function select<const Option extends { label: string; value: string }>({
       validate(value) {
         return value;
       },
+      storedValue: {
+        schema: {
+          type: 'string',
+          enum: options.map(x => x.value),
+          default: defaultValue,
+        },
+      },
       serialize(value) {
         return { value };
       },
@@ -147,6 +147,15 @@ export function slug(_args: {
     },
 
     validate,
+    storedValue: {
+      schema: {
+        type: 'object',
+        properties: { name: { type: 'string' }, slug: { type: 'string' } },
+        required: ['name', 'slug'],
+        additionalProperties: false,
+        default: { name: '', slug: '' },
+      },
+    },
     serialize(value) {
       return { value };
     },
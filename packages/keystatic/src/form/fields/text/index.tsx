@@ -72,6 +72,15 @@ export function text({
       }
       return parseAsNormalField(value);
     },
+    storedValue: {
+      schema: {
+        type: 'string',
+        minLength: min > 0 ? min : undefined,
+        maxLength: max === Infinity ? undefined : max,
+        default: '',
+      },
+      isRequired: min > 0,
+    },
     serialize(value) {
       return { value: value === '' ? undefined : value };
     },
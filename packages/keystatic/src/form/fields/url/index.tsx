@@ -54,6 +54,10 @@ export function url<IsRequired extends boolean | undefined>({
       assertRequired(value, validation, label);
       return value;
     },
+    storedValue: {
+      schema: { type: 'string', format: 'uri' },
+      isRequired: validation?.isRequired,
+    },
     serialize(value) {
       return { value: value === null ? undefined : value };
     },
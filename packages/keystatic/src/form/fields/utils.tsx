@@ -3,6 +3,7 @@ import {
   BasicFormField,
   FormFieldInputProps,
   FormFieldStoredValue,
+  StoredValueSchema,
 } from '../api';
 import { FieldDataError } from './error';
 
@@ -33,6 +34,7 @@ export function basicFormFieldWithSimpleReaderParse<
   serialize(value: ParsedValue): { value: FormFieldStoredValue };
   validate(value: ParsedValue): ValidatedValue;
   label: string;
+  storedValue?: StoredValueSchema;
 }): BasicFormField<ParsedValue, ValidatedValue, ValidatedValue> {
   return {
     kind: 'form',
@@ -47,5 +49,6 @@ export function basicFormFieldWithSimpleReaderParse<
       },
     },
     label: config.label,
+    storedValue: config.storedValue,
   };
 }
@@ -6,6 +6,7 @@ export {
   ToolbarSeparator,
 } from '#component-block-primitives';
 export type {
+  Access,
   CloudConfig,
   Collection,
   Config,
@@ -15,5 +16,9 @@ export type {
   GitHubConfig,
   Glob,
   LocalConfig,
+  Localization,
+  Migration,
+  Permissions,
+  PermissionsRole,
   Singleton,
 } from './config';
@@ -0,0 +1,113 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+/**
+ * The live preview pane in the Admin UI renders the `previewUrl` of an entry
+ * in an iframe and sends it the unsaved values of the entry with
+ * `postMessage`:
+ *
+ * 1. The preview page sends a `keystatic:preview-ready` message to its parent
+ *    window when it's ready to receive values.
+ * 2. The Admin UI responds with a `keystatic:preview-update` message with the
+ *    current values of the entry and sends another whenever they change.
+ *
+ * Updates are only sent to the origin of the `previewUrl`.
+ */
+export const PREVIEW_PROTOCOL_VERSION = 1;
+
+export type PreviewEntry =
+  | { kind: 'collection'; collection: string; slug: string }
+  | { kind: 'singleton'; singleton: string };
+
+export type PreviewReadyMessage = {
+  type: 'keystatic:preview-ready';
+  version: typeof PREVIEW_PROTOCOL_VERSION;
+};
+
+export type PreviewUpdateMessage = {
+  type: 'keystatic:preview-update';
+  version: typeof PREVIEW_PROTOCOL_VERSION;
+  entry: PreviewEntry;
+  /**
+   * The values of the entry as they would be written to its data file, with
+   * the source of content fields as strings, e.g. the Markdoc of a
+   * `fields.markdoc` field.
+   */
+  data: Record<string, unknown>;
+};
+
+export type PreviewUpdate = Pick<PreviewUpdateMessage, 'entry' | 'data'>;
+
+export function isPreviewReadyMessage(
+  data: unknown
+): data is PreviewReadyMessage {
+  return (
+    typeof data === 'object' &&
+    data !== null &&
+    (data as PreviewReadyMessage).type === 'keystatic:preview-ready' &&
+    (data as PreviewReadyMessage).version === PREVIEW_PROTOCOL_VERSION
+  );
+}
+
+function isPreviewUpdateMessage(data: unknown): data is PreviewUpdateMessage {
+  return (
+    typeof data === 'object' &&
+    data !== null &&
+    (data as PreviewUpdateMessage).type === 'keystatic:preview-update' &&
+    (data as PreviewUpdateMessage).version === PREVIEW_PROTOCOL_VERSION
+  );
+}
+
+export type PreviewSubscriptionOptions = {
+  /**
+   * The origin of the Admin UI, updates from other origins are ignored.
+   * Defaults to the origin of the page.
+   */
+  origin?: string;
+};
+
+/**
+ * Calls `callback` with the unsaved values of the entry whenever they change
+ * when the page is rendered in the live preview pane of the Admin UI. Does
+ * nothing when the page isn't in an iframe.
+ *
+ * Returns a function to unsubscribe.
+ */
+export function subscribeToPreview(
+  callback: (update: PreviewUpdate) => void,
+  options: PreviewSubscriptionOptions = {}
+): () => void {
+  if (typeof window === 'undefined' || window.parent === window) {
+    return () => {};
+  }
+  const origin = options.origin ?? window.location.origin;
+  const listener = (event: MessageEvent) => {
+    if (event.source !== window.parent || event.origin !== origin) return;
+    if (!isPreviewUpdateMessage(event.data)) return;
+    callback({ entry: event.data.entry, data: event.data.data });
+  };
+  window.addEventListener('message', listener);
+  const ready: PreviewReadyMessage = {
+    type: 'keystatic:preview-ready',
+    version: PREVIEW_PROTOCOL_VERSION,
+  };
+  window.parent.postMessage(ready, origin);
+  return () => {
+    window.removeEventListener('message', listener);
+  };
+}
+
+/**
+ * The unsaved values of the entry when the page is rendered in the live
+ * preview pane of the Admin UI, `undefined` until the first update is
+ * received or when the page isn't in the live preview pane.
+ */
+export function usePreview(
+  options: PreviewSubscriptionOptions = {}
+): PreviewUpdate | undefined {
+  const [update, setUpdate] = useState<PreviewUpdate>();
+  const { origin } = options;
+  useEffect(() => subscribeToPreview(setUpdate, { origin }), [origin]);
+  return update;
+}
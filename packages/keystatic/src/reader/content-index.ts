@@ -0,0 +1,117 @@
+import nodePath from 'node:path';
+import nodeFs from 'node:fs';
+import { createHash } from 'node:crypto';
+import { Config } from '../config';
+import pkgJson from '../../package.json';
+import { ContentIndex, ContentIndexEntry } from './generic';
+
+const INDEX_VERSION = 1;
+
+type SerializedContentIndex = {
+  version: number;
+  key: string;
+  entries: Record<string, { sha: string; entry: ContentIndexEntry }>;
+};
+
+export function getDefaultContentIndexPath() {
+  return nodePath.join(
+    process.cwd(),
+    'node_modules/.cache/keystatic/content-index.json'
+  );
+}
+
+// parsed values depend on the schema and how it's parsed so the index is
+// invalidated whenever the config or the version of Keystatic changes.
+// functions (e.g. defaultValue) are included by their source.
+function getIndexKey(repoPath: string, config: Config) {
+  let serialized;
+  try {
+    serialized = JSON.stringify(
+      [
+        INDEX_VERSION,
+        pkgJson.version,
+        repoPath,
+        config.collections,
+        config.singletons,
+      ],
+      (_key, value) => (typeof value === 'function' ? String(value) : value)
+    );
+  } catch (err) {
+    throw new Error(
+      `The content index could not be created because the config could not be serialized, disable the \`contentIndex\` option of the reader to read without it:\n${
+        err instanceof Error ? err.message : String(err)
+      }`
+    );
+  }
+  return createHash('sha1').update(serialized).digest('hex');
+}
+
+function readIndexFile(
+  filepath: string,
+  key: string
+): Map<string, { sha: string; entry: ContentIndexEntry }> {
+  try {
+    const parsed: SerializedContentIndex = JSON.parse(
+      nodeFs.readFileSync(filepath, 'utf8')
+    );
+    if (parsed.version === INDEX_VERSION && parsed.key === key) {
+      return new Map(Object.entries(parsed.entries));
+    }
+  } catch (err) {
+    if ((err as any).code !== 'ENOENT' && !(err instanceof SyntaxError)) {
+      throw err;
+    }
+  }
+  return new Map();
+}
+
+/**
+ * Creates a content index that is persisted as a JSON file so that entries
+ * whose data files are unchanged are not re-parsed across process runs. Only
+ * the entries that were read in a run are written so the file doesn't keep
+ * entries for data files that have changed or been removed.
+ *
+ * Values read from fields must be JSON-serializable to be stored in the index.
+ */
+export function createFileSystemContentIndex(
+  filepath: string,
+  repoPath: string,
+  config: Config
+): ContentIndex {
+  const key = getIndexKey(repoPath, config);
+  let entries: Map<string, { sha: string; entry: ContentIndexEntry }>;
+  const getEntries = () => (entries ??= readIndexFile(filepath, key));
+  const touched = new Set<string>();
+
+  let writeTimeout: ReturnType<typeof setTimeout> | undefined;
+  const write = () => {
+    writeTimeout = undefined;
+    const serialized: SerializedContentIndex = {
+      version: INDEX_VERSION,
+      key,
+      entries: Object.fromEntries(
+        [...getEntries()].filter(([path]) => touched.has(path))
+      ),
+    };
+    const tempPath = `${filepath}.${process.pid}.tmp`;
+    nodeFs.mkdirSync(nodePath.dirname(filepath), { recursive: true });
+    nodeFs.writeFileSync(tempPath, JSON.stringify(serialized));
+    nodeFs.renameSync(tempPath, filepath);
+  };
+
+  return {
+    get(path, sha) {
+      const cached = getEntries().get(path);
+      if (cached?.sha !== sha) return undefined;
+      touched.add(path);
+      return JSON.parse(JSON.stringify(cached.entry));
+    },
+    set(path, sha, entry) {
+      touched.add(path);
+      getEntries().set(path, { sha, entry: JSON.parse(JSON.stringify(entry)) });
+      if (writeTimeout === undefined) {
+        writeTimeout = setTimeout(write, 100);
+      }
+    },
+  };
+}
@@ -1,7 +1,10 @@
 import { Collection, Config, Glob, Singleton } from '../config';
 import {
   ComponentSchema,
+  ContentFormField,
   fields,
+  FormFieldStoredValue,
+  JsonYamlValue,
   ObjectField,
   SlugFormField,
   ValueForReading,
@@ -19,13 +22,63 @@ import {
   getSlugGlobForCollection,
 } from '../app/path-utils';
 import { parseProps } from '../form/parse-props';
-import { loadDataFile } from '../app/required-files';
+import { getContentFieldFile, loadDataFile } from '../app/required-files';
+import { migrateEntryData } from '../app/migrations';
+import { applyComputedFields } from '../app/computed-fields';
+import {
+  PUBLISHING_STATUS_FIELD,
+  PUBLISH_AT_FIELD,
+  getPublishingState,
+} from '../app/publishing';
+import {
+  getConfigForLocale,
+  getDefaultLocale,
+  getLocaleFallbacks,
+} from '../app/localization';
 import { getValueAtPropPath } from '../form/props-value';
-import { ReadonlyPropPath } from '../form/fields/document/DocumentEditor/component-blocks/utils';
+import {
+  ReadonlyPropPath,
+  getSchemaAtPropPath,
+} from '../form/fields/document/DocumentEditor/component-blocks/utils';
+import { blobSha } from '../app/trees';
+import { COMMENTS_FILE_SUFFIX } from '../app/comments';
 import { cache } from '#react-cache-in-react-server';
 import { formatFormDataError } from '../form/error-formatting';
+import { QueryOpts, applyQuery, getQueriedFields } from './query';
+import {
+  getReferencedSlugs,
+  referencesCollection,
+  resolveRelationships,
+} from './relationships';
+
+type EntryReaderOpts = {
+  resolveLinkedFiles?: boolean;
+  resolveRelationships?: boolean;
+  /**
+   * For collections and singletons with `localization`, the locale to read.
+   * When the entry hasn't been translated into the locale, its fallbacks and
+   * then the default locale are read instead.
+   */
+  locale?: string;
+};
 
-type EntryReaderOpts = { resolveLinkedFiles?: boolean };
+type CollectionReaderOpts = EntryReaderOpts & {
+  /**
+   * For collections with `publishing` enabled, draft entries and entries that
+   * are scheduled to be published in the future are excluded unless this is
+   * `true`.
+   */
+  includeUnpublished?: boolean;
+};
+
+type CollectionQueryOpts<
+  Schema extends Record<string, ComponentSchema>,
+  SlugField extends string,
+> = CollectionReaderOpts & QueryOpts<CollectionEntry<Schema, SlugField>>;
+
+type AnyCollections = {
+  [key: string]: Collection<Record<string, ComponentSchema>, string>;
+};
 
 type ValueForReadingWithMode<
   Schema extends ComponentSchema,
@@ -39,6 +92,61 @@ type OptionalChain<
   Key extends keyof (T & {}),
 > = T extends {} ? T[Key] : undefined;
 
+type RelatedEntry<
+  Collections extends AnyCollections,
+  CollectionName,
+> = CollectionName extends keyof Collections
+  ? {
+      slug: string;
+      entry: CollectionEntry<
+        Collections[CollectionName]['schema'],
+        Collections[CollectionName]['slugField']
+      >;
+    }
+  : { slug: string; entry: Record<string, unknown> };
+
+type ValueForReadingWithOpts<
+  Schema extends ComponentSchema,
+  Opts extends EntryReaderOpts | undefined,
+  Collections extends AnyCollections,
+> = OptionalChain<Opts, 'resolveRelationships'> extends true
+  ? Schema extends { collection: infer CollectionName }
+    ? ValueForReading<Schema> extends readonly string[]
+      ? RelatedEntry<Collections, CollectionName>[]
+      : RelatedEntry<Collections, CollectionName> | null
+    : ValueForReadingWithMode<Schema, OptionalChain<Opts, 'resolveLinkedFiles'>>
+  : ValueForReadingWithMode<Schema, OptionalChain<Opts, 'resolveLinkedFiles'>>;
+
+type CollectionEntryWithOpts<
+  Schema extends Record<string, ComponentSchema>,
+  SlugField extends string,
+  Opts extends EntryReaderOpts | undefined,
+  Collections extends AnyCollections,
+> = {
+  [Key in keyof Schema]: SlugField extends Key
+    ? Schema[Key] extends SlugFormField<
+        any,
+        any,
+        any,
+        infer SlugSerializedValue
+      >
+      ? SlugSerializedValue
+      : ValueForReadingWithOpts<Schema[Key], Opts, Collections>
+    : ValueForReadingWithOpts<Schema[Key], Opts, Collections>;
+};
+
+type SingletonEntryWithOpts<
+  Schema extends Record<string, ComponentSchema>,
+  Opts extends EntryReaderOpts | undefined,
+  Collections extends AnyCollections,
+> = {
+  readonly [Key in keyof Schema]: ValueForReadingWithOpts<
+    Schema[Key],
+    Opts,
+    Collections
+  >;
+};
+
 export type Entry<
   CollectionOrSingleton extends Collection<any, any> | Singleton<any>,
 > = CollectionOrSingleton extends Collection<infer Schema, infer SlugField>
@@ -94,98 +202,97 @@ type SingletonEntryWithResolvedLinkedFiles<
 type SingletonEntry<Schema extends Record<string, ComponentSchema>> =
   ValueForReading<ObjectField<Schema>>;
 
+type RelationshipFieldKeys<Schema extends Record<string, ComponentSchema>> = {
+  [Key in keyof Schema]: Schema[Key] extends { collection: string }
+    ? Key & string
+    : never;
+}[keyof Schema];
+
 export type CollectionReader<
   Schema extends Record<string, ComponentSchema>,
   SlugField extends string,
+  Collections extends AnyCollections = AnyCollections,
 > = {
-  read: <Opts extends [opts?: EntryReaderOpts]>(
+  read: <Opts extends [opts?: CollectionReaderOpts]>(
     slug: string,
-    ...opts: Opts & [opts?: EntryReaderOpts]
+    ...opts: Opts & [opts?: CollectionReaderOpts]
+  ) => Promise<CollectionEntryWithOpts<
+    Schema,
+    SlugField,
+    Opts[0],
+    Collections
+  > | null>;
+  readOrThrow: <Opts extends [opts?: CollectionReaderOpts]>(
+    slug: string,
+    ...opts: Opts & [opts?: CollectionReaderOpts]
   ) => Promise<
-    | {
-        [Key in keyof Schema]: SlugField extends Key
-          ? Schema[Key] extends SlugFormField<
-              any,
-              any,
-              any,
-              infer SlugSerializedValue
-            >
-            ? SlugSerializedValue
-            : ValueForReadingWithMode<
-                Schema[Key],
-                OptionalChain<Opts[0], 'resolveLinkedFiles'>
-              >
-          : ValueForReadingWithMode<
-              Schema[Key],
-              OptionalChain<Opts[0], 'resolveLinkedFiles'>
-            >;
-      }
-    | null
+    CollectionEntryWithOpts<Schema, SlugField, Opts[0], Collections>
   >;
-  readOrThrow: <Opts extends [opts?: EntryReaderOpts]>(
+  all: <Opts extends [opts?: CollectionReaderOpts]>(
+    ...opts: Opts & [opts?: CollectionReaderOpts]
+  ) => Promise<
+    {
+      slug: string;
+      entry: CollectionEntryWithOpts<Schema, SlugField, Opts[0], Collections>;
+    }[]
+  >;
+  /**
+   * Reads the entries in the collection that match `where`, sorted by
+   * `orderBy` and paginated with `offset` and `limit`.
+   *
+   * Only the fields used in `where` and `orderBy` are parsed for every entry
+   * in the collection, the whole entry (and its linked files) is only read for
+   * the entries that are returned.
+   */
+  query: <Opts extends [opts?: CollectionQueryOpts<Schema, SlugField>]>(
+    ...opts: Opts & [opts?: CollectionQueryOpts<Schema, SlugField>]
+  ) => Promise<
+    {
+      slug: string;
+      entry: CollectionEntryWithOpts<Schema, SlugField, Opts[0], Collections>;
+    }[]
+  >;
+  /**
+   * Reads the entries in another collection that reference the given entry
+   * with a `relationship` or `multiRelationship` field.
+   *
+   * When `field` is omitted, every relationship field that references this
+   * collection is checked. Only the relationship fields are parsed to find the
+   * referencing entries.
+   */
+  referencedBy: <ReferencingCollection extends keyof Collections & string>(
     slug: string,
-    ...opts: Opts & [opts?: EntryReaderOpts]
-  ) => Promise<{
-    [Key in keyof Schema]: SlugField extends Key
-      ? Schema[Key] extends SlugFormField<
-          any,
-          any,
-          any,
-          infer SlugSerializedValue
-        >
-        ? SlugSerializedValue
-        : ValueForReadingWithMode<
-            Schema[Key],
-            OptionalChain<Opts[0], 'resolveLinkedFiles'>
-          >
-      : ValueForReadingWithMode<
-          Schema[Key],
-          OptionalChain<Opts[0], 'resolveLinkedFiles'>
-        >;
-  }>;
-  all: <Opts extends [opts?: EntryReaderOpts]>(
-    ...opts: Opts & [opts?: EntryReaderOpts]
+    opts: {
+      collection: ReferencingCollection;
+      field?: RelationshipFieldKeys<
+        Collections[ReferencingCollection]['schema']
+      >;
+    }
   ) => Promise<
     {
       slug: string;
-      entry: {
-        [Key in keyof Schema]: SlugField extends Key
-          ? Schema[Key] extends SlugFormField<
-              any,
-              any,
-              any,
-              infer SlugSerializedValue
-            >
-            ? SlugSerializedValue
-            : ValueForReadingWithMode<
-                Schema[Key],
-                OptionalChain<Opts[0], 'resolveLinkedFiles'>
-              >
-          : ValueForReadingWithMode<
-              Schema[Key],
-              OptionalChain<Opts[0], 'resolveLinkedFiles'>
-            >;
-      };
+      entry: CollectionEntry<
+        Collections[ReferencingCollection]['schema'],
+        Collections[ReferencingCollection]['slugField']
+      >;
     }[]
   >;
-  list: () => Promise<string[]>;
+  list: (opts?: {
+    includeUnpublished?: boolean;
+    locale?: string;
+  }) => Promise<string[]>;
 };
 
-export type SingletonReader<Schema extends Record<string, ComponentSchema>> = {
+export type SingletonReader<
+  Schema extends Record<string, ComponentSchema>,
+  Collections extends AnyCollections = AnyCollections,
+> = {
   read: <Opts extends [opts?: EntryReaderOpts]>(
     ...opts: Opts & [opts?: EntryReaderOpts]
-  ) => Promise<ValueForReadingWithMode<
-    ObjectField<Schema>,
-    OptionalChain<Opts[0], 'resolveLinkedFiles'>
-  > | null>;
+  ) => Promise<SingletonEntryWithOpts<Schema, Opts[0], Collections> | null>;
   readOrThrow: <Opts extends [opts?: EntryReaderOpts]>(
     ...opts: Opts & [opts?: EntryReaderOpts]
-  ) => Promise<
-    ValueForReadingWithMode<
-      ObjectField<Schema>,
-      OptionalChain<Opts[0], 'resolveLinkedFiles'>
-    >
-  >;
+  ) => Promise<SingletonEntryWithOpts<Schema, Opts[0], Collections>>;
 };
 
 export type DirEntry = { name: string; kind: 'file' | 'directory' };
@@ -219,6 +326,7 @@ const listCollection = cache(async function listCollection(
   glob: Glob,
   formatInfo: FormatInfo,
   extension: string,
+  hasComments: boolean,
   fsReader: MinimalFs
 ) {
   const entries: { entry: DirEntry; name: string }[] =
@@ -246,7 +354,11 @@ const listCollection = cache(async function listCollection(
           }
           return [x.name];
         } else {
-          if (x.entry.kind !== 'file' || !x.name.endsWith(extension)) {
+          if (
+            x.entry.kind !== 'file' ||
+            !x.name.endsWith(extension) ||
+            (hasComments && x.name.endsWith(COMMENTS_FILE_SUFFIX))
+          ) {
             return [];
           }
           return [x.name.slice(0, -extension.length)];
@@ -256,33 +368,274 @@ const listCollection = cache(async function listCollection(
   ).flat();
 });
 
-export function collectionReader(
-  collection: string,
+/**
+ * The locales to read, in order, for a collection or singleton, `undefined`
+ * is the only "locale" of things that aren't localized.
+ */
+function getLocalesToRead(
+  item: Collection<any, any> | Singleton<any>,
+  locale: string | undefined
+): (string | undefined)[] {
+  if (!item.localization) return [undefined];
+  return getLocaleFallbacks(
+    item.localization,
+    locale ?? getDefaultLocale(item.localization)
+  );
+}
+
+type CollectionInfo = {
+  schema: ObjectField;
+  formatInfo: FormatInfo;
+  glob: Glob;
+};
+
+const collectionInfos = new WeakMap<Config, Map<string, CollectionInfo>>();
+
+/**
+ * Returns the schema and format of a collection in a config that is resolved
+ * for a locale. The same objects are returned for the same config so that the
+ * `cache` of `readItem` and `listCollection` applies across calls.
+ */
+function getCollectionInfo(
+  localeConfig: Config,
+  collection: string
+): CollectionInfo {
+  let infos = collectionInfos.get(localeConfig);
+  if (!infos) {
+    infos = new Map();
+    collectionInfos.set(localeConfig, infos);
+  }
+  let info = infos.get(collection);
+  if (!info) {
+    info = {
+      schema: fields.object(localeConfig.collections![collection].schema),
+      formatInfo: getCollectionFormat(localeConfig, collection),
+      glob: getSlugGlobForCollection(localeConfig, collection),
+    };
+    infos.set(collection, info);
+  }
+  return info;
+}
+
+/**
+ * Reads an entry of a collection, for collections with `localization` the
+ * locales are tried in order until an entry that's visible is found.
+ *
+ * When `partialSchema` is given, only its fields of the data file are parsed
+ * and linked files are never resolved.
+ */
+async function readCollectionItem(
   config: Config,
-  fsReader: MinimalFs
-): CollectionReader<any, any> {
-  const formatInfo = getCollectionFormat(config, collection);
-  const collectionPath = getCollectionPath(config, collection);
+  collection: string,
+  slug: string,
+  opts: CollectionReaderOpts | undefined,
+  fsReader: MinimalFs,
+  index: ContentIndex | undefined,
+  partialSchema?: ObjectField
+): Promise<Record<string, unknown> | null> {
   const collectionConfig = config.collections![collection];
-  const schema = fields.object(collectionConfig.schema);
-  const glob = getSlugGlobForCollection(config, collection);
-  const extension = getDataFileExtension(formatInfo);
-
-  const read: CollectionReader<any, any>['read'] = (slug, ...args) =>
-    readItem(
-      schema,
+  for (const locale of getLocalesToRead(collectionConfig, opts?.locale)) {
+    const localeConfig = getConfigForLocale(config, locale);
+    const { schema, formatInfo, glob } = getCollectionInfo(
+      localeConfig,
+      collection
+    );
+    const entry = await readItem(
+      partialSchema ?? schema,
       formatInfo,
-      getCollectionItemPath(config, collection, slug),
-      args[0]?.resolveLinkedFiles,
-      `"${slug}" in collection "${collection}"`,
+      getCollectionItemPath(localeConfig, collection, slug),
+      partialSchema === undefined ? opts?.resolveLinkedFiles : false,
+      `"${slug}" in collection "${collection}"${
+        locale === undefined ? '' : ` in locale "${locale}"`
+      }`,
       fsReader,
+      index,
+      partialSchema !== undefined,
       slug,
       collectionConfig.slugField,
       glob
     );
+    if (
+      entry !== null &&
+      (!collectionConfig.publishing ||
+        opts?.includeUnpublished ||
+        getPublishingState(entry) === 'published')
+    ) {
+      return entry;
+    }
+  }
+  return null;
+}
+
+async function listCollectionSlugs(
+  config: Config,
+  collection: string,
+  locale: string | undefined,
+  fsReader: MinimalFs
+) {
+  const collectionConfig = config.collections![collection];
+  const slugs = new Set<string>();
+  for (const localeToRead of getLocalesToRead(collectionConfig, locale)) {
+    const localeConfig = getConfigForLocale(config, localeToRead);
+    const { formatInfo, glob } = getCollectionInfo(localeConfig, collection);
+    for (const slug of await listCollection(
+      getCollectionPath(localeConfig, collection),
+      glob,
+      formatInfo,
+      getDataFileExtension(formatInfo),
+      !!collectionConfig.comments,
+      fsReader
+    )) {
+      slugs.add(slug);
+    }
+  }
+  return [...slugs];
+}
+
+/**
+ * Parses only `fieldsToRead` of every entry in a collection, then reads the
+ * whole entries that `select` returns.
+ */
+async function readSelectedEntries(
+  config: Config,
+  collection: string,
+  fieldsToRead: readonly string[],
+  opts: CollectionReaderOpts | undefined,
+  fsReader: MinimalFs,
+  index: ContentIndex | undefined,
+  select: (
+    entries: { slug: string; entry: Record<string, unknown> }[]
+  ) => { slug: string }[]
+) {
+  const collectionConfig = config.collections![collection];
+  const partialSchema = fields.object(
+    Object.fromEntries(
+      [
+        ...fieldsToRead,
+        ...(collectionConfig.publishing
+          ? [PUBLISHING_STATUS_FIELD, PUBLISH_AT_FIELD]
+          : []),
+      ].map(key => [key, collectionConfig.schema[key]])
+    )
+  );
+  const slugs = await listCollectionSlugs(
+    config,
+    collection,
+    opts?.locale,
+    fsReader
+  );
+  const partialEntries = (
+    await Promise.all(
+      slugs.map(async slug => {
+        const entry = await readCollectionItem(
+          config,
+          collection,
+          slug,
+          opts,
+          fsReader,
+          index,
+          partialSchema
+        );
+        if (entry === null) return [];
+        return [{ slug, entry }];
+      })
+    )
+  ).flat();
+  return (
+    await Promise.all(
+      select(partialEntries).map(async ({ slug }) => {
+        const entry = await readCollectionItem(
+          config,
+          collection,
+          slug,
+          opts,
+          fsReader,
+          index
+        );
+        if (entry === null) return [];
+        if (opts?.resolveRelationships) {
+          return [
+            {
+              slug,
+              entry: await resolveRelationships(
+                collectionConfig.schema,
+                entry,
+                (other, slug) =>
+                  collectionReader(other, config, fsReader, index).read(slug, {
+                    locale: opts?.locale,
+                  })
+              ),
+            },
+          ];
+        }
+        return [{ slug, entry }];
+      })
+    )
+  ).flat();
+}
+
+export function collectionReader(
+  collection: string,
+  config: Config,
+  fsReader: MinimalFs,
+  index?: ContentIndex
+): CollectionReader<any, any> {
+  const collectionConfig = config.collections![collection];
+
+  const read: CollectionReader<any, any>['read'] = async (slug, ...args) => {
+    const entry = await readCollectionItem(
+      config,
+      collection,
+      slug,
+      args[0],
+      fsReader,
+      index
+    );
+    if (entry === null) return null;
+    if (!args[0]?.resolveRelationships) return entry;
+    return resolveRelationships(collectionConfig.schema, entry, (other, slug) =>
+      collectionReader(other, config, fsReader, index).read(slug, {
+        locale: args[0]?.locale,
+      })
+    );
+  };
+
+  // TODO: this could drop the fs.stat call that list does for each item
+  // since we just immediately read it
+  const all: CollectionReader<any, any>['all'] = async (...args) => {
+    const slugs = await listCollectionSlugs(
+      config,
+      collection,
+      args[0]?.locale,
+      fsReader
+    );
+    return (
+      await Promise.all(
+        slugs.map(async slug => {
+          const entry = await read(slug, args[0]);
+          if (entry === null) return [];
+          return [{ slug, entry }];
+        })
+      )
+    ).flat();
+  };
 
-  const list = () =>
-    listCollection(collectionPath, glob, formatInfo, extension, fsReader);
+  const list: CollectionReader<any, any>['list'] = async opts => {
+    if (!collectionConfig.publishing || opts?.includeUnpublished) {
+      return listCollectionSlugs(config, collection, opts?.locale, fsReader);
+    }
+    return (
+      await readSelectedEntries(
+        config,
+        collection,
+        [],
+        opts,
+        fsReader,
+        index,
+        entries => entries
+      )
+    ).map(x => x.slug);
+  };
 
   return {
     read,
@@ -295,87 +648,214 @@ export function collectionReader(
       }
       return entry;
     },
-    // TODO: this could drop the fs.stat call that list does for each item
-    // since we just immediately read it
-    all: async (...args) => {
-      const slugs = await list();
-      return (
-        await Promise.all(
-          slugs.map(async slug => {
-            const entry = await read(slug, args[0]);
-            if (entry === null) return [];
-            return [{ slug, entry }];
-          })
+    all,
+    query: async (...args) => {
+      const {
+        resolveLinkedFiles,
+        resolveRelationships,
+        includeUnpublished,
+        locale,
+        ...queryOpts
+      } = args[0] ?? {};
+      return readSelectedEntries(
+        config,
+        collection,
+        getQueriedFields(queryOpts).filter(
+          key => key in collectionConfig.schema
+        ),
+        {
+          resolveLinkedFiles,
+          resolveRelationships,
+          includeUnpublished,
+          locale,
+        },
+        fsReader,
+        index,
+        entries => applyQuery(entries, queryOpts)
+      );
+    },
+    referencedBy: async (
+      slug,
+      { collection: referencingCollection, field }
+    ) => {
+      const referencingConfig = config.collections?.[referencingCollection];
+      if (!referencingConfig) {
+        throw new Error(`Collection "${referencingCollection}" not found`);
+      }
+      const fieldsToCheck = (
+        field === undefined ? Object.keys(referencingConfig.schema) : [field]
+      ).filter(key =>
+        referencesCollection(referencingConfig.schema[key], collection)
+      );
+      if (field !== undefined && !fieldsToCheck.length) {
+        throw new Error(
+          `Field "${field}" in collection "${referencingCollection}" is not a relationship field referencing collection "${collection}"`
+        );
+      }
+      const referencingSchema = fields.object(
+        Object.fromEntries(
+          fieldsToCheck.map(key => [key, referencingConfig.schema[key]])
         )
-      ).flat();
+      );
+      return readSelectedEntries(
+        config,
+        referencingCollection,
+        fieldsToCheck,
+        undefined,
+        fsReader,
+        index,
+        entries =>
+          entries.filter(({ entry }) =>
+            getReferencedSlugs(referencingSchema, entry, collection).has(slug)
+          )
+      );
     },
     list,
   };
 }
 
+/**
+ * A cache of the parsed data files of entries that can outlive a single
+ * reader, keyed by the path and git blob sha of the data file.
+ *
+ * Content fields are not stored in the index, they are still read lazily from
+ * the file system.
+ */
+export type ContentIndex = {
+  get(path: string, sha: string): ContentIndexEntry | undefined;
+  set(path: string, sha: string, entry: ContentIndexEntry): void;
+};
+
+export type ContentIndexEntry = {
+  value: unknown;
+  contentFields: {
+    path: ReadonlyPropPath;
+    filename: string;
+    value: FormFieldStoredValue;
+  }[];
+};
+
 const readItem = cache(async function readItem(
-  rootSchema: ComponentSchema,
+  rootSchema: ObjectField,
   formatInfo: FormatInfo,
   itemDir: string,
   resolveLinkedFiles: boolean | undefined,
   debugReference: string,
   fsReader: MinimalFs,
+  index: ContentIndex | undefined,
+  // when true, `rootSchema` only has some of the fields of the entry and the
+  // other fields in the data file are skipped rather than parsed
+  partial: boolean,
   ...slugInfo: [slug: undefined] | [slug: string, field: string, glob: Glob]
 ) {
-  const dataFile = await fsReader.readFile(
-    getEntryDataFilepath(itemDir, formatInfo)
-  );
+  const dataFilepath = getEntryDataFilepath(itemDir, formatInfo);
+  const dataFile = await fsReader.readFile(dataFilepath);
   if (dataFile === null) return null;
 
-  const { loaded, extraFakeFile } = loadDataFile(dataFile, formatInfo);
+  const sha = index && !partial ? await blobSha(dataFile) : undefined;
+  const cached = sha === undefined ? undefined : index!.get(dataFilepath, sha);
+  let validated: any = cached?.value;
+  let contentFields = cached?.contentFields;
+  const extraFakeFile = getContentFieldFile(dataFile, formatInfo);
+
+  const loadContent =
+    (
+      schema: ContentFormField<any, any, any>,
+      value: FormFieldStoredValue,
+      filename: string
+    ) =>
+    async () => {
+      let content: undefined | Uint8Array;
+      if (filename === extraFakeFile?.path) {
+        content = extraFakeFile.contents;
+      } else {
+        content =
+          (await fsReader.readFile(`${itemDir}/${filename}`)) ?? undefined;
+      }
+
+      return schema.reader.parse(value, { content });
+    };
 
-  const contentFieldPathsToEagerlyResolve: ReadonlyPropPath[] | undefined =
-    resolveLinkedFiles ? [] : undefined;
-  let validated: any;
   try {
-    validated = parseProps(
-      rootSchema,
-      loaded,
-      [],
-      [],
-      (schema, value, path, pathWithArrayFieldSlugs) => {
-        if (schema.formKind === 'asset') {
-          return schema.reader.parse(value);
-        }
-        if (schema.formKind === 'content') {
-          contentFieldPathsToEagerlyResolve?.push(path);
-          return async () => {
-            let content: undefined | Uint8Array;
+    if (contentFields === undefined) {
+      const { loaded } = loadDataFile(dataFile, formatInfo);
+      const migrated = applyComputedFields(
+        rootSchema.fields,
+        migrateEntryData(loaded, formatInfo.migrations).data as Record<
+          string,
+          JsonYamlValue
+        >,
+        formatInfo.contentField && {
+          key: formatInfo.contentField.key,
+          contents: extraFakeFile?.contents,
+        },
+        true
+      );
+      contentFields = [];
+      validated = parseProps(
+        rootSchema,
+        partial
+          ? Object.fromEntries(
+              Object.keys(rootSchema.fields).map(key => [key, migrated[key]])
+            )
+          : migrated,
+        [],
+        [],
+        (schema, value, path, pathWithArrayFieldSlugs) => {
+          if (schema.formKind === 'asset') {
+            return schema.reader.parse(value);
+          }
+          if (schema.formKind === 'content') {
             const filename =
               pathWithArrayFieldSlugs.join('/') + schema.contentExtension;
-            if (filename === extraFakeFile?.path) {
-              content = extraFakeFile.contents;
-            } else {
-              content =
-                (await fsReader.readFile(`${itemDir}/${filename}`)) ??
-                undefined;
-            }
-
-            return schema.reader.parse(value, { content });
-          };
-        }
-        if (path.length === 1 && slugInfo[0] !== undefined) {
-          const [slug, slugField, glob] = slugInfo;
-          if (path[0] === slugField) {
-            if (schema.formKind !== 'slug') {
-              throw new Error(`Slug field ${slugInfo[1]} is not a slug field`);
+            contentFields!.push({ path, filename, value });
+            return loadContent(schema, value, filename);
+          }
+          if (path.length === 1 && slugInfo[0] !== undefined) {
+            const [slug, slugField, glob] = slugInfo;
+            if (path[0] === slugField) {
+              if (schema.formKind !== 'slug') {
+                throw new Error(
+                  `Slug field ${slugInfo[1]} is not a slug field`
+                );
+              }
+              return schema.reader.parseWithSlug(value, { slug, glob });
             }
-            return schema.reader.parseWithSlug(value, { slug, glob });
           }
+          return schema.reader.parse(value);
+        },
+        true
+      );
+      if (sha !== undefined) {
+        index!.set(dataFilepath, sha, { value: validated, contentFields });
+      }
+    } else {
+      for (const { path, filename, value } of contentFields) {
+        const schema = getSchemaAtPropPath(
+          path,
+          validated as Record<string, unknown>,
+          rootSchema.fields
+        );
+        if (schema?.kind !== 'form' || schema.formKind !== 'content') {
+          throw new Error(
+            `Expected content field at ${path.join('.')} in content index`
+          );
         }
-        return schema.reader.parse(value);
-      },
-      true
-    );
+        const parentValue = getValueAtPropPath(
+          validated,
+          path.slice(0, -1)
+        ) as any;
+        parentValue[path[path.length - 1]] = loadContent(
+          schema,
+          value,
+          filename
+        );
+      }
+    }
 
-    if (contentFieldPathsToEagerlyResolve?.length) {
+    if (resolveLinkedFiles && contentFields.length) {
       await Promise.all(
-        contentFieldPathsToEagerlyResolve.map(async path => {
+        contentFields.map(async ({ path }) => {
           const parentValue = getValueAtPropPath(
             validated,
             path.slice(0, -1)
@@ -397,21 +877,37 @@ const readItem = cache(async function readItem(
 export function singletonReader(
   singleton: string,
   config: Config,
-  fsReader: MinimalFs
+  fsReader: MinimalFs,
+  index?: ContentIndex
 ): SingletonReader<any> {
   const formatInfo = getSingletonFormat(config, singleton);
-  const singletonPath = getSingletonPath(config, singleton);
-  const schema = fields.object(config.singletons![singleton].schema);
-  const read: SingletonReader<any>['read'] = (...args) =>
-    readItem(
-      schema,
-      formatInfo,
-      singletonPath,
-      args[0]?.resolveLinkedFiles,
-      `singleton "${singleton}"`,
-      fsReader,
-      undefined
+  const singletonConfig = config.singletons![singleton];
+  const schema = fields.object(singletonConfig.schema);
+  const read: SingletonReader<any>['read'] = async (...args) => {
+    let entry = null;
+    for (const locale of getLocalesToRead(singletonConfig, args[0]?.locale)) {
+      entry = await readItem(
+        schema,
+        formatInfo,
+        getSingletonPath(getConfigForLocale(config, locale), singleton),
+        args[0]?.resolveLinkedFiles,
+        `singleton "${singleton}"${
+          locale === undefined ? '' : ` in locale "${locale}"`
+        }`,
+        fsReader,
+        index,
+        false,
+        undefined
+      );
+      if (entry !== null) break;
+    }
+    if (entry === null || !args[0]?.resolveRelationships) return entry;
+    return resolveRelationships(schema.fields, entry, (collection, slug) =>
+      collectionReader(collection, config, fsReader, index).read(slug, {
+        locale: args[0]?.locale,
+      })
     );
+  };
   return {
     read,
     readOrThrow: async (...opts) => {
@@ -435,11 +931,15 @@ export type BaseReader<
   collections: {
     [Key in keyof Collections]: CollectionReader<
       Collections[Key]['schema'],
-      Collections[Key]['slugField']
+      Collections[Key]['slugField'],
+      Collections
     >;
   };
   singletons: {
-    [Key in keyof Singletons]: SingletonReader<Singletons[Key]['schema']>;
+    [Key in keyof Singletons]: SingletonReader<
+      Singletons[Key]['schema'],
+      Collections
+    >;
   };
   config: Config<Collections, Singletons>;
 };
@@ -1,12 +1,16 @@
 import nodePath from 'node:path';
-import nodeFs from 'node:fs/promises';
 import { Collection, ComponentSchema, Config, Singleton } from '..';
 import {
   BaseReader,
-  MinimalFs,
+  ContentIndex,
   collectionReader,
   singletonReader,
 } from './generic';
+import {
+  createFileSystemContentIndex,
+  getDefaultContentIndexPath,
+} from './content-index';
+import { createLocalFs } from './local-fs';
 
 export type { Entry, EntryWithResolvedLinkedFiles } from './generic';
 
@@ -30,58 +34,37 @@ export function createReader<
   },
 >(
   repoPath: string,
-  config: Config<Collections, Singletons>
+  config: Config<Collections, Singletons>,
+  opts?: {
+    /**
+     * Persist parsed entries to disk so that unchanged entries are not
+     * re-parsed on subsequent runs. Pass `{ path }` to choose where the
+     * index is stored, it defaults to `node_modules/.cache/keystatic`.
+     */
+    contentIndex?: boolean | { path: string };
+  }
 ): Reader<Collections, Singletons> {
-  const fs: MinimalFs = {
-    async fileExists(path) {
-      try {
-        await nodeFs.stat(nodePath.join(repoPath, path));
-        return true;
-      } catch (err) {
-        if ((err as any).code === 'ENOENT') return false;
-        throw err;
-      }
-    },
-    async readdir(path) {
-      try {
-        const entries = await nodeFs.readdir(nodePath.join(repoPath, path), {
-          withFileTypes: true,
-        });
-        const filtered: { name: string; kind: 'file' | 'directory' }[] = [];
-        for (const entry of entries) {
-          if (entry.isDirectory()) {
-            filtered.push({ name: entry.name, kind: 'directory' });
-          }
-          if (entry.isFile()) {
-            filtered.push({ name: entry.name, kind: 'file' });
-          }
-        }
-        return filtered;
-      } catch (err) {
-        if ((err as any).code === 'ENOENT') return [];
-        throw err;
-      }
-    },
-    async readFile(path) {
-      try {
-        return await nodeFs.readFile(nodePath.join(repoPath, path));
-      } catch (err) {
-        if ((err as any).code === 'ENOENT') return null;
-        throw err;
-      }
-    },
-  };
+  const fs = createLocalFs(repoPath);
+  const index: ContentIndex | undefined = opts?.contentIndex
+    ? createFileSystemContentIndex(
+        opts.contentIndex === true
+          ? getDefaultContentIndexPath()
+          : opts.contentIndex.path,
+        nodePath.resolve(repoPath),
+        config as Config
+      )
+    : undefined;
   return {
     collections: Object.fromEntries(
       Object.keys(config.collections || {}).map(key => [
         key,
-        collectionReader(key, config as Config, fs),
+        collectionReader(key, config as Config, fs, index),
       ])
     ) as any,
     singletons: Object.fromEntries(
       Object.keys(config.singletons || {}).map(key => [
         key,
-        singletonReader(key, config as Config, fs),
+        singletonReader(key, config as Config, fs, index),
       ])
     ) as any,
     repoPath,
@@ -0,0 +1,45 @@
+import nodePath from 'node:path';
+import nodeFs from 'node:fs/promises';
+import { MinimalFs } from './generic';
+
+export function createLocalFs(repoPath: string): MinimalFs {
+  return {
+    async fileExists(path) {
+      try {
+        await nodeFs.stat(nodePath.join(repoPath, path));
+        return true;
+      } catch (err) {
+        if ((err as any).code === 'ENOENT') return false;
+        throw err;
+      }
+    },
+    async readdir(path) {
+      try {
+        const entries = await nodeFs.readdir(nodePath.join(repoPath, path), {
+          withFileTypes: true,
+        });
+        const filtered: { name: string; kind: 'file' | 'directory' }[] = [];
+        for (const entry of entries) {
+          if (entry.isDirectory()) {
+            filtered.push({ name: entry.name, kind: 'directory' });
+          }
+          if (entry.isFile()) {
+            filtered.push({ name: entry.name, kind: 'file' });
+          }
+        }
+        return filtered;
+      } catch (err) {
+        if ((err as any).code === 'ENOENT') return [];
+        throw err;
+      }
+    },
+    async readFile(path) {
+      try {
+        return await nodeFs.readFile(nodePath.join(repoPath, path));
+      } catch (err) {
+        if ((err as any).code === 'ENOENT') return null;
+        throw err;
+      }
+    },
+  };
+}
@@ -0,0 +1,200 @@
+import { sortBy } from '../app/collection-sort';
+
+type QueryablePrimitive = string | number | boolean | null;
+
+type QueryableKeys<Entry> = {
+  [Key in keyof Entry]: Entry[Key] extends
+    | QueryablePrimitive
+    | readonly QueryablePrimitive[]
+    ? Key & string
+    : never;
+}[keyof Entry];
+
+type SortableKeys<Entry> = {
+  [Key in keyof Entry]: Entry[Key] extends QueryablePrimitive
+    ? Key & string
+    : never;
+}[keyof Entry];
+
+type ComparableValue<Value> = Exclude<Value, null | boolean>;
+
+export type QueryFieldFilter<Value> = [Value] extends [readonly (infer Item)[]]
+  ? {
+      contains?: Item;
+      containsAny?: readonly Item[];
+      containsAll?: readonly Item[];
+    }
+  :
+      | Value
+      | {
+          eq?: Value;
+          ne?: Value;
+          in?: readonly Value[];
+          notIn?: readonly Value[];
+          gt?: ComparableValue<Value>;
+          gte?: ComparableValue<Value>;
+          lt?: ComparableValue<Value>;
+          lte?: ComparableValue<Value>;
+        };
+
+export type QueryWhere<Entry> = {
+  [Key in QueryableKeys<Entry>]?: QueryFieldFilter<Entry[Key]>;
+};
+
+export type QueryOrderBy<Entry> = {
+  [Key in SortableKeys<Entry>]: {
+    field: Key;
+    direction?: 'ascending' | 'descending';
+  };
+}[SortableKeys<Entry>];
+
+export type QueryOpts<Entry> = {
+  where?: QueryWhere<Entry>;
+  orderBy?: QueryOrderBy<Entry> | readonly QueryOrderBy<Entry>[];
+  limit?: number;
+  offset?: number;
+};
+
+const operators = new Set([
+  'eq',
+  'ne',
+  'in',
+  'notIn',
+  'gt',
+  'gte',
+  'lt',
+  'lte',
+  'contains',
+  'containsAny',
+  'containsAll',
+]);
+
+function isOperatorObject(filter: unknown): filter is Record<string, any> {
+  if (typeof filter !== 'object' || filter === null || Array.isArray(filter)) {
+    return false;
+  }
+  const keys = Object.keys(filter);
+  return keys.length > 0 && keys.every(key => operators.has(key));
+}
+
+function matchesFieldFilter(value: unknown, filter: unknown): boolean {
+  if (!isOperatorObject(filter)) {
+    return value === filter;
+  }
+  for (const [operator, operand] of Object.entries(filter)) {
+    if (operand === undefined) continue;
+    switch (operator) {
+      case 'eq':
+        if (value !== operand) return false;
+        break;
+      case 'ne':
+        if (value === operand) return false;
+        break;
+      case 'in':
+        if (!operand.includes(value)) return false;
+        break;
+      case 'notIn':
+        if (operand.includes(value)) return false;
+        break;
+      case 'gt':
+        if (value == null || sortBy('ascending', value, operand) <= 0) {
+          return false;
+        }
+        break;
+      case 'gte':
+        if (value == null || sortBy('ascending', value, operand) < 0) {
+          return false;
+        }
+        break;
+      case 'lt':
+        if (value == null || sortBy('ascending', value, operand) >= 0) {
+          return false;
+        }
+        break;
+      case 'lte':
+        if (value == null || sortBy('ascending', value, operand) > 0) {
+          return false;
+        }
+        break;
+      case 'contains':
+        if (!Array.isArray(value) || !value.includes(operand)) return false;
+        break;
+      case 'containsAny':
+        if (
+          !Array.isArray(value) ||
+          !operand.some((item: unknown) => value.includes(item))
+        ) {
+          return false;
+        }
+        break;
+      case 'containsAll':
+        if (
+          !Array.isArray(value) ||
+          !operand.every((item: unknown) => value.includes(item))
+        ) {
+          return false;
+        }
+        break;
+    }
+  }
+  return true;
+}
+
+export function matchesWhere(
+  entry: Record<string, unknown>,
+  where: Record<string, unknown> | undefined
+) {
+  if (!where) return true;
+  return Object.entries(where).every(
+    ([field, filter]) =>
+      filter === undefined || matchesFieldFilter(entry[field], filter)
+  );
+}
+
+function getOrderBy(
+  opts: QueryOpts<any>
+): readonly { field: string; direction?: 'ascending' | 'descending' }[] {
+  if (opts.orderBy === undefined) return [];
+  return Array.isArray(opts.orderBy) ? opts.orderBy : [opts.orderBy];
+}
+
+/**
+ * The fields that `where` and `orderBy` of a query use, only these fields need
+ * to be read to apply the query.
+ */
+export function getQueriedFields(opts: QueryOpts<any>): string[] {
+  return [
+    ...new Set([
+      ...Object.keys(opts.where ?? {}),
+      ...getOrderBy(opts).map(x => x.field),
+    ]),
+  ];
+}
+
+/**
+ * Applies the `where`, `orderBy`, `offset` and `limit` options of a query to
+ * a list of entries. Sorting uses the same semantics as the collection list in
+ * the Admin UI so `null` values are always ordered last.
+ */
+export function applyQuery<T extends { entry: Record<string, unknown> }>(
+  entries: readonly T[],
+  opts: QueryOpts<any>
+): T[] {
+  let results = entries.filter(x => matchesWhere(x.entry, opts.where));
+  const orderBy = getOrderBy(opts);
+  if (orderBy.length) {
+    results = results.sort((a, b) => {
+      for (const { field, direction = 'ascending' } of orderBy) {
+        if (a.entry[field] == null && b.entry[field] == null) continue;
+        const result = sortBy(direction, a.entry[field], b.entry[field]);
+        if (result !== 0) return result;
+      }
+      return 0;
+    });
+  }
+  const offset = opts.offset ?? 0;
+  return results.slice(
+    offset,
+    opts.limit === undefined ? undefined : offset + opts.limit
+  );
+}
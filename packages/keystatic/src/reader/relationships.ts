@@ -0,0 +1,95 @@
+import { ComponentSchema } from '../form/api';
+import { traverseProps } from '../form/props-value';
+
+export function getRelationshipCollection(schema: ComponentSchema) {
+  if (
+    schema.kind === 'form' &&
+    'collection' in schema &&
+    typeof schema.collection === 'string'
+  ) {
+    return schema.collection;
+  }
+}
+
+/**
+ * Returns whether the given schema contains a `relationship` or
+ * `multiRelationship` field that references the given collection.
+ */
+export function referencesCollection(
+  schema: ComponentSchema,
+  collection: string
+): boolean {
+  if (schema.kind === 'form') {
+    return getRelationshipCollection(schema) === collection;
+  }
+  if (schema.kind === 'object') {
+    return Object.values(schema.fields).some(field =>
+      referencesCollection(field, collection)
+    );
+  }
+  if (schema.kind === 'array') {
+    return referencesCollection(schema.element, collection);
+  }
+  if (schema.kind === 'conditional') {
+    return Object.values(schema.values).some(field =>
+      referencesCollection(field, collection)
+    );
+  }
+  return false;
+}
+
+/**
+ * Gets the slugs of the entries in the given collection that are referenced
+ * by relationship fields anywhere in the value.
+ */
+export function getReferencedSlugs(
+  schema: ComponentSchema,
+  value: unknown,
+  collection: string
+): Set<string> {
+  const slugs = new Set<string>();
+  traverseProps(schema, value, (schema, value) => {
+    if (getRelationshipCollection(schema) !== collection) return;
+    if (typeof value === 'string') {
+      slugs.add(value);
+    } else if (Array.isArray(value)) {
+      for (const slug of value) slugs.add(slug);
+    }
+  });
+  return slugs;
+}
+
+/**
+ * Replaces the slugs in the top-level relationship fields of an entry with the
+ * entries they reference. References to entries that don't exist are
+ * resolved to `null` for `relationship` fields and omitted for
+ * `multiRelationship` fields.
+ */
+export async function resolveRelationships(
+  schema: Record<string, ComponentSchema>,
+  entry: Record<string, unknown>,
+  readEntry: (collection: string, slug: string) => Promise<unknown>
+): Promise<Record<string, unknown>> {
+  const readRelated = async (collection: string, slug: string) => {
+    const related = await readEntry(collection, slug);
+    return related === null ? null : { slug, entry: related };
+  };
+  return Object.fromEntries(
+    await Promise.all(
+      Object.entries(entry).map(async ([key, value]) => {
+        const collection = getRelationshipCollection(schema[key]);
+        if (collection === undefined) return [key, value];
+        if (typeof value === 'string') {
+          return [key, await readRelated(collection, value)];
+        }
+        if (Array.isArray(value)) {
+          const related = await Promise.all(
+            value.map(slug => readRelated(collection, slug))
+          );
+          return [key, related.filter(x => x !== null)];
+        }
+        return [key, value];
+      })
+    )
+  );
+}
@@ -0,0 +1,176 @@
+/** @jest-environment node */
+import { Config, collection, config, fields } from '../src';
+import {
+  BulkEntry,
+  getBulkDeleteChanges,
+  getBulkDuplicateChanges,
+  getBulkEditChanges,
+  getBulkMoveChanges,
+} from '../src/app/bulk-actions';
+import { parseEntry } from '../src/app/parse-entry';
+import {
+  getCollectionFormat,
+  getCollectionItemPath,
+} from '../src/app/path-utils';
+import { expect, test } from '@jest/globals';
+
+const testConfig = config({
+  storage: { kind: 'local' },
+  collections: {
+    posts: collection({
+      label: 'Posts',
+      path: 'posts/*',
+      slugField: 'title',
+      schema: {
+        title: fields.slug({ name: { label: 'Title' } }),
+        category: fields.select({
+          label: 'Category',
+          options: [
+            { label: 'News', value: 'news' },
+            { label: 'Events', value: 'events' },
+          ],
+          defaultValue: 'news',
+        }),
+      },
+    }),
+  },
+}) as Config;
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+function getEntry(
+  slug: string,
+  contents: string,
+  comments?: string
+): BulkEntry {
+  const collectionConfig = testConfig.collections!.posts;
+  const files = new Map([[`posts/${slug}.yaml`, textEncoder.encode(contents)]]);
+  if (comments !== undefined) {
+    files.set(`posts/${slug}.comments.json`, textEncoder.encode(comments));
+  }
+  const { initialState, initialFiles } = parseEntry(
+    {
+      config: testConfig,
+      dirpath: getCollectionItemPath(testConfig, 'posts', slug),
+      format: getCollectionFormat(testConfig, 'posts'),
+      schema: collectionConfig.schema,
+      slug: { field: 'title', slug },
+    },
+    files
+  );
+  return {
+    slug,
+    state: initialState,
+    files:
+      comments === undefined
+        ? initialFiles
+        : [...initialFiles, `posts/${slug}.comments.json`],
+    contents: files,
+  };
+}
+
+const entries = [
+  getEntry('a', 'title: A\ncategory: news\n'),
+  getEntry('b', 'title: B\ncategory: events\n'),
+];
+
+function readChanges(changes: ReturnType<typeof getBulkDeleteChanges>) {
+  return {
+    ...changes,
+    additions: changes.additions.map(addition => ({
+      path: addition.path,
+      contents: textDecoder.decode(addition.contents),
+    })),
+  };
+}
+
+test('delete', () => {
+  expect(getBulkDeleteChanges(testConfig, 'posts', entries)).toEqual({
+    message: 'Delete 2 entries in Posts',
+    additions: [],
+    deletions: ['posts/a.yaml', 'posts/b.yaml'],
+  });
+});
+
+test('edit only writes entries that change', () => {
+  expect(
+    readChanges(
+      getBulkEditChanges(testConfig, 'posts', entries, 'category', 'events')
+    )
+  ).toEqual({
+    message: 'Update Category of 2 entries in Posts',
+    additions: [
+      { path: 'posts/a.yaml', contents: 'title: A\ncategory: events\n' },
+    ],
+    deletions: [],
+  });
+});
+
+test('duplicate uses slugs that are not taken', () => {
+  expect(
+    readChanges(
+      getBulkDuplicateChanges(
+        testConfig,
+        'posts',
+        entries,
+        new Set(['a', 'b', 'a-copy'])
+      )
+    )
+  ).toEqual({
+    message: 'Duplicate 2 entries in Posts',
+    additions: [
+      {
+        path: 'posts/a-copy-2.yaml',
+        contents: 'title: A\ncategory: news\n',
+      },
+      {
+        path: 'posts/b-copy.yaml',
+        contents: 'title: B\ncategory: events\n',
+      },
+    ],
+    deletions: [],
+  });
+});
+
+test('move commits the files to the other branch', () => {
+  expect(
+    readChanges(getBulkMoveChanges(testConfig, 'posts', entries, 'drafts'))
+  ).toEqual({
+    message: 'Move 2 entries in Posts',
+    additions: [
+      { path: 'posts/a.yaml', contents: 'title: A\ncategory: news\n' },
+      { path: 'posts/b.yaml', contents: 'title: B\ncategory: events\n' },
+    ],
+    deletions: [],
+    branch: 'drafts',
+  });
+});
+
+test('the comments file is deleted, moved and duplicated with the entry', () => {
+  const comments = '{"threads":[]}';
+  const entries = [getEntry('a', 'title: A\ncategory: news\n', comments)];
+  expect(getBulkDeleteChanges(testConfig, 'posts', entries).deletions).toEqual([
+    'posts/a.yaml',
+    'posts/a.comments.json',
+  ]);
+  expect(
+    readChanges(getBulkMoveChanges(testConfig, 'posts', entries, 'drafts'))
+      .additions
+  ).toEqual([
+    { path: 'posts/a.yaml', contents: 'title: A\ncategory: news\n' },
+    { path: 'posts/a.comments.json', contents: comments },
+  ]);
+  expect(
+    readChanges(
+      getBulkDuplicateChanges(testConfig, 'posts', entries, new Set(['a']))
+    ).additions
+  ).toEqual([
+    { path: 'posts/a-copy.yaml', contents: 'title: A\ncategory: news\n' },
+    { path: 'posts/a-copy.comments.json', contents: comments },
+  ]);
+  expect(
+    getBulkEditChanges(testConfig, 'posts', entries, 'category', 'events')
+      .deletions
+  ).toEqual([]);
+});
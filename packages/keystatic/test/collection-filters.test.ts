@@ -0,0 +1,124 @@
+/** @jest-environment node */
+import { collection, fields } from '../src';
+import {
+  getCollectionFilters,
+  matchesFilters,
+  parseFilterValues,
+  serializeFilterValues,
+} from '../src/app/collection-filters';
+import { expect, test } from '@jest/globals';
+
+const posts = collection({
+  label: 'Posts',
+  path: 'posts/*',
+  slugField: 'title',
+  filters: ['category', 'tags', 'featured', 'publishedOn', 'author'],
+  schema: {
+    title: fields.slug({ name: { label: 'Title' } }),
+    category: fields.select({
+      label: 'Category',
+      options: [
+        { label: 'News', value: 'news' },
+        { label: 'Events', value: 'events' },
+      ],
+      defaultValue: 'news',
+    }),
+    tags: fields.multiselect({
+      label: 'Tags',
+      options: [
+        { label: 'Featured', value: 'featured' },
+        { label: 'Archived', value: 'archived' },
+      ],
+    }),
+    featured: fields.checkbox({ label: 'Featured' }),
+    publishedOn: fields.datetime({ label: 'Published on' }),
+    author: fields.relationship({ label: 'Author', collection: 'authors' }),
+  },
+});
+
+const filters = getCollectionFilters(posts);
+
+test('filters are derived from the kinds of fields', () => {
+  expect(filters.map(filter => [filter.field, filter.kind])).toEqual([
+    ['category', 'options'],
+    ['tags', 'options'],
+    ['featured', 'checkbox'],
+    ['publishedOn', 'date-range'],
+    ['author', 'relationship'],
+  ]);
+});
+
+test('fields that cannot be filtered by throw', () => {
+  expect(() =>
+    collection({
+      label: 'Posts',
+      slugField: 'title',
+      // @ts-expect-error text fields can't be filters
+      filters: ['summary'],
+      schema: {
+        title: fields.slug({ name: { label: 'Title' } }),
+        summary: fields.text({ label: 'Summary' }),
+      },
+    })
+  ).toThrowErrorMatchingInlineSnapshot(
+    `"The "summary" field of the "Posts" collection can't be used as a filter, only select, multiselect, checkbox, date, datetime, relationship and multiRelationship fields can"`
+  );
+});
+
+test('filter values round trip through search params', () => {
+  const values = {
+    tags: ['featured', 'archived'],
+    featured: true,
+    publishedOn: { from: '2024-01-01', to: null },
+    author: 'jane',
+  };
+  const params = serializeFilterValues(
+    filters,
+    values,
+    new URLSearchParams('other=1&category=news')
+  );
+  expect(params.toString()).toMatchInlineSnapshot(
+    `"other=1&tags=featured&tags=archived&featured=true&publishedOn=2024-01-01..&author=jane"`
+  );
+  expect(parseFilterValues(filters, params)).toEqual(values);
+});
+
+test('unknown options in search params are ignored', () => {
+  expect(
+    parseFilterValues(
+      filters,
+      new URLSearchParams('category=blah&featured=maybe')
+    )
+  ).toEqual({});
+});
+
+test('matchesFilters', () => {
+  const entry = {
+    category: 'news',
+    tags: ['featured'],
+    featured: false,
+    publishedOn: '2024-03-10T10:00',
+    author: 'jane',
+  };
+  expect(matchesFilters(filters, {}, entry)).toBe(true);
+  expect(matchesFilters(filters, { category: ['events', 'news'] }, entry)).toBe(
+    true
+  );
+  expect(matchesFilters(filters, { tags: ['archived'] }, entry)).toBe(false);
+  expect(matchesFilters(filters, { featured: false }, entry)).toBe(true);
+  expect(
+    matchesFilters(
+      filters,
+      { publishedOn: { from: '2024-03-01', to: '2024-03-10' } },
+      entry
+    )
+  ).toBe(true);
+  expect(
+    matchesFilters(
+      filters,
+      { publishedOn: { from: '2024-03-11', to: null } },
+      entry
+    )
+  ).toBe(false);
+  expect(matchesFilters(filters, { author: 'john' }, entry)).toBe(false);
+});
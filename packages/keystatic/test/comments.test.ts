@@ -0,0 +1,160 @@
+/** @jest-environment node */
+import { Config, collection, config, fields } from '../src';
+import { createReader } from '../src/reader';
+import {
+  CommentThread,
+  createAnchor,
+  findAnchor,
+  getUnresolvedThreadCount,
+  parseCommentsFile,
+  serializeCommentsFile,
+} from '../src/app/comments';
+import { getPathOwner } from '../src/app/path-owner';
+import { js, testdir } from './test-utils';
+import { expect, test } from '@jest/globals';
+
+const textDecoder = new TextDecoder();
+
+const threads: CommentThread[] = [
+  {
+    id: 'a',
+    anchor: { quote: 'world', prefix: 'Hello ', suffix: '\nSecond' },
+    resolved: false,
+    comments: [
+      {
+        id: 'b',
+        author: { name: 'Jed' },
+        body: 'Which world?',
+        createdAt: '2024-01-01T00:00:00.000Z',
+      },
+    ],
+  },
+  {
+    id: 'c',
+    anchor: { quote: 'Second', prefix: 'world\n', suffix: '' },
+    suggestion: 'Third',
+    resolved: true,
+    comments: [],
+  },
+];
+
+test('comments files round trip', () => {
+  const serialized = serializeCommentsFile(threads);
+  expect(textDecoder.decode(serialized)).toMatchInlineSnapshot(`
+    "{
+      "threads": [
+        {
+          "id": "a",
+          "anchor": {
+            "quote": "world",
+            "prefix": "Hello ",
+            "suffix": "\\nSecond"
+          },
+          "resolved": false,
+          "comments": [
+            {
+              "id": "b",
+              "author": {
+                "name": "Jed"
+              },
+              "body": "Which world?",
+              "createdAt": "2024-01-01T00:00:00.000Z"
+            }
+          ]
+        },
+        {
+          "id": "c",
+          "anchor": {
+            "quote": "Second",
+            "prefix": "world\\n",
+            "suffix": ""
+          },
+          "suggestion": "Third",
+          "resolved": true,
+          "comments": []
+        }
+      ]
+    }
+    "
+  `);
+  expect(parseCommentsFile(serialized)).toEqual(threads);
+  expect(getUnresolvedThreadCount(threads)).toBe(1);
+});
+
+test('invalid comments files throw', () => {
+  expect(() =>
+    parseCommentsFile(new TextEncoder().encode('{"threads":[{}]}'))
+  ).toThrow();
+});
+
+test('anchors are found after the text changes', () => {
+  const text = 'The cat sat on the mat.\nThe cat ran.';
+  const anchor = createAnchor(text, 28, 31);
+  expect(anchor).toEqual({
+    quote: 'cat',
+    prefix: 'The cat sat on the mat.\nThe ',
+    suffix: ' ran.',
+  });
+  expect(findAnchor(text, anchor)).toEqual({ from: 28, to: 31 });
+  expect(findAnchor(`A title\n${text}`, anchor)).toEqual({
+    from: 36,
+    to: 39,
+  });
+  expect(findAnchor('The dog sat on the mat.\nThe dog ran.', anchor)).toBe(
+    undefined
+  );
+});
+
+const testConfig = config({
+  storage: { kind: 'local' },
+  collections: {
+    posts: collection({
+      label: 'Posts',
+      path: 'posts/*',
+      slugField: 'title',
+      format: 'json',
+      comments: { blockPublishing: true },
+      schema: { title: fields.slug({ name: { label: 'Title' } }) },
+    }),
+  },
+});
+
+test('comments files are not entries', async () => {
+  const dir = await testdir({
+    'posts/hello.json': js`{ "title": "Hello" }`,
+    'posts/hello.comments.json': js`{ "threads": [] }`,
+  });
+  const reader = createReader(dir, testConfig);
+  expect(await reader.collections.posts.list()).toEqual(['hello']);
+  expect(
+    getPathOwner(testConfig as Config, 'posts/hello.comments.json')
+  ).toEqual({
+    entry: { kind: 'collection', collection: 'posts' },
+    label: 'Posts',
+    location: undefined,
+  });
+});
+
+test('entries ending in .comments are entries without comments enabled', async () => {
+  const configWithoutComments = config({
+    storage: { kind: 'local' },
+    collections: {
+      posts: collection({
+        label: 'Posts',
+        path: 'posts/*',
+        slugField: 'title',
+        format: 'json',
+        schema: { title: fields.slug({ name: { label: 'Title' } }) },
+      }),
+    },
+  });
+  const dir = await testdir({
+    'posts/hello.comments.json': js`{ "title": "hello.comments" }`,
+  });
+  const reader = createReader(dir, configWithoutComments);
+  expect(await reader.collections.posts.list()).toEqual(['hello.comments']);
+  expect(
+    getPathOwner(configWithoutComments as Config, 'posts/hello.comments.json')
+      ?.location?.slug
+  ).toBe('hello.comments');
+});
@@ -0,0 +1,117 @@
+/** @jest-environment node */
+import { Config, collection, config, fields } from '../src';
+import { createReader } from '../src/reader';
+import { parseEntry } from '../src/app/parse-entry';
+import {
+  getCollectionFormat,
+  getCollectionItemPath,
+} from '../src/app/path-utils';
+import { serializeEntryToFiles } from '../src/app/updating';
+import { js, testdir } from './test-utils';
+import { expect, test } from '@jest/globals';
+
+function getConfig(computeOnRead: boolean) {
+  return config({
+    storage: { kind: 'local' },
+    collections: {
+      posts: collection({
+        label: 'Posts',
+        path: 'posts/*',
+        slugField: 'title',
+        format: { contentField: 'content' },
+        schema: {
+          title: fields.slug({ name: { label: 'Title' } }),
+          wordCount: fields.computed({
+            label: 'Word count',
+            compute: (entry: { content: string }) =>
+              entry.content.split(/\s+/).filter(Boolean).length,
+            computeOnRead,
+          }),
+          summary: fields.computed({
+            label: 'Summary',
+            compute: (entry: { title: string; wordCount: number }) =>
+              `${entry.title} (${entry.wordCount} words)`,
+            computeOnRead,
+          }),
+          content: fields.markdoc({ label: 'Content' }),
+        },
+      }),
+    },
+  });
+}
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+test('computed fields are computed when saving', () => {
+  const testConfig = getConfig(false) as Config;
+  const collectionConfig = testConfig.collections!.posts;
+  const format = getCollectionFormat(testConfig, 'posts');
+  const basePath = getCollectionItemPath(testConfig, 'posts', 'hello');
+  const { initialState } = parseEntry(
+    {
+      config: testConfig,
+      dirpath: basePath,
+      format,
+      schema: collectionConfig.schema,
+      slug: { field: 'title', slug: 'hello' },
+    },
+    new Map([
+      [
+        'posts/hello.mdoc',
+        textEncoder.encode('---\ntitle: Hello\n---\nHello world\n'),
+      ],
+    ])
+  );
+  const files = serializeEntryToFiles({
+    basePath,
+    config: testConfig,
+    format,
+    schema: collectionConfig.schema,
+    slug: { field: 'title', value: 'hello' },
+    state: initialState,
+  });
+  expect(textDecoder.decode(files[0].contents)).toMatchInlineSnapshot(`
+    "---
+    title: Hello
+    wordCount: 2
+    summary: Hello (2 words)
+    ---
+    Hello world
+    "
+  `);
+});
+
+async function createTestdir() {
+  return testdir({
+    'posts/hello.mdoc': js`
+      ---
+      title: Hello
+      wordCount: 1
+      ---
+      Hello world
+    `,
+  });
+}
+
+test('the reader reads the stored value by default', async () => {
+  const reader = createReader(await createTestdir(), getConfig(false));
+  const entry = await reader.collections.posts.read('hello');
+  expect(entry?.wordCount).toBe(1);
+  expect(entry?.summary).toBe(null);
+});
+
+test('computeOnRead computes the value when reading', async () => {
+  const reader = createReader(await createTestdir(), getConfig(true));
+  const entry = await reader.collections.posts.read('hello');
+  expect(entry?.wordCount).toBe(2);
+  expect(entry?.summary).toBe('Hello (2 words)');
+});
+
+test('the entry can be typed with type arguments', () => {
+  const field = fields.computed<number, { content: string }>({
+    label: 'Length',
+    compute: entry => entry.content.length,
+  });
+  expect(field.compute({ content: 'Hello' })).toBe(5);
+});
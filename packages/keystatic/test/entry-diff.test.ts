@@ -0,0 +1,247 @@
+/** @jest-environment node */
+import { fields } from '../src';
+import { diffEntries, diffEntryFiles, diffText } from '../src/app/entry-diff';
+import { expect, test } from '@jest/globals';
+
+const schema = {
+  title: fields.slug({ name: { label: 'Title' } }),
+  summary: fields.text({ label: 'Summary', multiline: true }),
+  rating: fields.integer({ label: 'Rating' }),
+  authors: fields.array(
+    fields.object({
+      name: fields.text({ label: 'Name' }),
+      role: fields.text({ label: 'Role' }),
+    }),
+    { label: 'Authors' }
+  ),
+  hero: fields.conditional(fields.checkbox({ label: 'Has hero' }), {
+    true: fields.object({ caption: fields.text({ label: 'Caption' }) }),
+    false: fields.empty(),
+  }),
+};
+
+const before = {
+  title: { name: 'Hello', slug: 'hello' },
+  summary: 'Some text',
+  rating: 3,
+  authors: [
+    { name: 'Alice', role: 'Writer' },
+    { name: 'Bob', role: 'Editor' },
+  ],
+  hero: { discriminant: false, value: null },
+};
+
+test('no changes', () => {
+  expect(diffEntries(schema, before, structuredClone(before), 'title')).toEqual(
+    []
+  );
+});
+
+test('changes', () => {
+  expect(
+    diffEntries(
+      schema,
+      before,
+      {
+        title: { name: 'Hello world', slug: 'hello' },
+        summary: 'Some text',
+        rating: null,
+        authors: [{ name: 'Alice', role: 'Author' }],
+        hero: { discriminant: true, value: { caption: 'A caption' } },
+      },
+      'title'
+    )
+  ).toMatchInlineSnapshot(`
+    [
+      {
+        "after": "Hello world (hello)",
+        "before": "Hello (hello)",
+        "format": "text",
+        "kind": "changed",
+        "label": "Title",
+        "path": [
+          "title",
+        ],
+      },
+      {
+        "after": "",
+        "before": "3",
+        "format": "text",
+        "kind": "changed",
+        "label": "Rating",
+        "path": [
+          "rating",
+        ],
+      },
+      {
+        "after": "Author",
+        "before": "Writer",
+        "format": "text",
+        "kind": "changed",
+        "label": "Authors › 1 › Role",
+        "path": [
+          "authors",
+          0,
+          "role",
+        ],
+      },
+      {
+        "after": undefined,
+        "before": "Bob",
+        "format": "text",
+        "kind": "removed",
+        "label": "Authors › 2 › Name",
+        "path": [
+          "authors",
+          1,
+          "name",
+        ],
+      },
+      {
+        "after": undefined,
+        "before": "Editor",
+        "format": "text",
+        "kind": "removed",
+        "label": "Authors › 2 › Role",
+        "path": [
+          "authors",
+          1,
+          "role",
+        ],
+      },
+      {
+        "after": "true",
+        "before": "false",
+        "format": "value",
+        "kind": "changed",
+        "label": "Has hero",
+        "path": [
+          "hero",
+          "discriminant",
+        ],
+      },
+      {
+        "after": "A caption",
+        "before": undefined,
+        "format": "text",
+        "kind": "added",
+        "label": "Has hero › Caption",
+        "path": [
+          "hero",
+          "value",
+          "caption",
+        ],
+      },
+    ]
+  `);
+});
+
+test('every field is added when there is no previous version', () => {
+  expect(
+    diffEntries(schema, undefined, before, 'title').map(change => change.label)
+  ).toEqual([
+    'Title',
+    'Summary',
+    'Rating',
+    'Authors › 1 › Name',
+    'Authors › 1 › Role',
+    'Authors › 2 › Name',
+    'Authors › 2 › Role',
+    'Has hero',
+  ]);
+});
+
+test('diffText by word', () => {
+  expect(diffText('The quick brown fox', 'The slow brown dog jumps', 'word'))
+    .toMatchInlineSnapshot(`
+    [
+      {
+        "kind": "equal",
+        "value": "The ",
+      },
+      {
+        "kind": "removed",
+        "value": "quick ",
+      },
+      {
+        "kind": "added",
+        "value": "slow ",
+      },
+      {
+        "kind": "equal",
+        "value": "brown ",
+      },
+      {
+        "kind": "removed",
+        "value": "fox",
+      },
+      {
+        "kind": "added",
+        "value": "dog jumps",
+      },
+    ]
+  `);
+});
+
+test('diffText by block', () => {
+  expect(
+    diffText(
+      '# Heading\n\nFirst paragraph\n\nSecond paragraph\n',
+      '# Heading\n\nSecond paragraph\n\n- A list\n',
+      'block'
+    )
+  ).toMatchInlineSnapshot(`
+    [
+      {
+        "kind": "equal",
+        "value": "# Heading
+
+    ",
+      },
+      {
+        "kind": "removed",
+        "value": "First paragraph
+
+    ",
+      },
+      {
+        "kind": "equal",
+        "value": "Second paragraph
+
+    ",
+      },
+      {
+        "kind": "added",
+        "value": "- A list
+    ",
+      },
+    ]
+  `);
+});
+
+test('diffEntryFiles', () => {
+  const encoder = new TextEncoder();
+  const file = (path: string, contents: string) => ({
+    path,
+    contents: encoder.encode(contents),
+  });
+  expect(
+    diffEntryFiles(
+      ['posts/a.mdoc', 'posts/a/image.png', 'posts/a/other.png'],
+      [
+        file('posts/a.mdoc', 'a'),
+        file('posts/a/image.png', 'image'),
+        file('posts/a/other.png', 'other'),
+      ],
+      [
+        file('posts/b.mdoc', 'a'),
+        file('posts/a/image.png', 'image'),
+        file('posts/a/other.png', 'changed'),
+      ]
+    )
+  ).toEqual([
+    { path: 'posts/a.mdoc', kind: 'removed' },
+    { path: 'posts/a/other.png', kind: 'changed' },
+    { path: 'posts/b.mdoc', kind: 'added' },
+  ]);
+});
@@ -0,0 +1,281 @@
+/** @jest-environment node */
+import { Config, fields, collection, config, singleton } from '../src';
+import { generateJsonSchemas } from '../src/cli/json-schema';
+import { generateTypeScriptTypes } from '../src/cli/typescript';
+import { expect, test } from '@jest/globals';
+
+const localConfig = config({
+  storage: { kind: 'local' },
+  collections: {
+    posts: collection({
+      label: 'Posts',
+      path: 'posts/*',
+      slugField: 'title',
+      format: { contentField: 'content' },
+      schema: {
+        title: fields.slug({ name: { label: 'Title' } }),
+        publishedAt: fields.date({
+          label: 'Published at',
+          validation: { isRequired: true },
+        }),
+        status: fields.select({
+          label: 'Status',
+          options: [
+            { label: 'Draft', value: 'draft' },
+            { label: 'Published', value: 'published' },
+          ],
+          defaultValue: 'draft',
+        }),
+        rating: fields.integer({ label: 'Rating', validation: { min: 1 } }),
+        tags: fields.array(fields.text({ label: 'Tag' }), { label: 'Tags' }),
+        author: fields.relationship({ label: 'Author', collection: 'authors' }),
+        links: fields.array(fields.url({ label: 'Link' }), { label: 'Links' }),
+        hero: fields.conditional(fields.checkbox({ label: 'Has hero' }), {
+          true: fields.object({
+            image: fields.image({ label: 'Image' }),
+            'alt-text': fields.text({ label: 'Alt text' }),
+          }),
+          false: fields.empty(),
+        }),
+        content: fields.markdoc({ label: 'Content' }),
+      },
+      migrations: [data => data],
+    }),
+  },
+  singletons: {
+    settings: singleton({
+      label: 'Settings',
+      schema: {
+        blocks: fields.blocks(
+          {
+            quote: {
+              label: 'Quote',
+              schema: fields.object({ text: fields.text({ label: 'Text' }) }),
+            },
+            divider: { label: 'Divider', schema: fields.empty() },
+          },
+          { label: 'Blocks' }
+        ),
+      },
+    }),
+  },
+});
+
+test('generateJsonSchemas', () => {
+  expect(JSON.parse(JSON.stringify(generateJsonSchemas(localConfig as Config))))
+    .toMatchInlineSnapshot(`
+    {
+      "collections": {
+        "posts": {
+          "$schema": "https://json-schema.org/draft/2020-12/schema",
+          "additionalProperties": false,
+          "properties": {
+            "$version": {
+              "const": 1,
+            },
+            "author": {
+              "type": "string",
+            },
+            "hero": {
+              "anyOf": [
+                {
+                  "additionalProperties": false,
+                  "properties": {
+                    "discriminant": {
+                      "const": true,
+                    },
+                    "value": {
+                      "additionalProperties": false,
+                      "properties": {
+                        "alt-text": {
+                          "default": "",
+                          "type": "string",
+                        },
+                        "image": {
+                          "type": "string",
+                        },
+                      },
+                      "type": "object",
+                    },
+                  },
+                  "required": [
+                    "discriminant",
+                  ],
+                  "type": "object",
+                },
+                {
+                  "additionalProperties": false,
+                  "properties": {
+                    "discriminant": {
+                      "const": false,
+                    },
+                    "value": {
+                      "type": "null",
+                    },
+                  },
+                  "required": [
+                    "discriminant",
+                  ],
+                  "type": "object",
+                },
+              ],
+            },
+            "links": {
+              "default": [],
+              "items": {
+                "anyOf": [
+                  {
+                    "format": "uri",
+                    "type": "string",
+                  },
+                  {
+                    "type": "null",
+                  },
+                ],
+              },
+              "type": "array",
+            },
+            "publishedAt": {
+              "format": "date",
+              "type": "string",
+            },
+            "rating": {
+              "minimum": 1,
+              "type": "integer",
+            },
+            "status": {
+              "default": "draft",
+              "enum": [
+                "draft",
+                "published",
+              ],
+              "type": "string",
+            },
+            "tags": {
+              "default": [],
+              "items": {
+                "default": "",
+                "type": "string",
+              },
+              "type": "array",
+            },
+            "title": {
+              "type": "string",
+            },
+          },
+          "required": [
+            "$version",
+            "publishedAt",
+          ],
+          "title": "Posts",
+          "type": "object",
+        },
+      },
+      "singletons": {
+        "settings": {
+          "$schema": "https://json-schema.org/draft/2020-12/schema",
+          "additionalProperties": false,
+          "properties": {
+            "blocks": {
+              "default": [],
+              "items": {
+                "anyOf": [
+                  {
+                    "additionalProperties": false,
+                    "properties": {
+                      "discriminant": {
+                        "const": "quote",
+                      },
+                      "value": {
+                        "additionalProperties": false,
+                        "properties": {
+                          "text": {
+                            "default": "",
+                            "type": "string",
+                          },
+                        },
+                        "type": "object",
+                      },
+                    },
+                    "required": [
+                      "discriminant",
+                    ],
+                    "type": "object",
+                  },
+                  {
+                    "additionalProperties": false,
+                    "properties": {
+                      "discriminant": {
+                        "const": "divider",
+                      },
+                      "value": {
+                        "type": "null",
+                      },
+                    },
+                    "required": [
+                      "discriminant",
+                    ],
+                    "type": "object",
+                  },
+                ],
+              },
+              "type": "array",
+            },
+          },
+          "title": "Settings",
+          "type": "object",
+        },
+      },
+    }
+  `);
+});
+
+test('generateTypeScriptTypes', () => {
+  expect(generateTypeScriptTypes(localConfig as Config)).toMatchInlineSnapshot(`
+    "// This file is generated by \`keystatic generate\`, do not edit it manually
+
+    export type Collections = {
+      readonly posts: {
+        readonly title: string;
+        readonly publishedAt: string;
+        readonly status: "draft" | "published";
+        readonly rating: number | null;
+        readonly tags: readonly string[];
+        readonly author: string | null;
+        readonly links: readonly (string | null)[];
+        readonly hero: {
+          readonly discriminant: true;
+          readonly value: {
+            readonly image: string | null;
+            readonly "alt-text": string;
+          };
+        } | {
+          readonly discriminant: false;
+          readonly value: null;
+        };
+        readonly content: () => Promise<unknown>;
+      };
+    };
+
+    export type Singletons = {
+      readonly settings: {
+        readonly blocks: readonly ({
+          readonly discriminant: "quote";
+          readonly value: {
+            readonly text: string;
+          };
+        } | {
+          readonly discriminant: "divider";
+          readonly value: null;
+        })[];
+      };
+    };
+
+    export type Entry<Collection extends keyof Collections> =
+      Collections[Collection];
+
+    export type SingletonEntry<Singleton extends keyof Singletons> =
+      Singletons[Singleton];
+    "
+  `);
+});
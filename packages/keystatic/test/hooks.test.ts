@@ -0,0 +1,150 @@
+/** @jest-environment node */
+import { Config, collection, config, fields, singleton } from '../src';
+import { getEntryChangeEvents } from '../src/api/hooks';
+import { expect, test } from '@jest/globals';
+
+const testConfig = config({
+  storage: { kind: 'local' },
+  collections: {
+    posts: collection({
+      label: 'Posts',
+      path: 'posts/*',
+      slugField: 'title',
+      format: { contentField: 'content' },
+      schema: {
+        title: fields.slug({ name: { label: 'Title' } }),
+        content: fields.markdoc({ label: 'Content' }),
+      },
+    }),
+  },
+  singletons: {
+    settings: singleton({
+      label: 'Settings',
+      schema: { name: fields.text({ label: 'Name' }) },
+    }),
+    features: singleton({
+      label: 'Features',
+      schema: {
+        comments: fields.checkbox({ label: 'Comments' }),
+        perPage: fields.integer({ label: 'Per page', defaultValue: 10 }),
+        about: fields.markdoc({ label: 'About' }),
+      },
+    }),
+  },
+}) as Config;
+
+const textEncoder = new TextEncoder();
+
+const existingFiles: Record<string, string> = {
+  'posts/hello.mdoc': '---\ntitle: Hello\n---\nHello world\n',
+};
+
+function getEvents(
+  changes: {
+    additions?: Record<string, string>;
+    deletions?: string[];
+  },
+  files = existingFiles
+) {
+  return getEntryChangeEvents(
+    testConfig,
+    {
+      additions: Object.entries(changes.additions ?? {}).map(
+        ([path, contents]) => ({ path, contents: textEncoder.encode(contents) })
+      ),
+      deletions: changes.deletions ?? [],
+    },
+    async path => (path in files ? textEncoder.encode(files[path]) : null)
+  );
+}
+
+test('updating an entry', async () => {
+  expect(
+    await getEvents({
+      additions: {
+        'posts/hello.mdoc': '---\ntitle: Hello!\n---\nHello world\n',
+      },
+    })
+  ).toEqual([
+    {
+      kind: 'collection',
+      collection: 'posts',
+      slug: 'hello',
+      oldValue: { title: 'Hello', content: 'Hello world\n' },
+      newValue: { title: 'Hello!', content: 'Hello world\n' },
+    },
+  ]);
+});
+
+test('creating an entry', async () => {
+  expect(
+    await getEvents({ additions: { 'settings/index.yaml': 'name: Blog\n' } })
+  ).toEqual([
+    {
+      kind: 'singleton',
+      singleton: 'settings',
+      oldValue: null,
+      newValue: { name: 'Blog' },
+    },
+  ]);
+});
+
+test('deleting an entry', async () => {
+  expect(
+    await getEvents({
+      deletions: ['posts/hello.mdoc', 'posts/hello/image.png'],
+    })
+  ).toEqual([
+    {
+      kind: 'collection',
+      collection: 'posts',
+      slug: 'hello',
+      oldValue: { title: 'Hello', content: 'Hello world\n' },
+      newValue: null,
+    },
+  ]);
+});
+
+test('changes to files outside of entries are ignored', async () => {
+  expect(await getEvents({ additions: { 'README.md': 'Hello' } })).toEqual([]);
+});
+
+test('values are parsed with the schema', async () => {
+  expect(
+    await getEvents({
+      additions: {
+        'features/index.yaml': 'perPage: 20\n',
+        'features/about.mdoc': 'Some content\n',
+      },
+    })
+  ).toEqual([
+    {
+      kind: 'singleton',
+      singleton: 'features',
+      oldValue: null,
+      newValue: { comments: false, perPage: 20, about: 'Some content\n' },
+    },
+  ]);
+});
+
+test('invalid values throw', async () => {
+  await expect(
+    getEvents({ additions: { 'features/index.yaml': 'perPage: many\n' } })
+  ).rejects.toThrow('Invalid data for features/index.yaml');
+});
+
+test('an invalid previous value is null', async () => {
+  expect(
+    await getEvents(
+      { additions: { 'features/index.yaml': 'perPage: 20\n' } },
+      { 'features/index.yaml': 'perPage: many\n' }
+    )
+  ).toEqual([
+    {
+      kind: 'singleton',
+      singleton: 'features',
+      oldValue: null,
+      newValue: { comments: false, perPage: 20, about: null },
+    },
+  ]);
+});
@@ -0,0 +1,68 @@
+/** @jest-environment node */
+import { fields } from '../src';
+import { encodeBlurhash } from '../src/form/fields/image/blurhash';
+import { getResizedDimensions } from '../src/form/fields/image/processing';
+import { expect, test } from '@jest/globals';
+
+test('getResizedDimensions scales down to fit and keeps the aspect ratio', () => {
+  expect(getResizedDimensions(4000, 3000, { maxWidth: 2000 })).toEqual({
+    width: 2000,
+    height: 1500,
+  });
+  expect(
+    getResizedDimensions(4000, 3000, { maxWidth: 2000, maxHeight: 1000 })
+  ).toEqual({ width: 1333, height: 1000 });
+  expect(getResizedDimensions(800, 600, { maxWidth: 2000 })).toEqual({
+    width: 800,
+    height: 600,
+  });
+});
+
+test('encodeBlurhash encodes the average colour of a solid image', () => {
+  const pixels = new Uint8ClampedArray(4 * 4 * 3);
+  for (let i = 0; i < pixels.length; i += 4) {
+    pixels.set([255, 0, 0, 255], i);
+  }
+  expect(encodeBlurhash(pixels, 4, 3, 4, 3)).toMatchInlineSnapshot(
+    `"L~TI:j|cfQ|c|c$5fQ$5fQfQfQfQ"`
+  );
+});
+
+test('images with metadata are stored and read as objects', () => {
+  const field = fields.image({
+    label: 'Image',
+    directory: 'public/images',
+    publicPath: '/images/',
+    metadata: true,
+  });
+  const serialized = field.serialize(
+    {
+      data: new Uint8Array(),
+      extension: 'webp',
+      filename: 'photo.webp',
+      metadata: { width: 2000, height: 1500, blurhash: 'LKO2?U%2Tw=w' },
+    },
+    { suggestedFilenamePrefix: undefined, slug: 'post' }
+  );
+  expect(serialized.value).toEqual({
+    src: '/images/post/photo.webp',
+    width: 2000,
+    height: 1500,
+    blurhash: 'LKO2?U%2Tw=w',
+  });
+  expect(field.reader.parse(serialized.value)).toEqual(serialized.value);
+  expect(field.reader.parse('/images/post/photo.webp')).toEqual({
+    src: '/images/post/photo.webp',
+    width: null,
+    height: null,
+    blurhash: null,
+  });
+  expect(
+    field.parse(serialized.value, { asset: new Uint8Array(), slug: 'post' })
+  ).toEqual({
+    data: new Uint8Array(),
+    extension: 'webp',
+    filename: 'photo.webp',
+    metadata: { width: 2000, height: 1500, blurhash: 'LKO2?U%2Tw=w' },
+  });
+});
@@ -0,0 +1,137 @@
+/** @jest-environment node */
+import { Config, collection, config, fields, singleton } from '../src';
+import { getMediaAssets } from '../src/app/media';
+import { TreeEntry, treeEntriesToTreeNodes } from '../src/app/trees';
+import { expect, test } from '@jest/globals';
+
+const testConfig = config({
+  storage: { kind: 'local' },
+  collections: {
+    posts: collection({
+      label: 'Posts',
+      path: 'posts/*',
+      slugField: 'title',
+      schema: {
+        title: fields.slug({ name: { label: 'Title' } }),
+        image: fields.image({
+          label: 'Image',
+          directory: 'public/images/posts',
+        }),
+      },
+    }),
+  },
+  singletons: {
+    settings: singleton({
+      label: 'Settings',
+      schema: {
+        logo: fields.image({
+          label: 'Logo',
+          directory: 'public/images/settings',
+        }),
+      },
+    }),
+  },
+});
+
+function getTreeData(files: Record<string, string>) {
+  const entries = new Map<string, TreeEntry>();
+  for (const [path, sha] of Object.entries(files)) {
+    const parts = path.split('/');
+    for (let i = 1; i < parts.length; i++) {
+      const dir = parts.slice(0, i).join('/');
+      entries.set(dir, { path: dir, mode: '040000', type: 'tree', sha: dir });
+    }
+    entries.set(path, { path, mode: '100644', type: 'blob', sha });
+  }
+  const sorted = [...entries.values()].sort((a, b) =>
+    a.path.localeCompare(b.path)
+  );
+  return {
+    entries: new Map(sorted.map(entry => [entry.path, entry])),
+    tree: treeEntriesToTreeNodes(sorted),
+  };
+}
+
+test('getMediaAssets groups files by contents and tracks usage', () => {
+  const tree = getTreeData({
+    'posts/a.yaml': 'a',
+    'posts/b.yaml': 'b',
+    'settings/index.yaml': 'settings',
+    'public/images/posts/a/image.png': 'logo',
+    'public/images/posts/b/image.png': 'logo',
+    'public/images/posts/deleted/image.jpg': 'old',
+    'public/images/settings/logo.png': 'logo',
+  });
+  expect(getMediaAssets(testConfig as Config, tree)).toMatchInlineSnapshot(`
+    [
+      {
+        "filename": "image.jpg",
+        "files": [
+          {
+            "directory": "public/images/posts",
+            "filename": "image.jpg",
+            "owner": undefined,
+            "path": "public/images/posts/deleted/image.jpg",
+            "sha": "old",
+          },
+        ],
+        "sha": "old",
+        "usedBy": [],
+      },
+      {
+        "filename": "image.png",
+        "files": [
+          {
+            "directory": "public/images/posts",
+            "filename": "image.png",
+            "owner": {
+              "collection": "posts",
+              "kind": "collection",
+              "slug": "a",
+            },
+            "path": "public/images/posts/a/image.png",
+            "sha": "logo",
+          },
+          {
+            "directory": "public/images/posts",
+            "filename": "image.png",
+            "owner": {
+              "collection": "posts",
+              "kind": "collection",
+              "slug": "b",
+            },
+            "path": "public/images/posts/b/image.png",
+            "sha": "logo",
+          },
+          {
+            "directory": "public/images/settings",
+            "filename": "logo.png",
+            "owner": {
+              "kind": "singleton",
+              "singleton": "settings",
+            },
+            "path": "public/images/settings/logo.png",
+            "sha": "logo",
+          },
+        ],
+        "sha": "logo",
+        "usedBy": [
+          {
+            "collection": "posts",
+            "kind": "collection",
+            "slug": "a",
+          },
+          {
+            "collection": "posts",
+            "kind": "collection",
+            "slug": "b",
+          },
+          {
+            "kind": "singleton",
+            "singleton": "settings",
+          },
+        ],
+      },
+    ]
+  `);
+});
@@ -0,0 +1,193 @@
+/** @jest-environment node */
+import path from 'path';
+import fs from 'fs/promises';
+import { Config, fields, collection, config, singleton } from '../src';
+import { createReader } from '../src/reader';
+import { createLocalFs } from '../src/reader/local-fs';
+import { migrateContent } from '../src/cli/migrate';
+import { getFiles, js, testdir } from './test-utils';
+import { expect, test } from '@jest/globals';
+
+const localConfig = config({
+  storage: { kind: 'local' },
+  collections: {
+    posts: collection({
+      label: 'Posts',
+      path: 'posts/*',
+      slugField: 'title',
+      schema: {
+        title: fields.slug({ name: { label: 'Title' } }),
+        status: fields.select({
+          label: 'Status',
+          options: [
+            { label: 'Draft', value: 'draft' },
+            { label: 'Published', value: 'published' },
+          ],
+          defaultValue: 'draft',
+        }),
+      },
+      migrations: [
+        ({ name, ...data }) => ({ ...data, title: name }),
+        ({ published, ...data }) => ({
+          ...data,
+          status: published ? 'published' : 'draft',
+        }),
+      ],
+    }),
+  },
+  singletons: {
+    settings: singleton({
+      label: 'Settings',
+      path: 'settings',
+      format: 'json',
+      schema: { siteName: fields.text({ label: 'Site name' }) },
+      migrations: [({ name, ...data }) => ({ ...data, siteName: name })],
+    }),
+  },
+});
+
+async function createTestdir() {
+  return testdir({
+    'posts/first.yaml': js`
+      name: First
+      published: true
+    `,
+    'posts/second.yaml': js`
+      $version: 1
+      title: Second
+      published: false
+    `,
+    'posts/third.yaml': js`
+      $version: 2
+      title: Third
+      status: published
+    `,
+    'posts/invalid.yaml': js`
+      name: Invalid
+      published: true
+      other: true
+    `,
+    'settings.json': JSON.stringify({ name: 'My site' }),
+  });
+}
+
+function createMigrationFs(dir: string) {
+  return {
+    ...createLocalFs(dir),
+    writeFile: (filepath: string, contents: Uint8Array) =>
+      fs.writeFile(path.join(dir, filepath), contents),
+  };
+}
+
+test('the reader applies migrations to entries at older versions', async () => {
+  const dir = await createTestdir();
+  const reader = createReader(dir, localConfig);
+  expect(await reader.collections.posts.read('first')).toEqual({
+    title: 'First',
+    status: 'published',
+  });
+  expect(await reader.collections.posts.read('second')).toEqual({
+    title: 'Second',
+    status: 'draft',
+  });
+  expect(await reader.collections.posts.read('third')).toEqual({
+    title: 'Third',
+    status: 'published',
+  });
+  expect(await reader.singletons.settings.read()).toEqual({
+    siteName: 'My site',
+  });
+});
+
+test('migrateContent', async () => {
+  const dir = await createTestdir();
+  const results = await migrateContent(
+    localConfig as Config,
+    createMigrationFs(dir)
+  );
+  expect(results).toMatchInlineSnapshot(`
+    [
+      {
+        "errors": [],
+        "filepath": "posts/first.yaml",
+        "fromVersion": 0,
+        "key": "posts",
+        "kind": "collection",
+        "slug": "first",
+        "toVersion": 2,
+      },
+      {
+        "errors": [
+          ": Key on object value "other" is not allowed",
+        ],
+        "filepath": "posts/invalid.yaml",
+        "fromVersion": 0,
+        "key": "posts",
+        "kind": "collection",
+        "slug": "invalid",
+        "toVersion": 2,
+      },
+      {
+        "errors": [],
+        "filepath": "posts/second.yaml",
+        "fromVersion": 1,
+        "key": "posts",
+        "kind": "collection",
+        "slug": "second",
+        "toVersion": 2,
+      },
+      {
+        "errors": [],
+        "filepath": "settings.json",
+        "fromVersion": 0,
+        "key": "settings",
+        "kind": "singleton",
+        "slug": undefined,
+        "toVersion": 1,
+      },
+    ]
+  `);
+  expect(await getFiles(dir)).toMatchInlineSnapshot(`
+    ⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯ posts/first.yaml ⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯
+    $version: 2
+    title: First
+    status: published
+
+    ⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯ posts/invalid.yaml ⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯
+    name: Invalid
+    published: true
+    other: true
+    ⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯ posts/second.yaml ⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯
+    $version: 2
+    title: Second
+    status: draft
+
+    ⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯ posts/third.yaml ⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯
+    $version: 2
+    title: Third
+    status: published
+    ⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯ settings.json ⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯
+    {
+      "$version": 1,
+      "siteName": "My site"
+    }
+
+  `);
+});
+
+test('migrateContent with dryRun does not write files', async () => {
+  const dir = await createTestdir();
+  const before = await getFiles(dir);
+  const results = await migrateContent(
+    localConfig as Config,
+    createMigrationFs(dir),
+    { dryRun: true }
+  );
+  expect(results.map(x => x.filepath)).toEqual([
+    'posts/first.yaml',
+    'posts/invalid.yaml',
+    'posts/second.yaml',
+    'settings.json',
+  ]);
+  expect(await getFiles(dir)).toEqual(before);
+});
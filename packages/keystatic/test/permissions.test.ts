@@ -0,0 +1,177 @@
+/** @jest-environment node */
+import { Config, collection, config, fields, singleton } from '../src';
+import { getEntryAccess, validateChanges } from '../src/app/permissions';
+import { expect, test } from '@jest/globals';
+
+const testConfig = config({
+  storage: { kind: 'github', repo: 'keystatic/test' },
+  permissions: {
+    roles: {
+      admins: { teams: ['keystatic/admins'], access: 'publish' },
+      writers: { users: ['jane'], access: 'edit' },
+    },
+    collections: {
+      posts: {
+        fields: { author: { writers: 'read' } },
+      },
+    },
+    singletons: {
+      settings: { access: { writers: 'read' } },
+    },
+  },
+  collections: {
+    posts: collection({
+      label: 'Posts',
+      path: 'posts/*',
+      slugField: 'title',
+      publishing: true,
+      schema: {
+        title: fields.slug({ name: { label: 'Title' } }),
+        author: fields.text({ label: 'Author' }),
+      },
+    }),
+  },
+  singletons: {
+    settings: singleton({
+      label: 'Settings',
+      schema: { name: fields.text({ label: 'Name' }) },
+    }),
+  },
+}) as Config;
+
+const admin = { login: 'john', teams: ['keystatic/admins'] };
+const writer = { login: 'Jane', teams: [] };
+const stranger = { login: 'someone', teams: [] };
+
+const posts = { kind: 'collection', collection: 'posts' } as const;
+
+test('access is the most access of the roles of the user', () => {
+  expect(getEntryAccess(testConfig, admin, posts)).toEqual({
+    access: 'publish',
+    readOnlyFields: new Set(),
+  });
+  expect(
+    getEntryAccess(
+      testConfig,
+      { ...writer, teams: ['keystatic/admins'] },
+      posts
+    ).access
+  ).toBe('publish');
+});
+
+test('fields and publishing fields can be read-only', () => {
+  expect(getEntryAccess(testConfig, writer, posts)).toEqual({
+    access: 'edit',
+    readOnlyFields: new Set(['author', 'status', 'publishAt']),
+  });
+  expect(
+    getEntryAccess(testConfig, writer, {
+      kind: 'singleton',
+      singleton: 'settings',
+    })
+  ).toEqual({ access: 'read', readOnlyFields: new Set(['name']) });
+  expect(getEntryAccess(testConfig, stranger, posts).access).toBe('read');
+});
+
+const textEncoder = new TextEncoder();
+
+const existingFiles: Record<string, string> = {
+  'posts/hello.yaml': 'title: Hello\nauthor: John\nstatus: draft\n',
+};
+
+function validate(
+  identity: typeof admin,
+  changes: { additions?: Record<string, string>; deletions?: string[] }
+) {
+  return validateChanges(
+    testConfig,
+    identity,
+    {
+      additions: Object.entries(changes.additions ?? {}).map(
+        ([path, contents]) => ({ path, contents: textEncoder.encode(contents) })
+      ),
+      deletions: changes.deletions ?? [],
+    },
+    async path =>
+      path in existingFiles ? textEncoder.encode(existingFiles[path]) : null
+  );
+}
+
+test('changes to read-only fields are rejected', async () => {
+  expect(
+    await validate(writer, {
+      additions: {
+        'posts/hello.yaml': 'title: Hello!\nauthor: John\nstatus: draft\n',
+      },
+    })
+  ).toBeUndefined();
+  expect(
+    await validate(writer, {
+      additions: {
+        'posts/hello.yaml': 'title: Hello\nauthor: Jane\nstatus: draft\n',
+      },
+    })
+  ).toMatchInlineSnapshot(
+    `"You don't have permission to edit the Author field of Posts"`
+  );
+  expect(
+    await validate(writer, {
+      additions: {
+        'posts/hello.yaml': 'title: Hello\nauthor: John\nstatus: published\n',
+      },
+    })
+  ).toMatchInlineSnapshot(
+    `"You don't have permission to edit the Status field of Posts"`
+  );
+  expect(
+    await validate(admin, {
+      additions: {
+        'posts/hello.yaml': 'title: Hello\nauthor: Jane\nstatus: published\n',
+      },
+    })
+  ).toBeUndefined();
+});
+
+test('new entries can only be published with publish access', async () => {
+  expect(
+    await validate(writer, {
+      additions: {
+        'posts/new.yaml': 'title: New\nauthor: Jane\nstatus: draft\n',
+      },
+    })
+  ).toBeUndefined();
+  expect(
+    await validate(writer, {
+      additions: {
+        'posts/new.yaml': 'title: New\nauthor: Jane\nstatus: published\n',
+      },
+    })
+  ).toMatchInlineSnapshot(
+    `"You don't have permission to publish entries in Posts"`
+  );
+});
+
+test('deleting entries needs publish access', async () => {
+  expect(
+    await validate(writer, { deletions: ['posts/hello.yaml'] })
+  ).toMatchInlineSnapshot(
+    `"You don't have permission to delete entries in Posts"`
+  );
+  expect(
+    await validate(admin, { deletions: ['posts/hello.yaml'] })
+  ).toBeUndefined();
+});
+
+test('changing files needs edit access', async () => {
+  expect(
+    await validate(stranger, { additions: { 'README.md': 'Hello' } })
+  ).toMatchInlineSnapshot(`"You don't have permission to change README.md"`);
+  expect(
+    await validate(writer, { additions: { 'README.md': 'Hello' } })
+  ).toBeUndefined();
+  expect(
+    await validate(writer, {
+      additions: { 'settings/index.yaml': 'name: Blog\n' },
+    })
+  ).toMatchInlineSnapshot(`"You don't have permission to edit Settings"`);
+});
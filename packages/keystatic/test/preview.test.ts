@@ -0,0 +1,39 @@
+import { fields } from '../src';
+import { getPreviewData } from '../src/app/preview-data';
+import { expect, test } from '@jest/globals';
+
+const schema = {
+  title: fields.slug({ name: { label: 'Title' } }),
+  summary: fields.text({ label: 'Summary' }),
+  tags: fields.array(fields.text({ label: 'Tag' }), { label: 'Tags' }),
+  content: fields.markdoc({ label: 'Content' }),
+};
+
+test('getPreviewData serializes the values of an entry', () => {
+  const state = {
+    title: { name: 'Hello world', slug: 'hello-world' },
+    summary: 'Some text',
+    tags: ['a', 'b'],
+    content: schema.content.parse(undefined, {
+      content: new TextEncoder().encode('# Heading\n\nSome content\n'),
+      other: new Map(),
+      external: new Map(),
+      slug: 'hello-world',
+    }),
+  };
+  expect(getPreviewData(schema, state, 'title', 'hello-world'))
+    .toMatchInlineSnapshot(`
+    {
+      "content": "# Heading
+
+    Some content
+    ",
+      "summary": "Some text",
+      "tags": [
+        "a",
+        "b",
+      ],
+      "title": "Hello world",
+    }
+  `);
+});
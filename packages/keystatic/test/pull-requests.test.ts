@@ -0,0 +1,164 @@
+import { expect, test } from '@jest/globals';
+import {
+  Check,
+  PullRequest,
+  getChecks,
+  getMergeBlocker,
+} from '../src/app/pull-requests';
+
+type Context = NonNullable<
+  NonNullable<
+    NonNullable<PullRequest['commits']['nodes']>[number]
+  >['commit']['statusCheckRollup']
+>['contexts']['nodes'];
+
+function pullRequest(
+  overrides: Partial<PullRequest> = {},
+  contexts: Context = []
+): PullRequest {
+  return {
+    state: 'OPEN',
+    isDraft: false,
+    mergeable: 'MERGEABLE',
+    reviewDecision: null,
+    commits: {
+      nodes: [
+        {
+          id: 'commit',
+          commit: {
+            id: 'commit',
+            statusCheckRollup: {
+              id: 'rollup',
+              state: 'SUCCESS',
+              contexts: { nodes: contexts },
+            },
+          },
+        },
+      ],
+    },
+    ...overrides,
+  } as PullRequest;
+}
+
+function checkRun(
+  name: string,
+  status: string,
+  conclusion: string | null
+): NonNullable<Context>[number] {
+  return {
+    __typename: 'CheckRun',
+    id: name,
+    name,
+    status,
+    conclusion,
+    detailsUrl: `https://example.com/${name}`,
+  } as NonNullable<Context>[number];
+}
+
+function statusContext(
+  context: string,
+  state: string
+): NonNullable<Context>[number] {
+  return {
+    __typename: 'StatusContext',
+    id: context,
+    context,
+    state,
+    targetUrl: null,
+  } as NonNullable<Context>[number];
+}
+
+test('check runs and status contexts are checks', () => {
+  expect(
+    getChecks(
+      pullRequest({}, [
+        checkRun('build', 'COMPLETED', 'SUCCESS'),
+        checkRun('lint', 'COMPLETED', 'FAILURE'),
+        checkRun('deploy', 'COMPLETED', 'SKIPPED'),
+        checkRun('test', 'IN_PROGRESS', null),
+        statusContext('ci/preview', 'PENDING'),
+        statusContext('ci/docs', 'ERROR'),
+        null,
+      ])
+    )
+  ).toEqual([
+    {
+      id: 'build',
+      name: 'build',
+      state: 'success',
+      url: 'https://example.com/build',
+    },
+    {
+      id: 'lint',
+      name: 'lint',
+      state: 'failure',
+      url: 'https://example.com/lint',
+    },
+    {
+      id: 'deploy',
+      name: 'deploy',
+      state: 'neutral',
+      url: 'https://example.com/deploy',
+    },
+    {
+      id: 'test',
+      name: 'test',
+      state: 'pending',
+      url: 'https://example.com/test',
+    },
+    { id: 'ci/preview', name: 'ci/preview', state: 'pending', url: undefined },
+    { id: 'ci/docs', name: 'ci/docs', state: 'failure', url: undefined },
+  ]);
+});
+
+test('pull requests without commits have no checks', () => {
+  expect(getChecks(pullRequest({ commits: { nodes: [] } }))).toEqual([]);
+});
+
+const passing: Check[] = [{ id: 'build', name: 'build', state: 'success' }];
+
+test('an open pull request with passing checks can be merged', () => {
+  expect(getMergeBlocker(pullRequest(), passing)).toBeUndefined();
+  expect(
+    getMergeBlocker(pullRequest({ reviewDecision: 'APPROVED' }), [
+      ...passing,
+      { id: 'deploy', name: 'deploy', state: 'neutral' },
+    ])
+  ).toBeUndefined();
+});
+
+test('merge blockers', () => {
+  expect(
+    getMergeBlocker(pullRequest({ state: 'CLOSED' }), passing)
+  ).toMatchInlineSnapshot(`"This pull request is closed."`);
+  expect(
+    getMergeBlocker(pullRequest({ isDraft: true }), passing)
+  ).toMatchInlineSnapshot(`"This pull request is still a draft."`);
+  expect(
+    getMergeBlocker(pullRequest({ mergeable: 'CONFLICTING' }), passing)
+  ).toMatchInlineSnapshot(
+    `"This branch has conflicts that must be resolved on GitHub."`
+  );
+  expect(
+    getMergeBlocker(
+      pullRequest({ reviewDecision: 'CHANGES_REQUESTED' }),
+      passing
+    )
+  ).toMatchInlineSnapshot(`"Changes have been requested."`);
+  expect(
+    getMergeBlocker(pullRequest({ reviewDecision: 'REVIEW_REQUIRED' }), passing)
+  ).toMatchInlineSnapshot(`"An approving review is required."`);
+  expect(
+    getMergeBlocker(pullRequest(), [
+      ...passing,
+      { id: 'lint', name: 'lint', state: 'failure' },
+      { id: 'test', name: 'test', state: 'pending' },
+    ])
+  ).toMatchInlineSnapshot(`"Some checks were not successful."`);
+  expect(
+    getMergeBlocker(pullRequest(), [
+      ...passing,
+      { id: 'test', name: 'test', state: 'pending' },
+    ])
+  ).toMatchInlineSnapshot(`"Some checks haven’t completed yet."`);
+});
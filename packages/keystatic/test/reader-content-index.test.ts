@@ -0,0 +1,122 @@
+/** @jest-environment node */
+import path from 'path';
+import fs from 'fs/promises';
+import os from 'os';
+import { fields, collection, config } from '../src';
+import { createReader } from '../src/reader';
+import { afterEach, beforeEach, expect, test } from '@jest/globals';
+
+const localConfig = config({
+  storage: { kind: 'local' },
+  collections: {
+    posts: collection({
+      label: 'Posts',
+      path: 'posts/*',
+      slugField: 'title',
+      format: { contentField: 'content' },
+      schema: {
+        title: fields.slug({ name: { label: 'Title' } }),
+        views: fields.integer({ label: 'Views' }),
+        content: fields.markdoc({ label: 'Content' }),
+      },
+    }),
+  },
+});
+
+let dir: string;
+let indexPath: string;
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'keystatic-content-index-'));
+  indexPath = path.join(dir, 'cache/content-index.json');
+  await fs.mkdir(path.join(dir, 'repo/posts'), { recursive: true });
+  await fs.writeFile(
+    path.join(dir, 'repo/posts/hello.mdoc'),
+    '---\ntitle: Hello\nviews: 1\n---\nSome content\n'
+  );
+});
+
+afterEach(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+const waitForIndexWrite = () =>
+  new Promise(resolve => setTimeout(resolve, 200));
+
+async function readIndex() {
+  return JSON.parse(await fs.readFile(indexPath, 'utf8'));
+}
+
+test('parsed entries are persisted and reused by new readers', async () => {
+  const reader = createReader(path.join(dir, 'repo'), localConfig, {
+    contentIndex: { path: indexPath },
+  });
+  expect((await reader.collections.posts.readOrThrow('hello')).views).toBe(1);
+  await waitForIndexWrite();
+
+  const index = await readIndex();
+  const cached = index.entries['posts/hello.mdoc'];
+  expect(cached.entry).toEqual({
+    value: { title: 'Hello', views: 1 },
+    contentFields: [{ path: ['content'], filename: 'content.mdoc' }],
+  });
+
+  // changing the index proves that the next reader doesn't re-parse the file
+  cached.entry.value.views = 2;
+  await fs.writeFile(indexPath, JSON.stringify(index));
+
+  const newReader = createReader(path.join(dir, 'repo'), localConfig, {
+    contentIndex: { path: indexPath },
+  });
+  const entry = await newReader.collections.posts.readOrThrow('hello', {
+    resolveLinkedFiles: true,
+  });
+  expect(entry.views).toBe(2);
+  expect(entry.content.node.children[0].type).toBe('paragraph');
+});
+
+test('entries are re-parsed when the data file changes', async () => {
+  const reader = createReader(path.join(dir, 'repo'), localConfig, {
+    contentIndex: { path: indexPath },
+  });
+  await reader.collections.posts.read('hello');
+  await waitForIndexWrite();
+  const { sha } = (await readIndex()).entries['posts/hello.mdoc'];
+
+  await fs.writeFile(
+    path.join(dir, 'repo/posts/hello.mdoc'),
+    '---\ntitle: Hello\nviews: 5\n---\nSome content\n'
+  );
+  const newReader = createReader(path.join(dir, 'repo'), localConfig, {
+    contentIndex: { path: indexPath },
+  });
+  expect((await newReader.collections.posts.readOrThrow('hello')).views).toBe(
+    5
+  );
+  await waitForIndexWrite();
+  expect((await readIndex()).entries['posts/hello.mdoc'].sha).not.toBe(sha);
+});
+
+test('entries that are not read are dropped when the index is written', async () => {
+  const reader = createReader(path.join(dir, 'repo'), localConfig, {
+    contentIndex: { path: indexPath },
+  });
+  await reader.collections.posts.read('hello');
+  await waitForIndexWrite();
+  expect(Object.keys((await readIndex()).entries)).toEqual([
+    'posts/hello.mdoc',
+  ]);
+
+  await fs.writeFile(
+    path.join(dir, 'repo/posts/other.mdoc'),
+    '---\ntitle: Other\nviews: 1\n---\nSome content\n'
+  );
+  const newReader = createReader(path.join(dir, 'repo'), localConfig, {
+    contentIndex: { path: indexPath },
+  });
+  await newReader.collections.posts.read('other');
+  await waitForIndexWrite();
+  expect(Object.keys((await readIndex()).entries)).toEqual([
+    'posts/other.mdoc',
+  ]);
+});
@@ -0,0 +1,118 @@
+/** @jest-environment node */
+import { fields, collection, config, singleton } from '../src';
+import { createReader } from '../src/reader';
+import { getLocaleFallbacks } from '../src/app/localization';
+import { js, testdir } from './test-utils';
+import { expect, test } from '@jest/globals';
+
+const localConfig = config({
+  storage: { kind: 'local' },
+  collections: {
+    posts: collection({
+      label: 'Posts',
+      path: 'content/{locale}/posts/*',
+      slugField: 'title',
+      localization: {
+        locales: ['en', 'fr', 'fr-CA', 'de'],
+        fallbacks: { 'fr-CA': ['fr'] },
+      },
+      schema: {
+        title: fields.slug({ name: { label: 'Title' } }),
+      },
+    }),
+  },
+  singletons: {
+    settings: singleton({
+      label: 'Settings',
+      path: 'content/{locale}/settings',
+      localization: { locales: ['en', 'fr'] },
+      schema: {
+        tagline: fields.text({ label: 'Tagline' }),
+      },
+    }),
+  },
+});
+
+async function createTestdir() {
+  return testdir({
+    'content/en/posts/hello.yaml': js`
+      title: Hello
+    `,
+    'content/en/posts/goodbye.yaml': js`
+      title: Goodbye
+    `,
+    'content/fr/posts/hello.yaml': js`
+      title: Bonjour
+    `,
+    'content/fr/posts/only-in-french.yaml': js`
+      title: Seulement en français
+    `,
+    'content/en/settings.yaml': js`
+      tagline: Welcome
+    `,
+  });
+}
+
+test('entries are read in the default locale by default', async () => {
+  const reader = createReader(await createTestdir(), localConfig);
+  expect(await reader.collections.posts.read('hello')).toEqual({
+    title: 'Hello',
+  });
+  expect((await reader.collections.posts.list()).sort()).toEqual([
+    'goodbye',
+    'hello',
+  ]);
+  expect(await reader.singletons.settings.read()).toEqual({
+    tagline: 'Welcome',
+  });
+});
+
+test('entries are read in a locale with fallbacks', async () => {
+  const reader = createReader(await createTestdir(), localConfig);
+  expect(
+    await reader.collections.posts.read('hello', { locale: 'fr' })
+  ).toEqual({ title: 'Bonjour' });
+  expect(
+    await reader.collections.posts.read('hello', { locale: 'fr-CA' })
+  ).toEqual({ title: 'Bonjour' });
+  expect(
+    await reader.collections.posts.read('goodbye', { locale: 'fr-CA' })
+  ).toEqual({ title: 'Goodbye' });
+  expect(
+    await reader.collections.posts.read('only-in-french', { locale: 'de' })
+  ).toBeNull();
+  expect(
+    (await reader.collections.posts.list({ locale: 'fr-CA' })).sort()
+  ).toEqual(['goodbye', 'hello', 'only-in-french']);
+  expect(await reader.singletons.settings.read({ locale: 'fr' })).toEqual({
+    tagline: 'Welcome',
+  });
+});
+
+test('getLocaleFallbacks', () => {
+  const localization = {
+    locales: ['en', 'fr', 'fr-CA'],
+    fallbacks: { 'fr-CA': ['fr', 'unknown'] },
+  } as const;
+  expect(getLocaleFallbacks(localization, 'fr-CA')).toEqual([
+    'fr-CA',
+    'fr',
+    'en',
+  ]);
+  expect(getLocaleFallbacks(localization, 'en')).toEqual(['en']);
+  expect(getLocaleFallbacks(localization, 'unknown')).toEqual(['en']);
+});
+
+test('localized paths must include {locale}', () => {
+  expect(() =>
+    collection({
+      label: 'Posts',
+      path: 'posts/*',
+      slugField: 'title',
+      localization: { locales: ['en'] },
+      schema: { title: fields.slug({ name: { label: 'Title' } }) },
+    })
+  ).toThrow(
+    'The path of "Posts" must include {locale} since it has localization'
+  );
+});
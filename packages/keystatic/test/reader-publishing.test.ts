@@ -0,0 +1,127 @@
+/** @jest-environment node */
+import { fields, collection, config } from '../src';
+import { createReader } from '../src/reader';
+import { getPublishingState } from '../src/app/publishing';
+import { js, testdir } from './test-utils';
+import { expect, test } from '@jest/globals';
+
+const localConfig = config({
+  storage: { kind: 'local' },
+  collections: {
+    posts: collection({
+      label: 'Posts',
+      path: 'posts/*',
+      slugField: 'title',
+      publishing: true,
+      schema: {
+        title: fields.slug({ name: { label: 'Title' } }),
+      },
+    }),
+  },
+});
+
+async function createTestdir() {
+  return testdir({
+    'posts/draft.yaml': js`
+      title: Draft
+    `,
+    'posts/published.yaml': js`
+      title: Published
+      status: published
+    `,
+    'posts/published-in-past.yaml': js`
+      title: Published in past
+      status: published
+      publishAt: 2020-01-01T09:00:00Z
+    `,
+    'posts/scheduled.yaml': js`
+      title: Scheduled
+      status: published
+      publishAt: 2999-01-01T09:00:00Z
+    `,
+  });
+}
+
+test('the reader excludes draft and scheduled entries by default', async () => {
+  const reader = createReader(await createTestdir(), localConfig);
+  expect(await reader.collections.posts.list()).toEqual([
+    'published-in-past',
+    'published',
+  ]);
+  expect(await reader.collections.posts.all()).toEqual([
+    {
+      slug: 'published-in-past',
+      entry: {
+        title: 'Published in past',
+        status: 'published',
+        publishAt: '2020-01-01T09:00',
+      },
+    },
+    {
+      slug: 'published',
+      entry: { title: 'Published', status: 'published', publishAt: null },
+    },
+  ]);
+  expect(await reader.collections.posts.read('draft')).toBeNull();
+  expect(await reader.collections.posts.read('scheduled')).toBeNull();
+  await expect(
+    reader.collections.posts.readOrThrow('scheduled')
+  ).rejects.toThrow('Entry "scheduled" not found in collection "posts"');
+});
+
+test('includeUnpublished includes draft and scheduled entries', async () => {
+  const reader = createReader(await createTestdir(), localConfig);
+  expect(
+    await reader.collections.posts.list({ includeUnpublished: true })
+  ).toEqual(['draft', 'published-in-past', 'published', 'scheduled']);
+  expect(
+    await reader.collections.posts.read('draft', { includeUnpublished: true })
+  ).toEqual({ title: 'Draft', status: 'draft', publishAt: null });
+  expect(
+    (
+      await reader.collections.posts.query({
+        includeUnpublished: true,
+        where: { status: 'published' },
+      })
+    ).map(x => x.slug)
+  ).toEqual(['published-in-past', 'published', 'scheduled']);
+});
+
+test('getPublishingState', () => {
+  const now = new Date('2024-06-01T00:00:00Z');
+  expect(getPublishingState({ status: 'draft' }, now)).toBe('draft');
+  expect(
+    getPublishingState({ status: 'draft', publishAt: '2024-01-01T00:00' }, now)
+  ).toBe('draft');
+  expect(
+    getPublishingState({ status: 'published', publishAt: null }, now)
+  ).toBe('published');
+  expect(
+    getPublishingState(
+      { status: 'published', publishAt: '2024-06-01T00:00' },
+      now
+    )
+  ).toBe('published');
+  expect(
+    getPublishingState(
+      { status: 'published', publishAt: '2024-06-01T00:01' },
+      now
+    )
+  ).toBe('scheduled');
+});
+
+test('collection throws when the schema has a publishing field', () => {
+  expect(() =>
+    collection({
+      label: 'Posts',
+      slugField: 'title',
+      publishing: true,
+      schema: {
+        title: fields.slug({ name: { label: 'Title' } }),
+        publishAt: fields.date({ label: 'Publish at' }),
+      },
+    })
+  ).toThrow(
+    'The "publishAt" field is added by publishing so it cannot be in the schema of the "Posts" collection'
+  );
+});
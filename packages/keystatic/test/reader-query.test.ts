@@ -0,0 +1,144 @@
+/** @jest-environment node */
+import path from 'path';
+import { fields, collection, config } from '../src';
+import { createReader } from '../src/reader';
+import { expect, test } from '@jest/globals';
+// this whole thing is so the tests run with NODE_OPTIONS=--experimental-vm-modules and without it
+import { pkgDir } from '#dir';
+
+const localConfig = config({
+  storage: { kind: 'local' },
+  collections: {
+    articles: collection({
+      label: 'Articles',
+      path: 'articles/*',
+      slugField: 'title',
+      schema: {
+        title: fields.slug({ name: { label: 'Title' } }),
+        publishDate: fields.date({ label: 'Publish Date' }),
+        status: fields.select({
+          label: 'Status',
+          options: [
+            { label: 'Draft', value: 'draft' },
+            { label: 'Published', value: 'published' },
+          ],
+          defaultValue: 'draft',
+        }),
+        tags: fields.multiselect({
+          label: 'Tags',
+          options: [
+            { label: 'News', value: 'news' },
+            { label: 'Releases', value: 'releases' },
+          ],
+        }),
+        views: fields.integer({ label: 'Views' }),
+      },
+    }),
+  },
+});
+
+const reader = createReader(path.join(pkgDir, 'test-data'), localConfig);
+
+test('query with where and orderBy', async () => {
+  const result = await reader.collections.articles.query({
+    where: { status: 'published' },
+    orderBy: { field: 'publishDate', direction: 'descending' },
+  });
+  expect(result.map(x => x.slug)).toEqual([
+    'third-post',
+    'second-post',
+    'first-post',
+  ]);
+});
+
+test('query with limit and offset', async () => {
+  const result = await reader.collections.articles.query({
+    orderBy: { field: 'views' },
+    offset: 1,
+    limit: 2,
+  });
+  expect(result.map(x => x.slug)).toEqual(['first-post', 'third-post']);
+});
+
+test('query with operators', async () => {
+  const result = await reader.collections.articles.query({
+    where: {
+      tags: { contains: 'news' },
+      views: { gte: 50 },
+    },
+  });
+  expect(result).toMatchInlineSnapshot(`
+    [
+      {
+        "entry": {
+          "publishDate": "2023-03-02",
+          "status": "published",
+          "tags": [
+            "news",
+            "releases",
+          ],
+          "title": "Second post",
+          "views": 120,
+        },
+        "slug": "second-post",
+      },
+    ]
+  `);
+});
+
+test('query orders null values last', async () => {
+  const ascending = await reader.collections.articles.query({
+    orderBy: { field: 'publishDate', direction: 'ascending' },
+  });
+  const descending = await reader.collections.articles.query({
+    orderBy: { field: 'publishDate', direction: 'descending' },
+  });
+  expect(ascending.map(x => x.slug)).toEqual([
+    'first-post',
+    'second-post',
+    'third-post',
+    'upcoming-post',
+  ]);
+  expect(descending.map(x => x.slug)).toEqual([
+    'third-post',
+    'second-post',
+    'first-post',
+    'upcoming-post',
+  ]);
+});
+
+test('query where types', async () => {
+  // @ts-expect-error
+  await reader.collections.articles.query({ where: { status: 1 } });
+  // @ts-expect-error
+  await reader.collections.articles.query({ orderBy: { field: 'tags' } });
+});
+
+test('query only parses the fields it uses for entries that are not returned', async () => {
+  const reader = createReader(
+    path.join(pkgDir, 'test-data'),
+    config({
+      storage: { kind: 'local' },
+      collections: {
+        articles: collection({
+          label: 'Articles',
+          path: 'articles/*',
+          slugField: 'title',
+          schema: {
+            ...localConfig.collections.articles.schema,
+            // the data files have numbers here so reading them fails
+            views: fields.text({ label: 'Views' }),
+          },
+        }),
+      },
+    })
+  );
+  expect(
+    await reader.collections.articles.query({
+      where: { publishDate: '2000-01-01' },
+    })
+  ).toEqual([]);
+  await expect(reader.collections.articles.all()).rejects.toThrow(
+    'Invalid data'
+  );
+});
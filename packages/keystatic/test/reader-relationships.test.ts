@@ -0,0 +1,115 @@
+/** @jest-environment node */
+import path from 'path';
+import { fields, collection, config } from '../src';
+import { createReader } from '../src/reader';
+import { expect, test } from '@jest/globals';
+// this whole thing is so the tests run with NODE_OPTIONS=--experimental-vm-modules and without it
+import { pkgDir } from '#dir';
+
+const localConfig = config({
+  storage: { kind: 'local' },
+  collections: {
+    authors: collection({
+      label: 'Authors',
+      path: 'authors/*',
+      slugField: 'name',
+      schema: {
+        name: fields.slug({ name: { label: 'Name' } }),
+      },
+    }),
+    books: collection({
+      label: 'Books',
+      path: 'books/*',
+      slugField: 'title',
+      schema: {
+        title: fields.slug({ name: { label: 'Title' } }),
+        author: fields.relationship({ label: 'Author', collection: 'authors' }),
+        contributors: fields.multiRelationship({
+          label: 'Contributors',
+          collection: 'authors',
+        }),
+      },
+    }),
+  },
+});
+
+const reader = createReader(path.join(pkgDir, 'test-data'), localConfig);
+
+test('referencedBy with a field', async () => {
+  const result = await reader.collections.authors.referencedBy('john', {
+    collection: 'books',
+    field: 'author',
+  });
+  expect(result.map(x => x.slug).sort()).toEqual(['book-three', 'book-two']);
+});
+
+test('referencedBy with a multiRelationship field', async () => {
+  const result = await reader.collections.authors.referencedBy('jane', {
+    collection: 'books',
+    field: 'contributors',
+  });
+  expect(result.map(x => x.slug)).toEqual(['book-two']);
+});
+
+test('referencedBy without a field checks every relationship field', async () => {
+  const result = await reader.collections.authors.referencedBy('jane', {
+    collection: 'books',
+  });
+  expect(result.map(x => x.slug).sort()).toEqual(['book-one', 'book-two']);
+});
+
+test('referencedBy with a field that does not reference the collection', async () => {
+  await expect(
+    reader.collections.authors.referencedBy('jane', {
+      collection: 'books',
+      // @ts-expect-error
+      field: 'title',
+    })
+  ).rejects.toMatchInlineSnapshot(
+    `[Error: Field "title" in collection "books" is not a relationship field referencing collection "authors"]`
+  );
+});
+
+test('read with resolveRelationships', async () => {
+  const result = await reader.collections.books.readOrThrow('book-two', {
+    resolveRelationships: true,
+  });
+  const author: { slug: string; entry: { name: string } } | null =
+    result.author;
+  expect(author).toEqual({ slug: 'john', entry: { name: 'John' } });
+  expect(result.contributors).toEqual([
+    { slug: 'jane', entry: { name: 'Jane' } },
+  ]);
+});
+
+test('referencedBy only parses the relationship fields of entries that are not returned', async () => {
+  const reader = createReader(
+    path.join(pkgDir, 'test-data'),
+    config({
+      storage: { kind: 'local' },
+      collections: {
+        authors: localConfig.collections.authors,
+        books: collection({
+          label: 'Books',
+          path: 'books/*',
+          slugField: 'title',
+          schema: {
+            title: fields.slug({ name: { label: 'Title' } }),
+            author: fields.relationship({
+              label: 'Author',
+              collection: 'authors',
+            }),
+            // the data files have arrays here so reading them fails
+            contributors: fields.integer({ label: 'Contributors' }),
+          },
+        }),
+      },
+    })
+  );
+  expect(
+    await reader.collections.authors.referencedBy('someone-else', {
+      collection: 'books',
+    })
+  ).toEqual([]);
+  await expect(reader.collections.books.all()).rejects.toThrow('Invalid data');
+});
@@ -0,0 +1,123 @@
+/** @jest-environment node */
+import { Config, collection, config, fields } from '../src';
+import {
+  getCollectionFormat,
+  getCollectionItemPath,
+} from '../src/app/path-utils';
+import {
+  getPlainText,
+  getSearchDocument,
+  searchDocuments,
+} from '../src/app/search';
+import { expect, test } from '@jest/globals';
+
+const testConfig = config({
+  storage: { kind: 'local' },
+  collections: {
+    pages: collection({
+      label: 'Pages',
+      path: 'pages/*',
+      slugField: 'title',
+      schema: {
+        title: fields.slug({ name: { label: 'Title' } }),
+        summary: fields.text({ label: 'Summary' }),
+        content: fields.markdoc({ label: 'Content' }),
+      },
+    }),
+  },
+}) as Config;
+
+const textEncoder = new TextEncoder();
+
+function getDocument(slug: string, data: string, content: string) {
+  const dirpath = getCollectionItemPath(testConfig, 'pages', slug);
+  return getSearchDocument(
+    {
+      entry: { kind: 'collection', collection: 'pages', slug },
+      title: slug,
+      dirpath,
+      format: getCollectionFormat(testConfig, 'pages'),
+      schema: testConfig.collections!.pages.schema,
+      slug: { slug, field: 'title' },
+    },
+    new Map([
+      [`${dirpath}.yaml`, textEncoder.encode(data)],
+      [`${dirpath}/content.mdoc`, textEncoder.encode(content)],
+    ])
+  );
+}
+
+test('getPlainText removes markup', () => {
+  expect(
+    getPlainText(
+      '# Heading\n\nSome **bold** and [a link](/somewhere).\n\n{% aside %}\nAn aside\n{% /aside %}\n'
+    )
+  ).toBe('Heading Some bold and a link. An aside');
+});
+
+test('searchDocuments finds entries by the text of their fields', () => {
+  const documents = [
+    getDocument(
+      'about',
+      'title: About us\nsummary: Who we are\n',
+      '# About\n\nWe sell things.\n'
+    ),
+    getDocument(
+      'returns',
+      'title: Returns\nsummary: How returns work\n',
+      '# Returns\n\nRead our **refund policy** before sending items back.\n'
+    ),
+  ];
+  expect(documents[1]).toMatchInlineSnapshot(`
+    {
+      "entry": {
+        "collection": "pages",
+        "kind": "collection",
+        "slug": "returns",
+      },
+      "fields": [
+        {
+          "labels": [
+            "Title",
+          ],
+          "text": "Returns",
+        },
+        {
+          "labels": [
+            "Summary",
+          ],
+          "text": "How returns work",
+        },
+        {
+          "labels": [
+            "Content",
+          ],
+          "text": "Returns Read our refund policy before sending items back.",
+        },
+      ],
+      "title": "Returns",
+    }
+  `);
+  expect(
+    searchDocuments(documents, 'Refund policy').map(result => ({
+      title: result.document.title,
+      labels: result.field.labels,
+      snippet: result.snippet,
+      match: result.snippet.slice(result.match.start, result.match.end),
+    }))
+  ).toMatchInlineSnapshot(`
+    [
+      {
+        "labels": [
+          "Content",
+        ],
+        "match": "refund policy",
+        "snippet": "Returns Read our refund policy before sending items back.",
+        "title": "Returns",
+      },
+    ]
+  `);
+  expect(
+    searchDocuments(documents, 'about').map(result => result.document.title)
+  ).toEqual(['About us']);
+});
@@ -0,0 +1,90 @@
+/** @jest-environment node */
+import path from 'path';
+import { Config, fields, collection, config, singleton } from '../src';
+import { validateContent } from '../src/cli/validate';
+import { createLocalFs } from '../src/reader/local-fs';
+import { expect, test } from '@jest/globals';
+// this whole thing is so the tests run with NODE_OPTIONS=--experimental-vm-modules and without it
+import { pkgDir } from '#dir';
+
+const localConfig = config({
+  storage: { kind: 'local' },
+  collections: {
+    authors: collection({
+      label: 'Authors',
+      path: 'authors/*',
+      slugField: 'name',
+      schema: {
+        name: fields.slug({ name: { label: 'Name' } }),
+      },
+    }),
+    books: collection({
+      label: 'Books',
+      path: 'books/*',
+      slugField: 'title',
+      schema: {
+        title: fields.slug({ name: { label: 'Title' } }),
+        author: fields.relationship({ label: 'Author', collection: 'authors' }),
+        contributors: fields.multiRelationship({
+          label: 'Contributors',
+          collection: 'authors',
+        }),
+      },
+    }),
+    other: collection({
+      label: 'Other',
+      path: 'other/*',
+      slugField: 'slug',
+      schema: {
+        slug: fields.text({ label: 'Slug' }),
+        date: fields.date({ label: 'Date' }),
+        integer: fields.integer({ label: 'Integer' }),
+        number: fields.number({ label: 'Number' }),
+        text: fields.text({ label: 'Text' }),
+        anotherText: fields.text({ label: 'Another Text' }),
+      },
+    }),
+  },
+  singletons: {
+    missing: singleton({
+      label: 'Missing',
+      schema: { title: fields.text({ label: 'Title' }) },
+    }),
+  },
+});
+
+test('validateContent', async () => {
+  const results = await validateContent(
+    localConfig as Config,
+    createLocalFs(path.join(pkgDir, 'test-data'))
+  );
+  expect(
+    results
+      .filter(result => result.errors.length)
+      .sort((a, b) => a.filepath.localeCompare(b.filepath))
+  ).toMatchInlineSnapshot(`
+    [
+      {
+        "errors": [
+          "contributors: Entry "missing" does not exist in collection "authors"",
+        ],
+        "filepath": "books/book-two.yaml",
+        "key": "books",
+        "kind": "collection",
+        "slug": "book-two",
+      },
+      {
+        "errors": [
+          "integer: Must be a number
+    number: Must be a number
+    text: Must be a string",
+        ],
+        "filepath": "other/invalid.yaml",
+        "key": "other",
+        "kind": "collection",
+        "slug": "invalid",
+      },
+    ]
+  `);
+  expect(results.length).toBe(6);
+});